@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { getApiUrl } from '@/utils/api';
+import { useRealtime } from '@/utils/realtime';
 import {
   Home,
   Map,
@@ -8,7 +9,10 @@ import {
   Menu,
   X,
   Leaf,
-  ShoppingCart
+  ShoppingCart,
+  Package,
+  MessageCircle,
+  Shield
 } from 'lucide-react';
 import { HomePage } from './components/pages/HomePage';
 import { SignupPage } from './components/pages/SignupPage';
@@ -18,10 +22,19 @@ import { MapPage } from './components/pages/MapPage';
 import { MarketplacePage, Product } from './components/pages/MarketplacePage';
 import { CommunityPage } from './components/pages/CommunityPage';
 import { CartPage } from './components/pages/CartPage';
+import { OrdersPage, type Order } from './components/pages/OrdersPage';
+import { SellerOrdersPage } from './components/pages/SellerOrdersPage';
+import { MyProductsPage } from './components/pages/MyProductsPage';
 import { ProductDetailPage } from './components/pages/ProductDetailPage';
+import { MessagesPage } from './components/pages/MessagesPage';
+import { VerifyEmailPage } from './components/pages/VerifyEmailPage';
+import { ResetPasswordPage } from './components/pages/ResetPasswordPage';
+import { AdminPage } from './components/pages/AdminPage';
+import NotificationBell from './components/ui/NotificationBell';
+import EmailVerificationBanner from './components/ui/EmailVerificationBanner';
 
 // Types
-type Route = 'home' | 'marketplace' | 'map' | 'community' | 'login' | 'signup' | 'cart' | 'profile' | 'product';
+type Route = 'home' | 'marketplace' | 'map' | 'community' | 'login' | 'signup' | 'cart' | 'orders' | 'sales' | 'my-products' | 'messages' | 'profile' | 'product' | 'verify-email' | 'reset-password' | 'admin';
 
 // URL path to Route mapping
 const pathToRoute: Record<string, Route> = {
@@ -33,8 +46,15 @@ const pathToRoute: Record<string, Route> = {
   '/login': 'login',
   '/signup': 'signup',
   '/cart': 'cart',
+  '/orders': 'orders',
+  '/sales': 'sales',
+  '/my-products': 'my-products',
+  '/messages': 'messages',
   '/profile': 'profile',
   '/product': 'product',
+  '/verify-email': 'verify-email',
+  '/reset-password': 'reset-password',
+  '/admin': 'admin',
 };
 
 const routeToPath: Record<Route, string> = {
@@ -45,24 +65,37 @@ const routeToPath: Record<Route, string> = {
   login: '/login',
   signup: '/signup',
   cart: '/cart',
+  orders: '/orders',
+  sales: '/sales',
+  'my-products': '/my-products',
+  messages: '/messages',
   profile: '/profile',
   product: '/product',
+  'verify-email': '/verify-email',
+  'reset-password': '/reset-password',
+  admin: '/admin',
 };
 
-function getRouteFromPath(): { route: Route; productId: string | null } {
+function getRouteFromPath(): { route: Route; productId: string | null; conversationId: string | null } {
   const path = window.location.pathname;
   const params = new URLSearchParams(window.location.search);
 
   // Handle product detail page
   if (path.startsWith('/product/')) {
     const productId = path.split('/product/')[1];
-    return { route: 'product', productId };
+    return { route: 'product', productId, conversationId: null };
+  }
+
+  // Handle an open message thread
+  if (path.startsWith('/messages/')) {
+    const conversationId = path.split('/messages/')[1];
+    return { route: 'messages', productId: null, conversationId };
   }
 
   const productId = params.get('id');
   const route = pathToRoute[path] || 'home';
 
-  return { route, productId: route === 'product' ? productId : null };
+  return { route, productId: route === 'product' ? productId : null, conversationId: null };
 }
 
 export interface CartItem {
@@ -74,21 +107,36 @@ export default function App() {
   const initialState = getRouteFromPath();
   const [currentRoute, setCurrentRoute] = useState<Route>(initialState.route);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const [user, setUser] = useState<{ name: string; id: string; email: string } | null>(null);
+  const [user, setUser] = useState<{
+    name: string;
+    id: string;
+    email: string;
+    emailVerified?: boolean;
+    // Staff permissions from /auth/me; undefined until loaded
+    permissions?: string[];
+  } | null>(null);
   const [sessionChecked, setSessionChecked] = useState(false);
 
   // Cart State (Lifted)
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
 
+  // Most recently placed order, highlighted on the orders page
+  const [lastOrderId, setLastOrderId] = useState<string | null>(null);
+
   // Product Detail State
   const [selectedProductId, setSelectedProductId] = useState<string | null>(initialState.productId);
 
+  // Messages State
+  const [selectedConversationId, setSelectedConversationId] = useState<string | null>(initialState.conversationId);
+  const [unreadMessages, setUnreadMessages] = useState(0);
+
   // Handle browser back/forward buttons
   useEffect(() => {
     const handlePopState = () => {
-      const { route, productId } = getRouteFromPath();
+      const { route, productId, conversationId } = getRouteFromPath();
       setCurrentRoute(route);
       setSelectedProductId(productId);
+      setSelectedConversationId(conversationId);
       setIsMobileMenuOpen(false);
     };
 
@@ -96,18 +144,26 @@ export default function App() {
     return () => window.removeEventListener('popstate', handlePopState);
   }, []);
 
-  const navigate = (route: Route, productId?: string) => {
+  // `id` is the product for 'product' and the open conversation for 'messages'
+  const navigate = (route: Route, id?: string) => {
     let path = routeToPath[route];
 
-    if (route === 'product' && productId) {
-      path = `/product/${productId}`;
-      setSelectedProductId(productId);
+    if (route === 'product' && id) {
+      path = `/product/${id}`;
+      setSelectedProductId(id);
     } else {
       setSelectedProductId(null);
     }
 
+    if (route === 'messages' && id) {
+      path = `/messages/${id}`;
+      setSelectedConversationId(id);
+    } else {
+      setSelectedConversationId(null);
+    }
+
     // Update browser history
-    window.history.pushState({ route, productId }, '', path);
+    window.history.pushState({ route, id }, '', path);
 
     setCurrentRoute(route);
     setIsMobileMenuOpen(false);
@@ -128,7 +184,13 @@ export default function App() {
         if (res.ok && data?.user) {
           const u = data.user as any;
           if (typeof u?.id === 'string' && typeof u?.name === 'string' && typeof u?.email === 'string') {
-            setUser({ id: u.id, name: u.name, email: u.email });
+            setUser({
+              id: u.id,
+              name: u.name,
+              email: u.email,
+              emailVerified: !!u.emailVerified,
+              permissions: Array.isArray(u.permissions) ? u.permissions : [],
+            });
           }
         } else {
           setUser(null);
@@ -146,6 +208,32 @@ export default function App() {
     return () => controller.abort();
   }, []);
 
+  // Login responses don't carry permissions, so fetch them once after signing in.
+  const userId = user?.id;
+  const permissionsLoaded = user?.permissions !== undefined;
+  useEffect(() => {
+    if (!userId || permissionsLoaded) return;
+    const controller = new AbortController();
+
+    (async () => {
+      try {
+        const res = await fetch(getApiUrl('auth/me'), { signal: controller.signal, cache: 'no-store' });
+        const data = (await res.json()) as any;
+        const permissions = res.ok && Array.isArray(data?.user?.permissions) ? data.user.permissions : [];
+        setUser((prev) => (prev && prev.id === userId ? { ...prev, permissions } : prev));
+      } catch (e: any) {
+        if (e?.name !== 'AbortError') {
+          setUser((prev) => (prev && prev.id === userId ? { ...prev, permissions: [] } : prev));
+        }
+      }
+    })();
+
+    return () => controller.abort();
+  }, [userId, permissionsLoaded]);
+
+  // Staff (moderators and admins) get a link to the admin console
+  const isStaff = !!user?.permissions?.some((p) => p === 'content:delete_any' || p === 'users:manage');
+
   const loadCart = async () => {
     if (!user) {
       setCartItems([]);
@@ -168,16 +256,19 @@ export default function App() {
   }, [user?.id]);
 
   // Cart Actions (database-backed)
-  const addToCart = async (product: Product) => {
+  const addToCart = async (product: Product, quantity?: number): Promise<boolean> => {
     if (!user) {
       navigate('signup');
-      return;
+      return false;
     }
+    // First add respects the seller's minimum order; later adds bump by one.
+    const inCart = cartItems.some((x) => x.product.id === product.id);
+    const qty = quantity ?? (inCart ? 1 : Math.max(1, product.min_order_quantity || 1));
     try {
       const res = await fetch(getApiUrl('cart/items'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ productId: product.id, quantity: 1 }),
+        body: JSON.stringify({ productId: product.id, quantity: qty }),
       });
       const data = (await res.json()) as any;
       if (!res.ok) throw new Error(data?.error ?? 'Không thêm vào giỏ hàng');
@@ -188,8 +279,10 @@ export default function App() {
         if (!existing) return [item, ...prev];
         return prev.map((x) => (x.product.id === item.product.id ? { ...x, quantity: item.quantity } : x));
       });
+      return true;
     } catch (e: any) {
       alert(e?.message ?? 'Có lỗi xảy ra');
+      return false;
     }
   };
 
@@ -198,7 +291,8 @@ export default function App() {
 
     const existing = cartItems.find((x) => x.product.id === productId);
     if (!existing) return;
-    const nextQty = Math.max(1, existing.quantity + delta);
+    const nextQty = Math.max(existing.product.min_order_quantity || 1, existing.quantity + delta);
+    if (nextQty === existing.quantity) return;
 
     const res = await fetch(getApiUrl(`cart/items/${productId}`), {
       method: 'PATCH',
@@ -206,7 +300,10 @@ export default function App() {
       body: JSON.stringify({ quantity: nextQty }),
     });
     const data = (await res.json()) as any;
-    if (!res.ok) return;
+    if (!res.ok) {
+      alert(data?.error ?? 'Không cập nhật được số lượng');
+      return;
+    }
 
     const item = data.item as CartItem;
     setCartItems((prev) => prev.map((x) => (x.product.id === productId ? item : x)));
@@ -218,6 +315,54 @@ export default function App() {
     setCartItems((prev) => prev.filter((x) => x.product.id !== productId));
   };
 
+  const loadUnreadMessages = async () => {
+    if (!user) {
+      setUnreadMessages(0);
+      return;
+    }
+    try {
+      const res = await fetch(getApiUrl('conversations/unread-count'), { cache: 'no-store' });
+      const data = (await res.json()) as any;
+      if (res.ok) setUnreadMessages(Number(data?.count) || 0);
+    } catch {
+      // Badge is best-effort
+    }
+  };
+
+  useEffect(() => {
+    loadUnreadMessages();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id]);
+
+  // Keep the unread badge live
+  useRealtime(['messages'], loadUnreadMessages, { enabled: !!user, onReconnect: loadUnreadMessages });
+
+  // Open (or reuse) the thread with the seller of a product
+  const contactSeller = async (product: Product) => {
+    if (!user) {
+      navigate('signup');
+      return;
+    }
+    try {
+      const res = await fetch(getApiUrl('conversations'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId: product.id }),
+      });
+      const data = (await res.json()) as any;
+      if (!res.ok) throw new Error(data?.error ?? 'Không mở được cuộc trò chuyện');
+      navigate('messages', data.conversation.id);
+    } catch (e: any) {
+      alert(e?.message ?? 'Có lỗi xảy ra');
+    }
+  };
+
+  const handleCheckoutComplete = (order: Order) => {
+    setCartItems([]);
+    setLastOrderId(order.id);
+    navigate('orders');
+  };
+
   const handleLogout = async () => {
     try {
       await fetch(getApiUrl('auth/logout'), { method: 'POST' });
@@ -226,6 +371,7 @@ export default function App() {
     }
     setUser(null);
     setCartItems([]);
+    setUnreadMessages(0);
     navigate('home');
   };
 
@@ -285,6 +431,35 @@ export default function App() {
 
             {user ? (
               <div className="flex items-center gap-3">
+                <button
+                  onClick={() => navigate('orders')}
+                  className={`p-2 transition-colors ${currentRoute === 'orders' ? 'text-emerald-600' : 'text-slate-600 hover:text-emerald-600'}`}
+                  title="Đơn mua"
+                >
+                  <Package size={20} />
+                </button>
+                <button
+                  onClick={() => navigate('messages')}
+                  className={`relative p-2 transition-colors ${currentRoute === 'messages' ? 'text-emerald-600' : 'text-slate-600 hover:text-emerald-600'}`}
+                  title="Tin nhắn"
+                >
+                  <MessageCircle size={20} />
+                  {unreadMessages > 0 && (
+                    <span className="absolute top-0 right-0 min-w-5 h-5 px-1 bg-red-500 text-white text-xs font-bold rounded-full flex items-center justify-center border-2 border-white">
+                      {unreadMessages > 99 ? '99+' : unreadMessages}
+                    </span>
+                  )}
+                </button>
+                {isStaff && (
+                  <button
+                    onClick={() => navigate('admin')}
+                    className={`p-2 transition-colors ${currentRoute === 'admin' ? 'text-emerald-600' : 'text-slate-600 hover:text-emerald-600'}`}
+                    title="Quản trị"
+                  >
+                    <Shield size={20} />
+                  </button>
+                )}
+                <NotificationBell key={user.id} onNavigate={(route) => navigate(route)} />
                 <button
                   onClick={() => navigate('profile')}
                   className="text-sm font-medium text-slate-700 truncate max-w-[140px] hover:text-emerald-600 transition-colors"
@@ -336,7 +511,17 @@ export default function App() {
             <hr />
             {user ? (
               <>
+                <button onClick={() => navigate('orders')} className="block w-full text-left py-2 font-medium text-slate-600">Đơn mua</button>
+                <button onClick={() => navigate('sales')} className="block w-full text-left py-2 font-medium text-slate-600">Đơn bán</button>
+                <button onClick={() => navigate('my-products')} className="block w-full text-left py-2 font-medium text-slate-600">Sản phẩm của tôi</button>
+                <button onClick={() => navigate('messages')} className="flex items-center justify-between w-full py-2 font-medium text-slate-600">
+                  Tin nhắn
+                  {unreadMessages > 0 && <span className="bg-red-500 text-white text-xs px-2 py-1 rounded-full">{unreadMessages}</span>}
+                </button>
                 <button onClick={() => navigate('profile')} className="block w-full text-left py-2 font-medium text-slate-600">Hồ sơ</button>
+                {isStaff && (
+                  <button onClick={() => navigate('admin')} className="block w-full text-left py-2 font-medium text-slate-600">Quản trị</button>
+                )}
                 <button onClick={handleLogout} className="block w-full text-left py-2 font-medium text-red-500">Đăng xuất ({user.name})</button>
               </>
             ) : sessionChecked ? (
@@ -351,6 +536,8 @@ export default function App() {
         )}
       </header>
 
+      {user && user.emailVerified === false && <EmailVerificationBanner email={user.email} />}
+
       {/* Main Content Area */}
       <main className="flex-1 bg-slate-50">
         {currentRoute === 'home' && <HomePage onNavigate={navigate} />}
@@ -376,6 +563,7 @@ export default function App() {
             user={user}
             onBack={() => window.history.back()}
             onAddToCart={addToCart}
+            onContactSeller={contactSeller}
             onLoginRequest={() => navigate('signup')}
           />
         )}
@@ -391,14 +579,34 @@ export default function App() {
             onUpdateQuantity={updateQuantity}
             onRemoveItem={removeFromCart}
             onNavigate={navigate}
+            onCheckoutComplete={handleCheckoutComplete}
           />
         )}
+        {currentRoute === 'orders' && user && (
+          <OrdersPage onNavigate={navigate} highlightOrderId={lastOrderId} />
+        )}
+        {currentRoute === 'orders' && !user && (
+          <div className="p-10 text-center text-slate-500">Vui lòng đăng nhập để xem đơn hàng.</div>
+        )}
         {currentRoute === 'login' && (
           <LoginPage
             onLoginSuccess={({ user }) => {
               setUser(user);
               navigate('home');
             }}
+            onForgotPassword={() => navigate('reset-password')}
+          />
+        )}
+        {currentRoute === 'reset-password' && (
+          <ResetPasswordPage onBackToLogin={() => navigate('login')} />
+        )}
+
+        {currentRoute === 'verify-email' && (
+          <VerifyEmailPage
+            onVerified={(verified) => {
+              setUser((prev) => (prev && prev.id === verified.id ? { ...prev, emailVerified: true } : prev));
+            }}
+            onContinue={() => navigate('home')}
           />
         )}
 
@@ -406,10 +614,51 @@ export default function App() {
           <ProfilePage
             user={user}
             onBack={() => navigate('home')}
-            onUserUpdated={(u) => setUser(u)}
+            onUserUpdated={(u) => setUser((prev) => ({ ...prev, ...u }))}
+            onOpenSales={() => navigate('sales')}
+            onOpenProducts={() => navigate('my-products')}
+            onMoveToCart={(product) => addToCart(product)}
+          />
+        )}
+
+        {currentRoute === 'sales' && user && (
+          <SellerOrdersPage onBack={() => navigate('profile')} />
+        )}
+
+        {currentRoute === 'sales' && !user && (
+          <div className="p-10 text-center text-slate-500">Vui lòng đăng nhập để xem đơn bán.</div>
+        )}
+
+        {currentRoute === 'my-products' && user && (
+          <MyProductsPage
+            onBack={() => navigate('profile')}
+            onViewProduct={(productId) => navigate('product', productId)}
           />
         )}
 
+        {currentRoute === 'my-products' && !user && (
+          <div className="p-10 text-center text-slate-500">Vui lòng đăng nhập để quản lý sản phẩm.</div>
+        )}
+        {currentRoute === 'messages' && user && (
+          <MessagesPage
+            user={user}
+            conversationId={selectedConversationId}
+            onSelectConversation={(conversationId) => navigate('messages', conversationId ?? undefined)}
+            onViewProduct={(productId) => navigate('product', productId)}
+            onUnreadChange={loadUnreadMessages}
+          />
+        )}
+        {currentRoute === 'messages' && !user && (
+          <div className="p-10 text-center text-slate-500">Vui lòng đăng nhập để xem tin nhắn.</div>
+        )}
+
+        {currentRoute === 'admin' && user && user.permissions && (
+          <AdminPage currentUserId={user.id} permissions={user.permissions} onBack={() => navigate('home')} />
+        )}
+        {currentRoute === 'admin' && !user && (
+          <div className="p-10 text-center text-slate-500">Vui lòng đăng nhập để vào trang quản trị.</div>
+        )}
+
         {currentRoute === 'profile' && !user && (
           <div className="p-10 text-center text-slate-500">Vui lòng đăng nhập để xem hồ sơ.</div>
         )}
@@ -0,0 +1,42 @@
+/**
+ * ============================================================================
+ * BACKFILL PRODUCT STOCK
+ * ============================================================================
+ *
+ * `Product.stockQuantity` defaults to 0, so after `prisma db push` every
+ * listing created before stock tracking looks sold out and checkout rejects
+ * it. Run this once after upgrading to give those listings a stock count;
+ * sellers can correct it from the edit form. The quantity is required: pick
+ * a real number, since an oversized one switches off oversell protection.
+ *
+ *   npm run stock:backfill -- 50
+ *
+ * Only active listings at 0 that have never had stock reserved are touched,
+ * so listings that sold out through checkout stay sold out.
+ */
+
+import 'dotenv/config';
+import { prisma } from '../src/prisma';
+
+async function main() {
+    const [arg] = process.argv.slice(2);
+    const quantity = Number(arg);
+    if (!Number.isInteger(quantity) || quantity <= 0 || quantity > 1_000_000_000) {
+        console.error('Usage: npm run stock:backfill -- <quantity>');
+        process.exit(1);
+    }
+
+    const updated = await prisma.product.updateMany({
+        where: { status: 'ACTIVE', stockQuantity: 0, stockReservations: { none: {} } },
+        data: { stockQuantity: quantity },
+    });
+
+    console.log(`Set stock to ${quantity} on ${updated.count} listing(s)`);
+}
+
+main()
+    .catch((err) => {
+        console.error(err);
+        process.exit(1);
+    })
+    .finally(() => prisma.$disconnect());
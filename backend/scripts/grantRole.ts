@@ -0,0 +1,42 @@
+/**
+ * ============================================================================
+ * GRANT / REVOKE STAFF ROLES
+ * ============================================================================
+ *
+ * Roles are normally managed from the admin API, which needs an admin in the
+ * first place. Use this to appoint the first one:
+ *
+ *   npm run user:role -- someone@example.com ADMIN
+ *   npm run user:role -- someone@example.com MODERATOR --revoke
+ */
+
+import 'dotenv/config';
+import { prisma } from '../src/prisma';
+import { ROLES, getUserRoles, isRole, setUserRoles } from '../src/lib/permissions';
+
+async function main() {
+    const [email, role, flag] = process.argv.slice(2);
+    if (!email || !role || !isRole(role) || (flag && flag !== '--revoke')) {
+        console.error(`Usage: npm run user:role -- <email> <${ROLES.join('|')}> [--revoke]`);
+        process.exit(1);
+    }
+
+    const user = await prisma.user.findUnique({ where: { email: email.toLowerCase().trim() }, select: { id: true } });
+    if (!user) {
+        console.error(`No user with email ${email}`);
+        process.exit(1);
+    }
+
+    const current = await getUserRoles(user.id);
+    const next = flag ? current.filter((r) => r !== role) : [...new Set([...current, role])];
+    await setUserRoles(user.id, next, null);
+
+    console.log(`${email}: ${next.length ? next.join(', ') : '(no roles)'}`);
+}
+
+main()
+    .catch((err) => {
+        console.error(err);
+        process.exit(1);
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,175 @@
+/**
+ * ============================================================================
+ * MOCK OIDC PROVIDER (development only)
+ * ============================================================================
+ *
+ * A tiny OpenID Connect provider for trying social login without a real
+ * Google/Zalo app. The sign-in page lets you type any email and name, and
+ * choose whether the email counts as verified. Codes and tokens live in
+ * memory; the signing key is regenerated on every start.
+ *
+ *   npm run oidc:mock
+ *   OIDC_PROVIDERS=[{"id":"mock","name":"Mock OIDC","issuer":"http://localhost:4455","clientId":"eco-local"}]
+ */
+
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+const PORT = Number(process.env.MOCK_OIDC_PORT ?? 4455);
+const ISSUER = `http://localhost:${PORT}`;
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_S = 5 * 60;
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+
+type MockUser = { sub: string; email: string; email_verified: boolean; name: string };
+
+const codes = new Map<
+    string,
+    { clientId: string; redirectUri: string; codeChallenge: string; nonce?: string; user: MockUser; expiresAt: number }
+>();
+const accessTokens = new Map<string, { user: MockUser; expiresAt: number }>();
+
+function base64url(buf: Buffer) {
+    return buf.toString('base64url');
+}
+
+function escapeHtml(value: string) {
+    return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function redirectWith(res: express.Response, redirectUri: string, params: Record<string, string>) {
+    const url = new URL(redirectUri);
+    for (const [k, v] of Object.entries(params)) url.searchParams.set(k, v);
+    res.redirect(url.toString());
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (_req, res) => {
+    res.json({
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        userinfo_endpoint: `${ISSUER}/userinfo`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        token_endpoint_auth_methods_supported: ['none', 'client_secret_basic', 'client_secret_post'],
+        scopes_supported: ['openid', 'email', 'profile'],
+        claims_supported: ['sub', 'email', 'email_verified', 'name'],
+    });
+});
+
+app.get('/jwks', (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }] });
+});
+
+app.get('/authorize', (req, res) => {
+    const q = req.query as Record<string, string | undefined>;
+    if (q.response_type !== 'code' || !q.client_id || !q.redirect_uri) {
+        return res.status(400).send('response_type=code, client_id and redirect_uri are required');
+    }
+    if (!q.code_challenge || q.code_challenge_method !== 'S256') {
+        return redirectWith(res, q.redirect_uri, {
+            error: 'invalid_request',
+            error_description: 'PKCE with S256 is required',
+            ...(q.state ? { state: q.state } : {}),
+        });
+    }
+
+    const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge']
+        .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(q[name] ?? '')}">`)
+        .join('');
+
+    res.type('html').send(`<!doctype html>
+<html lang="vi"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">
+<title>Mock OIDC</title>
+<style>body{font-family:system-ui,sans-serif;max-width:360px;margin:48px auto;padding:0 16px}label{display:block;margin:12px 0 4px}input[type=email],input[type=text]{width:100%;padding:8px;box-sizing:border-box}button{margin-top:16px;padding:8px 16px}</style>
+</head><body>
+<h2>Mock OIDC</h2>
+<p>Ứng dụng <b>${escapeHtml(q.client_id)}</b> muốn đăng nhập bằng tài khoản của bạn.</p>
+<form method="post" action="/authorize">${hidden}
+<label>Email</label><input type="email" name="email" required value="farmer@example.com">
+<label>Tên</label><input type="text" name="name" value="Nông dân thử nghiệm">
+<label><input type="checkbox" name="email_verified" value="1" checked> Email đã xác minh</label>
+<button name="decision" value="allow">Cho phép</button>
+<button name="decision" value="deny">Từ chối</button>
+</form>
+</body></html>`);
+});
+
+app.post('/authorize', (req, res) => {
+    const b = req.body as Record<string, string | undefined>;
+    if (!b.redirect_uri || !b.client_id || !b.code_challenge) return res.status(400).send('Missing parameters');
+    const state: Record<string, string> = b.state ? { state: b.state } : {};
+
+    if (b.decision !== 'allow') {
+        return redirectWith(res, b.redirect_uri, { error: 'access_denied', ...state });
+    }
+
+    const email = (b.email ?? '').trim().toLowerCase();
+    if (!email) return res.status(400).send('Email is required');
+
+    const code = base64url(crypto.randomBytes(24));
+    codes.set(code, {
+        clientId: b.client_id,
+        redirectUri: b.redirect_uri,
+        codeChallenge: b.code_challenge,
+        nonce: b.nonce || undefined,
+        user: {
+            // Stable per email, like a real provider's account id
+            sub: `mock-${crypto.createHash('sha256').update(email).digest('hex').slice(0, 16)}`,
+            email,
+            email_verified: b.email_verified === '1',
+            name: (b.name ?? '').trim() || email,
+        },
+        expiresAt: Date.now() + CODE_TTL_MS,
+    });
+    redirectWith(res, b.redirect_uri, { code, iss: ISSUER, ...state });
+});
+
+app.post('/token', (req, res) => {
+    const b = req.body as Record<string, string | undefined>;
+    const basic = req.header('authorization')?.match(/^Basic (.+)$/i)?.[1];
+    const clientId = basic ? decodeURIComponent(Buffer.from(basic, 'base64').toString().split(':')[0]) : b.client_id;
+
+    if (b.grant_type !== 'authorization_code' || !b.code) {
+        return res.status(400).json({ error: 'unsupported_grant_type' });
+    }
+    const entry = codes.get(b.code);
+    codes.delete(b.code);
+    if (!entry || entry.expiresAt < Date.now() || entry.clientId !== clientId || entry.redirectUri !== b.redirect_uri) {
+        return res.status(400).json({ error: 'invalid_grant' });
+    }
+    const challenge = base64url(crypto.createHash('sha256').update(b.code_verifier ?? '').digest());
+    if (challenge !== entry.codeChallenge) {
+        return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+
+    const idToken = jwt.sign(
+        { ...entry.user, ...(entry.nonce ? { nonce: entry.nonce } : {}) },
+        privateKey.export({ format: 'pem', type: 'pkcs8' }),
+        { algorithm: 'RS256', keyid: KEY_ID, issuer: ISSUER, audience: entry.clientId, expiresIn: TOKEN_TTL_S },
+    );
+    const accessToken = base64url(crypto.randomBytes(24));
+    accessTokens.set(accessToken, { user: entry.user, expiresAt: Date.now() + TOKEN_TTL_S * 1000 });
+
+    res.json({ access_token: accessToken, token_type: 'Bearer', expires_in: TOKEN_TTL_S, id_token: idToken });
+});
+
+app.get('/userinfo', (req, res) => {
+    const token = req.header('authorization')?.match(/^Bearer (.+)$/i)?.[1];
+    const entry = token ? accessTokens.get(token) : undefined;
+    if (!entry || entry.expiresAt < Date.now()) return res.status(401).json({ error: 'invalid_token' });
+    res.json(entry.user);
+});
+
+app.listen(PORT, () => {
+    console.log(`Mock OIDC provider at ${ISSUER}`);
+});
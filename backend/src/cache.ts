@@ -20,7 +20,7 @@ setInterval(() => {
 let redisClient: import('ioredis').Redis | null = null;
 let redisInitialized = false;
 
-async function getRedis(): Promise<import('ioredis').Redis | null> {
+export async function getRedis(): Promise<import('ioredis').Redis | null> {
     if (redisInitialized) return redisClient;
     redisInitialized = true;
 
@@ -115,12 +115,33 @@ export async function cacheDelete(pattern: string): Promise<void> {
 
 // Cache key generators
 export const CACHE_KEYS = {
-    productsList: (category?: string, search?: string) =>
-        `products:list:${category || 'all'}:${search || ''}`,
+    // Every query parameter is part of the key, in a stable order.
+    productsList: (params: Record<string, string | number | undefined>) =>
+        `products:list:${Object.keys(params)
+            .sort()
+            .map((k) => `${k}=${params[k] ?? ''}`)
+            .join('&')}`,
     productById: (id: string) => `products:id:${id}`,
-    productsInvalidate: 'products:',
+    productsSuggest: (query: string) => `products:suggest:${query}`,
+    productsListInvalidate: 'products:list:*',
+    productsSuggestInvalidate: 'products:suggest:*',
+    productsInvalidate: 'products:*',
 };
 
+/**
+ * Drop cached product lists plus the detail entry of one product, or every
+ * product entry when no id is given (e.g. stock moved on several products).
+ */
+export async function invalidateProductCache(productId?: string): Promise<void> {
+    if (!productId) {
+        await cacheDelete(CACHE_KEYS.productsInvalidate);
+        return;
+    }
+    await cacheDelete(CACHE_KEYS.productById(productId));
+    await cacheDelete(CACHE_KEYS.productsListInvalidate);
+    await cacheDelete(CACHE_KEYS.productsSuggestInvalidate);
+}
+
 // Cache TTL in seconds
 export const CACHE_TTL = {
     productsList: 60,      // 1 minute
@@ -12,10 +12,23 @@ import { authRouter } from './routes/auth';
 import { productsRouter } from './routes/products';
 import { healthRouter } from './routes/health';
 import { cartRouter } from './routes/cart';
+import { wishlistRouter } from './routes/wishlist';
+import { ordersRouter } from './routes/orders';
+import { reviewsRouter } from './routes/reviews';
+import { uploadsRouter } from './routes/uploads';
+import { messagesRouter } from './routes/messages';
+import { realtimeRouter } from './routes/realtime';
+import { notificationsRouter } from './routes/notifications';
 import { postsRouter } from './routes/posts';
 import { eventsRouter } from './routes/events';
 import { pollutionRouter } from './routes/pollution';
+import { reportsRouter } from './routes/reports';
+import { adminRouter } from './routes/admin';
 import { errorHandler, notFound } from './middleware/errors';
+import { startReservationSweeper } from './lib/inventory';
+import { startOutboxWorker } from './lib/mailer';
+import { startUploadSweeper } from './lib/images';
+import { indexMissingSearchText } from './lib/search';
 
 dotenv.config();
 
@@ -96,6 +109,17 @@ app.use((req, res, next) => {
 
 app.use(express.json({ limit: '1mb' }));
 
+// Uploaded images (local storage driver). File names never change once written,
+// so they can be cached for long. Mounted before the rate limit: a product page
+// loads many of them.
+if (env.STORAGE_DRIVER === 'local') {
+    app.use('/api/uploads', express.static(path.resolve(env.UPLOAD_DIR), {
+        maxAge: '30d',
+        immutable: true,
+        index: false,
+    }));
+}
+
 if (env.NODE_ENV !== 'test') {
     app.use(morgan(isProd ? 'combined' : 'dev'));
 }
@@ -125,9 +149,18 @@ app.use('/api', healthRouter);
 app.use('/api/auth', authRouter);
 app.use('/api/products', productsRouter);
 app.use('/api', cartRouter);
+app.use('/api', wishlistRouter);
+app.use('/api', ordersRouter);
+app.use('/api', reviewsRouter);
+app.use('/api', uploadsRouter);
+app.use('/api', messagesRouter);
+app.use('/api', realtimeRouter);
+app.use('/api', notificationsRouter);
 app.use('/api', postsRouter);
 app.use('/api', eventsRouter);
 app.use('/api', pollutionRouter);
+app.use('/api', reportsRouter);
+app.use('/api', adminRouter);
 
 // Serve static frontend in production
 if (isProd) {
@@ -158,6 +191,16 @@ app.use(errorHandler);
 app.listen(env.PORT, '0.0.0.0', () => {
     // eslint-disable-next-line no-console
     console.log(`Backend listening on http://localhost:${env.PORT}`);
+    startReservationSweeper();
+    startOutboxWorker();
+    startUploadSweeper();
+    indexMissingSearchText()
+        .then((count) => {
+            if (count > 0) console.log(`🔎 Indexed search text for ${count} product(s)`);
+        })
+        .catch((err) => {
+            console.error('Search text indexing failed:', err);
+        });
     if (isProd) {
         console.log('Running in PRODUCTION mode with enhanced security');
     }
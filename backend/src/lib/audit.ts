@@ -0,0 +1,94 @@
+/**
+ * ============================================================================
+ * AUDIT LOG
+ * ============================================================================
+ *
+ * Security-sensitive and administrative actions are written to `AuditEvent`:
+ * who did it, to what, from which IP, and what changed. The table is
+ * append-only; nothing in the app updates or deletes its rows.
+ *
+ * Events are recorded after the action has happened, so a failure to write
+ * one is logged rather than failing the request.
+ */
+
+import type { Request } from 'express';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { AuthenticatedRequest } from '../middleware/auth';
+import { getClientIp } from '../middleware/rateLimit';
+
+export const AUDIT_ACTIONS = [
+    // The user's own account
+    'profile.update',
+    'password.change',
+    'password.reset',
+    'totp.enable',
+    'totp.disable',
+    'totp.recovery_codes',
+    'passkey.add',
+    'passkey.remove',
+    // Content deleted by its owner or a moderator
+    'product.delete',
+    'post.delete',
+    'pollution.delete',
+    // Lifecycle updates by staff
+    'pollution.status',
+    // Staff actions from the admin console
+    'admin.user.roles',
+    'admin.user.suspend',
+    'admin.user.unsuspend',
+    'admin.user.unlock',
+    'admin.user.reset_totp',
+    'admin.content.hide',
+    'admin.content.unhide',
+    'admin.reports.resolve',
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+type JsonField = Prisma.InputJsonValue | null | undefined;
+
+export type AuditDiff = Record<string, { from: JsonField; to: JsonField }>;
+
+/**
+ * The listed fields whose value differs between `before` and `after`.
+ */
+export function diffFields<T extends Record<string, JsonField>>(before: T, after: T, keys: (keyof T & string)[]): AuditDiff {
+    const diff: AuditDiff = {};
+    for (const key of keys) {
+        if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+            diff[key] = { from: before[key] ?? null, to: after[key] ?? null };
+        }
+    }
+    return diff;
+}
+
+/**
+ * Record an action taken during `req`. The actor defaults to the signed-in
+ * user; pass `actorId` for flows without a session, such as password reset.
+ */
+export async function recordAuditEvent(
+    req: Request,
+    event: {
+        action: AuditAction;
+        actorId?: string | null;
+        targetType?: string;
+        targetId?: string;
+        metadata?: Prisma.InputJsonObject;
+    },
+): Promise<void> {
+    try {
+        await prisma.auditEvent.create({
+            data: {
+                actorId: event.actorId !== undefined ? event.actorId : ((req as AuthenticatedRequest).user?.id ?? null),
+                action: event.action,
+                targetType: event.targetType ?? null,
+                targetId: event.targetId ?? null,
+                ip: getClientIp(req),
+                userAgent: req.get('user-agent')?.slice(0, 500) ?? null,
+                metadata: event.metadata,
+            },
+        });
+    } catch (err: any) {
+        console.error(`Failed to record audit event ${event.action}:`, err?.message ?? err);
+    }
+}
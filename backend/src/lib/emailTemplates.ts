@@ -0,0 +1,184 @@
+/**
+ * ============================================================================
+ * EMAIL TEMPLATES
+ * ============================================================================
+ *
+ * Vietnamese transactional emails, each rendered to a subject, an HTML body
+ * and a plain-text body. Values are escaped here, so callers pass raw data.
+ */
+
+export interface EmailTemplates {
+    welcome: { name: string; appUrl: string };
+    'verify-email': { name: string; url: string; expiresInHours: number };
+    'password-reset': { name: string; url: string; expiresInMinutes: number };
+    'account-locked': { name: string; lockedMinutes: number; ip?: string };
+    'passkey-added': { name: string; passkeyName: string; ip?: string; url: string };
+    'new-order': {
+        sellerName: string;
+        buyerName: string;
+        orderCode: string;
+        items: { title: string; quantity: number; unit: string; lineTotalVnd: number }[];
+        subtotalVnd: number;
+        url: string;
+    };
+}
+
+export type EmailTemplateName = keyof EmailTemplates;
+
+// Templates whose body carries a live sign-in or verification token. The
+// outbox keeps their rendered body only until it is sent or given up on.
+export const TOKEN_TEMPLATES: readonly EmailTemplateName[] = ['verify-email', 'password-reset'];
+
+export interface RenderedEmail {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+const BRAND = 'Eco-Byproduct VN';
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+const formatVnd = (amount: number) => `${amount.toLocaleString('vi-VN')}đ`;
+
+function button(url: string, label: string): string {
+    return `<p style="margin:24px 0"><a href="${escapeHtml(url)}" style="background:#059669;color:#ffffff;padding:12px 20px;border-radius:8px;text-decoration:none;font-weight:600">${escapeHtml(label)}</a></p>`;
+}
+
+// Shared wrapper so every email looks the same.
+function layout(title: string, content: string): string {
+    return `<!DOCTYPE html>
+<html lang="vi">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:24px;background:#f8fafc;font-family:Arial,Helvetica,sans-serif;color:#0f172a">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px">
+<h1 style="margin:0 0 16px;font-size:20px;color:#059669">${BRAND}</h1>
+${content}
+<hr style="border:none;border-top:1px solid #e2e8f0;margin:32px 0 16px">
+<p style="font-size:12px;color:#64748b">Email này được gửi tự động, vui lòng không trả lời.</p>
+</div>
+</body>
+</html>`;
+}
+
+const TEXT_FOOTER = `\n\n--\n${BRAND}\nEmail này được gửi tự động, vui lòng không trả lời.`;
+
+type Renderers = { [K in EmailTemplateName]: (data: EmailTemplates[K]) => RenderedEmail };
+
+const renderers: Renderers = {
+    welcome: ({ name, appUrl }) => {
+        const subject = `Chào mừng bạn đến với ${BRAND}`;
+        return {
+            subject,
+            html: layout(
+                subject,
+                `<p>Xin chào ${escapeHtml(name)},</p>
+<p>Cảm ơn bạn đã đăng ký. Giờ bạn có thể mua bán phụ phẩm nông nghiệp, báo cáo điểm ô nhiễm và tham gia các hoạt động cộng đồng.</p>
+${button(appUrl, 'Bắt đầu khám phá')}`,
+            ),
+            text: `Xin chào ${name},\n\nCảm ơn bạn đã đăng ký. Giờ bạn có thể mua bán phụ phẩm nông nghiệp, báo cáo điểm ô nhiễm và tham gia các hoạt động cộng đồng.\n\n${appUrl}${TEXT_FOOTER}`,
+        };
+    },
+
+    'verify-email': ({ name, url, expiresInHours }) => {
+        const subject = 'Xác thực địa chỉ email của bạn';
+        return {
+            subject,
+            html: layout(
+                subject,
+                `<p>Xin chào ${escapeHtml(name)},</p>
+<p>Vui lòng xác nhận đây là địa chỉ email của bạn bằng cách bấm vào nút bên dưới.</p>
+${button(url, 'Xác thực email')}
+<p style="font-size:14px;color:#475569">Liên kết có hiệu lực trong ${expiresInHours} giờ. Nếu bạn không đăng ký tài khoản, hãy bỏ qua email này.</p>`,
+            ),
+            text: `Xin chào ${name},\n\nVui lòng xác nhận đây là địa chỉ email của bạn bằng cách mở liên kết sau:\n${url}\n\nLiên kết có hiệu lực trong ${expiresInHours} giờ. Nếu bạn không đăng ký tài khoản, hãy bỏ qua email này.${TEXT_FOOTER}`,
+        };
+    },
+
+    'password-reset': ({ name, url, expiresInMinutes }) => {
+        const subject = 'Đặt lại mật khẩu';
+        return {
+            subject,
+            html: layout(
+                subject,
+                `<p>Xin chào ${escapeHtml(name)},</p>
+<p>Chúng tôi nhận được yêu cầu đặt lại mật khẩu cho tài khoản của bạn.</p>
+${button(url, 'Đặt lại mật khẩu')}
+<p style="font-size:14px;color:#475569">Liên kết có hiệu lực trong ${expiresInMinutes} phút và chỉ dùng được một lần. Nếu bạn không yêu cầu, hãy bỏ qua email này — mật khẩu của bạn vẫn giữ nguyên.</p>`,
+            ),
+            text: `Xin chào ${name},\n\nChúng tôi nhận được yêu cầu đặt lại mật khẩu cho tài khoản của bạn. Mở liên kết sau để đặt mật khẩu mới:\n${url}\n\nLiên kết có hiệu lực trong ${expiresInMinutes} phút và chỉ dùng được một lần. Nếu bạn không yêu cầu, hãy bỏ qua email này — mật khẩu của bạn vẫn giữ nguyên.${TEXT_FOOTER}`,
+        };
+    },
+
+    'account-locked': ({ name, lockedMinutes, ip }) => {
+        const subject = 'Tài khoản của bạn đã bị tạm khóa';
+        const source = ip ? ` từ địa chỉ IP ${ip}` : '';
+        return {
+            subject,
+            html: layout(
+                subject,
+                `<p>Xin chào ${escapeHtml(name)},</p>
+<p>Có quá nhiều lần đăng nhập thất bại vào tài khoản của bạn${escapeHtml(source)}. Để bảo vệ tài khoản, chúng tôi đã tạm khóa đăng nhập trong <strong>${lockedMinutes} phút</strong>.</p>
+<p>Nếu đó không phải là bạn, hãy đổi mật khẩu ngay sau khi tài khoản được mở khóa và bật xác thực hai lớp.</p>`,
+            ),
+            text: `Xin chào ${name},\n\nCó quá nhiều lần đăng nhập thất bại vào tài khoản của bạn${source}. Để bảo vệ tài khoản, chúng tôi đã tạm khóa đăng nhập trong ${lockedMinutes} phút.\n\nNếu đó không phải là bạn, hãy đổi mật khẩu ngay sau khi tài khoản được mở khóa và bật xác thực hai lớp.${TEXT_FOOTER}`,
+        };
+    },
+
+    'passkey-added': ({ name, passkeyName, ip, url }) => {
+        const subject = 'Passkey mới đã được thêm vào tài khoản';
+        const source = ip ? ` từ địa chỉ IP ${ip}` : '';
+        return {
+            subject,
+            html: layout(
+                subject,
+                `<p>Xin chào ${escapeHtml(name)},</p>
+<p>Passkey <strong>${escapeHtml(passkeyName)}</strong> vừa được thêm vào tài khoản của bạn${escapeHtml(source)}. Passkey này có thể dùng để đăng nhập mà không cần mật khẩu.</p>
+<p>Nếu đó không phải là bạn, hãy xóa passkey này, đăng xuất khỏi các thiết bị khác và đổi mật khẩu ngay.</p>
+${button(url, 'Quản lý passkey')}`,
+            ),
+            text: `Xin chào ${name},
+
+Passkey "${passkeyName}" vừa được thêm vào tài khoản của bạn${source}. Passkey này có thể dùng để đăng nhập mà không cần mật khẩu.
+
+Nếu đó không phải là bạn, hãy xóa passkey này, đăng xuất khỏi các thiết bị khác và đổi mật khẩu ngay:
+${url}${TEXT_FOOTER}`,
+        };
+    },
+
+    'new-order': ({ sellerName, buyerName, orderCode, items, subtotalVnd, url }) => {
+        const subject = `Đơn hàng mới #${orderCode}`;
+        const rows = items
+            .map(
+                (i) =>
+                    `<tr><td style="padding:6px 0">${escapeHtml(i.title)}</td><td style="padding:6px 8px;text-align:right">${i.quantity} ${escapeHtml(i.unit)}</td><td style="padding:6px 0;text-align:right">${formatVnd(i.lineTotalVnd)}</td></tr>`,
+            )
+            .join('');
+        const lines = items.map((i) => `- ${i.title}: ${i.quantity} ${i.unit} · ${formatVnd(i.lineTotalVnd)}`).join('\n');
+        return {
+            subject,
+            html: layout(
+                subject,
+                `<p>Xin chào ${escapeHtml(sellerName)},</p>
+<p><strong>${escapeHtml(buyerName)}</strong> vừa đặt mua sản phẩm của bạn (đơn #${escapeHtml(orderCode)}).</p>
+<table style="width:100%;border-collapse:collapse;font-size:14px">${rows}
+<tr><td colspan="2" style="padding:8px 0;border-top:1px solid #e2e8f0;font-weight:600">Tổng cộng</td><td style="padding:8px 0;border-top:1px solid #e2e8f0;text-align:right;font-weight:600">${formatVnd(subtotalVnd)}</td></tr>
+</table>
+<p>Vui lòng xác nhận đơn hàng sớm để giữ hàng cho người mua.</p>
+${button(url, 'Xem đơn bán')}`,
+            ),
+            text: `Xin chào ${sellerName},\n\n${buyerName} vừa đặt mua sản phẩm của bạn (đơn #${orderCode}).\n\n${lines}\nTổng cộng: ${formatVnd(subtotalVnd)}\n\nVui lòng xác nhận đơn hàng sớm để giữ hàng cho người mua:\n${url}${TEXT_FOOTER}`,
+        };
+    },
+};
+
+export function renderEmail<T extends EmailTemplateName>(template: T, data: EmailTemplates[T]): RenderedEmail {
+    return (renderers[template] as (data: EmailTemplates[T]) => RenderedEmail)(data);
+}
@@ -0,0 +1,335 @@
+/**
+ * ============================================================================
+ * PRODUCT IMAGES & POLLUTION PHOTOS
+ * ============================================================================
+ *
+ * Uploads are decoded with sharp, auto-rotated from EXIF and re-encoded, which
+ * also strips metadata (camera GPS included). Every image is stored as WebP
+ * and JPEG at a few widths so the browser can pick one through `srcset`.
+ *
+ * Images are uploaded first (unattached, owned by the uploader) and attached
+ * to a product when the listing is created or edited with `image_ids`.
+ *
+ * Photos of a pollution report work the same way (`photo_ids`). Before the
+ * metadata is stripped we read when and where the photo was taken; both are
+ * kept in the database only, so the map can warn when a photo was taken far
+ * from the marker without publishing anyone's exact position.
+ *
+ * Uploads that are never attached (the form was abandoned) are deleted by a
+ * periodic sweep once they are UNATTACHED_TTL_MS old.
+ */
+
+import sharp from 'sharp';
+import exifReader from 'exif-reader';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { getStorage } from './storage';
+
+export const IMAGE_WIDTHS = [320, 640, 1280] as const;
+export const MAX_IMAGE_BYTES = 8 * 1024 * 1024; // 8 MB
+export const MAX_IMAGES_PER_PRODUCT = 8;
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif'];
+
+const CONTENT_TYPES = { webp: 'image/webp', jpeg: 'image/jpeg' } as const;
+const EXTENSIONS = { webp: 'webp', jpeg: 'jpg' } as const;
+
+export interface ImageVariant {
+    width: number;
+    format: keyof typeof CONTENT_TYPES;
+    key: string;
+}
+
+export class InvalidImageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidImageError';
+    }
+}
+
+/**
+ * Decode, resize and store every variant of one uploaded file.
+ */
+export async function processImage(
+    imageId: string,
+    input: Buffer,
+    folder: 'products' | 'pollution' = 'products',
+): Promise<{ width: number; height: number; variants: ImageVariant[] }> {
+    let base: sharp.Sharp;
+    let width: number;
+    let height: number;
+    try {
+        // Render once with EXIF orientation applied so width/height are the displayed ones.
+        const { data, info } = await sharp(input, { failOn: 'error' }).rotate().toBuffer({ resolveWithObject: true });
+        base = sharp(data);
+        width = info.width;
+        height = info.height;
+    } catch {
+        throw new InvalidImageError('Tệp không phải ảnh hợp lệ');
+    }
+
+    // Never upscale: widths above the original collapse into one original-size variant.
+    const widths = [...new Set(IMAGE_WIDTHS.map((w) => Math.min(w, width)))];
+
+    const storage = getStorage();
+    const variants: ImageVariant[] = [];
+    for (const w of widths) {
+        const resized = base.clone().resize({ width: w, withoutEnlargement: true });
+        for (const format of ['webp', 'jpeg'] as const) {
+            const body = format === 'webp'
+                ? await resized.clone().webp({ quality: 80 }).toBuffer()
+                : await resized.clone().jpeg({ quality: 82, mozjpeg: true }).toBuffer();
+            const key = `${folder}/${imageId}/${w}.${EXTENSIONS[format]}`;
+            await storage.put(key, body, CONTENT_TYPES[format]);
+            variants.push({ width: w, format, key });
+        }
+    }
+
+    return { width, height, variants };
+}
+
+export async function deleteImageFiles(variants: ImageVariant[]): Promise<void> {
+    const storage = getStorage();
+    await Promise.all(variants.map((v) => storage.delete(v.key).catch(() => undefined)));
+}
+
+function largestJpeg(variants: ImageVariant[]): ImageVariant | undefined {
+    return variants
+        .filter((v) => v.format === 'jpeg')
+        .sort((a, b) => b.width - a.width)[0];
+}
+
+export function toImageResponse(img: { id: string; width: number; height: number; variants: unknown }) {
+    const storage = getStorage();
+    const variants = img.variants as ImageVariant[];
+    const fallback = largestJpeg(variants);
+    return {
+        id: img.id,
+        url: fallback ? storage.url(fallback.key) : '',
+        width: img.width,
+        height: img.height,
+        variants: variants.map((v) => ({
+            url: storage.url(v.key),
+            width: v.width,
+            type: CONTENT_TYPES[v.format],
+        })),
+    };
+}
+
+/**
+ * Make `imageIds` (in order) the gallery of a product. Images must have been
+ * uploaded by `userId` and be either unattached or already on this product.
+ * Images dropped from the gallery are deleted; their variants are returned so
+ * the caller can remove the files once the transaction has committed.
+ * Returns the cover URL (first image) for `Product.imageUrl`.
+ */
+export async function setProductGallery(
+    tx: Prisma.TransactionClient,
+    args: { productId: string; userId: string; imageIds: string[] },
+): Promise<{ coverUrl: string | null; removed: ImageVariant[] }> {
+    const { productId, userId, imageIds } = args;
+    if (new Set(imageIds).size !== imageIds.length) {
+        throw new InvalidImageError('Ảnh bị trùng lặp');
+    }
+
+    const images = await tx.productImage.findMany({
+        where: { id: { in: imageIds } },
+        select: { id: true, uploaderId: true, productId: true, width: true, height: true, variants: true },
+    });
+    const usable = images.filter((i) => i.uploaderId === userId && (i.productId === null || i.productId === productId));
+    if (usable.length !== imageIds.length) {
+        throw new InvalidImageError('Ảnh không hợp lệ hoặc không thuộc về bạn');
+    }
+
+    const dropped = await tx.productImage.findMany({
+        where: { productId, id: { notIn: imageIds } },
+        select: { id: true, variants: true },
+    });
+    if (dropped.length > 0) {
+        await tx.productImage.deleteMany({ where: { id: { in: dropped.map((d) => d.id) } } });
+    }
+
+    for (const [position, id] of imageIds.entries()) {
+        await tx.productImage.update({ where: { id }, data: { productId, position } });
+    }
+
+    const cover = usable.find((i) => i.id === imageIds[0]);
+    return {
+        coverUrl: cover ? toImageResponse(cover).url : null,
+        removed: dropped.flatMap((d) => d.variants as unknown as ImageVariant[]),
+    };
+}
+
+// ============ POLLUTION PHOTOS ============
+
+export const MAX_PHOTOS_PER_REPORT = 6;
+// Photos taken further than this from their marker are flagged on the map.
+export const PHOTO_LOCATION_WARNING_M = 1000;
+// EXIF times carry no zone unless the camera wrote OffsetTimeOriginal; assume local time here.
+const DEFAULT_EXIF_OFFSET = '+07:00';
+
+export interface PhotoEvidence {
+    takenAt: Date | null;
+    lat: number | null;
+    lng: number | null;
+}
+
+function dmsToDegrees(dms: number[] | undefined, ref: string | undefined, negativeRef: string): number | null {
+    if (!dms || dms.length < 3 || dms.some((n) => !Number.isFinite(n))) return null;
+    const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+    return ref?.toUpperCase() === negativeRef ? -degrees : degrees;
+}
+
+/**
+ * When and where the camera says the photo was taken. Missing or unreadable
+ * EXIF gives nulls, never an error: plenty of phones and apps drop it.
+ */
+export async function readPhotoEvidence(input: Buffer): Promise<PhotoEvidence> {
+    const none: PhotoEvidence = { takenAt: null, lat: null, lng: null };
+    let exif: ReturnType<typeof exifReader>;
+    try {
+        const { exif: raw } = await sharp(input).metadata();
+        if (!raw) return none;
+        exif = exifReader(raw);
+    } catch {
+        return none;
+    }
+
+    // exif-reader reads the zone-less timestamp as UTC; shift it by the real offset.
+    let takenAt: Date | null = null;
+    const original = exif.Photo?.DateTimeOriginal ?? exif.Image?.DateTime;
+    if (original instanceof Date && !Number.isNaN(original.getTime())) {
+        const offset = /^[+-]\d{2}:\d{2}$/.test(exif.Photo?.OffsetTimeOriginal ?? '')
+            ? exif.Photo!.OffsetTimeOriginal!
+            : DEFAULT_EXIF_OFFSET;
+        takenAt = new Date(`${original.toISOString().slice(0, 19)}${offset}`);
+    }
+
+    const gps = exif.GPSInfo;
+    const lat = dmsToDegrees(gps?.GPSLatitude, gps?.GPSLatitudeRef, 'S');
+    const lng = dmsToDegrees(gps?.GPSLongitude, gps?.GPSLongitudeRef, 'W');
+    // 0,0 is what some apps write when there was no fix
+    const hasLocation = lat !== null && lng !== null && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && !(lat === 0 && lng === 0);
+
+    return { takenAt, lat: hasLocation ? lat : null, lng: hasLocation ? lng : null };
+}
+
+/**
+ * Great-circle distance in metres.
+ */
+export function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+    const rad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = rad(b.lat - a.lat);
+    const dLng = rad(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * 6_371_000 * Math.asin(Math.sqrt(h));
+}
+
+type StoredPhoto = {
+    id: string;
+    width: number;
+    height: number;
+    variants: unknown;
+    takenAt: Date | null;
+    lat: number | null;
+    lng: number | null;
+};
+
+/**
+ * A photo as shown with its marker: when it was taken and how far from the
+ * marker, but not the coordinates themselves.
+ */
+export function toPollutionPhotoResponse(photo: StoredPhoto, marker: { lat: number; lng: number }) {
+    const distance = photo.lat !== null && photo.lng !== null ? Math.round(distanceMeters(marker, { lat: photo.lat, lng: photo.lng })) : null;
+    return {
+        ...toImageResponse(photo),
+        taken_at: photo.takenAt?.toISOString() ?? null,
+        distance_m: distance,
+        far_from_marker: distance !== null && distance > PHOTO_LOCATION_WARNING_M,
+    };
+}
+
+/**
+ * Attach freshly uploaded photos (in order) to a new report. They must have
+ * been uploaded by `userId` and not be attached to anything yet.
+ */
+export async function attachPollutionPhotos(
+    tx: Prisma.TransactionClient,
+    args: { reportId: string; userId: string; photoIds: string[] },
+): Promise<void> {
+    const { reportId, userId, photoIds } = args;
+    if (new Set(photoIds).size !== photoIds.length) {
+        throw new InvalidImageError('Ảnh bị trùng lặp');
+    }
+
+    const usable = await tx.pollutionPhoto.count({
+        where: { id: { in: photoIds }, uploaderId: userId, reportId: null },
+    });
+    if (usable !== photoIds.length) {
+        throw new InvalidImageError('Ảnh không hợp lệ hoặc không thuộc về bạn');
+    }
+
+    for (const [position, id] of photoIds.entries()) {
+        await tx.pollutionPhoto.update({ where: { id }, data: { reportId, position } });
+    }
+}
+
+// ============ UNATTACHED UPLOADS ============
+
+// How long an upload may stay unattached before it is deleted.
+export const UNATTACHED_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const SWEEP_BATCH_SIZE = 200;
+
+/**
+ * Delete product images and pollution photos that were uploaded more than
+ * UNATTACHED_TTL_MS ago and never attached, files included. Each row is
+ * deleted only if still unattached, so a form submitted during the sweep
+ * keeps its images. Returns the number deleted.
+ */
+export async function deleteUnattachedUploads(): Promise<number> {
+    const cutoff = new Date(Date.now() - UNATTACHED_TTL_MS);
+    const stale = { createdAt: { lt: cutoff } };
+    const [images, photos] = await Promise.all([
+        prisma.productImage.findMany({
+            where: { ...stale, productId: null },
+            select: { id: true, variants: true },
+            take: SWEEP_BATCH_SIZE,
+        }),
+        prisma.pollutionPhoto.findMany({
+            where: { ...stale, reportId: null },
+            select: { id: true, variants: true },
+            take: SWEEP_BATCH_SIZE,
+        }),
+    ]);
+
+    let deleted = 0;
+    for (const image of images) {
+        const { count } = await prisma.productImage.deleteMany({ where: { id: image.id, productId: null } });
+        if (count === 0) continue;
+        await deleteImageFiles(image.variants as unknown as ImageVariant[]);
+        deleted++;
+    }
+    for (const photo of photos) {
+        const { count } = await prisma.pollutionPhoto.deleteMany({ where: { id: photo.id, reportId: null } });
+        if (count === 0) continue;
+        await deleteImageFiles(photo.variants as unknown as ImageVariant[]);
+        deleted++;
+    }
+    return deleted;
+}
+
+/**
+ * Periodically sweep unattached uploads.
+ */
+export function startUploadSweeper(): void {
+    setInterval(() => {
+        deleteUnattachedUploads()
+            .then((count) => {
+                if (count > 0) console.log(`🧹 Deleted ${count} unattached upload(s)`);
+            })
+            .catch((err) => {
+                console.error('Upload sweep failed:', err);
+            });
+    }, SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,181 @@
+/**
+ * ============================================================================
+ * INVENTORY & STOCK RESERVATION
+ * ============================================================================
+ *
+ * `Product.stockQuantity` is the quantity still available for sale.
+ *
+ * - Checkout reserves stock: the quantity is decremented atomically and a
+ *   StockReservation (ACTIVE) is recorded against the seller's sub-order.
+ * - Seller confirmation commits the reservation (stock stays decremented).
+ * - Cancellation releases it (stock is given back).
+ * - Reservations the seller never confirmed expire; the sweeper releases
+ *   them and cancels the still-pending sub-order.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { invalidateProductCache } from '../cache';
+
+// How long a seller has to confirm an order before its stock is released.
+export const RESERVATION_TTL_MS = 48 * 60 * 60 * 1000; // 48 hours
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+export class InsufficientStockError extends Error {
+    constructor(
+        public readonly productId: string,
+        public readonly title: string,
+        public readonly available: number,
+        public readonly unit: string,
+    ) {
+        super(`Sản phẩm "${title}" chỉ còn ${available} ${unit}`);
+        this.name = 'InsufficientStockError';
+    }
+}
+
+export class ProductUnavailableError extends Error {
+    constructor(
+        public readonly productId: string,
+        public readonly title: string,
+    ) {
+        super(`Sản phẩm "${title}" hiện không còn bán`);
+        this.name = 'ProductUnavailableError';
+    }
+}
+
+/**
+ * Check a desired cart quantity against the product's stock and minimum order.
+ * Returns an error message (Vietnamese, user-facing) or null when acceptable.
+ */
+export function validateOrderQuantity(
+    product: { status: string; hiddenAt: Date | null; stockQuantity: number; minOrderQuantity: number; unit: string },
+    quantity: number,
+): string | null {
+    if (product.status === 'DRAFT' || product.status === 'ARCHIVED' || product.hiddenAt) {
+        return 'Sản phẩm hiện không còn bán';
+    }
+    if (product.status === 'SOLD_OUT' || product.stockQuantity <= 0) return 'Sản phẩm đã hết hàng';
+    if (quantity < product.minOrderQuantity) {
+        return `Số lượng đặt tối thiểu là ${product.minOrderQuantity} ${product.unit}`;
+    }
+    if (quantity > product.stockQuantity) {
+        return `Chỉ còn lại ${product.stockQuantity} ${product.unit}`;
+    }
+    return null;
+}
+
+/**
+ * Reserve stock for one sub-order line. Must run inside a transaction so a
+ * failure rolls back the whole checkout.
+ */
+export async function reserveStock(
+    tx: Prisma.TransactionClient,
+    args: { productId: string; sellerOrderId: string; quantity: number },
+): Promise<void> {
+    // Conditional decrement: never lets stock go negative under concurrent checkouts.
+    const result = await tx.product.updateMany({
+        where: { id: args.productId, stockQuantity: { gte: args.quantity } },
+        data: { stockQuantity: { decrement: args.quantity } },
+    });
+
+    if (result.count === 0) {
+        const product = await tx.product.findUnique({
+            where: { id: args.productId },
+            select: { title: true, stockQuantity: true, unit: true },
+        });
+        throw new InsufficientStockError(
+            args.productId,
+            product?.title ?? args.productId,
+            Math.max(0, product?.stockQuantity ?? 0),
+            product?.unit ?? '',
+        );
+    }
+
+    await tx.stockReservation.create({
+        data: {
+            productId: args.productId,
+            sellerOrderId: args.sellerOrderId,
+            quantity: args.quantity,
+            expiresAt: new Date(Date.now() + RESERVATION_TTL_MS),
+        },
+    });
+}
+
+/**
+ * Seller confirmed the sub-order: the reserved stock is now sold.
+ */
+export async function commitReservations(tx: Prisma.TransactionClient, sellerOrderId: string): Promise<void> {
+    await tx.stockReservation.updateMany({
+        where: { sellerOrderId, status: 'ACTIVE' },
+        data: { status: 'COMMITTED' },
+    });
+}
+
+/**
+ * Sub-order cancelled: give every held or committed quantity back to the product.
+ */
+export async function releaseReservations(tx: Prisma.TransactionClient, sellerOrderId: string): Promise<void> {
+    const reservations = await tx.stockReservation.findMany({
+        where: { sellerOrderId, status: { in: ['ACTIVE', 'COMMITTED'] } },
+        select: { id: true, productId: true, quantity: true },
+    });
+
+    for (const r of reservations) {
+        await tx.product.update({
+            where: { id: r.productId },
+            data: { stockQuantity: { increment: r.quantity } },
+        });
+        await tx.stockReservation.update({
+            where: { id: r.id },
+            data: { status: 'RELEASED' },
+        });
+    }
+}
+
+/**
+ * Release reservations past their expiry and cancel the sub-orders that were
+ * never confirmed. Returns the number of sub-orders cancelled.
+ */
+export async function releaseExpiredReservations(): Promise<number> {
+    const expired = await prisma.stockReservation.findMany({
+        where: { status: 'ACTIVE', expiresAt: { lt: new Date() } },
+        select: { sellerOrderId: true },
+        distinct: ['sellerOrderId'],
+        take: 200,
+    });
+
+    let cancelled = 0;
+    for (const { sellerOrderId } of expired) {
+        const didCancel = await prisma.$transaction(async (tx) => {
+            const result = await tx.sellerOrder.updateMany({
+                where: { id: sellerOrderId, status: 'PENDING' },
+                data: { status: 'CANCELLED', cancelledAt: new Date() },
+            });
+            if (result.count === 0) return false;
+            await releaseReservations(tx, sellerOrderId);
+            return true;
+        });
+        if (didCancel) cancelled++;
+    }
+
+    if (cancelled > 0) {
+        await invalidateProductCache();
+    }
+    return cancelled;
+}
+
+/**
+ * Periodically sweep expired reservations.
+ */
+export function startReservationSweeper(): void {
+    setInterval(() => {
+        releaseExpiredReservations()
+            .then((count) => {
+                if (count > 0) console.log(`📦 Released stock for ${count} expired order(s)`);
+            })
+            .catch((err) => {
+                console.error('Reservation sweep failed:', err);
+            });
+    }, SWEEP_INTERVAL_MS);
+}
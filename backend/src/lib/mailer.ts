@@ -0,0 +1,214 @@
+/**
+ * ============================================================================
+ * MAILER
+ * ============================================================================
+ *
+ * Routes call `queueEmail()` with a template from emailTemplates.ts. The email
+ * is rendered and stored in the `EmailOutbox` table first, then sent right
+ * away; if sending fails the row stays PENDING and the outbox worker retries
+ * it with exponential backoff, so a flaky SMTP server never loses mail.
+ *
+ * Tokens are stored only as hashes, so once an email carrying one (see
+ * TOKEN_TEMPLATES) is SENT or FAILED its body is blanked in the outbox.
+ *
+ * Transports (MAIL_TRANSPORT in env.ts):
+ *   - smtp:    real delivery through SMTP_URL
+ *   - file:    writes each message as an .eml file under MAIL_DIR
+ *   - console: prints the text version to the server log (local development)
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { prisma } from '../prisma';
+import { getEnv } from '../env';
+import { TOKEN_TEMPLATES, renderEmail, type EmailTemplateName, type EmailTemplates } from './emailTemplates';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+}
+
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
+
+export class SmtpTransport implements MailTransport {
+    private readonly transporter;
+
+    constructor(
+        smtpUrl: string,
+        private readonly from: string,
+    ) {
+        this.transporter = nodemailer.createTransport(smtpUrl);
+    }
+
+    async send(message: MailMessage): Promise<void> {
+        await this.transporter.sendMail({ from: this.from, ...message });
+    }
+}
+
+export class FileTransport implements MailTransport {
+    private readonly transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+    constructor(
+        private readonly dir: string,
+        private readonly from: string,
+    ) {}
+
+    async send(message: MailMessage): Promise<void> {
+        const info = await this.transporter.sendMail({ from: this.from, ...message });
+        await fs.mkdir(this.dir, { recursive: true });
+        const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+        await fs.writeFile(path.join(this.dir, `${Date.now()}-${safeTo}.eml`), info.message as Buffer);
+    }
+}
+
+export class ConsoleTransport implements MailTransport {
+    async send(message: MailMessage): Promise<void> {
+        console.log(`📧 To: ${message.to}\n   Subject: ${message.subject}\n\n${message.text}\n`);
+    }
+}
+
+let transport: MailTransport | undefined;
+
+export function getMailTransport(): MailTransport {
+    if (!transport) {
+        const env = getEnv();
+        switch (env.MAIL_TRANSPORT) {
+            case 'smtp':
+                if (!env.SMTP_URL) throw new Error('SMTP_URL is required when MAIL_TRANSPORT=smtp');
+                transport = new SmtpTransport(env.SMTP_URL, env.MAIL_FROM);
+                break;
+            case 'file':
+                transport = new FileTransport(path.resolve(env.MAIL_DIR), env.MAIL_FROM);
+                break;
+            default:
+                transport = new ConsoleTransport();
+        }
+    }
+    return transport;
+}
+
+// ============================================
+// OUTBOX
+// ============================================
+
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 60_000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+// While a row is being sent it is pushed this far into the future, so another
+// worker (or instance) doesn't pick it up at the same time.
+const SEND_LEASE_MS = 2 * 60 * 1000;
+const WORKER_INTERVAL_MS = 30_000;
+const BATCH_SIZE = 20;
+
+type OutboxRow = {
+    id: string;
+    to: string;
+    template: string;
+    subject: string;
+    html: string;
+    text: string;
+    attempts: number;
+    nextAttemptAt: Date;
+};
+
+function retryDelayMs(attempts: number): number {
+    return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Try to send one outbox row. Returns false if another worker claimed it first.
+ */
+async function deliver(row: OutboxRow): Promise<boolean> {
+    const claimed = await prisma.emailOutbox.updateMany({
+        where: { id: row.id, status: 'PENDING', nextAttemptAt: row.nextAttemptAt },
+        data: { nextAttemptAt: new Date(Date.now() + SEND_LEASE_MS) },
+    });
+    if (claimed.count === 0) return false;
+
+    const attempts = row.attempts + 1;
+    // Done with the body once it is out (or will never be)
+    const blank = (TOKEN_TEMPLATES as readonly string[]).includes(row.template) ? { html: '', text: '' } : {};
+    try {
+        await getMailTransport().send({ to: row.to, subject: row.subject, html: row.html, text: row.text });
+        await prisma.emailOutbox.update({
+            where: { id: row.id },
+            data: { status: 'SENT', sentAt: new Date(), attempts, lastError: null, ...blank },
+        });
+    } catch (err: any) {
+        const giveUp = attempts >= MAX_ATTEMPTS;
+        await prisma.emailOutbox.update({
+            where: { id: row.id },
+            data: {
+                status: giveUp ? 'FAILED' : 'PENDING',
+                ...(giveUp ? blank : {}),
+                attempts,
+                lastError: String(err?.message ?? err).slice(0, 1000),
+                nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)),
+            },
+        });
+        console.error(`Email ${row.id} to ${row.to} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, err?.message ?? err);
+    }
+    return true;
+}
+
+/**
+ * Render a template, store it in the outbox and attempt delivery immediately.
+ * Never throws: a failed email must not fail the request that caused it.
+ */
+export async function queueEmail<T extends EmailTemplateName>(
+    to: string,
+    template: T,
+    data: EmailTemplates[T],
+): Promise<void> {
+    try {
+        const rendered = renderEmail(template, data);
+        const row = await prisma.emailOutbox.create({
+            data: { to, template, ...rendered },
+        });
+        await deliver(row);
+    } catch (err: any) {
+        console.error(`Failed to queue "${template}" email:`, err?.message ?? err);
+    }
+}
+
+/**
+ * Send every due PENDING email. Returns how many were attempted.
+ */
+export async function processOutbox(): Promise<number> {
+    const due = await prisma.emailOutbox.findMany({
+        where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: BATCH_SIZE,
+    });
+
+    let attempted = 0;
+    for (const row of due) {
+        if (await deliver(row)) attempted++;
+    }
+    return attempted;
+}
+
+/**
+ * Periodically retry emails that could not be sent.
+ */
+export function startOutboxWorker(): void {
+    // Rows finished before bodies were blanked on completion
+    prisma.emailOutbox
+        .updateMany({
+            where: { template: { in: [...TOKEN_TEMPLATES] }, status: { in: ['SENT', 'FAILED'] }, NOT: { text: '' } },
+            data: { html: '', text: '' },
+        })
+        .catch((err) => {
+            console.error('Email outbox cleanup failed:', err);
+        });
+    setInterval(() => {
+        processOutbox().catch((err) => {
+            console.error('Email outbox run failed:', err);
+        });
+    }, WORKER_INTERVAL_MS);
+}
@@ -0,0 +1,274 @@
+/**
+ * ============================================================================
+ * CONTENT MODERATION
+ * ============================================================================
+ *
+ * Moderators hide content instead of deleting it: hidden rows (`hiddenAt`)
+ * drop out of public listings but stay in the database, so the decision can
+ * be reviewed and undone. Live viewers are told the item is gone; unhiding
+ * only shows up on their next load.
+ *
+ * Users flag content with a `ContentReport`. Once AUTO_HIDE_THRESHOLD people
+ * have open reports on the same item it is hidden until a moderator handles
+ * the reports. Every change is written to `ModerationAction`.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { invalidateProductCache } from '../cache';
+import { publish } from './realtime';
+
+export const CONTENT_TYPES = ['products', 'posts', 'events', 'pollution'] as const;
+export type ContentType = (typeof CONTENT_TYPES)[number];
+
+// Events are published by staff, so there is nothing for users to report.
+export const REPORTABLE_TYPES = ['products', 'posts', 'pollution'] as const;
+export type ReportableType = (typeof REPORTABLE_TYPES)[number];
+
+export const REPORT_REASONS = ['SPAM', 'SCAM', 'OFFENSIVE', 'MISLEADING', 'OTHER'] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+// Distinct reporters with open reports needed to hide an item automatically.
+export const AUTO_HIDE_THRESHOLD = 3;
+
+export type ModerationActionType = 'AUTO_HIDE' | 'HIDE' | 'UNHIDE' | 'REMOVE' | 'RESOLVE' | 'DISMISS';
+
+/**
+ * One row of an admin table, whatever the content type.
+ */
+export type ContentSummary = {
+    id: string;
+    title: string;
+    author_id: string | null;
+    author_name: string | null;
+    status: string | null;
+    hidden: boolean;
+    created_at: string;
+};
+
+type ContentQuery = { q?: string; ids?: string[]; take: number };
+
+const contains = (q: string) => ({ contains: q, mode: 'insensitive' as const });
+
+const CONTENT_LOADERS: Record<ContentType, (query: ContentQuery) => Promise<ContentSummary[]>> = {
+    products: async ({ q, ids, take }) => {
+        const where: Prisma.ProductWhereInput = q ? { OR: [{ title: contains(q) }, { seller: { email: contains(q) } }] } : {};
+        if (ids) where.id = { in: ids };
+        const rows = await prisma.product.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            take,
+            include: { seller: { select: { name: true } } },
+        });
+        return rows.map((p) => ({
+            id: p.id,
+            title: p.title,
+            author_id: p.sellerId,
+            author_name: p.seller.name,
+            status: p.status,
+            hidden: !!p.hiddenAt,
+            created_at: p.createdAt.toISOString(),
+        }));
+    },
+    posts: async ({ q, ids, take }) => {
+        const where: Prisma.PostWhereInput = q ? { OR: [{ content: contains(q) }, { author: { email: contains(q) } }] } : {};
+        if (ids) where.id = { in: ids };
+        const rows = await prisma.post.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            take,
+            include: { author: { select: { name: true } } },
+        });
+        return rows.map((p) => ({
+            id: p.id,
+            title: p.content.slice(0, 200),
+            author_id: p.authorId,
+            author_name: p.author.name,
+            status: null,
+            hidden: !!p.hiddenAt,
+            created_at: p.createdAt.toISOString(),
+        }));
+    },
+    events: async ({ q, ids, take }) => {
+        const where: Prisma.EventWhereInput = q ? { OR: [{ title: contains(q) }, { location: contains(q) }] } : {};
+        if (ids) where.id = { in: ids };
+        const rows = await prisma.event.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            take,
+            include: { creator: { select: { name: true } } },
+        });
+        return rows.map((e) => ({
+            id: e.id,
+            title: e.title,
+            author_id: e.creatorId,
+            author_name: e.creator?.name ?? e.organizer,
+            status: null,
+            hidden: !!e.hiddenAt,
+            created_at: e.createdAt.toISOString(),
+        }));
+    },
+    pollution: async ({ q, ids, take }) => {
+        const where: Prisma.PollutionReportWhereInput = q
+            ? { OR: [{ description: contains(q) }, { owner: { email: contains(q) } }] }
+            : {};
+        if (ids) where.id = { in: ids };
+        const rows = await prisma.pollutionReport.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            take,
+            include: { owner: { select: { name: true } } },
+        });
+        return rows.map((r) => ({
+            id: r.id,
+            title: r.description.slice(0, 200),
+            author_id: r.ownerId,
+            // Staff see who filed anonymous reports; the public map doesn't
+            author_name: r.owner.name,
+            status: `${r.type} · ${r.severity}/5 · ${r.status}`,
+            hidden: !!r.hiddenAt,
+            created_at: r.createdAt.toISOString(),
+        }));
+    },
+};
+
+/**
+ * Newest first, optionally filtered by free text or restricted to `ids`.
+ */
+export function listContent(type: ContentType, query: ContentQuery): Promise<ContentSummary[]> {
+    return CONTENT_LOADERS[type](query);
+}
+
+export async function getContentSummary(type: ContentType, id: string): Promise<ContentSummary | null> {
+    const [summary] = await listContent(type, { ids: [id], take: 1 });
+    return summary ?? null;
+}
+
+/**
+ * Hide or unhide one item. `found` is false if it doesn't exist; `changed` is
+ * true only when this call flipped its visibility, so concurrent callers can
+ * tell which of them actually hid it.
+ */
+export async function setContentHidden(
+    type: ContentType,
+    id: string,
+    hidden: boolean,
+): Promise<{ found: boolean; changed: boolean }> {
+    const data = { hiddenAt: hidden ? new Date() : null };
+    // Re-hiding keeps the original time; unhiding only touches hidden rows
+    const where = hidden ? { id, hiddenAt: null } : { id, hiddenAt: { not: null } };
+
+    let found: boolean;
+    let changed: boolean;
+    switch (type) {
+        case 'products':
+            found = (await prisma.product.count({ where: { id } })) === 1;
+            changed = (await prisma.product.updateMany({ where, data })).count === 1;
+            await invalidateProductCache(id);
+            break;
+        case 'posts':
+            found = (await prisma.post.count({ where: { id } })) === 1;
+            changed = (await prisma.post.updateMany({ where, data })).count === 1;
+            if (changed && hidden) await publish({ topic: 'posts', type: 'post.deleted', data: { post_id: id } });
+            break;
+        case 'events':
+            found = (await prisma.event.count({ where: { id } })) === 1;
+            changed = (await prisma.event.updateMany({ where, data })).count === 1;
+            break;
+        case 'pollution':
+            found = (await prisma.pollutionReport.count({ where: { id } })) === 1;
+            changed = (await prisma.pollutionReport.updateMany({ where, data })).count === 1;
+            if (changed && hidden) await publish({ topic: 'pollution', type: 'pollution.deleted', data: { id } });
+            break;
+    }
+    return { found, changed };
+}
+
+export async function recordModerationAction(action: {
+    moderatorId: string | null;
+    targetType: ContentType;
+    targetId: string;
+    action: ModerationActionType;
+    note?: string | null;
+}): Promise<void> {
+    await prisma.moderationAction.create({
+        data: { ...action, note: action.note || null },
+    });
+}
+
+// ============ REPORTS ============
+
+/**
+ * Hide the item if enough different people have open reports on it.
+ * Returns true when this call hid it.
+ */
+export async function applyAutoHide(type: ReportableType, id: string): Promise<boolean> {
+    const reporters = await prisma.contentReport.count({ where: { targetType: type, targetId: id, status: 'OPEN' } });
+    if (reporters < AUTO_HIDE_THRESHOLD) return false;
+
+    const summary = await getContentSummary(type, id);
+    if (!summary || summary.hidden) return false;
+
+    // Concurrent reports can all get this far; only the one that flips the row records it
+    const { changed } = await setContentHidden(type, id, true);
+    if (!changed) return false;
+    await recordModerationAction({
+        moderatorId: null,
+        targetType: type,
+        targetId: id,
+        action: 'AUTO_HIDE',
+        note: `${reporters} báo cáo vi phạm`,
+    });
+    return true;
+}
+
+export const RESOLUTION_TYPES = ['REMOVE', 'RESOLVE', 'DISMISS'] as const;
+export type Resolution = (typeof RESOLUTION_TYPES)[number];
+
+// What each queue decision does: the reports' new status and the item's visibility.
+const RESOLUTIONS: Record<Resolution, { status: 'RESOLVED' | 'DISMISSED'; hidden: boolean | undefined }> = {
+    // The content breaks the rules: keep it hidden
+    REMOVE: { status: 'RESOLVED', hidden: true },
+    // Handled some other way (e.g. the author fixed it): visibility unchanged
+    RESOLVE: { status: 'RESOLVED', hidden: undefined },
+    // The reports were unfounded: undo an automatic hide (see isAutoHidden)
+    DISMISS: { status: 'DISMISSED', hidden: false },
+};
+
+// True if the item is hidden because of reports rather than by a moderator.
+async function isAutoHidden(type: ContentType, id: string): Promise<boolean> {
+    const last = await prisma.moderationAction.findFirst({
+        where: { targetType: type, targetId: id, action: { in: ['AUTO_HIDE', 'HIDE', 'UNHIDE', 'REMOVE'] } },
+        orderBy: { createdAt: 'desc' },
+        select: { action: true },
+    });
+    return last?.action === 'AUTO_HIDE';
+}
+
+/**
+ * Close every open report on an item. Returns the number closed, or null if
+ * the item doesn't exist.
+ */
+export async function resolveReports(
+    type: ReportableType,
+    id: string,
+    resolution: Resolution,
+    moderatorId: string,
+    note?: string,
+): Promise<number | null> {
+    const summary = await getContentSummary(type, id);
+    if (!summary) return null;
+
+    const { status, hidden } = RESOLUTIONS[resolution];
+    const closed = await prisma.contentReport.updateMany({
+        where: { targetType: type, targetId: id, status: 'OPEN' },
+        data: { status, resolvedById: moderatorId, resolvedAt: new Date() },
+    });
+    // Dismissing never unhides what a moderator hid on purpose
+    const keepHidden = resolution === 'DISMISS' && summary.hidden && !(await isAutoHidden(type, id));
+    if (hidden !== undefined && hidden !== summary.hidden && !keepHidden) {
+        await setContentHidden(type, id, hidden);
+    }
+    await recordModerationAction({ moderatorId, targetType: type, targetId: id, action: resolution, note });
+    return closed.count;
+}
@@ -0,0 +1,73 @@
+/**
+ * ============================================================================
+ * NOTIFICATIONS
+ * ============================================================================
+ *
+ * Routers call `notify()` after a write that someone else should hear about.
+ * Each notification is stored (for the bell menu) and pushed to the recipient
+ * over the realtime stream on the private "notifications" topic.
+ *
+ * Notifying never fails the request that triggered it: errors are logged.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { publish } from './realtime';
+
+export const NOTIFICATION_TYPES = [
+    'POST_LIKED',
+    'EVENT_RSVP',
+    'POLLUTION_NEARBY',
+    'POLLUTION_STATUS',
+    'ORDER_PLACED',
+    'ORDER_STATUS',
+    'ORDER_CANCELLED',
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export interface NotifyInput {
+    userId: string;
+    type: NotificationType;
+    title: string;
+    body?: string;
+    /** Ids of the related records, e.g. { orderId } */
+    data?: Record<string, string | number>;
+}
+
+export function toNotificationResponse(n: any) {
+    return {
+        id: n.id,
+        type: n.type,
+        title: n.title,
+        body: n.body ?? undefined,
+        data: n.data ?? {},
+        read: !!n.readAt,
+        created_at: n.createdAt.toISOString(),
+    };
+}
+
+export async function notify(inputs: NotifyInput | NotifyInput[]): Promise<void> {
+    const list = Array.isArray(inputs) ? inputs : [inputs];
+    for (const input of list) {
+        try {
+            const created = await prisma.notification.create({
+                data: {
+                    userId: input.userId,
+                    type: input.type,
+                    title: input.title,
+                    body: input.body ?? null,
+                    data: (input.data ?? undefined) as Prisma.InputJsonValue | undefined,
+                },
+            });
+            await publish({
+                topic: 'notifications',
+                type: 'notification.created',
+                userIds: [input.userId],
+                data: { notification: toNotificationResponse(created) },
+            });
+        } catch (err: any) {
+            console.error('Failed to create notification:', err?.message ?? err);
+        }
+    }
+}
@@ -0,0 +1,253 @@
+/**
+ * ============================================================================
+ * SOCIAL LOGIN (OPENID CONNECT)
+ * ============================================================================
+ *
+ * Authorization code flow with PKCE against any provider listed in
+ * OIDC_PROVIDERS. The round trip's state, nonce and code verifier are kept in
+ * `OidcAuthState`; the browser only holds `state`, in a cookie, which ties the
+ * callback to the browser that started it.
+ *
+ * Identities are matched by (provider, sub). The first time, an account is
+ * linked to the user with the same email, but only if the provider says the
+ * email is verified; otherwise a new password-less user is created.
+ */
+
+import { Issuer, errors, generators, type BaseClient } from 'openid-client';
+import { prisma } from '../prisma';
+import { getEnv, type OidcProviderConfig } from '../env';
+import { revokeUserSessions } from './sessions';
+
+export const OIDC_STATE_TTL_MS = 10 * 60 * 1000;
+
+export type OidcErrorCode =
+    | 'UNKNOWN_PROVIDER'
+    | 'INVALID_STATE'
+    | 'CANCELLED'
+    | 'PROVIDER_ERROR'
+    | 'EMAIL_NOT_VERIFIED';
+
+export class OidcError extends Error {
+    constructor(
+        public readonly code: OidcErrorCode,
+        message: string,
+    ) {
+        super(message);
+        this.name = 'OidcError';
+    }
+}
+
+export type OidcIdentity = {
+    subject: string;
+    email: string | null;
+    emailVerified: boolean;
+    name: string | null;
+};
+
+function findProvider(providerId: string): OidcProviderConfig {
+    const provider = getEnv().OIDC_PROVIDERS.find((p) => p.id === providerId);
+    if (!provider) throw new OidcError('UNKNOWN_PROVIDER', `Unknown OIDC provider "${providerId}"`);
+    return provider;
+}
+
+export function listOidcProviders(): { id: string; name: string }[] {
+    return getEnv().OIDC_PROVIDERS.map((p) => ({ id: p.id, name: p.name }));
+}
+
+// The callback must land on the backend, which set the state cookie in /start.
+export function oidcRedirectUri(providerId: string): string {
+    const env = getEnv();
+    const apiUrl = (env.PUBLIC_API_URL ?? `${env.FRONTEND_ORIGIN}/api`).replace(/\/+$/, '');
+    return `${apiUrl}/auth/oidc/${providerId}/callback`;
+}
+
+// Discovery documents are fetched once per provider; a failed fetch is retried next time.
+const clients = new Map<string, Promise<BaseClient>>();
+
+function getClient(provider: OidcProviderConfig): Promise<BaseClient> {
+    let client = clients.get(provider.id);
+    if (!client) {
+        client = Issuer.discover(provider.issuer).then(
+            (issuer) =>
+                new issuer.Client({
+                    client_id: provider.clientId,
+                    client_secret: provider.clientSecret,
+                    redirect_uris: [oidcRedirectUri(provider.id)],
+                    response_types: ['code'],
+                    token_endpoint_auth_method: provider.clientSecret ? 'client_secret_basic' : 'none',
+                }),
+        );
+        client.catch(() => clients.delete(provider.id));
+        clients.set(provider.id, client);
+    }
+    return client;
+}
+
+/**
+ * Start a sign-in: remember the PKCE verifier and nonce, and return the
+ * provider's authorization URL plus the `state` to put in the browser cookie.
+ */
+export async function startOidcLogin(providerId: string, returnTo: string): Promise<{ url: string; state: string }> {
+    const provider = findProvider(providerId);
+    const client = await getClient(provider);
+
+    const state = generators.state();
+    const nonce = generators.nonce();
+    const codeVerifier = generators.codeVerifier();
+
+    // Clean up old states (best-effort)
+    await prisma.oidcAuthState.deleteMany({
+        where: { OR: [{ expiresAt: { lt: new Date() } }, { usedAt: { not: null } }] },
+    });
+    await prisma.oidcAuthState.create({
+        data: {
+            state,
+            provider: provider.id,
+            codeVerifier,
+            nonce,
+            returnTo,
+            expiresAt: new Date(Date.now() + OIDC_STATE_TTL_MS),
+        },
+    });
+
+    const url = client.authorizationUrl({
+        scope: provider.scope,
+        state,
+        nonce,
+        code_challenge: generators.codeChallenge(codeVerifier),
+        code_challenge_method: 'S256',
+    });
+    return { url, state };
+}
+
+/**
+ * Handle the provider's redirect back to us: check `state` against the cookie,
+ * redeem the code and validate the ID token. Throws OidcError.
+ */
+export async function finishOidcLogin(
+    providerId: string,
+    callbackUrl: string,
+    stateCookie: string | undefined,
+): Promise<{ identity: OidcIdentity; returnTo: string }> {
+    const provider = findProvider(providerId);
+    const client = await getClient(provider);
+    const params = client.callbackParams(callbackUrl);
+
+    if (params.error) {
+        throw params.error === 'access_denied'
+            ? new OidcError('CANCELLED', 'Sign-in was cancelled at the provider')
+            : new OidcError('PROVIDER_ERROR', `${params.error}: ${params.error_description ?? ''}`);
+    }
+    if (!params.state || params.state !== stateCookie) {
+        throw new OidcError('INVALID_STATE', 'State does not match this browser');
+    }
+
+    const now = new Date();
+    const claimed = await prisma.oidcAuthState.updateMany({
+        where: { state: params.state, provider: provider.id, usedAt: null, expiresAt: { gt: now } },
+        data: { usedAt: now },
+    });
+    const saved = claimed.count === 1 ? await prisma.oidcAuthState.findUnique({ where: { state: params.state } }) : null;
+    if (!saved) throw new OidcError('INVALID_STATE', 'Sign-in expired or was already completed');
+
+    let identity: OidcIdentity;
+    try {
+        const tokens = await client.callback(oidcRedirectUri(provider.id), params, {
+            state: saved.state,
+            nonce: saved.nonce,
+            code_verifier: saved.codeVerifier,
+        });
+        const claims = tokens.claims();
+        identity = {
+            subject: claims.sub,
+            email: typeof claims.email === 'string' ? claims.email : null,
+            emailVerified: claims.email_verified === true,
+            name: typeof claims.name === 'string' ? claims.name : null,
+        };
+
+        // Some providers leave the email out of the ID token
+        if (!identity.email && tokens.access_token) {
+            const info = await client.userinfo(tokens);
+            if (info.sub === identity.subject && typeof info.email === 'string') {
+                identity.email = info.email;
+                identity.emailVerified = info.email_verified === true;
+                identity.name ??= typeof info.name === 'string' ? info.name : null;
+            }
+        }
+    } catch (err) {
+        if (err instanceof errors.OPError || err instanceof errors.RPError) {
+            throw new OidcError('PROVIDER_ERROR', err.message);
+        }
+        throw err;
+    }
+
+    return { identity, returnTo: saved.returnTo };
+}
+
+/**
+ * The user an identity signs in as, linking or creating one the first time.
+ */
+export async function findOrCreateOidcUser(providerId: string, identity: OidcIdentity) {
+    const account = await prisma.oAuthAccount.findUnique({
+        where: { provider_subject: { provider: providerId, subject: identity.subject } },
+        include: { user: true },
+    });
+    if (account) {
+        await prisma.oAuthAccount.update({
+            where: { id: account.id },
+            data: { lastUsedAt: new Date(), email: identity.email ?? account.email },
+        });
+        return { user: account.user, created: false };
+    }
+
+    // Linking by an email the provider hasn't checked would hand the account to anyone.
+    if (!identity.email || !identity.emailVerified) {
+        throw new OidcError('EMAIL_NOT_VERIFIED', 'Provider did not return a verified email');
+    }
+
+    const email = identity.email.toLowerCase().trim();
+    const link = { provider: providerId, subject: identity.subject, email, lastUsedAt: new Date() };
+    const existing = await prisma.user.findUnique({ where: { email } });
+
+    if (existing) {
+        if (existing.emailVerifiedAt) {
+            await prisma.oAuthAccount.create({ data: { ...link, userId: existing.id } });
+            return { user: existing, created: false };
+        }
+
+        // The email was never confirmed, so the account may have been set up by
+        // someone else who signed up with it. The provider has now proved who
+        // owns the address: drop every credential they could still sign in with
+        // (password, passkeys, TOTP and its recovery codes) and sign out its sessions.
+        const now = new Date();
+        const [, , , user] = await prisma.$transaction([
+            prisma.oAuthAccount.create({ data: { ...link, userId: existing.id } }),
+            prisma.passkey.deleteMany({ where: { userId: existing.id } }),
+            prisma.recoveryCode.deleteMany({ where: { userId: existing.id } }),
+            prisma.user.update({
+                where: { id: existing.id },
+                data: {
+                    emailVerifiedAt: now,
+                    passwordHash: null,
+                    passwordChangedAt: now,
+                    totpEnabled: false,
+                    totpSecret: null,
+                },
+            }),
+        ]);
+        await revokeUserSessions(existing.id);
+        return { user, created: false };
+    }
+
+    const user = await prisma.user.create({
+        data: {
+            email,
+            name: (identity.name?.trim() || email.split('@')[0]).slice(0, 100),
+            passwordHash: null,
+            emailVerifiedAt: new Date(),
+            cart: { create: {} },
+            oauthAccounts: { create: link },
+        },
+    });
+    return { user, created: true };
+}
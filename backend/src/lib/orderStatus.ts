@@ -0,0 +1,58 @@
+/**
+ * Order status state machine.
+ *
+ * Each SellerOrder moves through:
+ *   PENDING -> CONFIRMED -> SHIPPED -> DELIVERED
+ * and may be CANCELLED while it has not been shipped yet.
+ * DELIVERED and CANCELLED are terminal.
+ */
+
+export const ORDER_STATUSES = ['PENDING', 'CONFIRMED', 'SHIPPED', 'DELIVERED', 'CANCELLED'] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+const TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+    PENDING: ['CONFIRMED', 'CANCELLED'],
+    CONFIRMED: ['SHIPPED', 'CANCELLED'],
+    SHIPPED: ['DELIVERED'],
+    DELIVERED: [],
+    CANCELLED: [],
+};
+
+// Timestamp column stamped when a sub-order enters the given status.
+export const STATUS_TIMESTAMP_FIELD: Partial<Record<OrderStatus, 'confirmedAt' | 'shippedAt' | 'deliveredAt' | 'cancelledAt'>> = {
+    CONFIRMED: 'confirmedAt',
+    SHIPPED: 'shippedAt',
+    DELIVERED: 'deliveredAt',
+    CANCELLED: 'cancelledAt',
+};
+
+export function isOrderStatus(value: string): value is OrderStatus {
+    return (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: string, to: OrderStatus): boolean {
+    if (!isOrderStatus(from)) return false;
+    return TRANSITIONS[from].includes(to);
+}
+
+export function allowedTransitions(from: string): OrderStatus[] {
+    if (!isOrderStatus(from)) return [];
+    return [...TRANSITIONS[from]];
+}
+
+/**
+ * Buyer-facing status of a whole checkout, derived from its sub-orders:
+ * the least advanced non-cancelled sub-order wins; CANCELLED only when all are.
+ */
+export function deriveOrderStatus(statuses: string[]): OrderStatus {
+    const active = statuses.filter((s) => s !== 'CANCELLED');
+    if (active.length === 0) return statuses.length > 0 ? 'CANCELLED' : 'PENDING';
+
+    const rank = (s: string) => {
+        const i = ORDER_STATUSES.indexOf(s as OrderStatus);
+        return i === -1 ? 0 : i;
+    };
+    const least = active.reduce((min, s) => (rank(s) < rank(min) ? s : min), active[0]);
+    return isOrderStatus(least) ? least : 'PENDING';
+}
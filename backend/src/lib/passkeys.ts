@@ -0,0 +1,205 @@
+/**
+ * ============================================================================
+ * PASSKEYS (WEBAUTHN)
+ * ============================================================================
+ *
+ * Both ceremonies take two requests: the server issues options with a random
+ * challenge (kept in `WebAuthnChallenge` for 5 minutes, single use), the browser
+ * asks the authenticator to sign it, and the server checks the signature.
+ * Passkeys require user verification (fingerprint, face or device PIN), so a
+ * passkey sign-in stands in for password + TOTP.
+ */
+
+import {
+    generateAuthenticationOptions,
+    generateRegistrationOptions,
+    verifyAuthenticationResponse,
+    verifyRegistrationResponse,
+    type AuthenticationResponseJSON,
+    type AuthenticatorTransportFuture,
+    type PublicKeyCredentialCreationOptionsJSON,
+    type PublicKeyCredentialRequestOptionsJSON,
+    type RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { prisma } from '../prisma';
+import { getEnv } from '../env';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+export const MAX_PASSKEYS_PER_USER = 10;
+
+function relyingParty() {
+    const env = getEnv();
+    return {
+        rpID: env.WEBAUTHN_RP_ID ?? new URL(env.FRONTEND_ORIGIN).hostname,
+        rpName: env.WEBAUTHN_RP_NAME,
+        origin: env.FRONTEND_ORIGIN,
+    };
+}
+
+function parseTransports(value: string | null): AuthenticatorTransportFuture[] | undefined {
+    return value ? (value.split(',') as AuthenticatorTransportFuture[]) : undefined;
+}
+
+async function storeChallenge(type: 'REGISTER' | 'LOGIN', challenge: string, userId?: string): Promise<string> {
+    // Clean up old challenges (best-effort)
+    await prisma.webAuthnChallenge.deleteMany({
+        where: { OR: [{ expiresAt: { lt: new Date() } }, { usedAt: { not: null } }] },
+    });
+    const row = await prisma.webAuthnChallenge.create({
+        data: { type, challenge, userId: userId ?? null, expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS) },
+        select: { id: true },
+    });
+    return row.id;
+}
+
+/**
+ * Mark a challenge as used and return it. Null if it is unknown, of the wrong
+ * type, expired or already used, so a signed response can't be replayed.
+ */
+async function claimChallenge(challengeId: string, type: 'REGISTER' | 'LOGIN') {
+    const now = new Date();
+    const claimed = await prisma.webAuthnChallenge.updateMany({
+        where: { id: challengeId, type, usedAt: null, expiresAt: { gt: now } },
+        data: { usedAt: now },
+    });
+    if (claimed.count !== 1) return null;
+    return prisma.webAuthnChallenge.findUnique({ where: { id: challengeId } });
+}
+
+export async function createRegistrationOptions(user: {
+    id: string;
+    email: string;
+    name: string;
+}): Promise<{ challengeId: string; options: PublicKeyCredentialCreationOptionsJSON }> {
+    const rp = relyingParty();
+    const existing = await prisma.passkey.findMany({
+        where: { userId: user.id },
+        select: { credentialId: true, transports: true },
+    });
+
+    const options = await generateRegistrationOptions({
+        rpName: rp.rpName,
+        rpID: rp.rpID,
+        userName: user.email,
+        userDisplayName: user.name,
+        userID: new TextEncoder().encode(user.id),
+        attestationType: 'none',
+        // Don't register the same authenticator twice
+        excludeCredentials: existing.map((p) => ({ id: p.credentialId, transports: parseTransports(p.transports) })),
+        authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+    });
+
+    const challengeId = await storeChallenge('REGISTER', options.challenge, user.id);
+    return { challengeId, options };
+}
+
+/**
+ * Check the browser's answer to the registration options and save the passkey.
+ * Returns null if the challenge or the attestation is not valid.
+ */
+export async function verifyRegistration(
+    userId: string,
+    challengeId: string,
+    response: RegistrationResponseJSON,
+    name: string,
+) {
+    const challenge = await claimChallenge(challengeId, 'REGISTER');
+    if (!challenge || challenge.userId !== userId) return null;
+
+    const rp = relyingParty();
+    let verification;
+    try {
+        verification = await verifyRegistrationResponse({
+            response,
+            expectedChallenge: challenge.challenge,
+            expectedOrigin: rp.origin,
+            expectedRPID: rp.rpID,
+            requireUserVerification: true,
+        });
+    } catch (err) {
+        console.warn('[passkeys] registration rejected:', (err as Error).message);
+        return null;
+    }
+    if (!verification.verified) return null;
+
+    const { credential, credentialBackedUp } = verification.registrationInfo;
+    const transports = credential.transports ?? response.response.transports;
+    return prisma.passkey.create({
+        data: {
+            userId,
+            credentialId: credential.id,
+            publicKey: Buffer.from(credential.publicKey),
+            counter: credential.counter,
+            transports: transports?.length ? transports.join(',') : null,
+            backedUp: credentialBackedUp,
+            name,
+        },
+        select: { id: true, name: true, backedUp: true, createdAt: true, lastUsedAt: true },
+    });
+}
+
+/**
+ * Options for signing in. They never name an account: the browser offers
+ * every passkey it holds for this site (discoverable credentials), so the
+ * options can't reveal who has an account or list their credential ids.
+ */
+export async function createAuthenticationOptions(): Promise<{
+    challengeId: string;
+    options: PublicKeyCredentialRequestOptionsJSON;
+}> {
+    const rp = relyingParty();
+    const options = await generateAuthenticationOptions({
+        rpID: rp.rpID,
+        userVerification: 'required',
+    });
+
+    const challengeId = await storeChallenge('LOGIN', options.challenge);
+    return { challengeId, options };
+}
+
+/**
+ * Check a signed login challenge. Returns the owner of the passkey, or null
+ * if the passkey is unknown or the signature does not verify.
+ */
+export async function verifyAuthentication(
+    challengeId: string,
+    response: AuthenticationResponseJSON,
+): Promise<{ userId: string; passkeyId: string } | null> {
+    const challenge = await claimChallenge(challengeId, 'LOGIN');
+    if (!challenge) return null;
+
+    const passkey = await prisma.passkey.findUnique({ where: { credentialId: response.id } });
+    if (!passkey) return null;
+
+    const rp = relyingParty();
+    let verification;
+    try {
+        verification = await verifyAuthenticationResponse({
+            response,
+            expectedChallenge: challenge.challenge,
+            expectedOrigin: rp.origin,
+            expectedRPID: rp.rpID,
+            credential: {
+                id: passkey.credentialId,
+                publicKey: new Uint8Array(passkey.publicKey),
+                counter: passkey.counter,
+                transports: parseTransports(passkey.transports),
+            },
+            requireUserVerification: true,
+        });
+    } catch (err) {
+        console.warn('[passkeys] authentication rejected:', (err as Error).message);
+        return null;
+    }
+    if (!verification.verified) return null;
+
+    await prisma.passkey.update({
+        where: { id: passkey.id },
+        data: {
+            counter: verification.authenticationInfo.newCounter,
+            backedUp: verification.authenticationInfo.credentialBackedUp,
+            lastUsedAt: new Date(),
+        },
+    });
+    return { userId: passkey.userId, passkeyId: passkey.id };
+}
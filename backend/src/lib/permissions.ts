@@ -0,0 +1,68 @@
+/**
+ * ============================================================================
+ * ROLES & PERMISSIONS
+ * ============================================================================
+ *
+ * Users can hold staff roles (`UserRole` rows). Routes check permissions, not
+ * roles, so what a role may do is decided here in one place. Regular users
+ * have no roles and none of these permissions; owning a piece of content is
+ * checked separately by each route.
+ */
+
+import { prisma } from '../prisma';
+
+export const ROLES = ['ADMIN', 'MODERATOR', 'AUTHORITY'] as const;
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = [
+    // Publish community events
+    'events:create',
+    // Delete or hide products, posts and pollution reports of other users
+    'content:delete_any',
+    // Verify pollution reports and record progress until they are resolved
+    'pollution:update_status',
+    // Grant and revoke roles, suspend and unlock accounts
+    'users:manage',
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+    ADMIN: PERMISSIONS,
+    MODERATOR: ['events:create', 'content:delete_any', 'pollution:update_status'],
+    // Local environment agencies following up on pollution reports
+    AUTHORITY: ['pollution:update_status'],
+};
+
+export function isRole(value: string): value is Role {
+    return (ROLES as readonly string[]).includes(value);
+}
+
+export async function getUserRoles(userId: string): Promise<Role[]> {
+    const rows = await prisma.userRole.findMany({ where: { userId }, select: { role: true } });
+    // Ignore roles this version no longer knows about
+    return rows.map((r) => r.role).filter(isRole);
+}
+
+export function permissionsForRoles(roles: readonly Role[]): Permission[] {
+    return PERMISSIONS.filter((permission) => roles.some((role) => ROLE_PERMISSIONS[role].includes(permission)));
+}
+
+export async function hasPermission(userId: string, permission: Permission): Promise<boolean> {
+    return permissionsForRoles(await getUserRoles(userId)).includes(permission);
+}
+
+/**
+ * Replace a user's roles with exactly `roles`.
+ */
+export async function setUserRoles(userId: string, roles: readonly Role[], grantedById: string | null): Promise<void> {
+    await prisma.$transaction([
+        prisma.userRole.deleteMany({ where: { userId, role: { notIn: [...roles] } } }),
+        ...roles.map((role) =>
+            prisma.userRole.upsert({
+                where: { userId_role: { userId, role } },
+                update: {},
+                create: { userId, role, grantedById },
+            }),
+        ),
+    ]);
+}
@@ -0,0 +1,42 @@
+/**
+ * Pollution report lifecycle.
+ *
+ * Each PollutionReport moves through:
+ *   NEW -> VERIFIED -> IN_PROGRESS -> RESOLVED
+ * and may be REJECTED (not real, or a duplicate) until it is resolved.
+ * RESOLVED and REJECTED are terminal. Staff with `pollution:update_status`
+ * make every change, except that enough community confirmations verify a
+ * NEW report on their own.
+ */
+
+export const POLLUTION_STATUSES = ['NEW', 'VERIFIED', 'IN_PROGRESS', 'RESOLVED', 'REJECTED'] as const;
+
+export type PollutionStatus = (typeof POLLUTION_STATUSES)[number];
+
+const TRANSITIONS: Record<PollutionStatus, readonly PollutionStatus[]> = {
+    NEW: ['VERIFIED', 'IN_PROGRESS', 'REJECTED'],
+    VERIFIED: ['IN_PROGRESS', 'RESOLVED', 'REJECTED'],
+    IN_PROGRESS: ['RESOLVED', 'REJECTED'],
+    RESOLVED: [],
+    REJECTED: [],
+};
+
+// Reports people can still confirm ("Tôi cũng thấy").
+export const OPEN_POLLUTION_STATUSES: readonly PollutionStatus[] = ['NEW', 'VERIFIED', 'IN_PROGRESS'];
+
+// Confirmations from other users that verify a NEW report without staff.
+export const COMMUNITY_VERIFY_THRESHOLD = 3;
+
+export function isPollutionStatus(value: string): value is PollutionStatus {
+    return (POLLUTION_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: string, to: PollutionStatus): boolean {
+    if (!isPollutionStatus(from)) return false;
+    return TRANSITIONS[from].includes(to);
+}
+
+export function allowedTransitions(from: string): PollutionStatus[] {
+    if (!isPollutionStatus(from)) return [];
+    return [...TRANSITIONS[from]];
+}
@@ -0,0 +1,21 @@
+/**
+ * Who can see a listing.
+ *
+ * DRAFT and ARCHIVED listings are only visible to their seller, and so are
+ * listings hidden by a moderator (`hiddenAt`). Everything that shows a
+ * listing to other people (catalogue, wishlists, new message threads) goes
+ * through these.
+ */
+
+import type { Prisma } from '@prisma/client';
+
+export const PUBLIC_PRODUCT_STATUSES = ['ACTIVE', 'SOLD_OUT'];
+
+export const PUBLIC_PRODUCT_WHERE: Prisma.ProductWhereInput = {
+    status: { in: PUBLIC_PRODUCT_STATUSES },
+    hiddenAt: null,
+};
+
+export function isPublicProduct(product: { status: string; hiddenAt: Date | null }): boolean {
+    return PUBLIC_PRODUCT_STATUSES.includes(product.status) && !product.hiddenAt;
+}
@@ -0,0 +1,113 @@
+/**
+ * ============================================================================
+ * REAL-TIME EVENTS
+ * ============================================================================
+ *
+ * Routes call `publish()` after a write; browsers listening on
+ * GET /api/realtime (Server-Sent Events, see routes/realtime.ts) receive it.
+ *
+ * With REDIS_URL set, events go through a Redis pub/sub channel so every
+ * backend instance sees them. Otherwise an in-process EventEmitter is used,
+ * which is enough for a single instance.
+ *
+ * Topics are either public (anyone may subscribe) or private: private events
+ * carry `userIds` and are only delivered to those users.
+ */
+
+import { EventEmitter } from 'events';
+import { getRedis } from '../cache';
+
+export const PUBLIC_TOPICS = ['pollution', 'posts', 'events'] as const;
+export const PRIVATE_TOPICS = ['orders', 'messages', 'notifications'] as const;
+export const TOPICS = [...PUBLIC_TOPICS, ...PRIVATE_TOPICS] as const;
+
+export type Topic = (typeof TOPICS)[number];
+
+export interface RealtimeEvent {
+    topic: Topic;
+    /** e.g. "pollution.created", "order.updated" */
+    type: string;
+    data: unknown;
+    /** Recipients of a private event. */
+    userIds?: string[];
+}
+
+const REDIS_CHANNEL = 'eco:realtime';
+
+const localBus = new EventEmitter();
+// One listener per open SSE connection.
+localBus.setMaxListeners(0);
+
+let subscriberReady: Promise<boolean> | undefined;
+
+/**
+ * Subscribe once to the Redis channel and forward everything to the local bus.
+ * Resolves to false when Redis is not configured.
+ */
+function ensureRedisSubscriber(): Promise<boolean> {
+    if (!subscriberReady) {
+        subscriberReady = (async () => {
+            const redis = await getRedis();
+            if (!redis) return false;
+            try {
+                // A connection in subscriber mode can't run other commands, so use a dedicated one.
+                const subscriber = redis.duplicate();
+                subscriber.on('message', (_channel: string, payload: string) => {
+                    try {
+                        localBus.emit('event', JSON.parse(payload) as RealtimeEvent);
+                    } catch {
+                        // ignore malformed payloads
+                    }
+                });
+                await subscriber.subscribe(REDIS_CHANNEL);
+                return true;
+            } catch (err: any) {
+                console.warn('⚠️ Redis pub/sub unavailable, using in-process events:', err?.message);
+                return false;
+            }
+        })();
+    }
+    return subscriberReady;
+}
+
+/**
+ * Fire-and-forget: a failed publish must never fail the request that caused it.
+ */
+export async function publish(event: RealtimeEvent): Promise<void> {
+    try {
+        if (await ensureRedisSubscriber()) {
+            const redis = await getRedis();
+            await redis!.publish(REDIS_CHANNEL, JSON.stringify(event));
+            return;
+        }
+    } catch {
+        // fall through to the local bus
+    }
+    localBus.emit('event', event);
+}
+
+/**
+ * Listen for events on `topics`. Private events are filtered to `userId`.
+ * Returns an unsubscribe function.
+ */
+export function subscribe(
+    topics: Topic[],
+    userId: string | undefined,
+    listener: (event: RealtimeEvent) => void,
+): () => void {
+    void ensureRedisSubscriber();
+
+    const handler = (event: RealtimeEvent) => {
+        if (!topics.includes(event.topic)) return;
+        if (event.userIds && (!userId || !event.userIds.includes(userId))) return;
+        listener(event);
+    };
+    localBus.on('event', handler);
+    return () => {
+        localBus.off('event', handler);
+    };
+}
+
+export function isPrivateTopic(topic: Topic): boolean {
+    return (PRIVATE_TOPICS as readonly string[]).includes(topic);
+}
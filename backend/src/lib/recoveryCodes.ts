@@ -0,0 +1,69 @@
+/**
+ * ============================================================================
+ * TOTP RECOVERY CODES
+ * ============================================================================
+ *
+ * A set of single-use codes shown once when TOTP is enabled (or regenerated),
+ * accepted wherever a TOTP code is. Codes look like "K7QX2-M9PRT"; only the
+ * SHA-256 of the normalised form is stored.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '../prisma';
+import { hashToken } from './tokens';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// No 0/O, 1/I/L: easy to copy from paper.
+const ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+function randomCode(): string {
+    let out = '';
+    for (let i = 0; i < 10; i++) {
+        out += ALPHABET[crypto.randomInt(ALPHABET.length)];
+    }
+    return `${out.slice(0, 5)}-${out.slice(5)}`;
+}
+
+// Accept lower case, spaces and a missing dash.
+function normalize(code: string): string {
+    return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function looksLikeRecoveryCode(code: string): boolean {
+    return normalize(code).length === 10 && !/^\d+$/.test(code.trim());
+}
+
+/**
+ * Replace the user's recovery codes with a fresh set. Returns the plain codes,
+ * which cannot be retrieved again.
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, randomCode);
+    await prisma.$transaction([
+        prisma.recoveryCode.deleteMany({ where: { userId } }),
+        prisma.recoveryCode.createMany({
+            data: codes.map((code) => ({ userId, codeHash: hashToken(normalize(code)) })),
+        }),
+    ]);
+    return codes;
+}
+
+/**
+ * Mark a code as used. Returns false if it is wrong or already spent.
+ */
+export async function consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const result = await prisma.recoveryCode.updateMany({
+        where: { userId, codeHash: hashToken(normalize(code)), usedAt: null },
+        data: { usedAt: new Date() },
+    });
+    return result.count === 1;
+}
+
+export async function countRemainingRecoveryCodes(userId: string): Promise<number> {
+    return prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+}
+
+export async function deleteRecoveryCodes(userId: string): Promise<void> {
+    await prisma.recoveryCode.deleteMany({ where: { userId } });
+}
@@ -0,0 +1,215 @@
+/**
+ * ============================================================================
+ * VIETNAMESE TEXT SEARCH
+ * ============================================================================
+ *
+ * Text is normalized before matching so "rom ra" finds "Rơm rạ":
+ * - Unicode NFD, then combining marks (tones, hooks, breves) are stripped
+ * - "đ" / "Đ" become "d" (it is a separate letter, not a combining mark)
+ * - lower-cased, anything that is not a letter or digit splits tokens
+ *
+ * Each query token must match some token of the document, either exactly,
+ * as a prefix (autocomplete) or within a small edit distance (typos).
+ * Matches in the title weigh more than matches in the description.
+ *
+ * Products keep their normalized text in `Product.searchText`. A query only
+ * ranks the rows that contain, for every token, one of its fragments (see
+ * searchFragments), which every exact, prefix or typo match does.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+
+export interface SearchDocument {
+    title: string;
+    description?: string | null;
+    category?: string | null;
+    location?: string | null;
+    sellerName?: string | null;
+}
+
+type SearchField = keyof SearchDocument;
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+    title: 3,
+    category: 2,
+    sellerName: 1.5,
+    location: 1.5,
+    description: 1,
+};
+
+const MATCH_EXACT = 1;
+const MATCH_PREFIX = 0.8;
+const MATCH_FUZZY = 0.5;
+
+// Bonus when the whole query appears verbatim (normalized) in the title.
+const TITLE_PHRASE_BONUS = 2;
+
+export function normalizeVietnamese(text: string): string {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/đ/g, 'd')
+        .replace(/Đ/g, 'D')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+export function tokenize(text: string): string[] {
+    const normalized = normalizeVietnamese(text);
+    return normalized ? normalized.split(' ') : [];
+}
+
+// Typos allowed for a query token of the given length.
+function maxTypos(length: number): number {
+    if (length >= 8) return 2;
+    if (length >= 4) return 1;
+    return 0;
+}
+
+/**
+ * Levenshtein distance, giving up early once it exceeds `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+            rowMin = Math.min(rowMin, curr[j]);
+        }
+        if (rowMin > max) return max + 1;
+        prev = curr;
+    }
+    return prev[b.length];
+}
+
+function matchToken(queryToken: string, docTokens: string[]): number {
+    let best = 0;
+    const typos = maxTypos(queryToken.length);
+    for (const token of docTokens) {
+        if (token === queryToken) return MATCH_EXACT;
+        if (token.startsWith(queryToken)) {
+            best = Math.max(best, MATCH_PREFIX);
+        } else if (typos > 0 && best < MATCH_FUZZY && editDistance(queryToken, token, typos) <= typos) {
+            best = MATCH_FUZZY;
+        }
+    }
+    return best;
+}
+
+/**
+ * Relevance of a document for already tokenized query terms. Returns 0 when
+ * some query token matches nothing, so the caller can drop the document.
+ */
+export function scoreDocument(queryTokens: string[], doc: SearchDocument): number {
+    if (queryTokens.length === 0) return 0;
+
+    const fields = (Object.keys(FIELD_WEIGHTS) as SearchField[]).map((field) => ({
+        weight: FIELD_WEIGHTS[field],
+        tokens: tokenize(doc[field] ?? ''),
+    }));
+
+    let score = 0;
+    for (const queryToken of queryTokens) {
+        let best = 0;
+        for (const field of fields) {
+            best = Math.max(best, field.weight * matchToken(queryToken, field.tokens));
+        }
+        if (best === 0) return 0;
+        score += best;
+    }
+
+    if (queryTokens.length > 1 && normalizeVietnamese(doc.title).includes(queryTokens.join(' '))) {
+        score += TITLE_PHRASE_BONUS;
+    }
+    return score;
+}
+
+// ============ STORED SEARCH TEXT ============
+
+const SEARCH_TEXT_SELECT = {
+    id: true,
+    title: true,
+    description: true,
+    category: true,
+    location: true,
+    seller: { select: { name: true } },
+} satisfies Prisma.ProductSelect;
+
+const INDEX_BATCH_SIZE = 500;
+
+export function buildSearchText(doc: SearchDocument): string {
+    return (Object.keys(FIELD_WEIGHTS) as SearchField[])
+        .map((field) => normalizeVietnamese(doc[field] ?? ''))
+        .filter(Boolean)
+        .join(' ');
+}
+
+/**
+ * Substrings of a query token, at least one of which appears in any document
+ * token it matches. A match within `k` typos leaves at least one of `k + 1`
+ * consecutive pieces untouched, and exact and prefix matches contain them all.
+ */
+export function searchFragments(token: string): string[] {
+    const pieces = maxTypos(token.length) + 1;
+    const size = Math.ceil(token.length / pieces);
+    const fragments: string[] = [];
+    for (let i = 0; i < token.length; i += size) fragments.push(token.slice(i, i + size));
+    return fragments;
+}
+
+/**
+ * Products whose stored text could match every token.
+ */
+export function searchTextWhere(tokens: string[]): Prisma.ProductWhereInput {
+    return {
+        AND: tokens.map((token) => ({
+            OR: searchFragments(token).map((fragment) => ({ searchText: { contains: fragment } })),
+        })),
+    };
+}
+
+/**
+ * Recompute `searchText` for the matching products, e.g. after an edit or
+ * when the seller renames themselves.
+ */
+export async function refreshProductSearchText(
+    db: Prisma.TransactionClient,
+    where: Prisma.ProductWhereInput,
+): Promise<void> {
+    const products = await db.product.findMany({ where, select: SEARCH_TEXT_SELECT });
+    for (const p of products) {
+        await db.product.update({
+            where: { id: p.id },
+            data: { searchText: buildSearchText({ ...p, sellerName: p.seller.name }) },
+        });
+    }
+}
+
+/**
+ * Fill `searchText` for listings created before it existed. Runs at startup;
+ * once every row has it this is a single empty query.
+ */
+export async function indexMissingSearchText(): Promise<number> {
+    let indexed = 0;
+    let after: string | undefined;
+    for (;;) {
+        // Walk by id: a listing with no letters or digits stays empty and must not be picked again
+        const batch = await prisma.product.findMany({
+            where: { searchText: '', ...(after ? { id: { gt: after } } : {}) },
+            select: { id: true },
+            orderBy: { id: 'asc' },
+            take: INDEX_BATCH_SIZE,
+        });
+        if (batch.length === 0) return indexed;
+        await refreshProductSearchText(prisma, { id: { in: batch.map((p) => p.id) } });
+        indexed += batch.length;
+        after = batch[batch.length - 1].id;
+    }
+}
@@ -0,0 +1,140 @@
+/**
+ * ============================================================================
+ * SESSIONS
+ * ============================================================================
+ *
+ * Every sign-in creates a `Session` row. The browser holds two cookies:
+ *   - an access token: a JWT valid for 15 minutes whose `jti` is the session id.
+ *     `requireAuth` checks the session is still active on every request, so
+ *     revoking it logs the device out right away.
+ *   - a refresh token: an opaque random string, exchanged at POST /auth/refresh
+ *     for a new access token. It rotates on each use; presenting an old one
+ *     again (outside a short grace period for parallel tabs) revokes the session,
+ *     since it means the token was copied.
+ */
+
+import jwt from 'jsonwebtoken';
+import { prisma } from '../prisma';
+import { getEnv } from '../env';
+import { generateToken, hashToken } from './tokens';
+
+export const ACCESS_TOKEN_TTL_S = 15 * 60;
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Two tabs refreshing at once both present the same token; the later one
+// still gets an access token instead of tripping reuse detection.
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export function signAccessToken(userId: string, sessionId: string): string {
+    const env = getEnv();
+    return jwt.sign({}, env.JWT_SECRET, { subject: userId, jwtid: sessionId, expiresIn: ACCESS_TOKEN_TTL_S });
+}
+
+/**
+ * Start a session after a successful sign-in.
+ */
+export async function createSession(
+    userId: string,
+    loginAttemptId?: string,
+): Promise<{ accessToken: string; refreshToken: string }> {
+    const { token, tokenHash } = generateToken();
+    const session = await prisma.session.create({
+        data: {
+            userId,
+            refreshTokenHash: tokenHash,
+            loginAttemptId: loginAttemptId ?? null,
+            expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+        },
+        select: { id: true },
+    });
+    return { accessToken: signAccessToken(userId, session.id), refreshToken: token };
+}
+
+/**
+ * Exchange a refresh token for a new access token. `refreshToken` is only set
+ * when the token was rotated. Returns null if the token is unknown, expired,
+ * revoked or being reused.
+ */
+export async function refreshSession(
+    refreshToken: string,
+): Promise<{ userId: string; accessToken: string; refreshToken?: string } | null> {
+    const hash = hashToken(refreshToken);
+    const now = new Date();
+
+    const session = await prisma.session.findUnique({ where: { refreshTokenHash: hash } });
+    if (session) {
+        if (session.revokedAt || session.expiresAt <= now) return null;
+        const next = generateToken();
+        const rotated = await prisma.session.updateMany({
+            where: { id: session.id, refreshTokenHash: hash, revokedAt: null },
+            data: {
+                refreshTokenHash: next.tokenHash,
+                previousTokenHash: hash,
+                rotatedAt: now,
+                lastSeenAt: now,
+                expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+            },
+        });
+        if (rotated.count === 1) {
+            return {
+                userId: session.userId,
+                accessToken: signAccessToken(session.userId, session.id),
+                refreshToken: next.token,
+            };
+        }
+        // Lost a race with a parallel refresh: handled as a just-rotated token below.
+    }
+
+    const previous = await prisma.session.findFirst({ where: { previousTokenHash: hash } });
+    if (!previous) return null;
+
+    const withinGrace = previous.rotatedAt && now.getTime() - previous.rotatedAt.getTime() < ROTATION_GRACE_MS;
+    if (withinGrace && !previous.revokedAt && previous.expiresAt > now) {
+        return { userId: previous.userId, accessToken: signAccessToken(previous.userId, previous.id) };
+    }
+
+    // An old refresh token came back: assume it was stolen and end the session.
+    await revokeSession(previous.id);
+    return null;
+}
+
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+        where: { id: sessionId },
+        select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+    return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+}
+
+export async function revokeSession(sessionId: string): Promise<void> {
+    await prisma.session.updateMany({
+        where: { id: sessionId, revokedAt: null },
+        data: { revokedAt: new Date() },
+    });
+}
+
+/**
+ * Log a user out everywhere, optionally keeping the current device signed in.
+ * Returns how many sessions were revoked.
+ */
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const result = await prisma.session.updateMany({
+        where: {
+            userId,
+            revokedAt: null,
+            ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+        },
+        data: { revokedAt: new Date() },
+    });
+    return result.count;
+}
+
+/**
+ * Session id of a refresh token, whether or not it is still valid.
+ */
+export async function findSessionIdByRefreshToken(refreshToken: string): Promise<string | null> {
+    const session = await prisma.session.findUnique({
+        where: { refreshTokenHash: hashToken(refreshToken) },
+        select: { id: true },
+    });
+    return session?.id ?? null;
+}
@@ -0,0 +1,63 @@
+/**
+ * ============================================================================
+ * FILE STORAGE
+ * ============================================================================
+ *
+ * Uploaded files go through the `FileStorage` interface so the backend can be
+ * swapped (e.g. an S3-compatible bucket) without touching the routes. Keys are
+ * relative paths such as "products/<imageId>/640.webp".
+ *
+ * To add a driver: implement `FileStorage`, extend `STORAGE_DRIVER` in env.ts
+ * and return it from `getStorage()`.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { getEnv } from '../env';
+
+export interface FileStorage {
+    put(key: string, body: Buffer, contentType: string): Promise<void>;
+    delete(key: string): Promise<void>;
+    /** Public URL a browser can load the file from. */
+    url(key: string): string;
+}
+
+export class LocalDiskStorage implements FileStorage {
+    constructor(
+        private readonly rootDir: string,
+        private readonly publicBaseUrl: string,
+    ) {}
+
+    private resolve(key: string): string {
+        const fullPath = path.resolve(this.rootDir, key);
+        // Keys are generated server-side, but never let one escape the root.
+        if (!fullPath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return fullPath;
+    }
+
+    async put(key: string, body: Buffer): Promise<void> {
+        const fullPath = this.resolve(key);
+        await fs.mkdir(path.dirname(fullPath), { recursive: true });
+        await fs.writeFile(fullPath, body);
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.resolve(key), { force: true });
+    }
+
+    url(key: string): string {
+        return `${this.publicBaseUrl.replace(/\/$/, '')}/${key}`;
+    }
+}
+
+let storage: FileStorage | undefined;
+
+export function getStorage(): FileStorage {
+    if (!storage) {
+        const env = getEnv();
+        storage = new LocalDiskStorage(path.resolve(env.UPLOAD_DIR), env.UPLOAD_PUBLIC_URL);
+    }
+    return storage;
+}
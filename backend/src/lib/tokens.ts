@@ -0,0 +1,14 @@
+import crypto from 'crypto';
+
+/**
+ * Random token for links sent by email (verification, password reset).
+ * Store only `tokenHash`; `token` goes into the link.
+ */
+export function generateToken(): { token: string; tokenHash: string } {
+    const token = crypto.randomBytes(32).toString('base64url');
+    return { token, tokenHash: hashToken(token) };
+}
+
+export function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -1,12 +1,20 @@
 import jwt from 'jsonwebtoken';
 import type { Request, Response, NextFunction } from 'express';
 import { getEnv } from '../env';
+import { prisma } from '../prisma';
+import { isSessionActive } from '../lib/sessions';
+import { getUserRoles, permissionsForRoles, type Permission, type Role } from '../lib/permissions';
 
 export interface AuthenticatedRequest extends Request {
-    user?: { id: string };
+    /** `sessionId` is the `jti` of the access token (see lib/sessions.ts). */
+    user?: { id: string; sessionId: string };
 }
 
-function getCookieValue(cookieHeader: string | undefined, name: string): string | undefined {
+// The only 401 after which the client refreshes its session and retries (see
+// utils/api.ts). Wrong passwords and codes answer 401 without this code.
+export const UNAUTHENTICATED = { error: 'Unauthorized', code: 'UNAUTHENTICATED' } as const;
+
+export function getCookieValue(cookieHeader: string | undefined, name: string): string | undefined {
     if (!cookieHeader) return undefined;
     // Basic cookie parsing: "a=1; b=2" -> find name
     const parts = cookieHeader.split(';');
@@ -33,31 +41,100 @@ function getTokenFromRequest(req: Request): string | undefined {
     return getCookieValue(req.header('cookie'), 'eco_token');
 }
 
-export function optionalAuth(req: AuthenticatedRequest, _res: Response, next: NextFunction) {
+/**
+ * Verify the access token and that its session has not been revoked.
+ */
+async function authenticate(req: Request): Promise<{ id: string; sessionId: string } | null> {
     const token = getTokenFromRequest(req);
-    if (!token) return next();
+    if (!token) return null;
+    let payload: { sub?: string; jti?: string };
     try {
         const env = getEnv();
-        const payload = jwt.verify(token, env.JWT_SECRET) as { sub?: string };
-        if (payload.sub) {
-            req.user = { id: payload.sub };
-        }
+        payload = jwt.verify(token, env.JWT_SECRET) as { sub?: string; jti?: string };
     } catch {
-        // ignore invalid token for optional auth
+        return null;
     }
-    return next();
+    // Tokens issued before sessions existed carry no jti: treat them as signed out.
+    if (!payload.sub || !payload.jti) return null;
+    if (!(await isSessionActive(payload.jti, payload.sub))) return null;
+    return { id: payload.sub, sessionId: payload.jti };
 }
 
-export function requireAuth(req: AuthenticatedRequest, res: Response, next: NextFunction) {
-    const token = getTokenFromRequest(req);
-    if (!token) return res.status(401).json({ error: 'Unauthorized' });
+export async function optionalAuth(req: AuthenticatedRequest, _res: Response, next: NextFunction) {
     try {
-        const env = getEnv();
-        const payload = jwt.verify(token, env.JWT_SECRET) as { sub?: string };
-        if (!payload.sub) return res.status(401).json({ error: 'Unauthorized' });
-        req.user = { id: payload.sub };
+        const user = await authenticate(req);
+        if (user) req.user = user;
         return next();
-    } catch {
-        return res.status(401).json({ error: 'Unauthorized' });
+    } catch (err) {
+        return next(err);
+    }
+}
+
+export async function requireAuth(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+        const user = await authenticate(req);
+        if (!user) return res.status(401).json(UNAUTHENTICATED);
+        req.user = user;
+        return next();
+    } catch (err) {
+        return next(err);
+    }
+}
+
+/**
+ * Use after `requireAuth` on routes that publish content: blocks accounts
+ * whose email address has not been verified yet.
+ */
+export async function requireVerifiedEmail(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+        const user = await prisma.user.findUnique({
+            where: { id: req.user!.id },
+            select: { emailVerifiedAt: true },
+        });
+        if (!user) return res.status(401).json(UNAUTHENTICATED);
+        if (!user.emailVerifiedAt) {
+            return res.status(403).json({
+                error: 'Vui lòng xác thực email trước khi đăng nội dung.',
+                code: 'EMAIL_NOT_VERIFIED',
+            });
+        }
+        return next();
+    } catch (err) {
+        return next(err);
     }
 }
+
+/**
+ * Use after `requireAuth`: only users holding one of `roles` get through.
+ * Prefer `requirePermission` unless the route is really about the role itself.
+ */
+export function requireRole(...roles: Role[]) {
+    return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+        try {
+            const userRoles = await getUserRoles(req.user!.id);
+            if (!userRoles.some((role) => roles.includes(role))) {
+                return res.status(403).json({ error: 'Bạn không có quyền thực hiện thao tác này.', code: 'FORBIDDEN' });
+            }
+            return next();
+        } catch (err) {
+            return next(err);
+        }
+    };
+}
+
+/**
+ * Use after `requireAuth`: only users whose roles grant `permission` get through.
+ */
+export function requirePermission(permission: Permission) {
+    return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+        try {
+            const permissions = permissionsForRoles(await getUserRoles(req.user!.id));
+            if (!permissions.includes(permission)) {
+                return res.status(403).json({ error: 'Bạn không có quyền thực hiện thao tác này.', code: 'FORBIDDEN' });
+            }
+            return next();
+        } catch (err) {
+            return next(err);
+        }
+    };
+}
@@ -93,6 +93,23 @@ export function clearIpAttempts(ip: string): void {
     loginAttempts.delete(`ip:${ip}`);
 }
 
+/**
+ * Start of the window in which failed logins count for `email`. A password
+ * reset or change, or an admin unlocking the account, starts a fresh window,
+ * so old failures can't relock the account.
+ */
+async function failureWindowStart(email: string): Promise<Date> {
+    let windowStart = new Date(Date.now() - RATE_LIMIT.EMAIL_WINDOW_MS);
+    const user = await prisma.user.findUnique({
+        where: { email },
+        select: { passwordChangedAt: true, unlockedAt: true },
+    });
+    for (const reset of [user?.passwordChangedAt, user?.unlockedAt]) {
+        if (reset && reset > windowStart) windowStart = reset;
+    }
+    return windowStart;
+}
+
 /**
  * Check if account is locked
  */
@@ -125,7 +142,7 @@ export async function checkAccountLockout(
 export async function checkEmailRateLimit(
     email: string
 ): Promise<{ allowed: boolean; message?: string }> {
-    const windowStart = new Date(Date.now() - RATE_LIMIT.EMAIL_WINDOW_MS);
+    const windowStart = await failureWindowStart(email);
 
     const recentAttempts = await prisma.loginAttempt.count({
         where: {
@@ -145,6 +162,8 @@ export async function checkEmailRateLimit(
     return { allowed: true };
 }
 
+export type LoginMethod = 'PASSWORD' | 'TOTP' | 'RECOVERY_CODE' | 'PASSKEY' | 'OIDC' | 'SIGNUP';
+
 /**
  * Record login attempt in database
  */
@@ -153,22 +172,25 @@ export async function recordLoginAttempt(
     ip: string,
     userAgent: string | undefined,
     success: boolean,
-    userId?: string
-): Promise<{ accountLocked: boolean }> {
+    userId?: string,
+    method: LoginMethod = 'PASSWORD'
+): Promise<{ accountLocked: boolean; attemptId: string }> {
     // Insert login attempt
-    await prisma.loginAttempt.create({
+    const attempt = await prisma.loginAttempt.create({
         data: {
             email,
             ip,
             userAgent: userAgent || null,
             success,
             userId: userId || null,
+            method,
         },
+        select: { id: true },
     });
 
     // If failed, check if we need to lock the account
     if (!success) {
-        const windowStart = new Date(Date.now() - RATE_LIMIT.EMAIL_WINDOW_MS);
+        const windowStart = await failureWindowStart(email);
         const failedCount = await prisma.loginAttempt.count({
             where: {
                 email,
@@ -184,7 +206,7 @@ export async function recordLoginAttempt(
                     lockedUntil: new Date(Date.now() + RATE_LIMIT.LOCKOUT_DURATION_MS),
                 },
             });
-            return { accountLocked: true };
+            return { accountLocked: true, attemptId: attempt.id };
         }
     } else {
         // Clear lockout on successful login
@@ -194,7 +216,7 @@ export async function recordLoginAttempt(
         });
     }
 
-    return { accountLocked: false };
+    return { accountLocked: false, attemptId: attempt.id };
 }
 
 /**
@@ -0,0 +1,554 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { requireAuth, requirePermission, type AuthenticatedRequest } from '../middleware/auth';
+import { ROLES, getUserRoles, isRole, permissionsForRoles, setUserRoles } from '../lib/permissions';
+import {
+    CONTENT_TYPES,
+    REPORTABLE_TYPES,
+    RESOLUTION_TYPES,
+    listContent,
+    recordModerationAction,
+    resolveReports,
+    setContentHidden,
+    type ContentSummary,
+} from '../lib/moderation';
+import { diffFields, recordAuditEvent } from '../lib/audit';
+import { deleteRecoveryCodes } from '../lib/recoveryCodes';
+import { revokeUserSessions } from '../lib/sessions';
+
+export const adminRouter = Router();
+
+// Shared by every table: a free-text filter and a page size.
+const ListQuerySchema = z.object({
+    q: z.string().trim().max(100).optional(),
+    take: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+// ============ USERS ============
+
+// Roles and the permissions each grants, for the role picker.
+adminRouter.get('/admin/roles', requireAuth, requirePermission('users:manage'), (_req, res) => {
+    res.json({ roles: ROLES.map((role) => ({ role, permissions: permissionsForRoles([role]) })) });
+});
+
+adminRouter.get('/admin/users', requireAuth, requirePermission('users:manage'), async (req, res, next) => {
+    try {
+        const query = ListQuerySchema.parse(req.query);
+        const where: Prisma.UserWhereInput = query.q
+            ? {
+                  OR: [
+                      { email: { contains: query.q, mode: 'insensitive' } },
+                      { name: { contains: query.q, mode: 'insensitive' } },
+                  ],
+              }
+            : {};
+
+        const rows = await prisma.user.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            take: query.take ?? 50,
+            select: {
+                id: true,
+                email: true,
+                name: true,
+                createdAt: true,
+                lastLoginAt: true,
+                emailVerifiedAt: true,
+                totpEnabled: true,
+                lockedUntil: true,
+                suspendedAt: true,
+                suspendedReason: true,
+                roles: { select: { role: true } },
+            },
+        });
+
+        const now = new Date();
+        res.json({
+            users: rows.map((u) => ({
+                id: u.id,
+                email: u.email,
+                name: u.name,
+                created_at: u.createdAt.toISOString(),
+                last_login_at: u.lastLoginAt?.toISOString() ?? null,
+                email_verified: !!u.emailVerifiedAt,
+                totp_enabled: u.totpEnabled,
+                locked_until: u.lockedUntil && u.lockedUntil > now ? u.lockedUntil.toISOString() : null,
+                suspended_at: u.suspendedAt?.toISOString() ?? null,
+                suspended_reason: u.suspendedReason,
+                roles: u.roles.map((r) => r.role).filter(isRole),
+            })),
+        });
+    } catch (err) {
+        next(err);
+    }
+});
+
+const SetRolesSchema = z.object({
+    roles: z.array(z.enum(ROLES)).max(ROLES.length),
+});
+
+adminRouter.put(
+    '/admin/users/:id/roles',
+    requireAuth,
+    requirePermission('users:manage'),
+    async (req: AuthenticatedRequest, res, next) => {
+        try {
+            const actorId = req.user!.id;
+            const userId = z.string().uuid().parse(req.params.id);
+            const roles = [...new Set(SetRolesSchema.parse(req.body).roles)];
+
+            const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+            if (!user) return res.status(404).json({ error: 'Người dùng không tồn tại' });
+
+            // Otherwise the last admin could lock everyone out of this page
+            if (userId === actorId && !roles.includes('ADMIN')) {
+                return res
+                    .status(400)
+                    .json({ error: 'Bạn không thể tự gỡ quyền quản trị của mình.', code: 'CANNOT_DEMOTE_SELF' });
+            }
+
+            const previous = await getUserRoles(userId);
+            await setUserRoles(userId, roles, actorId);
+
+            const current = await getUserRoles(userId);
+            await recordAuditEvent(req, {
+                action: 'admin.user.roles',
+                targetType: 'users',
+                targetId: userId,
+                metadata: { changes: diffFields({ roles: previous }, { roles: current }, ['roles']) },
+            });
+            res.json({ user_id: userId, roles: current, permissions: permissionsForRoles(current) });
+        } catch (err) {
+            next(err);
+        }
+    },
+);
+
+const SuspendSchema = z.object({
+    reason: z.string().trim().max(500).optional(),
+});
+
+// Suspension signs the user out everywhere and blocks every way of signing in.
+adminRouter.post(
+    '/admin/users/:id/suspend',
+    requireAuth,
+    requirePermission('users:manage'),
+    async (req: AuthenticatedRequest, res, next) => {
+        try {
+            const userId = z.string().uuid().parse(req.params.id);
+            const body = SuspendSchema.parse(req.body ?? {});
+            if (userId === req.user!.id) {
+                return res.status(400).json({ error: 'Bạn không thể tự tạm ngưng tài khoản của mình.', code: 'CANNOT_SUSPEND_SELF' });
+            }
+
+            const updated = await prisma.user.updateMany({
+                where: { id: userId },
+                data: { suspendedAt: new Date(), suspendedReason: body.reason || null },
+            });
+            if (updated.count === 0) return res.status(404).json({ error: 'Người dùng không tồn tại' });
+            const revokedSessions = await revokeUserSessions(userId);
+            await recordAuditEvent(req, {
+                action: 'admin.user.suspend',
+                targetType: 'users',
+                targetId: userId,
+                metadata: { reason: body.reason || null, revoked_sessions: revokedSessions },
+            });
+
+            res.json({ ok: true });
+        } catch (err) {
+            next(err);
+        }
+    },
+);
+
+adminRouter.post('/admin/users/:id/unsuspend', requireAuth, requirePermission('users:manage'), async (req, res, next) => {
+    try {
+        const userId = z.string().uuid().parse(req.params.id);
+        const updated = await prisma.user.updateMany({
+            where: { id: userId },
+            data: { suspendedAt: null, suspendedReason: null },
+        });
+        if (updated.count === 0) return res.status(404).json({ error: 'Người dùng không tồn tại' });
+        await recordAuditEvent(req, { action: 'admin.user.unsuspend', targetType: 'users', targetId: userId });
+        res.json({ ok: true });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// Lift a lockout from failed logins. Earlier failures stop counting too, or
+// the next wrong password would lock the account again.
+adminRouter.post('/admin/users/:id/unlock', requireAuth, requirePermission('users:manage'), async (req, res, next) => {
+    try {
+        const userId = z.string().uuid().parse(req.params.id);
+        const updated = await prisma.user.updateMany({
+            where: { id: userId },
+            data: { lockedUntil: null, unlockedAt: new Date() },
+        });
+        if (updated.count === 0) return res.status(404).json({ error: 'Người dùng không tồn tại' });
+        await recordAuditEvent(req, { action: 'admin.user.unlock', targetType: 'users', targetId: userId });
+        res.json({ ok: true });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// For users who lost both their authenticator and their recovery codes.
+adminRouter.post('/admin/users/:id/reset-totp', requireAuth, requirePermission('users:manage'), async (req, res, next) => {
+    try {
+        const userId = z.string().uuid().parse(req.params.id);
+        const updated = await prisma.user.updateMany({
+            where: { id: userId },
+            data: { totpEnabled: false, totpSecret: null },
+        });
+        if (updated.count === 0) return res.status(404).json({ error: 'Người dùng không tồn tại' });
+        await deleteRecoveryCodes(userId);
+        await recordAuditEvent(req, { action: 'admin.user.reset_totp', targetType: 'users', targetId: userId });
+        res.json({ ok: true });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// ============ CONTENT ============
+
+adminRouter.get(
+    '/admin/content/:type',
+    requireAuth,
+    requirePermission('content:delete_any'),
+    async (req, res, next) => {
+        try {
+            const type = z.enum(CONTENT_TYPES).parse(req.params.type);
+            const query = ListQuerySchema.parse(req.query);
+            res.json({ items: await listContent(type, { q: query.q || undefined, take: query.take ?? 50 }) });
+        } catch (err) {
+            next(err);
+        }
+    },
+);
+
+const SetHiddenSchema = z.object({
+    hidden: z.boolean(),
+    note: z.string().trim().max(500).optional(),
+});
+
+adminRouter.patch(
+    '/admin/content/:type/:id',
+    requireAuth,
+    requirePermission('content:delete_any'),
+    async (req: AuthenticatedRequest, res, next) => {
+        try {
+            const type = z.enum(CONTENT_TYPES).parse(req.params.type);
+            const id = z.string().uuid().parse(req.params.id);
+            const body = SetHiddenSchema.parse(req.body);
+
+            if (!(await setContentHidden(type, id, body.hidden)).found) {
+                return res.status(404).json({ error: 'Nội dung không tồn tại' });
+            }
+            await recordModerationAction({
+                moderatorId: req.user!.id,
+                targetType: type,
+                targetId: id,
+                action: body.hidden ? 'HIDE' : 'UNHIDE',
+                note: body.note,
+            });
+            await recordAuditEvent(req, {
+                action: body.hidden ? 'admin.content.hide' : 'admin.content.unhide',
+                targetType: type,
+                targetId: id,
+                metadata: { note: body.note || null },
+            });
+            res.json({ id, hidden: body.hidden });
+        } catch (err) {
+            next(err);
+        }
+    },
+);
+
+// ============ REPORT QUEUE ============
+
+const ReportQueueQuerySchema = z.object({
+    status: z.enum(['OPEN', 'CLOSED']).default('OPEN'),
+});
+
+// Reports grouped by the item they are about, most reported first. Closed
+// reports are listed by when they were handled.
+adminRouter.get('/admin/reports', requireAuth, requirePermission('content:delete_any'), async (req, res, next) => {
+    try {
+        const query = ReportQueueQuerySchema.parse(req.query);
+        const reports = await prisma.contentReport.findMany({
+            where: query.status === 'OPEN' ? { status: 'OPEN' } : { status: { not: 'OPEN' } },
+            orderBy: query.status === 'OPEN' ? { createdAt: 'desc' } : { resolvedAt: 'desc' },
+            take: 500,
+            include: { reporter: { select: { name: true, email: true } } },
+        });
+
+        const groups = new Map<string, typeof reports>();
+        for (const r of reports) {
+            const key = `${r.targetType}:${r.targetId}`;
+            groups.set(key, [...(groups.get(key) ?? []), r]);
+        }
+
+        // Load the reported items, one query per type
+        const summaries = new Map<string, ContentSummary>();
+        for (const type of REPORTABLE_TYPES) {
+            const ids = [...new Set(reports.filter((r) => r.targetType === type).map((r) => r.targetId))];
+            if (ids.length === 0) continue;
+            for (const s of await listContent(type, { ids, take: ids.length })) summaries.set(`${type}:${s.id}`, s);
+        }
+
+        const targets = [...groups.entries()].map(([key, rows]) => ({
+            target_type: rows[0].targetType,
+            target_id: rows[0].targetId,
+            // Null if the item has been deleted since
+            content: summaries.get(key) ?? null,
+            report_count: rows.length,
+            last_reported_at: rows[0].createdAt.toISOString(),
+            reports: rows.map((r) => ({
+                id: r.id,
+                reason: r.reason,
+                details: r.details,
+                status: r.status,
+                reporter_name: r.reporter.name,
+                reporter_email: r.reporter.email,
+                created_at: r.createdAt.toISOString(),
+                resolved_at: r.resolvedAt?.toISOString() ?? null,
+            })),
+        }));
+        if (query.status === 'OPEN') targets.sort((a, b) => b.report_count - a.report_count);
+
+        res.json({ targets });
+    } catch (err) {
+        next(err);
+    }
+});
+
+const ResolveReportsSchema = z.object({
+    action: z.enum(RESOLUTION_TYPES),
+    note: z.string().trim().max(500).optional(),
+});
+
+adminRouter.post(
+    '/admin/reports/:type/:id/resolve',
+    requireAuth,
+    requirePermission('content:delete_any'),
+    async (req: AuthenticatedRequest, res, next) => {
+        try {
+            const type = z.enum(REPORTABLE_TYPES).parse(req.params.type);
+            const id = z.string().uuid().parse(req.params.id);
+            const body = ResolveReportsSchema.parse(req.body);
+
+            const closed = await resolveReports(type, id, body.action, req.user!.id, body.note);
+            if (closed === null) return res.status(404).json({ error: 'Nội dung không tồn tại' });
+            await recordAuditEvent(req, {
+                action: 'admin.reports.resolve',
+                targetType: type,
+                targetId: id,
+                metadata: { resolution: body.action, closed_reports: closed, note: body.note || null },
+            });
+            res.json({ closed });
+        } catch (err) {
+            next(err);
+        }
+    },
+);
+
+// Everything moderators (and the auto-hide rule) did to one item.
+adminRouter.get(
+    '/admin/content/:type/:id/history',
+    requireAuth,
+    requirePermission('content:delete_any'),
+    async (req, res, next) => {
+        try {
+            const type = z.enum(CONTENT_TYPES).parse(req.params.type);
+            const id = z.string().uuid().parse(req.params.id);
+
+            const actions = await prisma.moderationAction.findMany({
+                where: { targetType: type, targetId: id },
+                orderBy: { createdAt: 'desc' },
+                take: 100,
+            });
+            const moderatorIds = [...new Set(actions.map((a) => a.moderatorId).filter((v): v is string => !!v))];
+            const moderators = await prisma.user.findMany({
+                where: { id: { in: moderatorIds } },
+                select: { id: true, name: true },
+            });
+            const names = new Map(moderators.map((m) => [m.id, m.name]));
+
+            res.json({
+                actions: actions.map((a) => ({
+                    id: a.id,
+                    action: a.action,
+                    note: a.note,
+                    // Null for automatic actions
+                    moderator_name: a.moderatorId ? (names.get(a.moderatorId) ?? null) : null,
+                    created_at: a.createdAt.toISOString(),
+                })),
+            });
+        } catch (err) {
+            next(err);
+        }
+    },
+);
+
+// ============ LOGIN FAILURES ============
+
+const LoginFailuresQuerySchema = z.object({
+    hours: z.coerce.number().int().min(1).max(24 * 30).default(24),
+});
+
+// Recent failed sign-ins, the IPs and emails with the most of them, and
+// accounts currently locked out.
+adminRouter.get('/admin/login-failures', requireAuth, requirePermission('users:manage'), async (req, res, next) => {
+    try {
+        const query = LoginFailuresQuerySchema.parse(req.query);
+        const now = new Date();
+        const where: Prisma.LoginAttemptWhereInput = {
+            success: false,
+            createdAt: { gte: new Date(now.getTime() - query.hours * 3_600_000) },
+        };
+
+        const [total, recent, byIp, byEmail, locked] = await Promise.all([
+            prisma.loginAttempt.count({ where }),
+            prisma.loginAttempt.findMany({ where, orderBy: { createdAt: 'desc' }, take: 100 }),
+            prisma.loginAttempt.groupBy({
+                by: ['ip'],
+                where,
+                _count: { _all: true },
+                orderBy: { _count: { ip: 'desc' } },
+                take: 10,
+            }),
+            prisma.loginAttempt.groupBy({
+                by: ['email'],
+                where,
+                _count: { _all: true },
+                orderBy: { _count: { email: 'desc' } },
+                take: 10,
+            }),
+            prisma.user.findMany({
+                where: { lockedUntil: { gt: now } },
+                orderBy: { lockedUntil: 'desc' },
+                select: { id: true, email: true, lockedUntil: true },
+            }),
+        ]);
+
+        res.json({
+            hours: query.hours,
+            total,
+            by_ip: byIp.map((g) => ({ ip: g.ip, count: g._count._all })),
+            by_email: byEmail.map((g) => ({ email: g.email, count: g._count._all })),
+            locked_users: locked.map((u) => ({ id: u.id, email: u.email, locked_until: u.lockedUntil!.toISOString() })),
+            recent: recent.map((a) => ({
+                id: a.id,
+                email: a.email,
+                ip: a.ip,
+                user_agent: a.userAgent,
+                method: a.method,
+                created_at: a.createdAt.toISOString(),
+            })),
+        });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// ============ AUDIT LOG ============
+
+const AuditQuerySchema = z.object({
+    // Email or name of whoever acted
+    actor: z.string().trim().max(100).optional(),
+    // An exact action, or a prefix ending in "." such as "admin."
+    action: z.string().trim().max(100).optional(),
+    target_type: z.string().trim().max(50).optional(),
+    target_id: z.string().uuid().optional(),
+    ip: z.string().trim().max(100).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    take: z.coerce.number().int().min(1).max(500).optional(),
+    format: z.enum(['json', 'csv']).default('json'),
+});
+
+// Upper bound for one CSV export; narrow the date range for more.
+const AUDIT_CSV_MAX_ROWS = 10_000;
+
+const AUDIT_CSV_COLUMNS = [
+    'created_at',
+    'action',
+    'actor_email',
+    'actor_name',
+    'target_type',
+    'target_id',
+    'ip',
+    'user_agent',
+    'metadata',
+] as const;
+
+// Quote every cell; a leading = + - @, tab or carriage return is defused so spreadsheets don't run it as a formula.
+function csvCell(value: string | null): string {
+    const text = value ?? '';
+    const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+    return `"${safe.replace(/"/g, '""')}"`;
+}
+
+adminRouter.get('/admin/audit', requireAuth, requirePermission('users:manage'), async (req, res, next) => {
+    try {
+        const query = AuditQuerySchema.parse(req.query);
+
+        const where: Prisma.AuditEventWhereInput = {};
+        if (query.actor) {
+            where.actor = {
+                OR: [
+                    { email: { contains: query.actor, mode: 'insensitive' } },
+                    { name: { contains: query.actor, mode: 'insensitive' } },
+                ],
+            };
+        }
+        if (query.action) where.action = query.action.endsWith('.') ? { startsWith: query.action } : query.action;
+        if (query.target_type) where.targetType = query.target_type;
+        if (query.target_id) where.targetId = query.target_id;
+        if (query.ip) where.ip = query.ip;
+        if (query.from || query.to) where.createdAt = { gte: query.from, lte: query.to };
+
+        const csv = query.format === 'csv';
+        const events = await prisma.auditEvent.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            take: csv ? AUDIT_CSV_MAX_ROWS : (query.take ?? 100),
+            include: { actor: { select: { email: true, name: true } } },
+        });
+
+        const rows = events.map((e) => ({
+            id: e.id,
+            created_at: e.createdAt.toISOString(),
+            action: e.action,
+            actor_id: e.actorId,
+            actor_email: e.actor?.email ?? null,
+            actor_name: e.actor?.name ?? null,
+            target_type: e.targetType,
+            target_id: e.targetId,
+            ip: e.ip,
+            user_agent: e.userAgent,
+            metadata: e.metadata,
+        }));
+
+        if (!csv) return res.json({ events: rows });
+
+        const lines = [
+            AUDIT_CSV_COLUMNS.join(','),
+            ...rows.map((row) =>
+                AUDIT_CSV_COLUMNS.map((col) =>
+                    csvCell(col === 'metadata' ? (row.metadata == null ? null : JSON.stringify(row.metadata)) : row[col]),
+                ).join(','),
+            ),
+        ];
+        const filename = `audit-${new Date().toISOString().slice(0, 10)}.csv`;
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        // BOM so Excel reads the Vietnamese text as UTF-8
+        res.send(`\uFEFF${lines.join('\r\n')}\r\n`);
+    } catch (err) {
+        next(err);
+    }
+});
@@ -1,11 +1,47 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { authenticator } from '@otplib/preset-default';
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simplewebauthn/server';
 import { prisma } from '../prisma';
 import { getEnv } from '../env';
-import { requireAuth, type AuthenticatedRequest } from '../middleware/auth';
+import { getCookieValue, requireAuth, type AuthenticatedRequest } from '../middleware/auth';
+import { queueEmail } from '../lib/mailer';
+import { diffFields, recordAuditEvent } from '../lib/audit';
+import { refreshProductSearchText } from '../lib/search';
+import { getUserRoles, permissionsForRoles } from '../lib/permissions';
+import { generateToken, hashToken } from '../lib/tokens';
+import {
+    consumeRecoveryCode,
+    countRemainingRecoveryCodes,
+    deleteRecoveryCodes,
+    looksLikeRecoveryCode,
+    regenerateRecoveryCodes,
+} from '../lib/recoveryCodes';
+import {
+    OIDC_STATE_TTL_MS,
+    OidcError,
+    findOrCreateOidcUser,
+    finishOidcLogin,
+    listOidcProviders,
+    startOidcLogin,
+} from '../lib/oidc';
+import {
+    MAX_PASSKEYS_PER_USER,
+    createAuthenticationOptions,
+    createRegistrationOptions,
+    verifyAuthentication,
+    verifyRegistration,
+} from '../lib/passkeys';
+import {
+    ACCESS_TOKEN_TTL_S,
+    REFRESH_TOKEN_TTL_MS,
+    createSession,
+    findSessionIdByRefreshToken,
+    refreshSession,
+    revokeSession,
+    revokeUserSessions,
+} from '../lib/sessions';
 import {
     getClientIp,
     checkIpRateLimit,
@@ -20,25 +56,75 @@ import {
 export const authRouter = Router();
 
 const AUTH_COOKIE = 'eco_token';
+const REFRESH_COOKIE = 'eco_refresh';
+// The refresh token is only needed by the endpoints below, so don't send it anywhere else.
+const REFRESH_COOKIE_PATH = '/api/auth';
 
-function cookieOptions() {
+function cookieOptions(maxAge: number, path = '/') {
     const env = getEnv();
     const isProd = env.NODE_ENV === 'production';
     return {
         httpOnly: true,
         secure: isProd,
         sameSite: 'lax' as const,
-        path: '/',
-        maxAge: 7 * 24 * 60 * 60 * 1000,
+        path,
+        maxAge,
     };
 }
 
-function setAuthCookie(res: any, token: string) {
-    res.cookie(AUTH_COOKIE, token, cookieOptions());
+function setAuthCookies(res: any, tokens: { accessToken: string; refreshToken?: string }) {
+    res.cookie(AUTH_COOKIE, tokens.accessToken, cookieOptions(ACCESS_TOKEN_TTL_S * 1000));
+    if (tokens.refreshToken) {
+        res.cookie(REFRESH_COOKIE, tokens.refreshToken, cookieOptions(REFRESH_TOKEN_TTL_MS, REFRESH_COOKIE_PATH));
+    }
 }
 
 function clearAuthCookie(res: any) {
     res.clearCookie(AUTH_COOKIE, { path: '/' });
+    res.clearCookie(REFRESH_COOKIE, { path: REFRESH_COOKIE_PATH });
+}
+
+async function startSession(res: any, userId: string, loginAttemptId: string) {
+    setAuthCookies(res, await createSession(userId, loginAttemptId));
+}
+
+// Every sign-in method checks this before starting a session. Suspending a
+// user also revokes their sessions (see routes/admin.ts).
+const ACCOUNT_SUSPENDED = {
+    error: 'Tài khoản của bạn đã bị tạm ngưng. Vui lòng liên hệ quản trị viên.',
+    code: 'ACCOUNT_SUSPENDED',
+};
+
+// ============ EMAIL VERIFICATION ============
+const VERIFY_EMAIL = {
+    TOKEN_TTL_MS: 24 * 60 * 60 * 1000, // 24 hours
+    RESEND_INTERVAL_MS: 60 * 1000, // 1 minute between emails
+    RESEND_MAX_PER_HOUR: 5,
+};
+
+/**
+ * Issue a fresh verification token and email the link to the user.
+ * Runs after the response is sent, so it logs instead of throwing.
+ */
+async function sendVerificationEmail(user: { id: string; email: string; name: string }) {
+    try {
+        const env = getEnv();
+        const { token, tokenHash } = generateToken();
+        await prisma.emailVerificationToken.create({
+            data: {
+                userId: user.id,
+                tokenHash,
+                expiresAt: new Date(Date.now() + VERIFY_EMAIL.TOKEN_TTL_MS),
+            },
+        });
+        await queueEmail(user.email, 'verify-email', {
+            name: user.name,
+            url: `${env.FRONTEND_ORIGIN}/verify-email?token=${encodeURIComponent(token)}`,
+            expiresInHours: VERIFY_EMAIL.TOKEN_TTL_MS / 3_600_000,
+        });
+    } catch (err: any) {
+        console.error('Failed to send verification email:', err?.message ?? err);
+    }
 }
 
 const SignupSchema = z.object({
@@ -62,11 +148,19 @@ authRouter.post('/signup', async (req, res, next) => {
             select: { id: true, email: true, name: true },
         });
 
-        const env = getEnv();
-        const token = jwt.sign({}, env.JWT_SECRET, { subject: user.id, expiresIn: '7d' });
-        setAuthCookie(res, token);
+        const { attemptId } = await recordLoginAttempt(
+            user.email,
+            getClientIp(req),
+            req.header('user-agent'),
+            true,
+            user.id,
+            'SIGNUP',
+        );
+        await startSession(res, user.id, attemptId);
 
-        res.status(201).json({ user });
+        res.status(201).json({ user: { ...user, emailVerified: false } });
+
+        await sendVerificationEmail(user);
     } catch (err: any) {
         // Handle Prisma unique constraint violation (P2002)
         if (err?.code === 'P2002') {
@@ -76,6 +170,30 @@ authRouter.post('/signup', async (req, res, next) => {
     }
 });
 
+/**
+ * Create the short-lived (2 minutes) challenge the TOTP step of a login redeems.
+ */
+async function createLoginChallenge(userId: string): Promise<{ id: string; expiresAt: Date }> {
+    // Clean up old challenges (best-effort)
+    const now = new Date();
+    const prismaAny = prisma as any;
+    await prismaAny.loginChallenge.deleteMany({
+        where: {
+            userId,
+            OR: [{ expiresAt: { lt: now } }, { usedAt: { not: null } }],
+        },
+    });
+
+    const expiresAt = new Date(Date.now() + 2 * 60 * 1000);
+    return prismaAny.loginChallenge.create({
+        data: {
+            userId,
+            expiresAt,
+        },
+        select: { id: true, expiresAt: true },
+    });
+}
+
 const LoginSchema = z.object({
     email: z.string().email().max(255),
     password: z.string().min(1).max(200),
@@ -131,18 +249,25 @@ authRouter.post('/login', async (req, res, next) => {
             return res.status(401).json({ error: 'Invalid credentials' });
         }
 
-        const ok = await bcrypt.compare(body.password, user.passwordHash);
+        // Accounts created through social login have no password until they set one.
+        const ok = user.passwordHash ? await bcrypt.compare(body.password, user.passwordHash) : false;
         if (!ok) {
             // Record failed attempt and check for lockout
             recordIpAttempt(ip);
             const result = await recordLoginAttempt(normalizedEmail, ip, userAgent, false, user.id);
 
             if (result.accountLocked) {
-                return res.status(423).json({
+                res.status(423).json({
                     error: `Tài khoản đã bị khóa do quá nhiều lần đăng nhập thất bại. Vui lòng thử lại sau ${RATE_LIMIT.LOCKOUT_DURATION_MS / 60000} phút.`,
                     code: 'ACCOUNT_LOCKED',
                     retryAfter: RATE_LIMIT.LOCKOUT_DURATION_MS / 1000,
                 });
+                await queueEmail(user.email, 'account-locked', {
+                    name: user.name,
+                    lockedMinutes: RATE_LIMIT.LOCKOUT_DURATION_MS / 60000,
+                    ip,
+                });
+                return;
             }
 
             return res.status(401).json({ error: 'Invalid credentials' });
@@ -151,6 +276,9 @@ authRouter.post('/login', async (req, res, next) => {
         // Clear IP attempts on successful password verification
         clearIpAttempts(ip);
 
+        // Only told after the right password, so this doesn't reveal who is suspended
+        if (user.suspendedAt) return res.status(403).json(ACCOUNT_SUSPENDED);
+
         // NOTE: Prisma client typings may be stale in the editor until `prisma generate` is picked up.
         // Keep runtime correct by reading the fields defensively.
         const userAny = user as any;
@@ -159,7 +287,7 @@ authRouter.post('/login', async (req, res, next) => {
         // When enabled, require the 2-minute TOTP challenge.
         if (!userAny.totpEnabled || !userAny.totpSecret) {
             // Record successful login
-            await recordLoginAttempt(normalizedEmail, ip, userAgent, true, user.id);
+            const { attemptId } = await recordLoginAttempt(normalizedEmail, ip, userAgent, true, user.id);
 
             // Update last login time
             await prisma.user.update({
@@ -167,46 +295,95 @@ authRouter.post('/login', async (req, res, next) => {
                 data: { lastLoginAt: new Date() },
             });
 
-            const env = getEnv();
-            const token = jwt.sign({}, env.JWT_SECRET, { subject: user.id, expiresIn: '7d' });
-            setAuthCookie(res, token);
+            await startSession(res, user.id, attemptId);
             return res.json({
                 totpRequired: false,
-                user: { id: user.id, email: user.email, name: user.name },
+                user: { id: user.id, email: user.email, name: user.name, emailVerified: !!user.emailVerifiedAt },
             });
         }
 
-        // Clean up old challenges (best-effort)
-        const now = new Date();
-        const prismaAny = prisma as any;
-        await prismaAny.loginChallenge.deleteMany({
-            where: {
-                userId: user.id,
-                OR: [{ expiresAt: { lt: now } }, { usedAt: { not: null } }],
-            },
-        });
-
-        // Create a short-lived (2 minutes) login challenge for TOTP input
-        const expiresAt = new Date(Date.now() + 2 * 60 * 1000);
-        const challenge = await prismaAny.loginChallenge.create({
-            data: {
-                userId: user.id,
-                expiresAt,
-            },
-            select: { id: true, expiresAt: true },
-        });
+        const challenge = await createLoginChallenge(user.id);
 
         res.json({
             totpRequired: true,
             challengeId: challenge.id,
             expiresAt: challenge.expiresAt.toISOString(),
-            user: { id: user.id, email: user.email, name: user.name },
+            user: { id: user.id, email: user.email, name: user.name, emailVerified: !!user.emailVerifiedAt },
         });
     } catch (err) {
         next(err);
     }
 });
 
+// A 6-8 digit TOTP code or a recovery code such as "K7QX2-M9PRT".
+const SecondFactorCodeSchema = z.string().trim().min(6).max(20);
+
+/**
+ * Check a TOTP code, or a recovery code (which is spent on success).
+ * Returns which one matched, or null.
+ */
+async function verifySecondFactor(
+    user: { id: string; totpSecret: string | null },
+    code: string,
+): Promise<'TOTP' | 'RECOVERY_CODE' | null> {
+    if (/^\d{6,8}$/.test(code)) {
+        if (!user.totpSecret) return null;
+        authenticator.options = { window: 1 };
+        return authenticator.verify({ token: code, secret: user.totpSecret }) ? 'TOTP' : null;
+    }
+    if (looksLikeRecoveryCode(code) && (await consumeRecoveryCode(user.id, code))) {
+        return 'RECOVERY_CODE';
+    }
+    return null;
+}
+
+const INVALID_SECOND_FACTOR = { error: 'Mã TOTP hoặc mã khôi phục không đúng.', code: 'INVALID_TOTP' };
+
+/**
+ * verifySecondFactor for a signed-in user changing their 2FA settings. A
+ * stolen session must not get unlimited guesses, so failures count against
+ * the IP and the account like failed sign-ins (see /login/totp). Answers the
+ * request itself and returns null when the code can't be accepted.
+ */
+async function verifySecondFactorThrottled(
+    req: AuthenticatedRequest,
+    res: any,
+    user: { id: string; email: string; totpSecret: string | null },
+    code: string,
+): Promise<'TOTP' | 'RECOVERY_CODE' | null> {
+    const ip = getClientIp(req);
+    const ipCheck = checkIpRateLimit(ip);
+    if (!ipCheck.allowed) {
+        res.status(429).json({
+            error: `Quá nhiều yêu cầu. Vui lòng thử lại sau ${ipCheck.remainingSeconds} giây.`,
+            code: 'IP_RATE_LIMIT',
+            retryAfter: ipCheck.remainingSeconds,
+        });
+        return null;
+    }
+    const emailCheck = await checkEmailRateLimit(user.email);
+    if (!emailCheck.allowed) {
+        res.status(429).json({ error: emailCheck.message, code: 'EMAIL_RATE_LIMIT' });
+        return null;
+    }
+
+    const method = await verifySecondFactor(user, code);
+    if (!method) {
+        recordIpAttempt(ip);
+        await recordLoginAttempt(
+            user.email,
+            ip,
+            req.header('user-agent'),
+            false,
+            user.id,
+            looksLikeRecoveryCode(code) ? 'RECOVERY_CODE' : 'TOTP',
+        );
+        res.status(401).json(INVALID_SECOND_FACTOR);
+        return null;
+    }
+    return method;
+}
+
 authRouter.get('/totp', requireAuth, async (req: AuthenticatedRequest, res, next) => {
     try {
         const userId = req.user!.id;
@@ -218,6 +395,7 @@ authRouter.get('/totp', requireAuth, async (req: AuthenticatedRequest, res, next
         res.json({
             totpEnabled: user.totpEnabled,
             hasSecret: Boolean(user.totpSecret),
+            recoveryCodesRemaining: user.totpEnabled ? await countRemainingRecoveryCodes(userId) : 0,
         });
     } catch (err) {
         next(err);
@@ -279,33 +457,71 @@ authRouter.post('/totp/enable', requireAuth, async (req: AuthenticatedRequest, r
             where: { id: userId },
             data: { totpEnabled: true },
         });
+        const recoveryCodes = await regenerateRecoveryCodes(userId);
+        await recordAuditEvent(req, { action: 'totp.enable', targetType: 'users', targetId: userId });
 
-        res.json({ totpEnabled: true });
+        res.json({ totpEnabled: true, recoveryCodes });
     } catch (err) {
         next(err);
     }
 });
 
+const SecondFactorSchema = z.object({
+    code: SecondFactorCodeSchema,
+});
+
 authRouter.post('/totp/disable', requireAuth, async (req: AuthenticatedRequest, res, next) => {
     try {
         const userId = req.user!.id;
+        const body = SecondFactorSchema.parse(req.body);
+
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { id: true, email: true, totpEnabled: true, totpSecret: true },
+        });
+        if (!user) return res.status(404).json({ error: 'Not found' });
+        if (!user.totpEnabled) return res.json({ totpEnabled: false });
+
+        if (!(await verifySecondFactorThrottled(req, res, user, body.code))) return;
+
         await prisma.user.update({
             where: { id: userId },
             data: { totpEnabled: false },
         });
+        await deleteRecoveryCodes(userId);
+        await recordAuditEvent(req, { action: 'totp.disable', targetType: 'users', targetId: userId });
         res.json({ totpEnabled: false });
     } catch (err) {
         next(err);
     }
 });
 
+// Replace all recovery codes, e.g. after using some or losing the printout.
+authRouter.post('/totp/recovery-codes', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const body = SecondFactorSchema.parse(req.body);
+
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { id: true, email: true, totpEnabled: true, totpSecret: true },
+        });
+        if (!user) return res.status(404).json({ error: 'Not found' });
+        if (!user.totpEnabled) return res.status(409).json({ error: 'TOTP chưa được bật' });
+
+        if (!(await verifySecondFactorThrottled(req, res, user, body.code))) return;
+
+        const recoveryCodes = await regenerateRecoveryCodes(userId);
+        await recordAuditEvent(req, { action: 'totp.recovery_codes', targetType: 'users', targetId: userId });
+        res.json({ recoveryCodes });
+    } catch (err) {
+        next(err);
+    }
+});
+
 const VerifyTotpSchema = z.object({
     challengeId: z.string().uuid(),
-    code: z
-        .string()
-        .min(6)
-        .max(8)
-        .regex(/^\d+$/, 'Code must be numeric'),
+    code: SecondFactorCodeSchema,
 });
 
 authRouter.post('/login/totp', async (req, res, next) => {
@@ -332,24 +548,28 @@ authRouter.post('/login/totp', async (req, res, next) => {
         if (!userAny.totpEnabled || !userAny.totpSecret) {
             return res.status(403).json({ error: 'TOTP not configured for this account' });
         }
+        if (user.suspendedAt) return res.status(403).json(ACCOUNT_SUSPENDED);
 
         // Track failed attempts using challenge (stored in memory for simplicity)
         const attemptKey = `totp:${challenge.id}`;
         const maxAttempts = 5;
 
-        authenticator.options = { window: 1 };
-        const verified = authenticator.verify({ token: body.code, secret: userAny.totpSecret });
+        const method = await verifySecondFactor(user, body.code);
 
-        if (!verified) {
+        if (!method) {
             // Record failed login attempt
             recordIpAttempt(ip);
-            await recordLoginAttempt(user.email, ip, userAgent, false, user.id);
+            await recordLoginAttempt(
+                user.email,
+                ip,
+                userAgent,
+                false,
+                user.id,
+                looksLikeRecoveryCode(body.code) ? 'RECOVERY_CODE' : 'TOTP',
+            );
 
             // For TOTP we use in-memory tracking since challenges are short-lived
-            return res.status(401).json({
-                error: 'Mã TOTP không đúng.',
-                code: 'INVALID_TOTP',
-            });
+            return res.status(401).json(INVALID_SECOND_FACTOR);
         }
 
         await prismaAny.loginChallenge.update({
@@ -358,7 +578,7 @@ authRouter.post('/login/totp', async (req, res, next) => {
         });
 
         // Record successful login
-        await recordLoginAttempt(user.email, ip, userAgent, true, user.id);
+        const { attemptId } = await recordLoginAttempt(user.email, ip, userAgent, true, user.id, method);
 
         // Update last login time
         await prisma.user.update({
@@ -369,25 +589,124 @@ authRouter.post('/login/totp', async (req, res, next) => {
         // Clear IP attempts on successful login
         clearIpAttempts(ip);
 
-        const env = getEnv();
-        const token = jwt.sign({}, env.JWT_SECRET, { subject: user.id, expiresIn: '7d' });
-        setAuthCookie(res, token);
+        await startSession(res, user.id, attemptId);
 
-        res.json({ user: { id: user.id, email: user.email, name: user.name } });
+        res.json({
+            user: { id: user.id, email: user.email, name: user.name, emailVerified: !!user.emailVerifiedAt },
+            // Lets the client warn when the user is running out of codes.
+            ...(method === 'RECOVERY_CODE' ? { recoveryCodesRemaining: await countRemainingRecoveryCodes(user.id) } : {}),
+        });
     } catch (err) {
         next(err);
     }
 });
 
-authRouter.get('/me', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+const VerifyEmailSchema = z.object({
+    token: z.string().min(1).max(200),
+});
+
+authRouter.post('/verify-email', async (req, res, next) => {
+    try {
+        const body = VerifyEmailSchema.parse(req.body);
+        const record = await prisma.emailVerificationToken.findUnique({
+            where: { tokenHash: hashToken(body.token) },
+            include: { user: true },
+        });
+
+        if (!record || record.usedAt) {
+            return res.status(400).json({ error: 'Liên kết xác thực không hợp lệ hoặc đã được sử dụng.', code: 'INVALID_TOKEN' });
+        }
+        if (record.expiresAt.getTime() <= Date.now()) {
+            return res.status(410).json({ error: 'Liên kết xác thực đã hết hạn. Vui lòng yêu cầu gửi lại.', code: 'TOKEN_EXPIRED' });
+        }
+
+        const now = new Date();
+        const firstVerification = !record.user.emailVerifiedAt;
+        const [, user] = await prisma.$transaction([
+            prisma.emailVerificationToken.update({ where: { id: record.id }, data: { usedAt: now } }),
+            prisma.user.update({
+                where: { id: record.userId },
+                data: { emailVerifiedAt: record.user.emailVerifiedAt ?? now },
+                select: { id: true, email: true, name: true },
+            }),
+        ]);
+
+        res.json({ user: { ...user, emailVerified: true } });
+
+        if (firstVerification) {
+            await queueEmail(user.email, 'welcome', { name: user.name, appUrl: getEnv().FRONTEND_ORIGIN });
+        }
+    } catch (err) {
+        next(err);
+    }
+});
+
+authRouter.post('/verify-email/resend', requireAuth, async (req: AuthenticatedRequest, res, next) => {
     try {
         const userId = req.user!.id;
         const user = await prisma.user.findUnique({
             where: { id: userId },
-            select: { id: true, email: true, name: true, createdAt: true },
+            select: { id: true, email: true, name: true, emailVerifiedAt: true },
         });
         if (!user) return res.status(404).json({ error: 'Not found' });
-        res.json({ user });
+        if (user.emailVerifiedAt) {
+            return res.status(409).json({ error: 'Email đã được xác thực.', code: 'ALREADY_VERIFIED' });
+        }
+
+        const since = new Date(Date.now() - 60 * 60 * 1000);
+        const recent = await prisma.emailVerificationToken.findMany({
+            where: { userId, createdAt: { gte: since } },
+            orderBy: { createdAt: 'desc' },
+            select: { createdAt: true },
+        });
+
+        const waitMs = recent[0] ? recent[0].createdAt.getTime() + VERIFY_EMAIL.RESEND_INTERVAL_MS - Date.now() : 0;
+        if (waitMs > 0) {
+            const retryAfter = Math.ceil(waitMs / 1000);
+            return res.status(429).json({
+                error: `Vui lòng đợi ${retryAfter} giây trước khi gửi lại.`,
+                code: 'RESEND_RATE_LIMIT',
+                retryAfter,
+            });
+        }
+        if (recent.length >= VERIFY_EMAIL.RESEND_MAX_PER_HOUR) {
+            const retryAfter = Math.ceil((recent[recent.length - 1].createdAt.getTime() + 60 * 60 * 1000 - Date.now()) / 1000);
+            return res.status(429).json({
+                error: 'Bạn đã yêu cầu gửi lại quá nhiều lần. Vui lòng thử lại sau.',
+                code: 'RESEND_RATE_LIMIT',
+                retryAfter,
+            });
+        }
+
+        res.json({ sent: true });
+
+        await sendVerificationEmail(user);
+    } catch (err) {
+        next(err);
+    }
+});
+
+const ME_SELECT = { id: true, email: true, name: true, createdAt: true, emailVerifiedAt: true, passwordHash: true } as const;
+
+// The signed-in user as the frontend sees it, with staff roles and what they allow.
+async function toMe(user: { id: string; emailVerifiedAt: Date | null; passwordHash: string | null }) {
+    const { emailVerifiedAt, passwordHash, ...rest } = user;
+    const roles = await getUserRoles(user.id);
+    return {
+        ...rest,
+        emailVerified: !!emailVerifiedAt,
+        hasPassword: !!passwordHash,
+        roles,
+        permissions: permissionsForRoles(roles),
+    };
+}
+
+authRouter.get('/me', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: ME_SELECT });
+        if (!user) return res.status(404).json({ error: 'Not found' });
+        res.json({ user: await toMe(user) });
     } catch (err) {
         next(err);
     }
@@ -402,20 +721,30 @@ authRouter.patch('/me', requireAuth, async (req: AuthenticatedRequest, res, next
         const userId = req.user!.id;
         const body = UpdateMeSchema.parse(req.body);
 
+        const before = await prisma.user.findUnique({ where: { id: userId }, select: { name: true, email: true } });
+        if (!before) return res.status(404).json({ error: 'Not found' });
         const user = await prisma.user.update({
             where: { id: userId },
             data: { name: body.name },
-            select: { id: true, email: true, name: true, createdAt: true },
+            select: ME_SELECT,
         });
 
-        res.json({ user });
+        const changes = diffFields(before, { name: user.name, email: user.email }, ['name', 'email']);
+        // Listings are searchable by seller name
+        if (changes.name) await refreshProductSearchText(prisma, { sellerId: userId });
+        if (Object.keys(changes).length > 0) {
+            await recordAuditEvent(req, { action: 'profile.update', targetType: 'users', targetId: userId, metadata: { changes } });
+        }
+
+        res.json({ user: await toMe(user) });
     } catch (err) {
         next(err);
     }
 });
 
 const ChangePasswordSchema = z.object({
-    currentPassword: z.string().min(1).max(200),
+    // Not needed when setting a first password on a social-login account
+    currentPassword: z.string().min(1).max(200).optional(),
     newPassword: z.string().min(8).max(200),
     totpCode: z
         .string()
@@ -436,11 +765,13 @@ authRouter.post('/password', requireAuth, async (req: AuthenticatedRequest, res,
         });
         if (!user) return res.status(404).json({ error: 'Not found' });
 
-        const currentOk = await bcrypt.compare(body.currentPassword, user.passwordHash);
-        if (!currentOk) return res.status(401).json({ error: 'Mật khẩu hiện tại không đúng' });
+        if (user.passwordHash) {
+            const currentOk = !!body.currentPassword && (await bcrypt.compare(body.currentPassword, user.passwordHash));
+            if (!currentOk) return res.status(401).json({ error: 'Mật khẩu hiện tại không đúng', code: 'INVALID_PASSWORD' });
 
-        const sameAsOld = await bcrypt.compare(body.newPassword, user.passwordHash);
-        if (sameAsOld) return res.status(400).json({ error: 'Mật khẩu mới phải khác mật khẩu hiện tại' });
+            const sameAsOld = await bcrypt.compare(body.newPassword, user.passwordHash);
+            if (sameAsOld) return res.status(400).json({ error: 'Mật khẩu mới phải khác mật khẩu hiện tại' });
+        }
 
         if (user.totpEnabled && user.totpSecret) {
             if (!body.totpCode) {
@@ -454,21 +785,600 @@ authRouter.post('/password', requireAuth, async (req: AuthenticatedRequest, res,
         const passwordHash = await bcrypt.hash(body.newPassword, 12);
         await prisma.user.update({
             where: { id: userId },
-            data: { passwordHash },
+            data: { passwordHash, passwordChangedAt: new Date() },
             select: { id: true },
         });
 
+        // Whoever else knew the old password is signed out; this device stays in.
+        const revokedSessions = await revokeUserSessions(userId, req.user!.sessionId);
+        await recordAuditEvent(req, {
+            action: 'password.change',
+            targetType: 'users',
+            targetId: userId,
+            // Setting a first password on a social-login account
+            metadata: { first_password: !user.passwordHash, revoked_sessions: revokedSessions },
+        });
+
+        res.json({ ok: true, revokedSessions });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// ============ FORGOT / RESET PASSWORD ============
+const PASSWORD_RESET = {
+    TOKEN_TTL_MS: 30 * 60 * 1000, // 30 minutes
+    REQUEST_INTERVAL_MS: 60 * 1000, // 1 minute between emails
+    REQUEST_MAX_PER_HOUR: 5,
+    // Wrong codes per link before it is spent, so a leaked link can't be used to guess the code
+    MAX_CODE_ATTEMPTS: 5,
+};
+
+class ResetTokenUsedError extends Error {}
+
+const ForgotPasswordSchema = z.object({
+    email: z.string().email().max(255),
+});
+
+// Always answers the same way so the form can't be used to probe which emails have accounts.
+authRouter.post('/password/forgot', async (req, res, next) => {
+    try {
+        const body = ForgotPasswordSchema.parse(req.body);
+        const email = body.email.toLowerCase().trim();
+
+        res.json({ ok: true });
+
+        const user = await prisma.user.findUnique({
+            where: { email },
+            select: { id: true, email: true, name: true },
+        });
+        if (!user) return;
+
+        const recent = await prisma.passwordResetToken.findMany({
+            where: { userId: user.id, createdAt: { gte: new Date(Date.now() - 60 * 60 * 1000) } },
+            orderBy: { createdAt: 'desc' },
+            select: { createdAt: true },
+        });
+        if (
+            recent.length >= PASSWORD_RESET.REQUEST_MAX_PER_HOUR ||
+            (recent[0] && Date.now() - recent[0].createdAt.getTime() < PASSWORD_RESET.REQUEST_INTERVAL_MS)
+        ) {
+            return;
+        }
+
         const env = getEnv();
-        const token = jwt.sign({}, env.JWT_SECRET, { subject: userId, expiresIn: '7d' });
-        setAuthCookie(res, token);
+        const { token, tokenHash } = generateToken();
+        await prisma.passwordResetToken.create({
+            data: {
+                userId: user.id,
+                tokenHash,
+                expiresAt: new Date(Date.now() + PASSWORD_RESET.TOKEN_TTL_MS),
+            },
+        });
+        await queueEmail(user.email, 'password-reset', {
+            name: user.name,
+            url: `${env.FRONTEND_ORIGIN}/reset-password?token=${encodeURIComponent(token)}`,
+            expiresInMinutes: PASSWORD_RESET.TOKEN_TTL_MS / 60_000,
+        });
+    } catch (err: any) {
+        if (res.headersSent) {
+            console.error('Failed to send password reset email:', err?.message ?? err);
+            return;
+        }
+        next(err);
+    }
+});
+
+const ResetPasswordSchema = z.object({
+    token: z.string().min(1).max(200),
+    newPassword: z.string().min(8).max(200),
+    // TOTP or recovery code, so losing the phone doesn't lock the account for good
+    totpCode: SecondFactorCodeSchema.optional(),
+});
+
+authRouter.post('/password/reset', async (req, res, next) => {
+    try {
+        const body = ResetPasswordSchema.parse(req.body);
+        const ip = getClientIp(req);
+
+        const ipCheck = checkIpRateLimit(ip);
+        if (!ipCheck.allowed) {
+            return res.status(429).json({
+                error: `Quá nhiều yêu cầu. Vui lòng thử lại sau ${ipCheck.remainingSeconds} giây.`,
+                code: 'IP_RATE_LIMIT',
+                retryAfter: ipCheck.remainingSeconds,
+            });
+        }
+
+        const record = await prisma.passwordResetToken.findUnique({
+            where: { tokenHash: hashToken(body.token) },
+            include: { user: true },
+        });
+        if (!record || record.usedAt) {
+            return res.status(400).json({ error: 'Liên kết đặt lại mật khẩu không hợp lệ hoặc đã được sử dụng.', code: 'INVALID_TOKEN' });
+        }
+        if (record.expiresAt.getTime() <= Date.now()) {
+            return res.status(410).json({ error: 'Liên kết đặt lại mật khẩu đã hết hạn. Vui lòng yêu cầu lại.', code: 'TOKEN_EXPIRED' });
+        }
+
+        const user = record.user;
+
+        // The emailed link alone must not be enough to take over a 2FA account.
+        if (user.totpEnabled && user.totpSecret) {
+            if (!body.totpCode) {
+                return res.status(400).json({
+                    error: 'Vui lòng nhập mã TOTP hoặc mã khôi phục để đặt lại mật khẩu.',
+                    code: 'TOTP_REQUIRED',
+                });
+            }
+            if (!(await verifySecondFactor(user, body.totpCode))) {
+                recordIpAttempt(ip);
+                const { failedAttempts } = await prisma.passwordResetToken.update({
+                    where: { id: record.id },
+                    data: { failedAttempts: { increment: 1 } },
+                    select: { failedAttempts: true },
+                });
+                if (failedAttempts >= PASSWORD_RESET.MAX_CODE_ATTEMPTS) {
+                    await prisma.passwordResetToken.updateMany({
+                        where: { id: record.id, usedAt: null },
+                        data: { usedAt: new Date() },
+                    });
+                    return res.status(400).json({
+                        error: 'Nhập sai mã quá nhiều lần. Liên kết này đã bị vô hiệu hóa, vui lòng yêu cầu liên kết mới.',
+                        code: 'INVALID_TOKEN',
+                    });
+                }
+                return res.status(401).json(INVALID_SECOND_FACTOR);
+            }
+        }
 
+        const passwordHash = await bcrypt.hash(body.newPassword, 12);
+        const now = new Date();
+        try {
+            await prisma.$transaction(async (tx) => {
+                // Claim the link first so two requests with it can't both succeed
+                const claimed = await tx.passwordResetToken.updateMany({
+                    where: { id: record.id, usedAt: null },
+                    data: { usedAt: now },
+                });
+                if (claimed.count !== 1) throw new ResetTokenUsedError();
+
+                await tx.user.update({
+                    where: { id: user.id },
+                    data: {
+                        passwordHash,
+                        passwordChangedAt: now,
+                        lockedUntil: null,
+                        // Opening the emailed link proves the address is theirs.
+                        emailVerifiedAt: user.emailVerifiedAt ?? now,
+                    },
+                });
+                // Spend any other outstanding links too.
+                await tx.passwordResetToken.updateMany({
+                    where: { userId: user.id, usedAt: null },
+                    data: { usedAt: now },
+                });
+            });
+        } catch (err) {
+            if (err instanceof ResetTokenUsedError) {
+                return res.status(400).json({ error: 'Liên kết đặt lại mật khẩu không hợp lệ hoặc đã được sử dụng.', code: 'INVALID_TOKEN' });
+            }
+            throw err;
+        }
+        const revokedSessions = await revokeUserSessions(user.id);
+        await recordAuditEvent(req, {
+            action: 'password.reset',
+            actorId: user.id,
+            targetType: 'users',
+            targetId: user.id,
+            metadata: { revoked_sessions: revokedSessions },
+        });
+
+        clearIpAttempts(ip);
+        res.json({ ok: true });
+    } catch (err) {
+        next(err);
+    }
+});
+
+authRouter.post('/logout', async (req, res, next) => {
+    try {
+        // Revoke the session even if the access token has already expired.
+        const refreshToken = getCookieValue(req.header('cookie'), REFRESH_COOKIE);
+        const sessionId = refreshToken ? await findSessionIdByRefreshToken(refreshToken) : null;
+        if (sessionId) await revokeSession(sessionId);
+
+        clearAuthCookie(res);
+        res.json({ ok: true });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// ============ SESSIONS ============
+
+// Exchange the refresh cookie for a new access token (and a rotated refresh token).
+authRouter.post('/refresh', async (req, res, next) => {
+    try {
+        const refreshToken = getCookieValue(req.header('cookie'), REFRESH_COOKIE);
+        const result = refreshToken ? await refreshSession(refreshToken) : null;
+        if (!result) {
+            clearAuthCookie(res);
+            return res.status(401).json({ error: 'Phiên đăng nhập đã hết hạn', code: 'SESSION_EXPIRED' });
+        }
+        setAuthCookies(res, result);
+        res.json({ ok: true });
+    } catch (err) {
+        next(err);
+    }
+});
+
+authRouter.get('/sessions', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const sessions = await prisma.session.findMany({
+            where: { userId: req.user!.id, revokedAt: null, expiresAt: { gt: new Date() } },
+            include: { loginAttempt: { select: { ip: true, userAgent: true } } },
+            orderBy: { lastSeenAt: 'desc' },
+        });
+
+        res.json({
+            sessions: sessions.map((s) => ({
+                id: s.id,
+                ip: s.loginAttempt?.ip ?? null,
+                userAgent: s.loginAttempt?.userAgent ?? null,
+                createdAt: s.createdAt.toISOString(),
+                lastSeenAt: s.lastSeenAt.toISOString(),
+                current: s.id === req.user!.sessionId,
+            })),
+        });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// Log out one device
+authRouter.delete('/sessions/:id', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const result = await prisma.session.updateMany({
+            where: { id: req.params.id, userId: req.user!.id, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+        if (result.count === 0) return res.status(404).json({ error: 'Không tìm thấy phiên đăng nhập' });
+        if (req.params.id === req.user!.sessionId) clearAuthCookie(res);
+        res.json({ ok: true });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// Log out every other device
+authRouter.post('/sessions/revoke-others', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const revokedSessions = await revokeUserSessions(req.user!.id, req.user!.sessionId);
+        res.json({ ok: true, revokedSessions });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// ============ PASSKEYS ============
+
+const PasskeyNameSchema = z.string().trim().min(1).max(60);
+
+// The browser's credential JSON; its contents are checked by lib/passkeys.ts.
+const CredentialResponseSchema = z
+    .object({
+        id: z.string().min(1).max(1024),
+        type: z.literal('public-key'),
+        response: z.object({}).passthrough(),
+    })
+    .passthrough();
+
+authRouter.get('/passkeys', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const passkeys = await prisma.passkey.findMany({
+            where: { userId: req.user!.id },
+            orderBy: { createdAt: 'desc' },
+            select: { id: true, name: true, backedUp: true, createdAt: true, lastUsedAt: true },
+        });
+        res.json({ passkeys });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// Accounts with neither a password nor TOTP prove themselves by having signed in this recently.
+const PASSKEY_REAUTH_MAX_AGE_MS = 10 * 60 * 1000; // 10 minutes
+
+const RegisterPasskeyOptionsSchema = z.object({
+    password: z.string().min(1).max(200).optional(),
+    code: SecondFactorCodeSchema.optional(),
+});
+
+// A passkey outlives password changes and session revocation, so adding one
+// asks for the password and 2FA code again: a stolen session alone isn't enough.
+authRouter.post('/passkeys/register/options', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const body = RegisterPasskeyOptionsSchema.parse(req.body ?? {});
+        const ip = getClientIp(req);
+        const user = await prisma.user.findUnique({
+            where: { id: req.user!.id },
+            select: {
+                id: true,
+                email: true,
+                name: true,
+                passwordHash: true,
+                totpEnabled: true,
+                totpSecret: true,
+                _count: { select: { passkeys: true } },
+            },
+        });
+        if (!user) return res.status(404).json({ error: 'Not found' });
+        if (user._count.passkeys >= MAX_PASSKEYS_PER_USER) {
+            return res.status(409).json({
+                error: `Mỗi tài khoản chỉ được đăng ký tối đa ${MAX_PASSKEYS_PER_USER} passkey.`,
+                code: 'PASSKEY_LIMIT',
+            });
+        }
+
+        const totpEnabled = user.totpEnabled && !!user.totpSecret;
+        if ((user.passwordHash && !body.password) || (totpEnabled && !body.code)) {
+            return res.status(403).json({
+                error: 'Vui lòng xác nhận lại mật khẩu và mã xác thực để thêm passkey.',
+                code: 'REAUTH_REQUIRED',
+            });
+        }
+
+        if (user.passwordHash) {
+            const ipCheck = checkIpRateLimit(ip);
+            if (!ipCheck.allowed) {
+                return res.status(429).json({
+                    error: `Quá nhiều yêu cầu. Vui lòng thử lại sau ${ipCheck.remainingSeconds} giây.`,
+                    code: 'IP_RATE_LIMIT',
+                    retryAfter: ipCheck.remainingSeconds,
+                });
+            }
+            if (!(await bcrypt.compare(body.password!, user.passwordHash))) {
+                recordIpAttempt(ip);
+                await recordLoginAttempt(user.email, ip, req.header('user-agent'), false, user.id);
+                return res.status(401).json({ error: 'Mật khẩu không đúng', code: 'INVALID_PASSWORD' });
+            }
+        }
+        if (totpEnabled && !(await verifySecondFactorThrottled(req, res, user, body.code!))) return;
+
+        if (!user.passwordHash && !totpEnabled) {
+            const session = await prisma.session.findUnique({
+                where: { id: req.user!.sessionId },
+                select: { createdAt: true },
+            });
+            if (!session || Date.now() - session.createdAt.getTime() > PASSKEY_REAUTH_MAX_AGE_MS) {
+                return res.status(403).json({
+                    error: 'Vui lòng đăng xuất và đăng nhập lại trước khi thêm passkey.',
+                    code: 'RECENT_LOGIN_REQUIRED',
+                });
+            }
+        }
+
+        res.json(await createRegistrationOptions(user));
+    } catch (err) {
+        next(err);
+    }
+});
+
+const RegisterPasskeySchema = z.object({
+    challengeId: z.string().uuid(),
+    response: CredentialResponseSchema,
+    name: PasskeyNameSchema.optional(),
+});
+
+authRouter.post('/passkeys/register/verify', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const body = RegisterPasskeySchema.parse(req.body);
+        const userId = req.user!.id;
+        const count = await prisma.passkey.count({ where: { userId } });
+
+        const passkey = await verifyRegistration(
+            userId,
+            body.challengeId,
+            body.response as unknown as RegistrationResponseJSON,
+            body.name ?? `Passkey ${count + 1}`,
+        );
+        if (!passkey) {
+            return res.status(400).json({ error: 'Không đăng ký được passkey. Vui lòng thử lại.', code: 'PASSKEY_INVALID' });
+        }
+        await recordAuditEvent(req, {
+            action: 'passkey.add',
+            targetType: 'users',
+            targetId: userId,
+            metadata: { passkey_id: passkey.id, name: passkey.name },
+        });
+        res.status(201).json({ passkey });
+
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true, name: true } });
+        if (user) {
+            await queueEmail(user.email, 'passkey-added', {
+                name: user.name,
+                passkeyName: passkey.name,
+                ip: getClientIp(req),
+                url: `${getEnv().FRONTEND_ORIGIN}/profile`,
+            });
+        }
+    } catch (err) {
+        next(err);
+    }
+});
+
+authRouter.patch('/passkeys/:id', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const name = PasskeyNameSchema.parse(req.body?.name);
+        const result = await prisma.passkey.updateMany({
+            where: { id: req.params.id, userId: req.user!.id },
+            data: { name },
+        });
+        if (result.count === 0) return res.status(404).json({ error: 'Không tìm thấy passkey' });
         res.json({ ok: true });
     } catch (err) {
         next(err);
     }
 });
 
-authRouter.post('/logout', (_req, res) => {
-    clearAuthCookie(res);
-    res.json({ ok: true });
+authRouter.delete('/passkeys/:id', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const result = await prisma.passkey.deleteMany({
+            where: { id: req.params.id, userId: req.user!.id },
+        });
+        if (result.count === 0) return res.status(404).json({ error: 'Không tìm thấy passkey' });
+        await recordAuditEvent(req, {
+            action: 'passkey.remove',
+            targetType: 'users',
+            targetId: req.user!.id,
+            metadata: { passkey_id: req.params.id },
+        });
+        res.json({ ok: true });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// The browser lists the passkeys it has for this site; no email is asked for.
+authRouter.post('/passkeys/login/options', async (req, res, next) => {
+    try {
+        const ip = getClientIp(req);
+
+        const ipCheck = checkIpRateLimit(ip);
+        if (!ipCheck.allowed) {
+            return res.status(429).json({
+                error: `Quá nhiều yêu cầu. Vui lòng thử lại sau ${ipCheck.remainingSeconds} giây.`,
+                code: 'IP_RATE_LIMIT',
+                retryAfter: ipCheck.remainingSeconds,
+            });
+        }
+
+        res.json(await createAuthenticationOptions());
+    } catch (err) {
+        next(err);
+    }
+});
+
+const PasskeyLoginSchema = z.object({
+    challengeId: z.string().uuid(),
+    response: CredentialResponseSchema,
+});
+
+// A passkey checks possession and the user's fingerprint/PIN, so no TOTP step follows.
+// Account lockout is not applied: it guards against password guessing, and
+// honouring it here would let anyone lock a user out of their passkey too.
+authRouter.post('/passkeys/login/verify', async (req, res, next) => {
+    try {
+        const body = PasskeyLoginSchema.parse(req.body);
+        const ip = getClientIp(req);
+        const userAgent = req.header('user-agent');
+
+        const ipCheck = checkIpRateLimit(ip);
+        if (!ipCheck.allowed) {
+            return res.status(429).json({
+                error: `Quá nhiều yêu cầu. Vui lòng thử lại sau ${ipCheck.remainingSeconds} giây.`,
+                code: 'IP_RATE_LIMIT',
+                retryAfter: ipCheck.remainingSeconds,
+            });
+        }
+
+        const result = await verifyAuthentication(body.challengeId, body.response as unknown as AuthenticationResponseJSON);
+        const user = result ? await prisma.user.findUnique({ where: { id: result.userId } }) : null;
+        if (!user) {
+            recordIpAttempt(ip);
+            return res.status(401).json({ error: 'Không xác thực được passkey.', code: 'PASSKEY_INVALID' });
+        }
+        if (user.suspendedAt) return res.status(403).json(ACCOUNT_SUSPENDED);
+
+        const { attemptId } = await recordLoginAttempt(user.email, ip, userAgent, true, user.id, 'PASSKEY');
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { lastLoginAt: new Date() },
+        });
+        clearIpAttempts(ip);
+
+        await startSession(res, user.id, attemptId);
+        res.json({
+            user: { id: user.id, email: user.email, name: user.name, emailVerified: !!user.emailVerifiedAt },
+        });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// ============ SOCIAL LOGIN (OIDC) ============
+
+const OIDC_STATE_COOKIE = 'eco_oidc_state';
+const OIDC_COOKIE_PATH = '/api/auth/oidc';
+
+// Only same-site paths: "//evil.example" and "/\evil.example" are other sites to a browser.
+function safeReturnTo(value: unknown): string {
+    if (typeof value !== 'string' || value.length > 500) return '/';
+    return value.startsWith('/') && !value.startsWith('//') && !value.includes('\\') ? value : '/';
+}
+
+// These endpoints are browser navigations, so failures go back to the login page.
+function redirectToLogin(res: any, params: Record<string, string>) {
+    res.redirect(`${getEnv().FRONTEND_ORIGIN}/login?${new URLSearchParams(params).toString()}`);
+}
+
+authRouter.get('/oidc/providers', (_req, res) => {
+    res.json({ providers: listOidcProviders() });
+});
+
+authRouter.get('/oidc/:provider/start', async (req, res) => {
+    try {
+        const { url, state } = await startOidcLogin(req.params.provider, safeReturnTo(req.query.returnTo));
+        res.cookie(OIDC_STATE_COOKIE, state, cookieOptions(OIDC_STATE_TTL_MS, OIDC_COOKIE_PATH));
+        res.redirect(url);
+    } catch (err: any) {
+        if (!(err instanceof OidcError)) console.error('OIDC start failed:', err?.message ?? err);
+        redirectToLogin(res, { oidcError: err instanceof OidcError ? err.code : 'PROVIDER_ERROR' });
+    }
+});
+
+authRouter.get('/oidc/:provider/callback', async (req, res) => {
+    const provider = req.params.provider;
+    const stateCookie = getCookieValue(req.header('cookie'), OIDC_STATE_COOKIE);
+    res.clearCookie(OIDC_STATE_COOKIE, { path: OIDC_COOKIE_PATH });
+
+    try {
+        const { identity, returnTo } = await finishOidcLogin(provider, req.originalUrl, stateCookie);
+        const { user, created } = await findOrCreateOidcUser(provider, identity);
+        if (user.suspendedAt) return redirectToLogin(res, { oidcError: ACCOUNT_SUSPENDED.code });
+
+        // The provider stands in for the password only: TOTP is still asked for.
+        if (user.totpEnabled && user.totpSecret) {
+            const challenge = await createLoginChallenge(user.id);
+            return redirectToLogin(res, { challenge: challenge.id, expiresAt: challenge.expiresAt.toISOString() });
+        }
+
+        const { attemptId } = await recordLoginAttempt(
+            user.email,
+            getClientIp(req),
+            req.header('user-agent'),
+            true,
+            user.id,
+            'OIDC',
+        );
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { lastLoginAt: new Date() },
+        });
+
+        await startSession(res, user.id, attemptId);
+        res.redirect(`${getEnv().FRONTEND_ORIGIN}${returnTo}`);
+
+        if (created) {
+            await queueEmail(user.email, 'welcome', { name: user.name, appUrl: getEnv().FRONTEND_ORIGIN });
+        }
+    } catch (err: any) {
+        if (err instanceof OidcError) {
+            if (err.code === 'PROVIDER_ERROR') console.warn(`OIDC login via ${provider} failed:`, err.message);
+            return redirectToLogin(res, { oidcError: err.code });
+        }
+        console.error('OIDC callback failed:', err?.message ?? err);
+        redirectToLogin(res, { oidcError: 'PROVIDER_ERROR' });
+    }
 });
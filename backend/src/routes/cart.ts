@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { prisma } from '../prisma';
 import { requireAuth, type AuthenticatedRequest } from '../middleware/auth';
+import { validateOrderQuantity } from '../lib/inventory';
 
 export const cartRouter = Router();
 
@@ -37,6 +38,9 @@ cartRouter.get('/cart', requireAuth, async (req: AuthenticatedRequest, res, next
                 image: i.product.imageUrl,
                 seller_name: i.product.seller.name,
                 co2_savings_kg: i.product.co2SavingsKg,
+                stock_quantity: i.product.stockQuantity,
+                min_order_quantity: i.product.minOrderQuantity,
+                status: i.product.status,
                 description: i.product.description ?? undefined,
                 posted_at: '',
             },
@@ -48,9 +52,10 @@ cartRouter.get('/cart', requireAuth, async (req: AuthenticatedRequest, res, next
     }
 });
 
+// Upper bound is only a sanity limit; the real cap is the product's stock.
 const AddItemSchema = z.object({
     productId: z.string().uuid(),
-    quantity: z.number().int().min(1).max(999).default(1),
+    quantity: z.number().int().min(1).max(1_000_000).default(1),
 });
 
 cartRouter.post('/cart/items', requireAuth, async (req: AuthenticatedRequest, res, next) => {
@@ -65,6 +70,19 @@ cartRouter.post('/cart/items', requireAuth, async (req: AuthenticatedRequest, re
             select: { id: true },
         });
 
+        const product = await prisma.product.findUnique({
+            where: { id: body.productId },
+            select: { status: true, hiddenAt: true, stockQuantity: true, minOrderQuantity: true, unit: true },
+        });
+        if (!product) return res.status(404).json({ error: 'Sản phẩm không tồn tại' });
+
+        const existing = await (prisma as any).cartItem.findUnique({
+            where: { cartId_productId: { cartId: cart.id, productId: body.productId } },
+            select: { quantity: true },
+        });
+        const stockError = validateOrderQuantity(product, (existing?.quantity ?? 0) + body.quantity);
+        if (stockError) return res.status(409).json({ error: stockError, code: 'INVALID_QUANTITY' });
+
         const item = await (prisma as any).cartItem.upsert({
             where: {
                 cartId_productId: {
@@ -98,6 +116,9 @@ cartRouter.post('/cart/items', requireAuth, async (req: AuthenticatedRequest, re
                     image: item.product.imageUrl,
                     seller_name: item.product.seller.name,
                     co2_savings_kg: item.product.co2SavingsKg,
+                    stock_quantity: item.product.stockQuantity,
+                    min_order_quantity: item.product.minOrderQuantity,
+                    status: item.product.status,
                     description: item.product.description ?? undefined,
                     posted_at: '',
                 },
@@ -109,7 +130,7 @@ cartRouter.post('/cart/items', requireAuth, async (req: AuthenticatedRequest, re
 });
 
 const UpdateItemSchema = z.object({
-    quantity: z.number().int().min(1).max(999),
+    quantity: z.number().int().min(1).max(1_000_000),
 });
 
 cartRouter.patch('/cart/items/:productId', requireAuth, async (req: AuthenticatedRequest, res, next) => {
@@ -125,6 +146,15 @@ cartRouter.patch('/cart/items/:productId', requireAuth, async (req: Authenticate
             select: { id: true },
         });
 
+        const product = await prisma.product.findUnique({
+            where: { id: productId },
+            select: { status: true, hiddenAt: true, stockQuantity: true, minOrderQuantity: true, unit: true },
+        });
+        if (!product) return res.status(404).json({ error: 'Sản phẩm không tồn tại' });
+
+        const stockError = validateOrderQuantity(product, body.quantity);
+        if (stockError) return res.status(409).json({ error: stockError, code: 'INVALID_QUANTITY' });
+
         const item = await (prisma as any).cartItem.update({
             where: {
                 cartId_productId: {
@@ -149,6 +179,9 @@ cartRouter.patch('/cart/items/:productId', requireAuth, async (req: Authenticate
                     image: item.product.imageUrl,
                     seller_name: item.product.seller.name,
                     co2_savings_kg: item.product.co2SavingsKg,
+                    stock_quantity: item.product.stockQuantity,
+                    min_order_quantity: item.product.minOrderQuantity,
+                    status: item.product.status,
                     description: item.product.description ?? undefined,
                     posted_at: '',
                 },
@@ -1,7 +1,9 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { prisma } from '../prisma';
-import { optionalAuth, requireAuth, type AuthenticatedRequest } from '../middleware/auth';
+import { optionalAuth, requireAuth, requirePermission, type AuthenticatedRequest } from '../middleware/auth';
+import { publish } from '../lib/realtime';
+import { notify } from '../lib/notifications';
 
 export const eventsRouter = Router();
 
@@ -31,6 +33,7 @@ eventsRouter.get('/events', optionalAuth, async (req: AuthenticatedRequest, res,
         const userId = req.user?.id;
 
         const rows = await (prisma as any).event.findMany({
+            where: { hiddenAt: null },
             orderBy: { startAt: 'asc' },
             take: query.take ?? 50,
             include: {
@@ -81,10 +84,8 @@ const CreateEventSchema = z.object({
     organizer: z.string().min(1).max(200).optional(),
 });
 
-// For now, allow any authenticated user to create an event.
-// (Can be tightened later with roles.)
-
-eventsRouter.post('/events', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+// Events are published by staff (moderators and admins).
+eventsRouter.post('/events', requireAuth, requirePermission('events:create'), async (req: AuthenticatedRequest, res, next) => {
     try {
         const body = CreateEventSchema.parse(req.body);
 
@@ -97,6 +98,7 @@ eventsRouter.post('/events', requireAuth, async (req: AuthenticatedRequest, res,
                 imageUrl: body.image,
                 description: body.description,
                 organizer: body.organizer,
+                creatorId: req.user!.id,
             },
             include: { _count: { select: { rsvps: true } } },
         });
@@ -123,11 +125,20 @@ eventsRouter.post('/events', requireAuth, async (req: AuthenticatedRequest, res,
 
 // RSVP toggle endpoints
 
+async function publishAttendees(eventId: string) {
+    const attendees = await (prisma as any).eventRsvp.count({ where: { eventId } });
+    await publish({ topic: 'events', type: 'event.rsvp', data: { event_id: eventId, attendees } });
+}
+
 eventsRouter.post('/events/:id/rsvp', requireAuth, async (req: AuthenticatedRequest, res, next) => {
     try {
         const userId = req.user!.id;
         const eventId = z.string().uuid().parse(req.params.id);
 
+        const existing = await (prisma as any).eventRsvp.findUnique({
+            where: { eventId_userId: { eventId, userId } },
+            select: { id: true },
+        });
         await (prisma as any).eventRsvp.upsert({
             where: { eventId_userId: { eventId, userId } },
             update: {},
@@ -135,6 +146,24 @@ eventsRouter.post('/events/:id/rsvp', requireAuth, async (req: AuthenticatedRequ
         });
 
         res.status(204).end();
+
+        await publishAttendees(eventId);
+
+        if (!existing) {
+            const [event, attendee] = await Promise.all([
+                prisma.event.findUnique({ where: { id: eventId }, select: { title: true, creatorId: true } }),
+                prisma.user.findUnique({ where: { id: userId }, select: { name: true } }),
+            ]);
+            if (event?.creatorId && event.creatorId !== userId) {
+                await notify({
+                    userId: event.creatorId,
+                    type: 'EVENT_RSVP',
+                    title: `${attendee?.name ?? 'Ai đó'} sẽ tham gia sự kiện của bạn`,
+                    body: event.title,
+                    data: { eventId },
+                });
+            }
+        }
     } catch (err) {
         next(err);
     }
@@ -154,6 +183,8 @@ eventsRouter.delete('/events/:id/rsvp', requireAuth, async (req: AuthenticatedRe
         }
 
         res.status(204).end();
+
+        await publishAttendees(eventId);
     } catch (err) {
         next(err);
     }
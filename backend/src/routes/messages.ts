@@ -0,0 +1,277 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { requireAuth, type AuthenticatedRequest } from '../middleware/auth';
+import { publish } from '../lib/realtime';
+import { isPublicProduct } from '../lib/productVisibility';
+
+export const messagesRouter = Router();
+
+const CONVERSATION_INCLUDE = {
+    product: { select: { id: true, title: true, imageUrl: true } },
+    buyer: { select: { id: true, name: true } },
+    seller: { select: { id: true, name: true } },
+    messages: { orderBy: { createdAt: 'desc' as const }, take: 1 },
+};
+
+type Participant = { role: 'buyer' | 'seller'; lastReadAt: Date | null };
+
+function participantOf(c: { buyerId: string; sellerId: string; buyerLastReadAt: Date | null; sellerLastReadAt: Date | null }, userId: string): Participant | null {
+    if (c.buyerId === userId) return { role: 'buyer', lastReadAt: c.buyerLastReadAt };
+    if (c.sellerId === userId) return { role: 'seller', lastReadAt: c.sellerLastReadAt };
+    return null;
+}
+
+// Messages from the other participant that arrived after my read marker.
+function unreadWhere(conversationId: string, userId: string, lastReadAt: Date | null) {
+    return {
+        conversationId,
+        senderId: { not: userId },
+        ...(lastReadAt ? { createdAt: { gt: lastReadAt } } : {}),
+    };
+}
+
+type ReadMarkers = {
+    id: string;
+    buyerId: string;
+    sellerId: string;
+    buyerLastReadAt: Date | null;
+    sellerLastReadAt: Date | null;
+    lastMessageAt: Date;
+};
+
+// Unread filters for the threads with something newer than their read marker.
+function unreadThreadsWhere(rows: ReadMarkers[], userId: string) {
+    return rows.flatMap((c) => {
+        const { lastReadAt } = participantOf(c, userId)!;
+        return !lastReadAt || c.lastMessageAt > lastReadAt ? [unreadWhere(c.id, userId, lastReadAt)] : [];
+    });
+}
+
+function toMessageResponse(m: any) {
+    return {
+        id: m.id,
+        conversation_id: m.conversationId,
+        sender_id: m.senderId,
+        body: m.body,
+        created_at: m.createdAt.toISOString(),
+    };
+}
+
+function toConversationResponse(c: any, userId: string, unreadCount: number) {
+    const isBuyer = c.buyerId === userId;
+    const other = isBuyer ? c.seller : c.buyer;
+    const last = c.messages?.[0];
+    return {
+        id: c.id,
+        role: isBuyer ? 'buyer' : 'seller',
+        other_party: { id: other.id, name: other.name },
+        product: { id: c.product.id, title: c.product.title, image: c.product.imageUrl },
+        last_message: last ? toMessageResponse(last) : null,
+        last_message_at: c.lastMessageAt.toISOString(),
+        unread_count: unreadCount,
+    };
+}
+
+/**
+ * Load a conversation the user takes part in. Sends 404 otherwise, so thread
+ * ids of other people cannot be probed.
+ */
+async function findParticipatingConversation(id: string, userId: string, res: any) {
+    const conversation = await prisma.conversation.findUnique({ where: { id } });
+    const participant = conversation ? participantOf(conversation, userId) : null;
+    if (!conversation || !participant) {
+        res.status(404).json({ error: 'Cuộc trò chuyện không tồn tại' });
+        return null;
+    }
+    return { conversation, participant };
+}
+
+async function markRead(conversationId: string, participant: Participant) {
+    await prisma.conversation.update({
+        where: { id: conversationId },
+        data: participant.role === 'buyer' ? { buyerLastReadAt: new Date() } : { sellerLastReadAt: new Date() },
+    });
+}
+
+messagesRouter.get('/conversations', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const rows = await prisma.conversation.findMany({
+            where: { OR: [{ buyerId: userId }, { sellerId: userId }] },
+            orderBy: { lastMessageAt: 'desc' },
+            take: 100,
+            include: CONVERSATION_INCLUDE,
+        });
+
+        // One grouped count for the whole page instead of one per thread
+        const unreadThreads = unreadThreadsWhere(rows, userId);
+        const unreadCounts =
+            unreadThreads.length > 0
+                ? await prisma.message.groupBy({ by: ['conversationId'], where: { OR: unreadThreads }, _count: true })
+                : [];
+        const unreadById = new Map(unreadCounts.map((g) => [g.conversationId, g._count]));
+
+        res.json({
+            conversations: rows.map((c) => toConversationResponse(c, userId, unreadById.get(c.id) ?? 0)),
+        });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// Total unread messages across all threads, for the header badge.
+messagesRouter.get('/conversations/unread-count', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const rows = await prisma.conversation.findMany({
+            where: { OR: [{ buyerId: userId }, { sellerId: userId }] },
+            select: {
+                id: true,
+                buyerId: true,
+                sellerId: true,
+                buyerLastReadAt: true,
+                sellerLastReadAt: true,
+                lastMessageAt: true,
+            },
+        });
+
+        // One count over every thread with something newer than its read marker
+        const unreadThreads = unreadThreadsWhere(rows, userId);
+        const count = unreadThreads.length > 0 ? await prisma.message.count({ where: { OR: unreadThreads } }) : 0;
+
+        res.json({ count });
+    } catch (err) {
+        next(err);
+    }
+});
+
+const MessageBodySchema = z.string().trim().min(1).max(2000);
+
+// Open (or reuse) the buyer's thread about a product, optionally with a first message.
+messagesRouter.post('/conversations', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const body = z
+            .object({
+                productId: z.string().uuid(),
+                message: MessageBodySchema.optional(),
+            })
+            .parse(req.body);
+
+        const product = await prisma.product.findUnique({
+            where: { id: body.productId },
+            select: { id: true, sellerId: true, status: true, hiddenAt: true },
+        });
+        if (!product || !isPublicProduct(product)) {
+            return res.status(404).json({ error: 'Sản phẩm không tồn tại' });
+        }
+        if (product.sellerId === userId) {
+            return res.status(400).json({ error: 'Bạn không thể nhắn tin cho chính mình', code: 'OWN_PRODUCT' });
+        }
+
+        const conversation = await prisma.$transaction(async (tx) => {
+            const thread = await tx.conversation.upsert({
+                where: { productId_buyerId: { productId: product.id, buyerId: userId } },
+                update: {},
+                create: { productId: product.id, buyerId: userId, sellerId: product.sellerId },
+            });
+            if (body.message) {
+                const now = new Date();
+                await tx.message.create({ data: { conversationId: thread.id, senderId: userId, body: body.message, createdAt: now } });
+                await tx.conversation.update({
+                    where: { id: thread.id },
+                    data: { lastMessageAt: now, buyerLastReadAt: now },
+                });
+            }
+            return tx.conversation.findUniqueOrThrow({ where: { id: thread.id }, include: CONVERSATION_INCLUDE });
+        });
+
+        res.status(201).json({ conversation: toConversationResponse(conversation, userId, 0) });
+
+        const first = conversation.messages[0];
+        if (body.message && first) {
+            await publish({
+                topic: 'messages',
+                type: 'message.created',
+                userIds: [conversation.sellerId],
+                data: { message: toMessageResponse(first) },
+            });
+        }
+    } catch (err) {
+        next(err);
+    }
+});
+
+// Messages newest first; pass `nextCursor` back as `cursor` for older ones.
+// Reading the first page marks the thread as read.
+messagesRouter.get('/conversations/:id/messages', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const query = z
+            .object({
+                cursor: z.string().uuid().optional(),
+                take: z.coerce.number().int().min(1).max(100).default(30),
+            })
+            .parse(req.query);
+
+        const found = await findParticipatingConversation(req.params.id, userId, res);
+        if (!found) return;
+
+        const rows = await prisma.message.findMany({
+            where: { conversationId: found.conversation.id },
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            take: query.take + 1,
+            ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+        });
+
+        const hasMore = rows.length > query.take;
+        const page = hasMore ? rows.slice(0, query.take) : rows;
+
+        if (!query.cursor) await markRead(found.conversation.id, found.participant);
+
+        res.json({
+            messages: page.map(toMessageResponse),
+            nextCursor: hasMore ? page[page.length - 1].id : null,
+        });
+    } catch (err) {
+        next(err);
+    }
+});
+
+messagesRouter.post('/conversations/:id/messages', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const body = z.object({ body: MessageBodySchema }).parse(req.body);
+
+        const found = await findParticipatingConversation(req.params.id, userId, res);
+        if (!found) return;
+
+        const now = new Date();
+        const [message] = await prisma.$transaction([
+            prisma.message.create({
+                data: { conversationId: found.conversation.id, senderId: userId, body: body.body, createdAt: now },
+            }),
+            // Sending implies having read everything before it.
+            prisma.conversation.update({
+                where: { id: found.conversation.id },
+                data: {
+                    lastMessageAt: now,
+                    ...(found.participant.role === 'buyer' ? { buyerLastReadAt: now } : { sellerLastReadAt: now }),
+                },
+            }),
+        ]);
+
+        res.status(201).json({ message: toMessageResponse(message) });
+
+        const recipientId = found.participant.role === 'buyer' ? found.conversation.sellerId : found.conversation.buyerId;
+        await publish({
+            topic: 'messages',
+            type: 'message.created',
+            userIds: [recipientId],
+            data: { message: toMessageResponse(message) },
+        });
+    } catch (err) {
+        next(err);
+    }
+});
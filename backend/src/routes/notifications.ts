@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { requireAuth, type AuthenticatedRequest } from '../middleware/auth';
+import { toNotificationResponse } from '../lib/notifications';
+
+export const notificationsRouter = Router();
+
+notificationsRouter.get('/notifications', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const query = z
+            .object({
+                unread: z.enum(['true', 'false']).optional(),
+                cursor: z.string().uuid().optional(),
+                take: z.coerce.number().int().min(1).max(50).default(20),
+            })
+            .parse(req.query);
+
+        const [rows, unreadCount] = await Promise.all([
+            prisma.notification.findMany({
+                where: { userId, ...(query.unread === 'true' ? { readAt: null } : {}) },
+                orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+                take: query.take + 1,
+                ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+            }),
+            prisma.notification.count({ where: { userId, readAt: null } }),
+        ]);
+
+        const hasMore = rows.length > query.take;
+        const page = hasMore ? rows.slice(0, query.take) : rows;
+
+        res.json({
+            notifications: page.map(toNotificationResponse),
+            nextCursor: hasMore ? page[page.length - 1].id : null,
+            unread_count: unreadCount,
+        });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// Mark the given notifications as read, or all of them when `ids` is omitted.
+notificationsRouter.post('/notifications/read', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const body = z
+            .object({ ids: z.array(z.string().uuid()).max(100).optional() })
+            .parse(req.body ?? {});
+
+        await prisma.notification.updateMany({
+            where: { userId, readAt: null, ...(body.ids ? { id: { in: body.ids } } : {}) },
+            data: { readAt: new Date() },
+        });
+
+        const unreadCount = await prisma.notification.count({ where: { userId, readAt: null } });
+        res.json({ unread_count: unreadCount });
+    } catch (err) {
+        next(err);
+    }
+});
@@ -0,0 +1,474 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { getEnv } from '../env';
+import { requireAuth, type AuthenticatedRequest } from '../middleware/auth';
+import { invalidateProductCache } from '../cache';
+import { publish } from '../lib/realtime';
+import { notify } from '../lib/notifications';
+import { queueEmail } from '../lib/mailer';
+import {
+    InsufficientStockError,
+    ProductUnavailableError,
+    commitReservations,
+    releaseReservations,
+    reserveStock,
+} from '../lib/inventory';
+import {
+    ORDER_STATUSES,
+    STATUS_TIMESTAMP_FIELD,
+    allowedTransitions,
+    canTransition,
+    deriveOrderStatus,
+    type OrderStatus,
+} from '../lib/orderStatus';
+
+export const ordersRouter = Router();
+
+// Flat shipping fee per order (VND). Kept server-side so the client can't tamper with totals.
+const SHIPPING_FEE_VND = 50_000;
+
+const ORDER_INCLUDE = {
+    items: { orderBy: { createdAt: 'asc' as const } },
+    sellerOrders: {
+        include: { seller: { select: { name: true } } },
+        orderBy: { createdAt: 'asc' as const },
+    },
+};
+
+// Wording of the buyer's notification when a seller moves a sub-order along.
+const STATUS_NOTIFICATION_TITLES: Partial<Record<OrderStatus, string>> = {
+    CONFIRMED: 'đã xác nhận đơn hàng của bạn',
+    SHIPPED: 'đã gửi hàng cho bạn',
+    DELIVERED: 'đã giao hàng thành công',
+    CANCELLED: 'đã hủy đơn hàng của bạn',
+};
+
+const shortId = (id: string) => id.slice(0, 8).toUpperCase();
+
+// Push a sub-order status change to whoever has to react to it.
+async function publishSellerOrder(
+    type: 'order.created' | 'order.updated',
+    userId: string,
+    so: { id: string; orderId: string; status: string },
+) {
+    await publish({
+        topic: 'orders',
+        type,
+        userIds: [userId],
+        data: { order_id: so.orderId, seller_order_id: so.id, status: so.status },
+    });
+}
+
+function toOrderItemResponse(i: any) {
+    return {
+        product_id: i.productId,
+        title: i.title,
+        unit: i.unit,
+        image: i.imageUrl,
+        price: i.priceVnd,
+        quantity: i.quantity,
+        co2_savings_kg: i.co2SavingsKg,
+        line_total: i.lineTotalVnd,
+    };
+}
+
+function toOrderResponse(o: any) {
+    const sellerOrders = o.sellerOrders ?? [];
+    const items = o.items ?? [];
+    return {
+        id: o.id,
+        status: deriveOrderStatus(sellerOrders.map((so: any) => so.status)),
+        subtotal: o.subtotalVnd,
+        shipping_fee: o.shippingFeeVnd,
+        total: o.totalVnd,
+        total_co2_savings_kg: o.totalCo2SavingsKg,
+        shipping: {
+            name: o.shippingName,
+            phone: o.shippingPhone,
+            address: o.shippingAddress,
+        },
+        note: o.note ?? undefined,
+        created_at: o.createdAt.toISOString(),
+        items: items.map(toOrderItemResponse),
+        sub_orders: sellerOrders.map((so: any) => ({
+            id: so.id,
+            seller_name: so.seller?.name,
+            status: so.status,
+            subtotal: so.subtotalVnd,
+            items: items.filter((i: any) => i.sellerOrderId === so.id).map(toOrderItemResponse),
+        })),
+    };
+}
+
+function toSellerOrderResponse(so: any) {
+    return {
+        id: so.id,
+        order_id: so.orderId,
+        status: so.status,
+        next_statuses: allowedTransitions(so.status),
+        subtotal: so.subtotalVnd,
+        buyer_name: so.order.buyer?.name,
+        shipping: {
+            name: so.order.shippingName,
+            phone: so.order.shippingPhone,
+            address: so.order.shippingAddress,
+        },
+        note: so.order.note ?? undefined,
+        created_at: so.createdAt.toISOString(),
+        confirmed_at: so.confirmedAt?.toISOString(),
+        shipped_at: so.shippedAt?.toISOString(),
+        delivered_at: so.deliveredAt?.toISOString(),
+        cancelled_at: so.cancelledAt?.toISOString(),
+        items: (so.items ?? []).map(toOrderItemResponse),
+    };
+}
+
+const CheckoutSchema = z.object({
+    shippingName: z.string().trim().min(1).max(100),
+    shippingPhone: z
+        .string()
+        .trim()
+        .min(8)
+        .max(20)
+        .regex(/^[0-9+\s.-]+$/, 'Invalid phone number'),
+    shippingAddress: z.string().trim().min(5).max(500),
+    note: z.string().trim().max(1000).optional(),
+});
+
+ordersRouter.post('/orders', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const body = CheckoutSchema.parse(req.body);
+
+        const orderId = await prisma.$transaction(async (tx) => {
+            const cart = await tx.cart.findUnique({
+                where: { userId },
+                include: { items: { include: { product: true }, orderBy: { createdAt: 'asc' } } },
+            });
+            if (!cart || cart.items.length === 0) return null;
+
+            const unavailable = cart.items.find((i) => i.product.status !== 'ACTIVE' || i.product.hiddenAt);
+            if (unavailable) throw new ProductUnavailableError(unavailable.productId, unavailable.product.title);
+
+            // Snapshot price, unit and CO2 savings as they are right now.
+            const items = cart.items.map((i) => ({
+                sellerId: i.product.sellerId,
+                productId: i.productId,
+                title: i.product.title,
+                unit: i.product.unit,
+                imageUrl: i.product.imageUrl,
+                priceVnd: i.product.priceVnd,
+                co2SavingsKg: i.product.co2SavingsKg,
+                quantity: i.quantity,
+                lineTotalVnd: i.product.priceVnd * i.quantity,
+            }));
+
+            const subtotalVnd = items.reduce((sum, i) => sum + i.lineTotalVnd, 0);
+            const totalCo2SavingsKg = items.reduce((sum, i) => sum + i.co2SavingsKg * i.quantity, 0);
+
+            const created = await tx.order.create({
+                data: {
+                    buyerId: userId,
+                    subtotalVnd,
+                    shippingFeeVnd: SHIPPING_FEE_VND,
+                    totalVnd: subtotalVnd + SHIPPING_FEE_VND,
+                    totalCo2SavingsKg,
+                    shippingName: body.shippingName,
+                    shippingPhone: body.shippingPhone,
+                    shippingAddress: body.shippingAddress,
+                    note: body.note || null,
+                },
+                select: { id: true },
+            });
+
+            // One sub-order per seller so each seller only sees (and ships) their own items.
+            const bySeller = new Map<string, typeof items>();
+            for (const item of items) {
+                const list = bySeller.get(item.sellerId) ?? [];
+                list.push(item);
+                bySeller.set(item.sellerId, list);
+            }
+
+            for (const [sellerId, sellerItems] of bySeller) {
+                const sellerOrder = await tx.sellerOrder.create({
+                    data: {
+                        orderId: created.id,
+                        sellerId,
+                        subtotalVnd: sellerItems.reduce((sum, i) => sum + i.lineTotalVnd, 0),
+                        items: {
+                            create: sellerItems.map(({ sellerId: _sellerId, ...i }) => ({
+                                ...i,
+                                orderId: created.id,
+                            })),
+                        },
+                    },
+                    select: { id: true },
+                });
+
+                for (const item of sellerItems) {
+                    await reserveStock(tx, {
+                        productId: item.productId,
+                        sellerOrderId: sellerOrder.id,
+                        quantity: item.quantity,
+                    });
+                }
+            }
+
+            await tx.cartItem.deleteMany({ where: { cartId: cart.id } });
+
+            return created.id;
+        });
+
+        if (!orderId) return res.status(400).json({ error: 'Giỏ hàng trống' });
+
+        // Stock changed: listings must show the new remaining quantity.
+        await invalidateProductCache();
+
+        const order = await prisma.order.findUnique({ where: { id: orderId }, include: ORDER_INCLUDE });
+        // Load who to notify before responding: a failure after the response has no one to report to.
+        const buyer = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+        const sellers = await prisma.user.findMany({
+            where: { id: { in: (order?.sellerOrders ?? []).map((so) => so.sellerId) } },
+            select: { id: true, email: true, name: true },
+        });
+        res.status(201).json({ order: toOrderResponse(order) });
+
+        const env = getEnv();
+        for (const so of order?.sellerOrders ?? []) {
+            await publishSellerOrder('order.created', so.sellerId, so);
+            await notify({
+                userId: so.sellerId,
+                type: 'ORDER_PLACED',
+                title: `${buyer?.name ?? 'Người mua'} đã đặt mua sản phẩm của bạn`,
+                body: `Đơn #${shortId(so.orderId)} · ${so.subtotalVnd.toLocaleString('vi-VN')}đ`,
+                data: { orderId: so.orderId, sellerOrderId: so.id },
+            });
+
+            const seller = sellers.find((u) => u.id === so.sellerId);
+            if (seller) {
+                await queueEmail(seller.email, 'new-order', {
+                    sellerName: seller.name,
+                    buyerName: buyer?.name ?? 'Người mua',
+                    orderCode: shortId(so.orderId),
+                    items: (order?.items ?? []).filter((i) => i.sellerOrderId === so.id),
+                    subtotalVnd: so.subtotalVnd,
+                    url: `${env.FRONTEND_ORIGIN}/sales`,
+                });
+            }
+        }
+    } catch (err) {
+        if (err instanceof ProductUnavailableError) {
+            return res.status(409).json({
+                error: err.message,
+                code: 'PRODUCT_UNAVAILABLE',
+                productId: err.productId,
+            });
+        }
+        if (err instanceof InsufficientStockError) {
+            return res.status(409).json({
+                error: err.message,
+                code: 'INSUFFICIENT_STOCK',
+                productId: err.productId,
+                available: err.available,
+            });
+        }
+        next(err);
+    }
+});
+
+ordersRouter.get('/orders', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const query = z
+            .object({
+                take: z.coerce.number().int().min(1).max(100).optional(),
+            })
+            .parse(req.query);
+
+        const rows = await prisma.order.findMany({
+            where: { buyerId: userId },
+            orderBy: { createdAt: 'desc' },
+            take: query.take ?? 50,
+            include: ORDER_INCLUDE,
+        });
+
+        res.json({ orders: rows.map(toOrderResponse) });
+    } catch (err) {
+        next(err);
+    }
+});
+
+ordersRouter.get('/orders/:id', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const id = z.string().uuid().parse(req.params.id);
+
+        const order = await prisma.order.findUnique({
+            where: { id },
+            include: ORDER_INCLUDE,
+        });
+
+        // Don't reveal whether someone else's order exists.
+        if (!order || order.buyerId !== userId) {
+            return res.status(404).json({ error: 'Không tìm thấy đơn hàng' });
+        }
+
+        res.json({ order: toOrderResponse(order) });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// Buyer may cancel the parts of an order that no seller has confirmed yet.
+ordersRouter.post('/orders/:id/cancel', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const id = z.string().uuid().parse(req.params.id);
+
+        const order = await prisma.order.findUnique({
+            where: { id },
+            select: { buyerId: true },
+        });
+        if (!order || order.buyerId !== userId) {
+            return res.status(404).json({ error: 'Không tìm thấy đơn hàng' });
+        }
+
+        const cancelled = await prisma.$transaction(async (tx) => {
+            const pending = await tx.sellerOrder.findMany({
+                where: { orderId: id, status: 'PENDING' },
+                select: { id: true, orderId: true, sellerId: true },
+            });
+            const done: typeof pending = [];
+            for (const so of pending) {
+                const result = await tx.sellerOrder.updateMany({
+                    where: { id: so.id, status: 'PENDING' },
+                    data: { status: 'CANCELLED', cancelledAt: new Date() },
+                });
+                if (result.count === 0) continue;
+                await releaseReservations(tx, so.id);
+                done.push(so);
+            }
+            return done;
+        });
+        if (cancelled.length === 0) {
+            return res.status(409).json({ error: 'Đơn hàng đã được người bán xác nhận, không thể hủy' });
+        }
+
+        await invalidateProductCache();
+
+        const updated = await prisma.order.findUnique({ where: { id }, include: ORDER_INCLUDE });
+        res.json({ order: toOrderResponse(updated) });
+
+        for (const so of cancelled) {
+            await publishSellerOrder('order.updated', so.sellerId, { ...so, status: 'CANCELLED' });
+            await notify({
+                userId: so.sellerId,
+                type: 'ORDER_CANCELLED',
+                title: 'Người mua đã hủy đơn hàng',
+                body: `Đơn #${shortId(so.orderId)}`,
+                data: { orderId: so.orderId, sellerOrderId: so.id },
+            });
+        }
+    } catch (err) {
+        next(err);
+    }
+});
+
+// ============ SELLER FULFILLMENT ============
+
+const SELLER_ORDER_INCLUDE = {
+    items: { orderBy: { createdAt: 'asc' as const } },
+    order: { include: { buyer: { select: { name: true } } } },
+};
+
+ordersRouter.get('/seller/orders', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const query = z
+            .object({
+                status: z.enum(ORDER_STATUSES).optional(),
+                take: z.coerce.number().int().min(1).max(100).optional(),
+            })
+            .parse(req.query);
+
+        const rows = await prisma.sellerOrder.findMany({
+            where: { sellerId: userId, ...(query.status ? { status: query.status } : {}) },
+            orderBy: { createdAt: 'desc' },
+            take: query.take ?? 50,
+            include: SELLER_ORDER_INCLUDE,
+        });
+
+        res.json({ orders: rows.map(toSellerOrderResponse) });
+    } catch (err) {
+        next(err);
+    }
+});
+
+const UpdateSellerOrderSchema = z.object({
+    status: z.enum(ORDER_STATUSES),
+});
+
+ordersRouter.patch('/seller/orders/:id', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const id = z.string().uuid().parse(req.params.id);
+        const body = UpdateSellerOrderSchema.parse(req.body);
+        const to: OrderStatus = body.status;
+
+        const existing = await prisma.sellerOrder.findUnique({
+            where: { id },
+            select: { sellerId: true, status: true },
+        });
+        if (!existing || existing.sellerId !== userId) {
+            return res.status(404).json({ error: 'Không tìm thấy đơn hàng' });
+        }
+
+        if (!canTransition(existing.status, to)) {
+            return res.status(409).json({
+                error: `Không thể chuyển trạng thái từ ${existing.status} sang ${to}`,
+                code: 'INVALID_TRANSITION',
+                allowed: allowedTransitions(existing.status),
+            });
+        }
+
+        // Guard on the status we validated against so concurrent updates can't skip a step.
+        const timestampField = STATUS_TIMESTAMP_FIELD[to];
+        const applied = await prisma.$transaction(async (tx) => {
+            const result = await tx.sellerOrder.updateMany({
+                where: { id, status: existing.status },
+                data: {
+                    status: to,
+                    ...(timestampField ? { [timestampField]: new Date() } : {}),
+                },
+            });
+            if (result.count === 0) return false;
+
+            if (to === 'CONFIRMED') await commitReservations(tx, id);
+            if (to === 'CANCELLED') await releaseReservations(tx, id);
+            return true;
+        });
+        if (!applied) {
+            return res.status(409).json({ error: 'Trạng thái đơn hàng vừa thay đổi, vui lòng tải lại', code: 'CONFLICT' });
+        }
+
+        if (to === 'CANCELLED') await invalidateProductCache();
+
+        const updated = await prisma.sellerOrder.findUnique({ where: { id }, include: SELLER_ORDER_INCLUDE });
+        const seller = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+        res.json({ order: toSellerOrderResponse(updated) });
+
+        if (updated) {
+            await publishSellerOrder('order.updated', updated.order.buyerId, updated);
+            await notify({
+                userId: updated.order.buyerId,
+                type: 'ORDER_STATUS',
+                title: `${seller?.name ?? 'Người bán'} ${STATUS_NOTIFICATION_TITLES[to] ?? 'đã cập nhật đơn hàng'}`,
+                body: `Đơn #${shortId(updated.orderId)}`,
+                data: { orderId: updated.orderId, sellerOrderId: updated.id },
+            });
+        }
+    } catch (err) {
+        next(err);
+    }
+});
@@ -1,7 +1,34 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { prisma } from '../prisma';
-import { optionalAuth, requireAuth, type AuthenticatedRequest } from '../middleware/auth';
+import {
+    optionalAuth,
+    requireAuth,
+    requirePermission,
+    requireVerifiedEmail,
+    type AuthenticatedRequest,
+} from '../middleware/auth';
+import { hasPermission } from '../lib/permissions';
+import { publish } from '../lib/realtime';
+import { notify } from '../lib/notifications';
+import { recordAuditEvent } from '../lib/audit';
+import {
+    InvalidImageError,
+    MAX_PHOTOS_PER_REPORT,
+    attachPollutionPhotos,
+    deleteImageFiles,
+    toPollutionPhotoResponse,
+    type ImageVariant,
+} from '../lib/images';
+import {
+    COMMUNITY_VERIFY_THRESHOLD,
+    OPEN_POLLUTION_STATUSES,
+    POLLUTION_STATUSES,
+    allowedTransitions,
+    canTransition,
+    isPollutionStatus,
+    type PollutionStatus,
+} from '../lib/pollutionStatus';
 
 export const pollutionRouter = Router();
 
@@ -17,28 +44,106 @@ function humanizeFromDate(date: Date): string {
     return `${diffW} tuần trước`;
 }
 
+const TYPE_LABELS: Record<string, string> = {
+    WASTE: 'rác thải',
+    WATER: 'nước',
+    AIR: 'không khí',
+    OTHER: 'khác',
+};
+
+// People who reported something within this distance hear about new reports nearby.
+const NEARBY_RADIUS_KM = 2;
+const NEARBY_MAX_RECIPIENTS = 50;
+
+async function notifyNearbyReporters(report: { id: string; ownerId: string; lat: number; lng: number; type: string; severity: number }) {
+    // Bounding box first (cheap, indexed-friendly), good enough at this radius.
+    const dLat = NEARBY_RADIUS_KM / 111;
+    const dLng = NEARBY_RADIUS_KM / (111 * Math.cos((report.lat * Math.PI) / 180));
+    const nearby = await prisma.pollutionReport.findMany({
+        where: {
+            id: { not: report.id },
+            ownerId: { not: report.ownerId },
+            lat: { gte: report.lat - dLat, lte: report.lat + dLat },
+            lng: { gte: report.lng - dLng, lte: report.lng + dLng },
+        },
+        distinct: ['ownerId'],
+        take: NEARBY_MAX_RECIPIENTS,
+        select: { ownerId: true },
+    });
+
+    await notify(
+        nearby.map((r) => ({
+            userId: r.ownerId,
+            type: 'POLLUTION_NEARBY' as const,
+            title: `Có báo cáo ô nhiễm ${TYPE_LABELS[report.type] ?? ''} mới gần khu vực bạn đã báo cáo`,
+            body: `Mức độ ${report.severity}/5`,
+            data: { reportId: report.id },
+        })),
+    );
+}
+
+const STATUS_NOTIFICATION_TITLES: Partial<Record<PollutionStatus, string>> = {
+    VERIFIED: 'Báo cáo ô nhiễm đã được xác minh',
+    IN_PROGRESS: 'Báo cáo ô nhiễm đang được xử lý',
+    RESOLVED: 'Báo cáo ô nhiễm đã được giải quyết',
+    REJECTED: 'Báo cáo ô nhiễm đã bị từ chối',
+};
+
+const MARKER_INCLUDE = {
+    owner: { select: { name: true } },
+    photos: { orderBy: { position: 'asc' as const } },
+};
+
+function toMarker(m: any, confirmedByMe = false) {
+    return {
+        id: m.id,
+        owner_id: m.ownerId,
+        owner_name: m.isAnonymous ? undefined : m.owner?.name,
+        lat: m.lat,
+        lng: m.lng,
+        type: m.type,
+        severity: m.severity,
+        description: m.description,
+        created_at: humanizeFromDate(m.createdAt),
+        is_anonymous: m.isAnonymous,
+        status: m.status,
+        next_statuses: allowedTransitions(m.status),
+        status_changed_at: m.statusChangedAt ? m.statusChangedAt.toISOString() : null,
+        confirmations: m.confirmationCount,
+        confirmed_by_me: confirmedByMe,
+        photos: (m.photos ?? []).map((p: any) => toPollutionPhotoResponse(p, m)),
+    };
+}
+
+const ListMarkersQuerySchema = z.object({
+    // Comma-separated, e.g. ?status=NEW,VERIFIED
+    status: z
+        .string()
+        .optional()
+        .transform((v) => (v ? v.split(',').map((s) => s.trim().toUpperCase()) : undefined))
+        .pipe(z.array(z.enum(POLLUTION_STATUSES)).optional()),
+});
+
 pollutionRouter.get('/pollution', optionalAuth, async (req: AuthenticatedRequest, res, next) => {
     try {
+        const query = ListMarkersQuerySchema.parse(req.query);
         const rows = await (prisma as any).pollutionReport.findMany({
+            where: { hiddenAt: null, ...(query.status ? { status: { in: query.status } } : {}) },
             orderBy: { createdAt: 'desc' },
             take: 500,
-            include: { owner: { select: { name: true } } },
+            include: MARKER_INCLUDE,
         });
 
-        const markers = rows.map((m: any) => ({
-            id: m.id,
-            owner_id: m.ownerId,
-            owner_name: m.isAnonymous ? undefined : m.owner?.name,
-            lat: m.lat,
-            lng: m.lng,
-            type: m.type,
-            severity: m.severity,
-            description: m.description,
-            created_at: humanizeFromDate(m.createdAt),
-            is_anonymous: m.isAnonymous,
-        }));
-
-        res.json({ markers });
+        const confirmed = new Set<string>();
+        if (req.user && rows.length > 0) {
+            const mine = await prisma.pollutionConfirmation.findMany({
+                where: { userId: req.user.id, reportId: { in: rows.map((m: any) => m.id) } },
+                select: { reportId: true },
+            });
+            for (const c of mine) confirmed.add(c.reportId);
+        }
+
+        res.json({ markers: rows.map((m: any) => toMarker(m, confirmed.has(m.id))) });
     } catch (err) {
         next(err);
     }
@@ -51,41 +156,41 @@ const CreateMarkerSchema = z.object({
     severity: z.number().int().min(1).max(5),
     description: z.string().min(3).max(2000),
     is_anonymous: z.boolean().default(false),
+    // Uploaded beforehand through POST /uploads/pollution-photos
+    photo_ids: z.array(z.string().uuid()).max(MAX_PHOTOS_PER_REPORT).default([]),
 });
 
-pollutionRouter.post('/pollution', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+pollutionRouter.post('/pollution', requireAuth, requireVerifiedEmail, async (req: AuthenticatedRequest, res, next) => {
     try {
         const userId = req.user!.id;
         const body = CreateMarkerSchema.parse(req.body);
 
-        const created = await (prisma as any).pollutionReport.create({
-            data: {
-                ownerId: userId,
-                lat: body.lat,
-                lng: body.lng,
-                type: body.type,
-                severity: body.severity,
-                description: body.description,
-                isAnonymous: body.is_anonymous,
-            },
-            include: { owner: { select: { name: true } } },
+        const created = await prisma.$transaction(async (tx) => {
+            const report = await tx.pollutionReport.create({
+                data: {
+                    ownerId: userId,
+                    lat: body.lat,
+                    lng: body.lng,
+                    type: body.type,
+                    severity: body.severity,
+                    description: body.description,
+                    isAnonymous: body.is_anonymous,
+                },
+                select: { id: true },
+            });
+            await attachPollutionPhotos(tx, { reportId: report.id, userId, photoIds: body.photo_ids });
+            return tx.pollutionReport.findUniqueOrThrow({ where: { id: report.id }, include: MARKER_INCLUDE });
         });
 
-        res.status(201).json({
-            marker: {
-                id: created.id,
-                owner_id: created.ownerId,
-                owner_name: created.isAnonymous ? undefined : created.owner?.name,
-                lat: created.lat,
-                lng: created.lng,
-                type: created.type,
-                severity: created.severity,
-                description: created.description,
-                created_at: humanizeFromDate(created.createdAt),
-                is_anonymous: created.isAnonymous,
-            },
-        });
+        const marker = toMarker(created);
+        res.status(201).json({ marker });
+
+        await publish({ topic: 'pollution', type: 'pollution.created', data: { marker } });
+        await notifyNearbyReporters(created);
     } catch (err) {
+        if (err instanceof InvalidImageError) {
+            return res.status(400).json({ error: err.message, code: 'INVALID_IMAGE' });
+        }
         next(err);
     }
 });
@@ -97,13 +202,251 @@ pollutionRouter.delete('/pollution/:id', requireAuth, async (req: AuthenticatedR
 
         const existing = await (prisma as any).pollutionReport.findUnique({
             where: { id },
-            select: { ownerId: true },
+            select: { ownerId: true, type: true, severity: true, description: true, lat: true, lng: true },
         });
         if (!existing) return res.status(204).end();
-        if (existing.ownerId !== userId) return res.status(403).json({ error: 'Forbidden' });
+        if (existing.ownerId !== userId && !(await hasPermission(userId, 'content:delete_any'))) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
 
-        await (prisma as any).pollutionReport.delete({ where: { id } });
+        const photos = await prisma.pollutionPhoto.findMany({ where: { reportId: id }, select: { variants: true } });
+        await prisma.$transaction([
+            prisma.pollutionConfirmation.deleteMany({ where: { reportId: id } }),
+            prisma.pollutionStatusChange.deleteMany({ where: { reportId: id } }),
+            prisma.pollutionPhoto.deleteMany({ where: { reportId: id } }),
+            prisma.pollutionReport.delete({ where: { id } }),
+        ]);
+        await deleteImageFiles(photos.flatMap((p) => p.variants as unknown as ImageVariant[]));
+        await recordAuditEvent(req, {
+            action: 'pollution.delete',
+            targetType: 'pollution',
+            targetId: id,
+            metadata: {
+                owner_id: existing.ownerId,
+                type: existing.type,
+                severity: existing.severity,
+                description: existing.description,
+                lat: existing.lat,
+                lng: existing.lng,
+                photos: photos.length,
+            },
+        });
         res.status(204).end();
+
+        await publish({ topic: 'pollution', type: 'pollution.deleted', data: { id } });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// ============ LIFECYCLE ============
+
+/**
+ * Move a report to `to` if it is still in `from`. Returns false when someone
+ * else changed it first. Publishes the new marker and tells the reporter and
+ * everyone who confirmed it.
+ */
+async function changeStatus(
+    report: { id: string; ownerId: string; status: string },
+    to: PollutionStatus,
+    changedById: string | null,
+    note?: string,
+): Promise<boolean> {
+    const now = new Date();
+    const applied = await prisma.$transaction(async (tx) => {
+        // Guard on the status we validated against so concurrent updates can't skip a step.
+        const result = await tx.pollutionReport.updateMany({
+            where: { id: report.id, status: report.status },
+            data: { status: to, statusChangedAt: now },
+        });
+        if (result.count === 0) return false;
+
+        await tx.pollutionStatusChange.create({
+            data: { reportId: report.id, fromStatus: report.status, toStatus: to, note: note || null, changedById },
+        });
+        return true;
+    });
+    if (!applied) return false;
+
+    const updated = await prisma.pollutionReport.findUnique({
+        where: { id: report.id },
+        include: MARKER_INCLUDE,
+    });
+    if (updated && !updated.hiddenAt) {
+        // confirmed_by_me is per viewer; clients keep their own value
+        await publish({ topic: 'pollution', type: 'pollution.updated', data: { marker: toMarker(updated) } });
+    }
+
+    const confirmers = await prisma.pollutionConfirmation.findMany({
+        where: { reportId: report.id },
+        take: NEARBY_MAX_RECIPIENTS,
+        select: { userId: true },
+    });
+    const recipients = [...new Set([report.ownerId, ...confirmers.map((c) => c.userId)])].filter((id) => id !== changedById);
+    await notify(
+        recipients.map((userId) => ({
+            userId,
+            type: 'POLLUTION_STATUS' as const,
+            title: STATUS_NOTIFICATION_TITLES[to] ?? 'Báo cáo ô nhiễm đã được cập nhật',
+            body: note || undefined,
+            data: { reportId: report.id },
+        })),
+    );
+    return true;
+}
+
+const UpdateStatusSchema = z.object({
+    status: z.enum(POLLUTION_STATUSES),
+    note: z.string().trim().max(1000).optional(),
+});
+
+pollutionRouter.patch(
+    '/pollution/:id/status',
+    requireAuth,
+    requirePermission('pollution:update_status'),
+    async (req: AuthenticatedRequest, res, next) => {
+        try {
+            const id = z.string().uuid().parse(req.params.id);
+            const body = UpdateStatusSchema.parse(req.body);
+
+            const existing = await prisma.pollutionReport.findUnique({
+                where: { id },
+                select: { id: true, ownerId: true, status: true },
+            });
+            if (!existing) return res.status(404).json({ error: 'Báo cáo không tồn tại' });
+
+            if (!canTransition(existing.status, body.status)) {
+                return res.status(409).json({
+                    error: `Không thể chuyển trạng thái từ ${existing.status} sang ${body.status}`,
+                    code: 'INVALID_TRANSITION',
+                    allowed: allowedTransitions(existing.status),
+                });
+            }
+
+            if (!(await changeStatus(existing, body.status, req.user!.id, body.note))) {
+                return res.status(409).json({ error: 'Trạng thái báo cáo vừa thay đổi, vui lòng tải lại', code: 'CONFLICT' });
+            }
+            await recordAuditEvent(req, {
+                action: 'pollution.status',
+                targetType: 'pollution',
+                targetId: id,
+                metadata: { changes: { status: { from: existing.status, to: body.status } }, note: body.note || null },
+            });
+
+            const updated = await prisma.pollutionReport.findUnique({
+                where: { id },
+                include: MARKER_INCLUDE,
+            });
+            const confirmed = await prisma.pollutionConfirmation.count({ where: { reportId: id, userId: req.user!.id } });
+            res.json({ marker: toMarker(updated, confirmed > 0) });
+        } catch (err) {
+            next(err);
+        }
+    },
+);
+
+pollutionRouter.get('/pollution/:id/history', async (req, res, next) => {
+    try {
+        const id = z.string().uuid().parse(req.params.id);
+        const report = await prisma.pollutionReport.findUnique({ where: { id }, select: { hiddenAt: true } });
+        if (!report || report.hiddenAt) return res.status(404).json({ error: 'Báo cáo không tồn tại' });
+
+        const changes = await prisma.pollutionStatusChange.findMany({
+            where: { reportId: id },
+            orderBy: { createdAt: 'asc' },
+            include: { changedBy: { select: { name: true } } },
+        });
+
+        res.json({
+            history: changes.map((c) => ({
+                id: c.id,
+                from_status: c.fromStatus,
+                to_status: c.toStatus,
+                note: c.note,
+                // Null when the community verified the report
+                changed_by_name: c.changedBy?.name ?? null,
+                created_at: c.createdAt.toISOString(),
+            })),
+        });
+    } catch (err) {
+        next(err);
+    }
+});
+
+// ============ CONFIRMATIONS ============
+
+async function publishConfirmations(reportId: string) {
+    const report = await prisma.pollutionReport.findUnique({ where: { id: reportId }, select: { confirmationCount: true } });
+    if (!report) return;
+    await publish({ topic: 'pollution', type: 'pollution.confirmations', data: { id: reportId, confirmations: report.confirmationCount } });
+}
+
+// "Tôi cũng thấy": another user vouches that the problem is real.
+pollutionRouter.post('/pollution/:id/confirm', requireAuth, requireVerifiedEmail, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const reportId = z.string().uuid().parse(req.params.id);
+
+        const report = await prisma.pollutionReport.findUnique({
+            where: { id: reportId },
+            select: { id: true, ownerId: true, status: true, hiddenAt: true },
+        });
+        if (!report || report.hiddenAt) return res.status(404).json({ error: 'Báo cáo không tồn tại' });
+        if (report.ownerId === userId) {
+            return res.status(400).json({ error: 'Bạn không thể xác nhận báo cáo của chính mình.', code: 'OWN_REPORT' });
+        }
+        if (!isPollutionStatus(report.status) || !OPEN_POLLUTION_STATUSES.includes(report.status)) {
+            return res.status(409).json({ error: 'Báo cáo này đã được đóng.', code: 'REPORT_CLOSED' });
+        }
+
+        // Idempotent, like post likes
+        const count = await prisma.$transaction(async (tx) => {
+            const existing = await tx.pollutionConfirmation.findUnique({
+                where: { reportId_userId: { reportId, userId } },
+                select: { id: true },
+            });
+            if (existing) return null;
+
+            await tx.pollutionConfirmation.create({ data: { reportId, userId } });
+            const updated = await tx.pollutionReport.update({
+                where: { id: reportId },
+                data: { confirmationCount: { increment: 1 } },
+                select: { confirmationCount: true },
+            });
+            return updated.confirmationCount;
+        });
+
+        res.status(204).end();
+
+        await publishConfirmations(reportId);
+        if (count !== null && count >= COMMUNITY_VERIFY_THRESHOLD && report.status === 'NEW') {
+            await changeStatus(report, 'VERIFIED', null, `${count} người dùng xác nhận`);
+        }
+    } catch (err) {
+        next(err);
+    }
+});
+
+pollutionRouter.delete('/pollution/:id/confirm', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const reportId = z.string().uuid().parse(req.params.id);
+
+        // Taking a confirmation back never un-verifies the report
+        await prisma.$transaction(async (tx) => {
+            const existing = await tx.pollutionConfirmation.findUnique({
+                where: { reportId_userId: { reportId, userId } },
+                select: { id: true },
+            });
+            if (!existing) return;
+
+            await tx.pollutionConfirmation.delete({ where: { reportId_userId: { reportId, userId } } });
+            await tx.pollutionReport.update({ where: { id: reportId }, data: { confirmationCount: { decrement: 1 } } });
+        });
+
+        res.status(204).end();
+
+        await publishConfirmations(reportId);
     } catch (err) {
         next(err);
     }
@@ -1,10 +1,21 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { prisma } from '../prisma';
-import { optionalAuth, requireAuth, type AuthenticatedRequest } from '../middleware/auth';
+import { optionalAuth, requireAuth, requireVerifiedEmail, type AuthenticatedRequest } from '../middleware/auth';
+import { hasPermission } from '../lib/permissions';
+import { publish } from '../lib/realtime';
+import { notify } from '../lib/notifications';
+import { recordAuditEvent } from '../lib/audit';
 
 export const postsRouter = Router();
 
+// Tell everyone watching the feed about a post's new like count.
+async function publishLikes(postId: string) {
+    const post = await (prisma as any).post.findUnique({ where: { id: postId }, select: { likeCount: true } });
+    if (!post) return;
+    await publish({ topic: 'posts', type: 'post.likes', data: { post_id: postId, likes: post.likeCount } });
+}
+
 function humanizeFromDate(date: Date): string {
     const diffMs = Date.now() - date.getTime();
     const diffMin = Math.floor(diffMs / 60000);
@@ -28,6 +39,7 @@ postsRouter.get('/posts', optionalAuth, async (req: AuthenticatedRequest, res, n
         const userId = req.user?.id;
 
         const rows = await (prisma as any).post.findMany({
+            where: { hiddenAt: null },
             orderBy: { createdAt: 'desc' },
             take: query.take ?? 50,
             include: {
@@ -38,6 +50,7 @@ postsRouter.get('/posts', optionalAuth, async (req: AuthenticatedRequest, res, n
 
         const posts = rows.map((p: any) => ({
             id: p.id,
+            author_id: p.authorId,
             user_name: p.author.name,
             content: p.content,
             image: p.imageUrl ?? undefined,
@@ -60,7 +73,7 @@ const CreatePostSchema = z.object({
     tags: z.array(z.string().max(100)).max(20).optional(),
 });
 
-postsRouter.post('/posts', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+postsRouter.post('/posts', requireAuth, requireVerifiedEmail, async (req: AuthenticatedRequest, res, next) => {
     try {
         const userId = req.user!.id;
         const body = CreatePostSchema.parse(req.body);
@@ -79,6 +92,7 @@ postsRouter.post('/posts', requireAuth, async (req: AuthenticatedRequest, res, n
         res.status(201).json({
             post: {
                 id: created.id,
+                author_id: created.authorId,
                 user_name: created.author.name,
                 content: created.content,
                 image: created.imageUrl ?? undefined,
@@ -94,24 +108,76 @@ postsRouter.post('/posts', requireAuth, async (req: AuthenticatedRequest, res, n
     }
 });
 
+// Authors can delete their own posts; moderators can delete any.
+postsRouter.delete('/posts/:id', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const postId = z.string().uuid().parse(req.params.id);
+
+        const post = await prisma.post.findUnique({ where: { id: postId }, select: { authorId: true, content: true } });
+        if (!post) return res.status(404).json({ error: 'Bài viết không tồn tại' });
+        if (post.authorId !== userId && !(await hasPermission(userId, 'content:delete_any'))) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+
+        await prisma.$transaction([
+            prisma.postLike.deleteMany({ where: { postId } }),
+            prisma.post.delete({ where: { id: postId } }),
+        ]);
+        // The post itself is gone, so keep what it said
+        await recordAuditEvent(req, {
+            action: 'post.delete',
+            targetType: 'posts',
+            targetId: postId,
+            metadata: { author_id: post.authorId, content: post.content },
+        });
+
+        res.status(204).end();
+
+        await publish({ topic: 'posts', type: 'post.deleted', data: { post_id: postId } });
+    } catch (err) {
+        next(err);
+    }
+});
+
 postsRouter.post('/posts/:id/like', requireAuth, async (req: AuthenticatedRequest, res, next) => {
     try {
         const userId = req.user!.id;
         const postId = z.string().uuid().parse(req.params.id);
 
         // idempotent like: create like row if missing
-        await (prisma as any).$transaction(async (tx: any) => {
+        const liked: boolean = await (prisma as any).$transaction(async (tx: any) => {
             const existing = await tx.postLike.findUnique({
                 where: { postId_userId: { postId, userId } },
                 select: { id: true },
             });
-            if (existing) return;
+            if (existing) return false;
 
             await tx.postLike.create({ data: { postId, userId } });
             await tx.post.update({ where: { id: postId }, data: { likeCount: { increment: 1 } } });
+            return true;
         });
 
         res.status(204).end();
+
+        await publishLikes(postId);
+
+        // Only a new like notifies, so toggling doesn't spam the author.
+        if (liked) {
+            const [post, liker] = await Promise.all([
+                prisma.post.findUnique({ where: { id: postId }, select: { authorId: true, content: true } }),
+                prisma.user.findUnique({ where: { id: userId }, select: { name: true } }),
+            ]);
+            if (post && post.authorId !== userId) {
+                await notify({
+                    userId: post.authorId,
+                    type: 'POST_LIKED',
+                    title: `${liker?.name ?? 'Ai đó'} đã thích bài viết của bạn`,
+                    body: post.content.slice(0, 120),
+                    data: { postId },
+                });
+            }
+        }
     } catch (err) {
         next(err);
     }
@@ -134,6 +200,8 @@ postsRouter.delete('/posts/:id/like', requireAuth, async (req: AuthenticatedRequ
         });
 
         res.status(204).end();
+
+        await publishLikes(postId);
     } catch (err) {
         next(err);
     }
@@ -1,11 +1,26 @@
 import { Router } from 'express';
 import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '../prisma';
-import { requireAuth, type AuthenticatedRequest } from '../middleware/auth';
-import { cacheGet, cacheSet, cacheDelete, CACHE_KEYS, CACHE_TTL } from '../cache';
+import { optionalAuth, requireAuth, requireVerifiedEmail, type AuthenticatedRequest } from '../middleware/auth';
+import { hasPermission } from '../lib/permissions';
+import { recordAuditEvent } from '../lib/audit';
+import { cacheGet, cacheSet, invalidateProductCache, CACHE_KEYS, CACHE_TTL } from '../cache';
+import { refreshProductSearchText, scoreDocument, searchTextWhere, tokenize } from '../lib/search';
+import {
+  InvalidImageError,
+  MAX_IMAGES_PER_PRODUCT,
+  deleteImageFiles,
+  setProductGallery,
+  toImageResponse,
+} from '../lib/images';
+import { PUBLIC_PRODUCT_WHERE, isPublicProduct } from '../lib/productVisibility';
 
 export const productsRouter = Router();
 
+// Listing lifecycle. See lib/productVisibility for who can see which status.
+const PRODUCT_STATUSES = ['DRAFT', 'ACTIVE', 'SOLD_OUT'] as const;
+
 function isAccelerateEnabled(): boolean {
   const url = process.env.DATABASE_URL;
   return typeof url === 'string' && url.startsWith('prisma://');
@@ -23,135 +38,425 @@ function humanizeFromDate(date: Date): string {
   return `${diffW} tuần trước`;
 }
 
-productsRouter.get('/', async (req, res, next) => {
+// Gallery images in display order; the first one is the cover.
+const IMAGES_SELECT = {
+  orderBy: { position: 'asc' },
+  select: { id: true, width: true, height: true, variants: true },
+} satisfies Prisma.Product$imagesArgs;
+
+const PRODUCT_INCLUDE = {
+  seller: { select: { name: true } },
+  images: IMAGES_SELECT,
+} satisfies Prisma.ProductInclude;
+
+function toProductResponse(p: any) {
+  return {
+    id: p.id,
+    title: p.title,
+    price: p.priceVnd,
+    unit: p.unit,
+    category: p.category,
+    location: p.location,
+    image: p.imageUrl,
+    images: (p.images ?? []).map(toImageResponse),
+    seller_id: p.sellerId,
+    seller_name: p.seller.name,
+    co2_savings_kg: p.co2SavingsKg,
+    stock_quantity: p.stockQuantity,
+    min_order_quantity: p.minOrderQuantity,
+    status: p.status,
+    hidden: !!p.hiddenAt,
+    lat: p.lat ?? undefined,
+    lng: p.lng ?? undefined,
+    rating_avg: Math.round((p.ratingAvg ?? 0) * 10) / 10,
+    rating_count: p.ratingCount ?? 0,
+    description: p.description ?? undefined,
+    posted_at: humanizeFromDate(p.createdAt),
+  };
+}
+
+async function invalidateProducts(productId?: string) {
+  // Invalidate Redis/memory cache
+  await invalidateProductCache(productId);
+
+  // If Prisma Accelerate caching is enabled, invalidate products cache.
+  if (isAccelerateEnabled()) {
+    const accel = (prisma as any).$accelerate;
+    if (accel?.invalidate) {
+      try {
+        await accel.invalidate({ tags: ['products'] });
+      } catch {
+        // ignore cache invalidation errors (e.g. rate limit)
+      }
+    }
+  }
+}
+
+// Listing sort modes. Every mode ends with `id` so the order is total and a
+// product id can serve as the pagination cursor.
+const SORT_MODES = ['relevance', 'newest', 'price_asc', 'price_desc', 'co2', 'nearest'] as const;
+type SortMode = (typeof SORT_MODES)[number];
+
+const SORT_ORDER: Record<Exclude<SortMode, 'relevance' | 'nearest'>, Prisma.ProductOrderByWithRelationInput[]> = {
+  newest: [{ createdAt: 'desc' }, { id: 'desc' }],
+  price_asc: [{ priceVnd: 'asc' }, { id: 'asc' }],
+  price_desc: [{ priceVnd: 'desc' }, { id: 'desc' }],
+  co2: [{ co2SavingsKg: 'desc' }, { id: 'desc' }],
+};
+
+// Text search and "nearest" rank in memory; cap how many candidates we rank.
+// Text search narrows them in the database first (see lib/search.ts).
+const RANKED_MAX_CANDIDATES = 2000;
+const SUGGEST_MAX_CANDIDATES = 200;
+
+const SUGGEST_LIMIT = 8;
+
+const LIST_SELECT = {
+  id: true,
+  title: true,
+  priceVnd: true,
+  unit: true,
+  category: true,
+  location: true,
+  imageUrl: true,
+  co2SavingsKg: true,
+  stockQuantity: true,
+  minOrderQuantity: true,
+  status: true,
+  lat: true,
+  lng: true,
+  ratingAvg: true,
+  ratingCount: true,
+  createdAt: true,
+  sellerId: true,
+  seller: { select: { name: true } },
+  // Cards only show the cover image.
+  images: { ...IMAGES_SELECT, take: 1 },
+} satisfies Prisma.ProductSelect;
+
+// Everything needed to score and order a candidate without loading the page rows.
+const CANDIDATE_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  category: true,
+  location: true,
+  priceVnd: true,
+  co2SavingsKg: true,
+  lat: true,
+  lng: true,
+  seller: { select: { name: true } },
+} satisfies Prisma.ProductSelect;
+
+const ListQuerySchema = z
+  .object({
+    search: z.string().max(100).optional(),
+    category: z.string().max(50).optional(),
+    location: z.string().max(120).optional(),
+    minPrice: z.coerce.number().int().min(0).optional(),
+    maxPrice: z.coerce.number().int().min(0).optional(),
+    // Defaults to relevance when searching, newest otherwise.
+    sort: z.enum(SORT_MODES).optional(),
+    // Rounded to ~100 m so nearby visitors share cache entries.
+    lat: z.coerce.number().min(-90).max(90).transform((v) => Math.round(v * 1000) / 1000).optional(),
+    lng: z.coerce.number().min(-180).max(180).transform((v) => Math.round(v * 1000) / 1000).optional(),
+    cursor: z.string().uuid().optional(),
+    take: z.coerce.number().int().min(1).max(100).default(24),
+  });
+
+function distanceKm(aLat: number, aLng: number, bLat: number, bLng: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(bLat - aLat);
+  const dLng = toRad(bLng - aLng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(aLat)) * Math.cos(toRad(bLat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+function findProductsCached(args: Prisma.ProductFindManyArgs) {
+  if (!isAccelerateEnabled()) return prisma.product.findMany(args);
+  return (prisma.product as any).findMany({
+    ...args,
+    cacheStrategy: {
+      swr: 30,
+      ttl: 30,
+      tags: ['products'],
+    },
+  });
+}
+
+/**
+ * Public listings matching `where` and every search token, newest first,
+ * each with its relevance score.
+ */
+async function findSearchCandidates(
+  where: Prisma.ProductWhereInput,
+  tokens: string[],
+  limit = RANKED_MAX_CANDIDATES,
+) {
+  const candidates = await prisma.product.findMany({
+    where: tokens.length > 0 ? { AND: [where, searchTextWhere(tokens)] } : where,
+    select: CANDIDATE_SELECT,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit,
+  });
+
+  return candidates
+    .map((p, index) => ({
+      ...p,
+      index,
+      score: tokens.length > 0 ? scoreDocument(tokens, { ...p, sellerName: p.seller.name }) : 0,
+    }))
+    .filter((p) => tokens.length === 0 || p.score > 0);
+}
+
+/**
+ * One page of listings ranked in memory: by relevance for text search, by
+ * distance from `origin` for "nearest" (listings without coordinates last),
+ * or by the usual columns when a search uses another sort. Ties go to the
+ * newest listing.
+ */
+async function findRankedPage(
+  where: Prisma.ProductWhereInput,
+  options: { tokens: string[]; sort: SortMode; origin?: { lat: number; lng: number } },
+  cursor: string | undefined,
+  take: number,
+) {
+  const { tokens, sort, origin } = options;
+  const candidates = (await findSearchCandidates(where, tokens)).map((p) => ({
+    ...p,
+    distance: origin && p.lat !== null && p.lng !== null ? distanceKm(origin.lat, origin.lng, p.lat, p.lng) : Infinity,
+  }));
+
+  type Candidate = (typeof candidates)[number];
+  const compare: Record<SortMode, (a: Candidate, b: Candidate) => number> = {
+    relevance: (a, b) => b.score - a.score,
+    newest: () => 0,
+    price_asc: (a, b) => a.priceVnd - b.priceVnd,
+    price_desc: (a, b) => b.priceVnd - a.priceVnd,
+    co2: (a, b) => b.co2SavingsKg - a.co2SavingsKg,
+    nearest: (a, b) => (a.distance === b.distance ? 0 : a.distance < b.distance ? -1 : 1),
+  };
+  const ranked = candidates.sort((a, b) => compare[sort](a, b) || a.index - b.index);
+
+  // An unknown cursor (e.g. the listing has since been removed) ends the list,
+  // like Prisma's cursor does for the column sorts, instead of restarting it.
+  const cursorIndex = cursor ? ranked.findIndex((p) => p.id === cursor) : -1;
+  if (cursor && cursorIndex === -1) return { rows: [], total: ranked.length };
+  const start = cursorIndex + 1;
+  const pageIds = ranked.slice(start, start + take + 1);
+
+  const rows = await prisma.product.findMany({
+    where: { id: { in: pageIds.map((p) => p.id) } },
+    select: LIST_SELECT,
+  });
+  const byId = new Map(rows.map((r) => [r.id, r]));
+
+  const page = pageIds.flatMap((p) => {
+    const row = byId.get(p.id);
+    return row ? [{ ...row, distanceKm: Number.isFinite(p.distance) ? p.distance : null }] : [];
+  });
+  return { rows: page, total: ranked.length };
+}
+
+/**
+ * Mark which products the signed-in viewer has saved. Applied after caching
+ * so cached responses stay the same for every visitor.
+ */
+async function withSavedFlag<T extends { id: string }>(userId: string | undefined, products: T[]) {
+  if (!userId || products.length === 0) return products;
+  const saved = await prisma.wishlistItem.findMany({
+    where: { userId, productId: { in: products.map((p) => p.id) } },
+    select: { productId: true },
+  });
+  const savedIds = new Set(saved.map((w) => w.productId));
+  return products.map((p) => ({ ...p, saved: savedIds.has(p.id) }));
+}
+
+/**
+ * Add the seller's rating across all their listings. Applied after caching:
+ * a review on one listing would otherwise leave the others' cached rating stale.
+ */
+async function withSellerRating<T extends { seller_id: string }>(product: T) {
+  const rating = await prisma.review.aggregate({
+    where: { sellerId: product.seller_id },
+    _avg: { rating: true },
+    _count: { _all: true },
+  });
+  return {
+    ...product,
+    seller_rating: {
+      average: Math.round((rating._avg.rating ?? 0) * 10) / 10,
+      count: rating._count._all,
+    },
+  };
+}
+
+function buildListWhere(query: z.infer<typeof ListQuerySchema>): Prisma.ProductWhereInput {
+  const where: Prisma.ProductWhereInput = { ...PUBLIC_PRODUCT_WHERE };
+  if (query.category && query.category !== 'Tất cả') {
+    where.category = query.category;
+  }
+  if (query.location) {
+    where.location = { contains: query.location, mode: 'insensitive' };
+  }
+  if (query.minPrice !== undefined || query.maxPrice !== undefined) {
+    where.priceVnd = { gte: query.minPrice, lte: query.maxPrice };
+  }
+  return where;
+}
+
+productsRouter.get('/', optionalAuth, async (req: AuthenticatedRequest, res, next) => {
   try {
-    const query = z
-      .object({
-        search: z.string().optional(),
-        category: z.string().optional(),
-        take: z.coerce.number().int().min(1).max(100).optional(),
-      })
-      .parse(req.query);
+    const query = ListQuerySchema.parse(req.query);
+    const tokens = tokenize(query.search ?? '');
+    const sort: SortMode = query.sort === 'relevance' && tokens.length === 0
+      ? 'newest'
+      : query.sort ?? (tokens.length > 0 ? 'relevance' : 'newest');
+
+    if (sort === 'nearest' && (query.lat === undefined || query.lng === undefined)) {
+      return res.status(400).json({ error: 'Cần vị trí (lat, lng) để sắp xếp theo khoảng cách' });
+    }
 
     // Try cache first
-    const cacheKey = CACHE_KEYS.productsList(query.category, query.search);
+    const cacheKey = CACHE_KEYS.productsList({ ...query, search: tokens.join(' '), sort });
     const cached = await cacheGet(cacheKey);
 
     if (cached) {
       console.log(`📦 Cache hit: ${cacheKey}`);
-      return res.json(JSON.parse(cached));
+      const data = JSON.parse(cached);
+      return res.json({ ...data, products: await withSavedFlag(req.user?.id, data.products) });
     }
 
     console.log(`🔍 Cache miss: ${cacheKey}, querying database...`);
 
-    const where: Record<string, unknown> = {};
-    if (query.category && query.category !== 'Tất cả') {
-      (where as any).category = query.category;
-    }
-    if (query.search) {
-      (where as any).OR = [
-        { title: { contains: query.search, mode: 'insensitive' } },
-        { location: { contains: query.search, mode: 'insensitive' } },
-      ];
-    }
-
-    const baseArgs = {
-      where: where as any,
-      orderBy: { createdAt: 'desc' as const },
-      take: query.take ?? 50,
-      select: {
-        id: true,
-        title: true,
-        priceVnd: true,
-        unit: true,
-        category: true,
-        location: true,
-        imageUrl: true,
-        co2SavingsKg: true,
-        createdAt: true,
-        seller: { select: { name: true } },
-      },
-    };
+    const where = buildListWhere(query);
 
-    const rows = isAccelerateEnabled()
-      ? await (prisma.product as any).findMany({
-        ...baseArgs,
-        cacheStrategy: {
-          swr: 30,
-          ttl: 30,
-          tags: ['products'],
+    // Fetch one extra row to know whether another page exists.
+    const { rows, total } = tokens.length > 0 || sort === 'nearest'
+      ? await findRankedPage(
+        where,
+        {
+          tokens,
+          sort,
+          origin: sort === 'nearest' ? { lat: query.lat!, lng: query.lng! } : undefined,
         },
-      })
-      : await prisma.product.findMany(baseArgs as any);
-
-    const data = rows.map((p: any) => ({
-      id: p.id,
-      title: p.title,
-      price: p.priceVnd,
-      unit: p.unit,
-      category: p.category,
-      location: p.location,
-      image: p.imageUrl,
-      seller_name: p.seller.name,
-      co2_savings_kg: p.co2SavingsKg,
-      description: p.description ?? undefined,
-      posted_at: humanizeFromDate(p.createdAt),
-    }));
-
-    const response = { products: data };
+        query.cursor,
+        query.take,
+      )
+      : {
+        rows: await findProductsCached({
+          where,
+          orderBy: SORT_ORDER[sort as keyof typeof SORT_ORDER],
+          take: query.take + 1,
+          ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+          select: LIST_SELECT,
+        }),
+        total: await prisma.product.count({ where }),
+      };
+
+    const hasMore = rows.length > query.take;
+    const page = hasMore ? rows.slice(0, query.take) : rows;
+
+    const response = {
+      products: page.map((p: any) => ({
+        ...toProductResponse(p),
+        ...(p.distanceKm != null ? { distance_km: Math.round(p.distanceKm * 10) / 10 } : {}),
+      })),
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+      total,
+    };
 
     // Cache the response
     await cacheSet(cacheKey, JSON.stringify(response), CACHE_TTL.productsList);
 
+    res.json({ ...response, products: await withSavedFlag(req.user?.id, response.products) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET autocomplete suggestions for the marketplace search box
+productsRouter.get('/suggest', async (req, res, next) => {
+  try {
+    const query = z.object({ q: z.string().max(100).default('') }).parse(req.query);
+    const tokens = tokenize(query.q);
+    if (tokens.length === 0) return res.json({ suggestions: [] });
+
+    const cacheKey = CACHE_KEYS.productsSuggest(tokens.join(' '));
+    const cached = await cacheGet(cacheKey);
+    if (cached) return res.json(JSON.parse(cached));
+
+    const matches = (await findSearchCandidates(PUBLIC_PRODUCT_WHERE, tokens, SUGGEST_MAX_CANDIDATES))
+      .sort((a, b) => b.score - a.score || a.index - b.index);
+
+    const categories = [...new Set(matches.map((p) => p.category))]
+      .filter((c) => scoreDocument(tokens, { title: c }) > 0)
+      .slice(0, 3)
+      .map((category) => ({ type: 'category' as const, label: category }));
+
+    const products = matches
+      .slice(0, SUGGEST_LIMIT - categories.length)
+      .map((p) => ({ type: 'product' as const, id: p.id, label: p.title, category: p.category }));
+
+    const response = { suggestions: [...categories, ...products] };
+    await cacheSet(cacheKey, JSON.stringify(response), CACHE_TTL.productsList);
+
     res.json(response);
   } catch (err) {
     next(err);
   }
 });
 
+// GET the signed-in seller's own listings, including drafts and archived ones
+productsRouter.get('/mine', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const rows = await prisma.product.findMany({
+      where: { sellerId: req.user!.id },
+      orderBy: { createdAt: 'desc' },
+      include: PRODUCT_INCLUDE,
+    });
+
+    res.json({ products: rows.map(toProductResponse) });
+  } catch (err) {
+    next(err);
+  }
+});
+
 // GET single product by ID
-productsRouter.get('/:id', async (req, res, next) => {
+productsRouter.get('/:id', optionalAuth, async (req: AuthenticatedRequest, res, next) => {
   try {
     const { id } = req.params;
 
-    // Try cache first
+    // Try cache first (only public listings are cached)
     const cacheKey = CACHE_KEYS.productById(id);
     const cached = await cacheGet(cacheKey);
 
     if (cached) {
       console.log(`📦 Cache hit: ${cacheKey}`);
-      return res.json(JSON.parse(cached));
+      const data = JSON.parse(cached);
+      const [product] = await withSavedFlag(req.user?.id, [data.product]);
+      return res.json({ product: await withSellerRating(product) });
     }
 
     const product = await prisma.product.findUnique({
       where: { id },
-      include: { seller: { select: { name: true } } },
+      include: PRODUCT_INCLUDE,
     });
 
-    if (!product) {
+    const isPublic = !!product && isPublicProduct(product);
+    if (!product || (!isPublic && product.sellerId !== req.user?.id)) {
       return res.status(404).json({ error: 'Sản phẩm không tồn tại' });
     }
 
-    const response = {
-      product: {
-        id: product.id,
-        title: product.title,
-        price: product.priceVnd,
-        unit: product.unit,
-        category: product.category,
-        location: product.location,
-        image: product.imageUrl,
-        seller_name: product.seller.name,
-        co2_savings_kg: product.co2SavingsKg,
-        description: product.description ?? undefined,
-        posted_at: humanizeFromDate(product.createdAt),
-      },
-    };
+    const response = { product: toProductResponse(product) };
 
     // Cache the response
-    await cacheSet(cacheKey, JSON.stringify(response), CACHE_TTL.productById);
+    if (isPublic) {
+      await cacheSet(cacheKey, JSON.stringify(response), CACHE_TTL.productById);
+    }
 
-    res.json(response);
+    const [withSaved] = await withSavedFlag(req.user?.id, [response.product]);
+    res.json({ product: await withSellerRating(withSaved) });
   } catch (err) {
     next(err);
   }
@@ -163,61 +468,169 @@ const CreateProductSchema = z.object({
   unit: z.string().min(1).max(30),
   category: z.string().min(1).max(50),
   location: z.string().min(1).max(120),
-  image: z.string().url().max(500),
+  // Either an external image URL or uploaded images (see routes/uploads.ts).
+  image: z.string().url().max(500).optional(),
+  image_ids: z.array(z.string().uuid()).max(MAX_IMAGES_PER_PRODUCT).optional(),
   co2_savings_kg: z.number().int().min(0).max(1_000_000),
+  stock_quantity: z.number().int().min(0).max(1_000_000_000),
+  min_order_quantity: z.number().int().min(1).max(1_000_000_000).default(1),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
   description: z.string().max(2000).optional(),
+  status: z.enum(PRODUCT_STATUSES).default('ACTIVE'),
 });
 
-productsRouter.post('/', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+productsRouter.post('/', requireAuth, requireVerifiedEmail, async (req: AuthenticatedRequest, res, next) => {
   try {
     const body = CreateProductSchema.parse(req.body);
     const userId = req.user!.id;
 
-    const created = await prisma.product.create({
-      data: {
-        title: body.title,
-        priceVnd: body.price,
-        unit: body.unit,
-        category: body.category,
-        location: body.location,
-        imageUrl: body.image,
-        co2SavingsKg: body.co2_savings_kg,
-        description: body.description,
-        sellerId: userId,
-      },
-      include: { seller: { select: { name: true } } },
-    });
+    if (!body.image && !body.image_ids?.length) {
+      return res.status(400).json({ error: 'Vui lòng thêm ít nhất một ảnh sản phẩm' });
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const product = await tx.product.create({
+        data: {
+          title: body.title,
+          priceVnd: body.price,
+          unit: body.unit,
+          category: body.category,
+          location: body.location,
+          imageUrl: body.image ?? '',
+          co2SavingsKg: body.co2_savings_kg,
+          stockQuantity: body.stock_quantity,
+          minOrderQuantity: body.min_order_quantity,
+          lat: body.lat,
+          lng: body.lng,
+          description: body.description,
+          status: body.status,
+          sellerId: userId,
+        },
+        select: { id: true },
+      });
+
+      if (body.image_ids?.length) {
+        const { coverUrl } = await setProductGallery(tx, { productId: product.id, userId, imageIds: body.image_ids });
+        if (coverUrl) await tx.product.update({ where: { id: product.id }, data: { imageUrl: coverUrl } });
+      }
+      await refreshProductSearchText(tx, { id: product.id });
 
-    res.status(201).json({
-      product: {
-        id: created.id,
-        title: created.title,
-        price: created.priceVnd,
-        unit: created.unit,
-        category: created.category,
-        location: created.location,
-        image: created.imageUrl,
-        seller_name: created.seller.name,
-        co2_savings_kg: created.co2SavingsKg,
-        description: created.description ?? undefined,
-        posted_at: humanizeFromDate(created.createdAt),
-      },
+      return tx.product.findUniqueOrThrow({ where: { id: product.id }, include: PRODUCT_INCLUDE });
     });
 
-    // Invalidate Redis/memory cache
-    await cacheDelete(CACHE_KEYS.productsInvalidate);
-
-    // If Prisma Accelerate caching is enabled, invalidate products cache.
-    if (isAccelerateEnabled()) {
-      const accel = (prisma as any).$accelerate;
-      if (accel?.invalidate) {
-        try {
-          await accel.invalidate({ tags: ['products'] });
-        } catch {
-          // ignore cache invalidation errors (e.g. rate limit)
-        }
+    res.status(201).json({ product: toProductResponse(created) });
+
+    await invalidateProducts();
+  } catch (err) {
+    if (err instanceof InvalidImageError) {
+      return res.status(400).json({ error: err.message, code: 'INVALID_IMAGE' });
+    }
+    next(err);
+  }
+});
+
+const UpdateProductSchema = CreateProductSchema.extend({
+  status: z.enum(PRODUCT_STATUSES),
+}).partial();
+
+// `asModerator` lets staff with content:delete_any act on other sellers' listings.
+async function findOwnedProduct(id: string, userId: string, res: any, asModerator = false) {
+  const product = await prisma.product.findUnique({
+    where: { id },
+    select: { id: true, sellerId: true, status: true, title: true },
+  });
+  if (!product || product.status === 'ARCHIVED') {
+    res.status(404).json({ error: 'Sản phẩm không tồn tại' });
+    return null;
+  }
+  if (product.sellerId !== userId && !(asModerator && (await hasPermission(userId, 'content:delete_any')))) {
+    res.status(403).json({ error: 'Forbidden' });
+    return null;
+  }
+  return product;
+}
+
+productsRouter.patch('/:id', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const body = UpdateProductSchema.parse(req.body);
+
+    const existing = await findOwnedProduct(id, req.user!.id, res);
+    if (!existing) return;
+
+    if (body.image_ids && body.image_ids.length === 0 && !body.image) {
+      return res.status(400).json({ error: 'Vui lòng thêm ít nhất một ảnh sản phẩm' });
+    }
+
+    const { updated, removedImages } = await prisma.$transaction(async (tx) => {
+      let imageUrl = body.image;
+      let removed: Awaited<ReturnType<typeof setProductGallery>>['removed'] = [];
+      // `image_ids` replaces the whole gallery, in the given order.
+      if (body.image_ids) {
+        const gallery = await setProductGallery(tx, { productId: id, userId: req.user!.id, imageIds: body.image_ids });
+        imageUrl = gallery.coverUrl ?? imageUrl;
+        removed = gallery.removed;
       }
+
+      await tx.product.update({
+        where: { id },
+        data: {
+          title: body.title,
+          priceVnd: body.price,
+          unit: body.unit,
+          category: body.category,
+          location: body.location,
+          imageUrl,
+          co2SavingsKg: body.co2_savings_kg,
+          stockQuantity: body.stock_quantity,
+          minOrderQuantity: body.min_order_quantity,
+          lat: body.lat,
+          lng: body.lng,
+          description: body.description,
+          status: body.status,
+        },
+      });
+      await refreshProductSearchText(tx, { id });
+      const product = await tx.product.findUniqueOrThrow({ where: { id }, include: PRODUCT_INCLUDE });
+      return { updated: product, removedImages: removed };
+    });
+
+    res.json({ product: toProductResponse(updated) });
+
+    await invalidateProducts(id);
+    await deleteImageFiles(removedImages);
+  } catch (err) {
+    if (err instanceof InvalidImageError) {
+      return res.status(400).json({ error: err.message, code: 'INVALID_IMAGE' });
     }
+    next(err);
+  }
+});
+
+// Soft delete: archived listings disappear from the marketplace but past
+// orders keep pointing at them.
+productsRouter.delete('/:id', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await findOwnedProduct(id, req.user!.id, res, true);
+    if (!existing) return;
+
+    await prisma.product.update({
+      where: { id },
+      data: { status: 'ARCHIVED', archivedAt: new Date() },
+    });
+    await recordAuditEvent(req, {
+      action: 'product.delete',
+      targetType: 'products',
+      targetId: id,
+      metadata: { title: existing.title, seller_id: existing.sellerId, previous_status: existing.status },
+    });
+
+    res.status(204).end();
+
+    await invalidateProducts(id);
   } catch (err) {
     next(err);
   }
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { UNAUTHENTICATED, optionalAuth, type AuthenticatedRequest } from '../middleware/auth';
+import { TOPICS, isPrivateTopic, subscribe, type Topic } from '../lib/realtime';
+
+export const realtimeRouter = Router();
+
+// Keeps proxies from closing an idle stream.
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * Server-Sent Events stream: GET /api/realtime?topics=pollution,orders
+ * Authenticated by the same `eco_token` cookie as the REST API; private
+ * topics (orders, messages, notifications) require it. Each event is sent as
+ * `data: {"topic","type","data"}`. Browsers reconnect on their own; clients
+ * should refetch on reconnect since missed events are not replayed.
+ */
+realtimeRouter.get('/realtime', optionalAuth, (req: AuthenticatedRequest, res) => {
+    const parsed = z
+        .string()
+        .transform((s) => s.split(',').map((t) => t.trim()).filter(Boolean))
+        .pipe(z.array(z.enum(TOPICS)).min(1))
+        .safeParse(req.query.topics);
+    if (!parsed.success) {
+        return res.status(400).json({ error: `topics phải là một hoặc nhiều giá trị: ${TOPICS.join(', ')}` });
+    }
+
+    const topics: Topic[] = [...new Set(parsed.data)];
+    const userId = req.user?.id;
+    if (!userId && topics.some(isPrivateTopic)) {
+        return res.status(401).json(UNAUTHENTICATED);
+    }
+
+    res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    // compression() buffers output; flush after every write so events go out immediately.
+    const write = (chunk: string) => {
+        res.write(chunk);
+        (res as any).flush?.();
+    };
+
+    write('retry: 5000\n\n');
+
+    const unsubscribe = subscribe(topics, userId, (event) => {
+        write(`data: ${JSON.stringify({ topic: event.topic, type: event.type, data: event.data })}\n\n`);
+    });
+    const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+    });
+});
@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { requireAuth, requireVerifiedEmail, type AuthenticatedRequest } from '../middleware/auth';
+import { REPORTABLE_TYPES, REPORT_REASONS, applyAutoHide, getContentSummary } from '../lib/moderation';
+
+export const reportsRouter = Router();
+
+const CreateReportSchema = z.object({
+    target_type: z.enum(REPORTABLE_TYPES),
+    target_id: z.string().uuid(),
+    reason: z.enum(REPORT_REASONS),
+    details: z.string().trim().max(1000).optional(),
+});
+
+// Flag someone else's product, post or pollution marker for moderators.
+// Verified email is required so throwaway accounts can't push content past
+// the auto-hide threshold.
+reportsRouter.post('/reports', requireAuth, requireVerifiedEmail, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const body = CreateReportSchema.parse(req.body);
+
+        const target = await getContentSummary(body.target_type, body.target_id);
+        if (!target) return res.status(404).json({ error: 'Nội dung không tồn tại' });
+        if (target.author_id === userId) {
+            return res.status(400).json({ error: 'Bạn không thể báo cáo nội dung của chính mình.', code: 'OWN_CONTENT' });
+        }
+
+        const report = await prisma.contentReport.create({
+            data: {
+                targetType: body.target_type,
+                targetId: body.target_id,
+                reporterId: userId,
+                reason: body.reason,
+                details: body.details || null,
+            },
+            select: { id: true },
+        });
+
+        res.status(201).json({ report: { id: report.id } });
+
+        // The report is saved either way; a failed auto-hide can't be sent to the reporter
+        await applyAutoHide(body.target_type, body.target_id).catch((err) => {
+            console.error('Failed to apply auto-hide:', err?.message ?? err);
+        });
+    } catch (err: any) {
+        if (err?.code === 'P2002') {
+            return res.status(409).json({ error: 'Bạn đã báo cáo nội dung này rồi.', code: 'ALREADY_REPORTED' });
+        }
+        next(err);
+    }
+});
@@ -0,0 +1,175 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { optionalAuth, requireAuth, type AuthenticatedRequest } from '../middleware/auth';
+import { invalidateProductCache } from '../cache';
+
+export const reviewsRouter = Router();
+
+function humanizeFromDate(date: Date): string {
+    const diffMs = Date.now() - date.getTime();
+    const diffMin = Math.floor(diffMs / 60000);
+    if (diffMin < 60) return `${Math.max(1, diffMin)} phút trước`;
+    const diffH = Math.floor(diffMin / 60);
+    if (diffH < 24) return `${diffH} giờ trước`;
+    const diffD = Math.floor(diffH / 24);
+    if (diffD < 7) return `${diffD} ngày trước`;
+    const diffW = Math.floor(diffD / 7);
+    return `${diffW} tuần trước`;
+}
+
+function toReviewResponse(r: any) {
+    return {
+        id: r.id,
+        rating: r.rating,
+        comment: r.comment ?? undefined,
+        author_name: r.author.name,
+        created_at: r.createdAt.toISOString(),
+        posted_at: humanizeFromDate(r.createdAt),
+    };
+}
+
+/**
+ * A buyer may review a product once they have received it.
+ */
+async function hasReceivedProduct(userId: string, productId: string): Promise<boolean> {
+    const item = await prisma.orderItem.findFirst({
+        where: {
+            productId,
+            order: { buyerId: userId },
+            sellerOrder: { status: 'DELIVERED' },
+        },
+        select: { id: true },
+    });
+    return !!item;
+}
+
+reviewsRouter.get('/products/:id/reviews', optionalAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const { id } = req.params;
+        const query = z
+            .object({
+                cursor: z.string().uuid().optional(),
+                take: z.coerce.number().int().min(1).max(50).default(10),
+            })
+            .parse(req.query);
+
+        const product = await prisma.product.findUnique({
+            where: { id },
+            select: { id: true, sellerId: true, ratingAvg: true, ratingCount: true },
+        });
+        if (!product) return res.status(404).json({ error: 'Sản phẩm không tồn tại' });
+
+        const [rows, grouped] = await Promise.all([
+            prisma.review.findMany({
+                where: { productId: id },
+                orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+                take: query.take + 1,
+                ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+                include: { author: { select: { name: true } } },
+            }),
+            prisma.review.groupBy({
+                by: ['rating'],
+                where: { productId: id },
+                _count: { _all: true },
+            }),
+        ]);
+
+        const distribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+        for (const g of grouped) distribution[g.rating] = g._count._all;
+
+        const hasMore = rows.length > query.take;
+        const page = hasMore ? rows.slice(0, query.take) : rows;
+
+        // What the signed-in viewer may do, so the page can show or hide the form.
+        let canReview = false;
+        let hasReviewed = false;
+        const userId = req.user?.id;
+        if (userId && userId !== product.sellerId) {
+            const existing = await prisma.review.findUnique({
+                where: { productId_authorId: { productId: id, authorId: userId } },
+                select: { id: true },
+            });
+            hasReviewed = !!existing;
+            canReview = !hasReviewed && (await hasReceivedProduct(userId, id));
+        }
+
+        res.json({
+            reviews: page.map(toReviewResponse),
+            nextCursor: hasMore ? page[page.length - 1].id : null,
+            summary: {
+                average: Math.round(product.ratingAvg * 10) / 10,
+                count: product.ratingCount,
+                distribution,
+            },
+            can_review: canReview,
+            has_reviewed: hasReviewed,
+        });
+    } catch (err) {
+        next(err);
+    }
+});
+
+const CreateReviewSchema = z.object({
+    rating: z.number().int().min(1).max(5),
+    comment: z.string().trim().max(1000).optional(),
+});
+
+reviewsRouter.post('/products/:id/reviews', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const { id } = req.params;
+        const userId = req.user!.id;
+        const body = CreateReviewSchema.parse(req.body);
+
+        const product = await prisma.product.findUnique({
+            where: { id },
+            select: { id: true, sellerId: true },
+        });
+        if (!product) return res.status(404).json({ error: 'Sản phẩm không tồn tại' });
+
+        if (product.sellerId === userId) {
+            return res.status(403).json({ error: 'Bạn không thể đánh giá sản phẩm của chính mình', code: 'OWN_PRODUCT' });
+        }
+        if (!(await hasReceivedProduct(userId, id))) {
+            return res.status(403).json({
+                error: 'Chỉ người đã mua và nhận hàng mới có thể đánh giá',
+                code: 'NOT_PURCHASED',
+            });
+        }
+
+        const review = await prisma.$transaction(async (tx) => {
+            const created = await tx.review.create({
+                data: {
+                    productId: id,
+                    sellerId: product.sellerId,
+                    authorId: userId,
+                    rating: body.rating,
+                    comment: body.comment || null,
+                },
+                include: { author: { select: { name: true } } },
+            });
+
+            // Recompute rather than increment so concurrent reviews cannot drift the average.
+            const agg = await tx.review.aggregate({
+                where: { productId: id },
+                _avg: { rating: true },
+                _count: { _all: true },
+            });
+            await tx.product.update({
+                where: { id },
+                data: { ratingAvg: agg._avg.rating ?? 0, ratingCount: agg._count._all },
+            });
+
+            return created;
+        });
+
+        await invalidateProductCache(id);
+
+        res.status(201).json({ review: toReviewResponse(review) });
+    } catch (err: any) {
+        if (err?.code === 'P2002') {
+            return res.status(409).json({ error: 'Bạn đã đánh giá sản phẩm này', code: 'ALREADY_REVIEWED' });
+        }
+        next(err);
+    }
+});
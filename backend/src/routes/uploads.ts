@@ -0,0 +1,148 @@
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import { randomUUID } from 'crypto';
+import multer from 'multer';
+import { prisma } from '../prisma';
+import { requireAuth, requireVerifiedEmail, type AuthenticatedRequest } from '../middleware/auth';
+import {
+    ACCEPTED_IMAGE_TYPES,
+    MAX_IMAGE_BYTES,
+    MAX_IMAGES_PER_PRODUCT,
+    MAX_PHOTOS_PER_REPORT,
+    InvalidImageError,
+    deleteImageFiles,
+    processImage,
+    readPhotoEvidence,
+    toImageResponse,
+} from '../lib/images';
+
+export const uploadsRouter = Router();
+
+// Files stay in memory: they are re-encoded by sharp before anything touches storage.
+const acceptImages = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_IMAGE_BYTES, files: MAX_IMAGES_PER_PRODUCT },
+    fileFilter: (_req, file, cb) => {
+        if (ACCEPTED_IMAGE_TYPES.includes(file.mimetype)) return cb(null, true);
+        cb(new InvalidImageError('Chỉ chấp nhận ảnh JPEG, PNG, WebP hoặc AVIF'));
+    },
+}).array('images', MAX_IMAGES_PER_PRODUCT);
+
+function parseImages(req: Request, res: Response, next: NextFunction) {
+    acceptImages(req, res, (err: unknown) => {
+        if (err instanceof multer.MulterError) {
+            const error = err.code === 'LIMIT_FILE_SIZE'
+                ? `Mỗi ảnh tối đa ${MAX_IMAGE_BYTES / 1024 / 1024}MB`
+                : err.code === 'LIMIT_FILE_COUNT' || err.code === 'LIMIT_UNEXPECTED_FILE'
+                    ? `Tối đa ${MAX_IMAGES_PER_PRODUCT} ảnh mỗi lần tải lên`
+                    : 'Tải ảnh lên thất bại';
+            return res.status(400).json({ error, code: err.code });
+        }
+        if (err instanceof InvalidImageError) {
+            return res.status(400).json({ error: err.message, code: 'INVALID_IMAGE' });
+        }
+        next(err);
+    });
+}
+
+/**
+ * Upload product photos. Returns the processed images; pass their ids as
+ * `image_ids` when creating or editing a product to attach them.
+ */
+uploadsRouter.post('/uploads/images', requireAuth, parseImages, async (req: AuthenticatedRequest, res, next) => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    if (files.length === 0) {
+        return res.status(400).json({ error: 'Vui lòng chọn ít nhất một ảnh' });
+    }
+
+    const processed: Array<{ id: string; variants: Awaited<ReturnType<typeof processImage>>['variants'] }> = [];
+    try {
+        const images = [];
+        for (const file of files) {
+            const id = randomUUID();
+            const result = await processImage(id, file.buffer);
+            processed.push({ id, variants: result.variants });
+            images.push(
+                await prisma.productImage.create({
+                    data: {
+                        id,
+                        uploaderId: req.user!.id,
+                        width: result.width,
+                        height: result.height,
+                        variants: result.variants as any,
+                    },
+                }),
+            );
+        }
+
+        res.status(201).json({ images: images.map(toImageResponse) });
+    } catch (err) {
+        // Don't leave files (or rows) behind for a batch that failed half-way.
+        await Promise.all(processed.map((p) => deleteImageFiles(p.variants)));
+        await prisma.productImage.deleteMany({ where: { id: { in: processed.map((p) => p.id) } } }).catch(() => undefined);
+
+        if (err instanceof InvalidImageError) {
+            return res.status(400).json({ error: err.message, code: 'INVALID_IMAGE' });
+        }
+        next(err);
+    }
+});
+
+/**
+ * Upload photo evidence for a pollution report; pass the ids as `photo_ids`
+ * when creating the report. The uploader gets back where each photo was
+ * taken so the form can warn before submitting; nobody else sees it.
+ */
+uploadsRouter.post(
+    '/uploads/pollution-photos',
+    requireAuth,
+    requireVerifiedEmail,
+    parseImages,
+    async (req: AuthenticatedRequest, res, next) => {
+        const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+        if (files.length === 0) {
+            return res.status(400).json({ error: 'Vui lòng chọn ít nhất một ảnh' });
+        }
+        if (files.length > MAX_PHOTOS_PER_REPORT) {
+            return res.status(400).json({ error: `Tối đa ${MAX_PHOTOS_PER_REPORT} ảnh mỗi báo cáo`, code: 'LIMIT_FILE_COUNT' });
+        }
+
+        const processed: Array<{ id: string; variants: Awaited<ReturnType<typeof processImage>>['variants'] }> = [];
+        try {
+            const photos = [];
+            for (const file of files) {
+                const id = randomUUID();
+                // Read EXIF from the original; the stored copies have none
+                const evidence = await readPhotoEvidence(file.buffer);
+                const result = await processImage(id, file.buffer, 'pollution');
+                processed.push({ id, variants: result.variants });
+                const photo = await prisma.pollutionPhoto.create({
+                    data: {
+                        id,
+                        uploaderId: req.user!.id,
+                        width: result.width,
+                        height: result.height,
+                        variants: result.variants as any,
+                        takenAt: evidence.takenAt,
+                        lat: evidence.lat,
+                        lng: evidence.lng,
+                    },
+                });
+                photos.push({
+                    ...toImageResponse(photo),
+                    taken_at: photo.takenAt?.toISOString() ?? null,
+                    location: photo.lat !== null && photo.lng !== null ? { lat: photo.lat, lng: photo.lng } : null,
+                });
+            }
+
+            res.status(201).json({ images: photos });
+        } catch (err) {
+            await Promise.all(processed.map((p) => deleteImageFiles(p.variants)));
+            await prisma.pollutionPhoto.deleteMany({ where: { id: { in: processed.map((p) => p.id) } } }).catch(() => undefined);
+
+            if (err instanceof InvalidImageError) {
+                return res.status(400).json({ error: err.message, code: 'INVALID_IMAGE' });
+            }
+            next(err);
+        }
+    },
+);
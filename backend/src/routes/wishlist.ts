@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { requireAuth, type AuthenticatedRequest } from '../middleware/auth';
+import { PUBLIC_PRODUCT_WHERE } from '../lib/productVisibility';
+
+export const wishlistRouter = Router();
+
+function toWishlistItemResponse(w: any) {
+    return {
+        saved_at: w.createdAt.toISOString(),
+        product: {
+            id: w.product.id,
+            title: w.product.title,
+            price: w.product.priceVnd,
+            unit: w.product.unit,
+            category: w.product.category,
+            location: w.product.location,
+            image: w.product.imageUrl,
+            seller_name: w.product.seller.name,
+            co2_savings_kg: w.product.co2SavingsKg,
+            stock_quantity: w.product.stockQuantity,
+            min_order_quantity: w.product.minOrderQuantity,
+            status: w.product.status,
+            description: w.product.description ?? undefined,
+            posted_at: '',
+            saved: true,
+        },
+    };
+}
+
+wishlistRouter.get('/wishlist', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        // Listings that stop being public (draft, archived, hidden by a moderator)
+        // stay saved, so nothing silently disappears, but are not shown.
+        const items = await prisma.wishlistItem.findMany({
+            where: { userId: req.user!.id, product: PUBLIC_PRODUCT_WHERE },
+            orderBy: { createdAt: 'desc' },
+            include: {
+                product: { include: { seller: { select: { name: true } } } },
+            },
+        });
+
+        res.json({ items: items.map(toWishlistItemResponse) });
+    } catch (err) {
+        next(err);
+    }
+});
+
+const AddWishlistSchema = z.object({
+    productId: z.string().uuid(),
+});
+
+wishlistRouter.post('/wishlist', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const userId = req.user!.id;
+        const body = AddWishlistSchema.parse(req.body);
+
+        const product = await prisma.product.findFirst({
+            where: { id: body.productId, ...PUBLIC_PRODUCT_WHERE },
+            select: { id: true },
+        });
+        if (!product) {
+            return res.status(404).json({ error: 'Sản phẩm không tồn tại' });
+        }
+
+        const item = await prisma.wishlistItem.upsert({
+            where: { userId_productId: { userId, productId: body.productId } },
+            update: {},
+            create: { userId, productId: body.productId },
+            include: {
+                product: { include: { seller: { select: { name: true } } } },
+            },
+        });
+
+        res.status(201).json({ item: toWishlistItemResponse(item) });
+    } catch (err) {
+        next(err);
+    }
+});
+
+wishlistRouter.delete('/wishlist/:productId', requireAuth, async (req: AuthenticatedRequest, res, next) => {
+    try {
+        const productId = z.string().uuid().parse(req.params.productId);
+
+        // deleteMany: removing something that is not saved is not an error.
+        await prisma.wishlistItem.deleteMany({
+            where: { userId: req.user!.id, productId },
+        });
+
+        res.status(204).end();
+    } catch (err) {
+        next(err);
+    }
+});
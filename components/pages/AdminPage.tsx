@@ -0,0 +1,875 @@
+import React, { useEffect, useState } from 'react';
+import {
+    ArrowLeft,
+    Ban,
+    Download,
+    Eye,
+    EyeOff,
+    Flag,
+    History,
+    KeyRound,
+    Loader2,
+    RotateCcw,
+    Search,
+    ShieldAlert,
+    ShieldCheck,
+    Unlock,
+} from 'lucide-react';
+import { getApiUrl } from '@/utils/api';
+
+// --- Types ---
+
+interface AdminUser {
+    id: string;
+    email: string;
+    name: string;
+    created_at: string;
+    last_login_at: string | null;
+    email_verified: boolean;
+    totp_enabled: boolean;
+    locked_until: string | null;
+    suspended_at: string | null;
+    suspended_reason: string | null;
+    roles: string[];
+}
+
+interface ContentItem {
+    id: string;
+    title: string;
+    author_id: string | null;
+    author_name: string | null;
+    status: string | null;
+    hidden: boolean;
+    created_at: string;
+}
+
+interface ReportTarget {
+    target_type: 'products' | 'posts' | 'pollution';
+    target_id: string;
+    content: ContentItem | null;
+    report_count: number;
+    last_reported_at: string;
+    reports: {
+        id: string;
+        reason: string;
+        details: string | null;
+        status: string;
+        reporter_name: string;
+        reporter_email: string;
+        created_at: string;
+        resolved_at: string | null;
+    }[];
+}
+
+interface ModerationHistoryEntry {
+    id: string;
+    action: string;
+    note: string | null;
+    moderator_name: string | null;
+    created_at: string;
+}
+
+interface AuditEvent {
+    id: string;
+    created_at: string;
+    action: string;
+    actor_id: string | null;
+    actor_email: string | null;
+    actor_name: string | null;
+    target_type: string | null;
+    target_id: string | null;
+    ip: string | null;
+    user_agent: string | null;
+    metadata: Record<string, unknown> | null;
+}
+
+interface LoginFailures {
+    hours: number;
+    total: number;
+    by_ip: { ip: string; count: number }[];
+    by_email: { email: string; count: number }[];
+    locked_users: { id: string; email: string; locked_until: string }[];
+    recent: { id: string; email: string; ip: string; user_agent: string | null; method: string; created_at: string }[];
+}
+
+type ContentTab = 'products' | 'posts' | 'events' | 'pollution';
+type Tab = 'overview' | 'users' | 'audit' | 'reports' | ContentTab;
+
+// Each tab and the permission it needs; the backend checks the same ones.
+const TABS: { id: Tab; label: string; permission: string }[] = [
+    { id: 'overview', label: 'Đăng nhập thất bại', permission: 'users:manage' },
+    { id: 'users', label: 'Người dùng', permission: 'users:manage' },
+    { id: 'audit', label: 'Nhật ký', permission: 'users:manage' },
+    { id: 'reports', label: 'Báo cáo vi phạm', permission: 'content:delete_any' },
+    { id: 'products', label: 'Sản phẩm', permission: 'content:delete_any' },
+    { id: 'posts', label: 'Bài viết', permission: 'content:delete_any' },
+    { id: 'events', label: 'Sự kiện', permission: 'content:delete_any' },
+    { id: 'pollution', label: 'Báo cáo ô nhiễm', permission: 'content:delete_any' },
+];
+
+const ROLE_LABELS: Record<string, string> = {
+    ADMIN: 'Quản trị viên',
+    MODERATOR: 'Kiểm duyệt viên',
+    AUTHORITY: 'Cơ quan chức năng',
+};
+
+const CONTENT_TYPE_LABELS: Record<string, string> = {
+    users: 'Người dùng',
+    products: 'Sản phẩm',
+    posts: 'Bài viết',
+    events: 'Sự kiện',
+    pollution: 'Điểm ô nhiễm',
+};
+
+const REASON_LABELS: Record<string, string> = {
+    SPAM: 'Spam',
+    SCAM: 'Lừa đảo',
+    OFFENSIVE: 'Xúc phạm',
+    MISLEADING: 'Sai sự thật',
+    OTHER: 'Khác',
+};
+
+const MODERATION_ACTION_LABELS: Record<string, string> = {
+    AUTO_HIDE: 'Tự động ẩn',
+    HIDE: 'Ẩn',
+    UNHIDE: 'Hiện lại',
+    REMOVE: 'Gỡ nội dung',
+    RESOLVE: 'Đã xử lý',
+    DISMISS: 'Giữ lại',
+};
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+    'profile.update': 'Cập nhật hồ sơ',
+    'password.change': 'Đổi mật khẩu',
+    'password.reset': 'Đặt lại mật khẩu',
+    'totp.enable': 'Bật xác thực 2 bước',
+    'totp.disable': 'Tắt xác thực 2 bước',
+    'totp.recovery_codes': 'Tạo lại mã khôi phục',
+    'passkey.add': 'Thêm passkey',
+    'passkey.remove': 'Xóa passkey',
+    'product.delete': 'Xóa sản phẩm',
+    'post.delete': 'Xóa bài viết',
+    'pollution.delete': 'Xóa điểm ô nhiễm',
+    'pollution.status': 'Cập nhật trạng thái ô nhiễm',
+    'admin.user.roles': 'Đổi vai trò',
+    'admin.user.suspend': 'Tạm ngưng tài khoản',
+    'admin.user.unsuspend': 'Bỏ tạm ngưng',
+    'admin.user.unlock': 'Mở khóa đăng nhập',
+    'admin.user.reset_totp': 'Đặt lại 2FA',
+    'admin.content.hide': 'Ẩn nội dung',
+    'admin.content.unhide': 'Hiện lại nội dung',
+    'admin.reports.resolve': 'Xử lý báo cáo vi phạm',
+};
+
+// Prefixes the backend accepts as an action filter, alongside exact actions.
+const AUDIT_ACTION_GROUPS: { value: string; label: string }[] = [
+    { value: '', label: 'Tất cả thao tác' },
+    { value: 'password.', label: 'Mật khẩu' },
+    { value: 'totp.', label: 'Xác thực 2 bước' },
+    { value: 'passkey.', label: 'Passkey' },
+    { value: 'profile.', label: 'Hồ sơ' },
+    { value: 'admin.', label: 'Quản trị' },
+    ...['product.delete', 'post.delete', 'pollution.delete', 'pollution.status'].map((a) => ({ value: a, label: AUDIT_ACTION_LABELS[a] })),
+];
+
+const METHOD_LABELS: Record<string, string> = {
+    PASSWORD: 'Mật khẩu',
+    TOTP: 'TOTP',
+    RECOVERY_CODE: 'Mã khôi phục',
+    PASSKEY: 'Passkey',
+    OIDC: 'Mạng xã hội',
+};
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString('vi-VN');
+
+// Every admin action is a JSON request that answers `{ error }` on failure.
+async function adminRequest(path: string, init?: { method: string; body?: unknown }) {
+    const res = await fetch(getApiUrl(path), {
+        method: init?.method ?? 'GET',
+        headers: init?.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+        body: init?.body !== undefined ? JSON.stringify(init.body) : undefined,
+    });
+    const data = (await res.json().catch(() => null)) as any;
+    if (!res.ok) throw new Error(data?.error ?? 'Có lỗi xảy ra');
+    return data;
+}
+
+export const AdminPage = ({
+    currentUserId,
+    permissions,
+    onBack,
+}: {
+    currentUserId: string;
+    permissions: string[];
+    onBack: () => void;
+}) => {
+    const tabs = TABS.filter((t) => permissions.includes(t.permission));
+    const [tab, setTab] = useState<Tab | null>(tabs[0]?.id ?? null);
+    const [search, setSearch] = useState('');
+    const [query, setQuery] = useState('');
+    const [hours, setHours] = useState(24);
+    const [users, setUsers] = useState<AdminUser[]>([]);
+    const [items, setItems] = useState<ContentItem[]>([]);
+    const [failures, setFailures] = useState<LoginFailures | null>(null);
+    const [auditAction, setAuditAction] = useState('');
+    const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([]);
+    const [reportStatus, setReportStatus] = useState<'OPEN' | 'CLOSED'>('OPEN');
+    const [targets, setTargets] = useState<ReportTarget[]>([]);
+    // Moderation history per `type:id`, loaded when first expanded
+    const [history, setHistory] = useState<Record<string, ModerationHistoryEntry[]>>({});
+    const [openHistory, setOpenHistory] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    // Bumped to refetch the current tab after an action
+    const [reloadKey, setReloadKey] = useState(0);
+
+    // Search as you type, without a request per keystroke
+    useEffect(() => {
+        const timer = setTimeout(() => setQuery(search.trim()), 300);
+        return () => clearTimeout(timer);
+    }, [search]);
+
+    const auditParams = new URLSearchParams();
+    if (query) auditParams.set('actor', query);
+    if (auditAction) auditParams.set('action', auditAction);
+    const auditQuery = auditParams.toString();
+
+    useEffect(() => {
+        if (!tab) return;
+        const controller = new AbortController();
+        setLoading(true);
+        setError(null);
+
+        const path =
+            tab === 'overview'
+                ? `admin/login-failures?hours=${hours}`
+                : tab === 'reports'
+                    ? `admin/reports?status=${reportStatus}`
+                    : tab === 'audit'
+                        ? `admin/audit?${auditQuery}`
+                        : `admin/${tab === 'users' ? 'users' : `content/${tab}`}${query ? `?q=${encodeURIComponent(query)}` : ''}`;
+
+        fetch(getApiUrl(path), { signal: controller.signal })
+            .then(async (res) => {
+                const data = (await res.json()) as any;
+                if (!res.ok) throw new Error(data?.error ?? 'Không tải được dữ liệu');
+                if (tab === 'overview') setFailures(data as LoginFailures);
+                else if (tab === 'users') setUsers(Array.isArray(data?.users) ? data.users : []);
+                else if (tab === 'audit') setAuditEvents(Array.isArray(data?.events) ? data.events : []);
+                else if (tab === 'reports') setTargets(Array.isArray(data?.targets) ? data.targets : []);
+                else setItems(Array.isArray(data?.items) ? data.items : []);
+            })
+            .catch((e: any) => {
+                if (e?.name !== 'AbortError') setError(e?.message ?? 'Có lỗi xảy ra');
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setLoading(false);
+            });
+
+        return () => controller.abort();
+    }, [tab, query, hours, auditQuery, reportStatus, reloadKey]);
+
+    const runAction = async (id: string, action: () => Promise<unknown>) => {
+        setBusyId(id);
+        setError(null);
+        try {
+            await action();
+            setReloadKey((k) => k + 1);
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const suspendUser = (user: AdminUser) => {
+        const reason = window.prompt(`Lý do tạm ngưng tài khoản ${user.email}?`, '');
+        if (reason === null) return;
+        runAction(user.id, () => adminRequest(`admin/users/${user.id}/suspend`, { method: 'POST', body: { reason } }));
+    };
+
+    const unsuspendUser = (user: AdminUser) =>
+        runAction(user.id, () => adminRequest(`admin/users/${user.id}/unsuspend`, { method: 'POST', body: {} }));
+
+    const unlockUser = (userId: string) =>
+        runAction(userId, () => adminRequest(`admin/users/${userId}/unlock`, { method: 'POST', body: {} }));
+
+    const resetTotp = (user: AdminUser) => {
+        if (!window.confirm(`Tắt xác thực 2 bước của ${user.email}? Chỉ làm khi đã xác minh đúng chủ tài khoản.`)) return;
+        runAction(user.id, () => adminRequest(`admin/users/${user.id}/reset-totp`, { method: 'POST', body: {} }));
+    };
+
+    const toggleRole = (user: AdminUser, role: string) => {
+        const has = user.roles.includes(role);
+        if (!window.confirm(`${has ? 'Gỡ' : 'Cấp'} vai trò ${ROLE_LABELS[role]} ${has ? 'của' : 'cho'} ${user.email}?`)) return;
+        const roles = has ? user.roles.filter((r) => r !== role) : [...user.roles, role];
+        runAction(user.id, () => adminRequest(`admin/users/${user.id}/roles`, { method: 'PUT', body: { roles } }));
+    };
+
+    const setHidden = (item: ContentItem, hidden: boolean) => {
+        if (hidden && !window.confirm(`Ẩn "${item.title.slice(0, 80)}" khỏi trang công khai?`)) return;
+        runAction(item.id, () => adminRequest(`admin/content/${tab}/${item.id}`, { method: 'PATCH', body: { hidden } }));
+    };
+
+    const resolveReports = (target: ReportTarget, action: 'REMOVE' | 'RESOLVE' | 'DISMISS') => {
+        const note = window.prompt(`${MODERATION_ACTION_LABELS[action]}: ghi chú cho quyết định này (không bắt buộc)`, '');
+        if (note === null) return;
+        const key = `${target.target_type}:${target.target_id}`;
+        runAction(target.target_id, async () => {
+            await adminRequest(`admin/reports/${target.target_type}/${target.target_id}/resolve`, {
+                method: 'POST',
+                body: { action, note: note.trim() || undefined },
+            });
+            setHistory(({ [key]: _stale, ...rest }) => rest);
+        });
+    };
+
+    const toggleHistory = async (type: string, id: string) => {
+        const key = `${type}:${id}`;
+        if (openHistory === key) return setOpenHistory(null);
+        setOpenHistory(key);
+        if (history[key]) return;
+        try {
+            const data = await adminRequest(`admin/content/${type}/${id}/history`);
+            setHistory((h) => ({ ...h, [key]: Array.isArray(data?.actions) ? data.actions : [] }));
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        }
+    };
+
+    if (!tab) {
+        return <div className="p-10 text-center text-slate-500">Bạn không có quyền truy cập trang quản trị.</div>;
+    }
+
+    return (
+        <div className="min-h-[calc(100vh-64px)] py-10 px-4">
+            <div className="container mx-auto max-w-6xl">
+                <div className="flex items-center justify-between gap-4 mb-6">
+                    <div>
+                        <h1 className="text-2xl font-bold text-slate-900">Quản trị</h1>
+                        <p className="text-slate-500 text-sm">Quản lý người dùng và kiểm duyệt nội dung.</p>
+                    </div>
+                    <button
+                        onClick={onBack}
+                        className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-100 transition-colors flex items-center gap-2"
+                    >
+                        <ArrowLeft size={18} />
+                        Quay lại
+                    </button>
+                </div>
+
+                <div className="flex items-center gap-2 overflow-x-auto pb-4 scrollbar-hide">
+                    {tabs.map((t) => (
+                        <button
+                            key={t.id}
+                            onClick={() => setTab(t.id)}
+                            className={`whitespace-nowrap px-4 py-1.5 rounded-full text-sm font-medium transition-all ${tab === t.id
+                                ? 'bg-emerald-100 text-emerald-800 border border-emerald-200'
+                                : 'bg-white text-slate-600 border border-slate-200 hover:border-slate-300'
+                                }`}
+                        >
+                            {t.label}
+                        </button>
+                    ))}
+                </div>
+
+                {tab === 'overview' ? (
+                    <div className="flex items-center gap-2 mb-4">
+                        <span className="text-sm text-slate-500">Trong</span>
+                        <select
+                            value={hours}
+                            onChange={(e) => setHours(Number(e.target.value))}
+                            className="bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-emerald-500"
+                        >
+                            <option value={1}>1 giờ qua</option>
+                            <option value={24}>24 giờ qua</option>
+                            <option value={168}>7 ngày qua</option>
+                        </select>
+                    </div>
+                ) : tab === 'reports' ? (
+                    <div className="flex items-center gap-2 mb-4">
+                        <select
+                            value={reportStatus}
+                            onChange={(e) => setReportStatus(e.target.value as 'OPEN' | 'CLOSED')}
+                            className="bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-emerald-500"
+                        >
+                            <option value="OPEN">Chờ xử lý</option>
+                            <option value="CLOSED">Đã xử lý</option>
+                        </select>
+                    </div>
+                ) : tab === 'audit' ? (
+                    <div className="flex flex-wrap items-center gap-2 mb-4">
+                        <div className="relative flex-1 min-w-[220px]">
+                            <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                            <input
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                placeholder="Tìm theo email hoặc tên người thực hiện…"
+                                className="w-full bg-white border border-slate-200 rounded-lg pl-10 pr-3 py-2 text-sm outline-none focus:border-emerald-500"
+                            />
+                        </div>
+                        <select
+                            value={auditAction}
+                            onChange={(e) => setAuditAction(e.target.value)}
+                            className="bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-emerald-500"
+                        >
+                            {AUDIT_ACTION_GROUPS.map((g) => (
+                                <option key={g.value} value={g.value}>
+                                    {g.label}
+                                </option>
+                            ))}
+                        </select>
+                        <a
+                            href={getApiUrl(`admin/audit?${auditQuery}&format=csv`)}
+                            className="px-3 py-2 rounded-lg bg-slate-900 text-white text-sm font-medium hover:bg-emerald-600 transition-colors flex items-center gap-2"
+                        >
+                            <Download size={16} />
+                            Xuất CSV
+                        </a>
+                    </div>
+                ) : (
+                    <div className="relative mb-4">
+                        <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                        <input
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder={tab === 'users' ? 'Tìm theo email hoặc tên…' : 'Tìm theo nội dung hoặc email người đăng…'}
+                            className="w-full bg-white border border-slate-200 rounded-lg pl-10 pr-3 py-2 text-sm outline-none focus:border-emerald-500"
+                        />
+                    </div>
+                )}
+
+                {error && (
+                    <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm">{error}</div>
+                )}
+
+                {loading && (
+                    <div className="flex items-center justify-center py-10 text-slate-500">
+                        <Loader2 className="animate-spin mr-2" size={20} />
+                        Đang tải…
+                    </div>
+                )}
+
+                {!loading && tab === 'overview' && failures && (
+                    <div className="space-y-6">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="bg-white rounded-xl border border-slate-200 p-4">
+                                <p className="text-sm text-slate-500">Lần đăng nhập thất bại</p>
+                                <p className="text-3xl font-bold text-slate-900">{failures.total}</p>
+                            </div>
+                            <div className="bg-white rounded-xl border border-slate-200 p-4">
+                                <p className="text-sm text-slate-500 mb-2">Nhiều nhất theo IP</p>
+                                {failures.by_ip.length === 0 && <p className="text-sm text-slate-400">Không có</p>}
+                                {failures.by_ip.map((g) => (
+                                    <div key={g.ip} className="flex justify-between text-sm">
+                                        <span className="font-mono text-slate-700 truncate">{g.ip}</span>
+                                        <span className="text-slate-500">{g.count}</span>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="bg-white rounded-xl border border-slate-200 p-4">
+                                <p className="text-sm text-slate-500 mb-2">Nhiều nhất theo email</p>
+                                {failures.by_email.length === 0 && <p className="text-sm text-slate-400">Không có</p>}
+                                {failures.by_email.map((g) => (
+                                    <div key={g.email} className="flex justify-between gap-2 text-sm">
+                                        <span className="text-slate-700 truncate">{g.email}</span>
+                                        <span className="text-slate-500">{g.count}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {failures.locked_users.length > 0 && (
+                            <div className="bg-white rounded-xl border border-amber-200 p-4">
+                                <p className="font-semibold text-slate-900 mb-2">Tài khoản đang bị khóa</p>
+                                {failures.locked_users.map((u) => (
+                                    <div key={u.id} className="flex items-center justify-between gap-2 py-1 text-sm">
+                                        <span className="text-slate-700">
+                                            {u.email} · đến {formatDateTime(u.locked_until)}
+                                        </span>
+                                        <button
+                                            onClick={() => unlockUser(u.id)}
+                                            disabled={busyId === u.id}
+                                            className="px-3 py-1 rounded-lg bg-slate-100 text-slate-700 hover:bg-emerald-50 hover:text-emerald-700 flex items-center gap-1 disabled:opacity-50"
+                                        >
+                                            <Unlock size={14} />
+                                            Mở khóa
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="bg-white rounded-xl border border-slate-200 overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead className="bg-slate-50 text-slate-500 text-left">
+                                    <tr>
+                                        <th className="px-4 py-2 font-medium">Thời điểm</th>
+                                        <th className="px-4 py-2 font-medium">Email</th>
+                                        <th className="px-4 py-2 font-medium">IP</th>
+                                        <th className="px-4 py-2 font-medium">Phương thức</th>
+                                        <th className="px-4 py-2 font-medium">Thiết bị</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {failures.recent.map((a) => (
+                                        <tr key={a.id} className="border-t border-slate-100">
+                                            <td className="px-4 py-2 whitespace-nowrap text-slate-500">{formatDateTime(a.created_at)}</td>
+                                            <td className="px-4 py-2 text-slate-900">{a.email}</td>
+                                            <td className="px-4 py-2 font-mono text-slate-700">{a.ip}</td>
+                                            <td className="px-4 py-2 text-slate-700">{METHOD_LABELS[a.method] ?? a.method}</td>
+                                            <td className="px-4 py-2 text-slate-400 truncate max-w-[240px]" title={a.user_agent ?? ''}>
+                                                {a.user_agent ?? '—'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                    {failures.recent.length === 0 && (
+                                        <tr>
+                                            <td colSpan={5} className="px-4 py-6 text-center text-slate-400">
+                                                Không có lần đăng nhập thất bại nào.
+                                            </td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                )}
+
+                {!loading && tab === 'users' && (
+                    <div className="bg-white rounded-xl border border-slate-200 overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-50 text-slate-500 text-left">
+                                <tr>
+                                    <th className="px-4 py-2 font-medium">Người dùng</th>
+                                    <th className="px-4 py-2 font-medium">Trạng thái</th>
+                                    <th className="px-4 py-2 font-medium">Vai trò</th>
+                                    <th className="px-4 py-2 font-medium">Đăng nhập gần nhất</th>
+                                    <th className="px-4 py-2 font-medium text-right">Thao tác</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {users.map((u) => (
+                                    <tr key={u.id} className="border-t border-slate-100 align-top">
+                                        <td className="px-4 py-3">
+                                            <p className="font-medium text-slate-900">{u.name}</p>
+                                            <p className="text-slate-500">{u.email}</p>
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <div className="flex flex-wrap gap-1">
+                                                {u.suspended_at && (
+                                                    <span className="px-2 py-0.5 rounded-full bg-red-50 text-red-700 text-xs" title={u.suspended_reason ?? ''}>
+                                                        Tạm ngưng
+                                                    </span>
+                                                )}
+                                                {u.locked_until && (
+                                                    <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 text-xs">Bị khóa</span>
+                                                )}
+                                                {!u.email_verified && (
+                                                    <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 text-xs">Chưa xác thực email</span>
+                                                )}
+                                                {u.totp_enabled && (
+                                                    <span className="px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-700 text-xs">2FA</span>
+                                                )}
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <div className="flex flex-wrap gap-1">
+                                                {Object.keys(ROLE_LABELS).map((role) => (
+                                                    <button
+                                                        key={role}
+                                                        onClick={() => toggleRole(u, role)}
+                                                        disabled={busyId === u.id || (u.id === currentUserId && role === 'ADMIN')}
+                                                        className={`px-2 py-0.5 rounded-full text-xs border transition-colors disabled:cursor-not-allowed ${u.roles.includes(role)
+                                                            ? 'bg-slate-900 text-white border-slate-900'
+                                                            : 'bg-white text-slate-400 border-slate-200 hover:border-slate-400'
+                                                            }`}
+                                                    >
+                                                        {ROLE_LABELS[role]}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-3 text-slate-500 whitespace-nowrap">
+                                            {u.last_login_at ? formatDateTime(u.last_login_at) : '—'}
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <div className="flex justify-end gap-1">
+                                                {u.locked_until && (
+                                                    <button
+                                                        onClick={() => unlockUser(u.id)}
+                                                        disabled={busyId === u.id}
+                                                        className="p-2 rounded-lg text-slate-500 hover:bg-emerald-50 hover:text-emerald-700 disabled:opacity-50"
+                                                        title="Mở khóa đăng nhập"
+                                                    >
+                                                        <Unlock size={16} />
+                                                    </button>
+                                                )}
+                                                {u.totp_enabled && (
+                                                    <button
+                                                        onClick={() => resetTotp(u)}
+                                                        disabled={busyId === u.id}
+                                                        className="p-2 rounded-lg text-slate-500 hover:bg-amber-50 hover:text-amber-700 disabled:opacity-50"
+                                                        title="Đặt lại xác thực 2 bước"
+                                                    >
+                                                        <KeyRound size={16} />
+                                                    </button>
+                                                )}
+                                                {u.suspended_at ? (
+                                                    <button
+                                                        onClick={() => unsuspendUser(u)}
+                                                        disabled={busyId === u.id}
+                                                        className="p-2 rounded-lg text-slate-500 hover:bg-emerald-50 hover:text-emerald-700 disabled:opacity-50"
+                                                        title="Bỏ tạm ngưng"
+                                                    >
+                                                        <RotateCcw size={16} />
+                                                    </button>
+                                                ) : (
+                                                    u.id !== currentUserId && (
+                                                        <button
+                                                            onClick={() => suspendUser(u)}
+                                                            disabled={busyId === u.id}
+                                                            className="p-2 rounded-lg text-slate-500 hover:bg-red-50 hover:text-red-600 disabled:opacity-50"
+                                                            title="Tạm ngưng tài khoản"
+                                                        >
+                                                            <Ban size={16} />
+                                                        </button>
+                                                    )
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {users.length === 0 && (
+                                    <tr>
+                                        <td colSpan={5} className="px-4 py-6 text-center text-slate-400">Không tìm thấy người dùng.</td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {!loading && tab === 'audit' && (
+                    <div className="bg-white rounded-xl border border-slate-200 overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-50 text-slate-500 text-left">
+                                <tr>
+                                    <th className="px-4 py-2 font-medium">Thời điểm</th>
+                                    <th className="px-4 py-2 font-medium">Người thực hiện</th>
+                                    <th className="px-4 py-2 font-medium">Thao tác</th>
+                                    <th className="px-4 py-2 font-medium">Đối tượng</th>
+                                    <th className="px-4 py-2 font-medium">IP</th>
+                                    <th className="px-4 py-2 font-medium">Chi tiết</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {auditEvents.map((e) => (
+                                    <tr key={e.id} className="border-t border-slate-100 align-top">
+                                        <td className="px-4 py-2 whitespace-nowrap text-slate-500">{formatDateTime(e.created_at)}</td>
+                                        <td className="px-4 py-2">
+                                            <p className="text-slate-900">{e.actor_name ?? 'Hệ thống'}</p>
+                                            {e.actor_email && <p className="text-slate-500">{e.actor_email}</p>}
+                                        </td>
+                                        <td className="px-4 py-2 text-slate-700">{AUDIT_ACTION_LABELS[e.action] ?? e.action}</td>
+                                        <td className="px-4 py-2 text-slate-500">
+                                            {e.target_type ? (
+                                                <span title={e.target_id ?? ''}>
+                                                    {CONTENT_TYPE_LABELS[e.target_type] ?? e.target_type}
+                                                    {e.target_id && <span className="font-mono"> {e.target_id.slice(0, 8)}</span>}
+                                                </span>
+                                            ) : (
+                                                '—'
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-2 font-mono text-slate-700">{e.ip ?? '—'}</td>
+                                        <td className="px-4 py-2 text-slate-500 max-w-[320px]">
+                                            {e.metadata ? (
+                                                <code className="text-xs break-all line-clamp-3" title={JSON.stringify(e.metadata)}>
+                                                    {JSON.stringify(e.metadata)}
+                                                </code>
+                                            ) : (
+                                                '—'
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                                {auditEvents.length === 0 && (
+                                    <tr>
+                                        <td colSpan={6} className="px-4 py-6 text-center text-slate-400">Không có sự kiện nào.</td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {!loading && tab === 'reports' && (
+                    <div className="space-y-4">
+                        {targets.map((t) => {
+                            const key = `${t.target_type}:${t.target_id}`;
+                            return (
+                                <div key={key} className="bg-white rounded-xl border border-slate-200 p-4">
+                                    <div className="flex flex-wrap items-start justify-between gap-4">
+                                        <div className="min-w-0 flex-1">
+                                            <div className="flex flex-wrap items-center gap-2 mb-1">
+                                                <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 text-xs">
+                                                    {CONTENT_TYPE_LABELS[t.target_type]}
+                                                </span>
+                                                <span className="px-2 py-0.5 rounded-full bg-red-50 text-red-700 text-xs flex items-center gap-1">
+                                                    <Flag size={12} />
+                                                    {t.report_count} báo cáo
+                                                </span>
+                                                {t.content?.hidden && (
+                                                    <span className="px-2 py-0.5 rounded-full bg-red-50 text-red-700 text-xs">Đã ẩn</span>
+                                                )}
+                                            </div>
+                                            {t.content ? (
+                                                <>
+                                                    <p className="text-slate-900 line-clamp-2">{t.content.title}</p>
+                                                    <p className="text-sm text-slate-500">
+                                                        {t.content.author_name ?? '—'} · {formatDateTime(t.content.created_at)}
+                                                    </p>
+                                                </>
+                                            ) : (
+                                                <p className="text-slate-400 italic">Nội dung đã bị xóa</p>
+                                            )}
+                                        </div>
+                                        <div className="flex flex-wrap gap-1">
+                                            {reportStatus === 'OPEN' && t.content && (
+                                                <>
+                                                    <button
+                                                        onClick={() => resolveReports(t, 'REMOVE')}
+                                                        disabled={busyId === t.target_id}
+                                                        className="px-3 py-1.5 rounded-lg bg-red-50 text-red-700 hover:bg-red-100 text-sm disabled:opacity-50"
+                                                    >
+                                                        Gỡ nội dung
+                                                    </button>
+                                                    <button
+                                                        onClick={() => resolveReports(t, 'RESOLVE')}
+                                                        disabled={busyId === t.target_id}
+                                                        className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200 text-sm disabled:opacity-50"
+                                                    >
+                                                        Đã xử lý
+                                                    </button>
+                                                    <button
+                                                        onClick={() => resolveReports(t, 'DISMISS')}
+                                                        disabled={busyId === t.target_id}
+                                                        className="px-3 py-1.5 rounded-lg bg-emerald-50 text-emerald-700 hover:bg-emerald-100 text-sm disabled:opacity-50"
+                                                    >
+                                                        Giữ lại
+                                                    </button>
+                                                </>
+                                            )}
+                                            <button
+                                                onClick={() => toggleHistory(t.target_type, t.target_id)}
+                                                className="p-2 rounded-lg text-slate-500 hover:bg-slate-100"
+                                                title="Lịch sử kiểm duyệt"
+                                            >
+                                                <History size={16} />
+                                            </button>
+                                        </div>
+                                    </div>
+
+                                    <ul className="mt-3 space-y-1 text-sm">
+                                        {t.reports.map((r) => (
+                                            <li key={r.id} className="text-slate-600">
+                                                <span className="font-medium text-slate-800">{REASON_LABELS[r.reason] ?? r.reason}</span>
+                                                {r.details && <span> — {r.details}</span>}
+                                                <span className="text-slate-400">
+                                                    {' '}· {r.reporter_name} ({r.reporter_email}) · {formatDateTime(r.created_at)}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+
+                                    {openHistory === key && (
+                                        <div className="mt-3 pt-3 border-t border-slate-100 text-sm">
+                                            {!history[key] && <Loader2 className="animate-spin text-slate-400" size={16} />}
+                                            {history[key]?.length === 0 && <p className="text-slate-400">Chưa có thao tác nào.</p>}
+                                            {history[key]?.map((a) => (
+                                                <p key={a.id} className="text-slate-600">
+                                                    <span className="text-slate-400">{formatDateTime(a.created_at)}</span>{' '}
+                                                    <span className="font-medium text-slate-800">{MODERATION_ACTION_LABELS[a.action] ?? a.action}</span>
+                                                    {' '}· {a.moderator_name ?? 'Hệ thống'}
+                                                    {a.note && <span> — {a.note}</span>}
+                                                </p>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                        {targets.length === 0 && (
+                            <div className="bg-white rounded-xl border border-slate-200 px-4 py-6 text-center text-sm text-slate-400">
+                                {reportStatus === 'OPEN' ? 'Không có báo cáo nào đang chờ xử lý.' : 'Chưa có báo cáo nào được xử lý.'}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {!loading && tab !== 'overview' && tab !== 'users' && tab !== 'reports' && (
+                    <div className="bg-white rounded-xl border border-slate-200 overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-50 text-slate-500 text-left">
+                                <tr>
+                                    <th className="px-4 py-2 font-medium">Nội dung</th>
+                                    <th className="px-4 py-2 font-medium">Người đăng</th>
+                                    <th className="px-4 py-2 font-medium">Trạng thái</th>
+                                    <th className="px-4 py-2 font-medium">Ngày tạo</th>
+                                    <th className="px-4 py-2 font-medium text-right">Thao tác</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {items.map((item) => (
+                                    <tr key={item.id} className={`border-t border-slate-100 ${item.hidden ? 'bg-slate-50' : ''}`}>
+                                        <td className="px-4 py-3 text-slate-900 max-w-[360px]">
+                                            <p className="line-clamp-2">{item.title}</p>
+                                        </td>
+                                        <td className="px-4 py-3 text-slate-600">{item.author_name ?? '—'}</td>
+                                        <td className="px-4 py-3">
+                                            <div className="flex flex-wrap gap-1">
+                                                {item.status && (
+                                                    <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 text-xs">{item.status}</span>
+                                                )}
+                                                {item.hidden && (
+                                                    <span className="px-2 py-0.5 rounded-full bg-red-50 text-red-700 text-xs">Đã ẩn</span>
+                                                )}
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-3 text-slate-500 whitespace-nowrap">{formatDateTime(item.created_at)}</td>
+                                        <td className="px-4 py-3">
+                                            <div className="flex justify-end">
+                                                <button
+                                                    onClick={() => setHidden(item, !item.hidden)}
+                                                    disabled={busyId === item.id}
+                                                    className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200 flex items-center gap-1 disabled:opacity-50"
+                                                >
+                                                    {item.hidden ? <Eye size={14} /> : <EyeOff size={14} />}
+                                                    {item.hidden ? 'Hiện lại' : 'Ẩn'}
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {items.length === 0 && (
+                                    <tr>
+                                        <td colSpan={5} className="px-4 py-6 text-center text-slate-400">Không có nội dung nào.</td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                <p className="mt-6 text-xs text-slate-400 flex items-center gap-1">
+                    {permissions.includes('users:manage') ? <ShieldCheck size={14} /> : <ShieldAlert size={14} />}
+                    {permissions.includes('users:manage')
+                        ? 'Bạn đang đăng nhập với quyền quản trị viên.'
+                        : 'Bạn đang đăng nhập với quyền kiểm duyệt nội dung.'}
+                </p>
+            </div>
+        </div>
+    );
+};
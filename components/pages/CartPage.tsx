@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Trash2,
   Plus,
@@ -7,28 +7,37 @@ import {
   ShoppingBag,
   CreditCard,
   MapPin,
-  Leaf
+  Leaf,
+  Loader2
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Product } from './MarketplacePage';
+import { getApiUrl } from '@/utils/api';
 import { CartItem } from '../../App';
+import type { Order } from './OrdersPage';
 
 interface CartPageProps {
   cartItems: CartItem[];
   onUpdateQuantity: (productId: string, delta: number) => void;
   onRemoveItem: (productId: string) => void;
   onNavigate: (route: any) => void;
+  onCheckoutComplete: (order: Order) => void;
 }
 
 export const CartPage: React.FC<CartPageProps> = ({
   cartItems,
   onUpdateQuantity,
   onRemoveItem,
-  onNavigate
+  onNavigate,
+  onCheckoutComplete
 }) => {
+  const [isCheckingOut, setIsCheckingOut] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [checkoutError, setCheckoutError] = useState<string | null>(null);
+  const [shipping, setShipping] = useState({ name: '', phone: '', address: '', note: '' });
 
+  // Estimate only: the server recomputes every amount from current product data at checkout.
   const subtotal = cartItems.reduce((sum, item) => sum + (item.product.price * item.quantity), 0);
-  const shippingFee = subtotal > 0 ? 50000 : 0; // Phí vận chuyển giả lập
+  const shippingFee = subtotal > 0 ? 50000 : 0;
   const total = subtotal + shippingFee;
   const totalCO2 = cartItems.reduce((sum, item) => sum + (item.product.co2_savings_kg * item.quantity), 0);
 
@@ -36,6 +45,36 @@ export const CartPage: React.FC<CartPageProps> = ({
     return new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(val);
   };
 
+  const handleCheckout = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (submitting) return;
+    setSubmitting(true);
+    setCheckoutError(null);
+
+    try {
+      const res = await fetch(getApiUrl('orders'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          shippingName: shipping.name,
+          shippingPhone: shipping.phone,
+          shippingAddress: shipping.address,
+          note: shipping.note || undefined,
+        }),
+      });
+      const data = (await res.json()) as any;
+      if (!res.ok) throw new Error(data?.error ?? 'Đặt hàng thất bại');
+
+      setIsCheckingOut(false);
+      setShipping({ name: '', phone: '', address: '', note: '' });
+      onCheckoutComplete(data.order as Order);
+    } catch (err: any) {
+      setCheckoutError(err?.message ?? 'Có lỗi xảy ra');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   if (cartItems.length === 0) {
     return (
       <div className="min-h-[80vh] flex flex-col items-center justify-center p-4">
@@ -118,6 +157,13 @@ export const CartPage: React.FC<CartPageProps> = ({
                     <div className="text-emerald-600 font-bold">
                       {formatCurrency(item.product.price)} <span className="text-xs font-normal text-slate-400">/ {item.product.unit}</span>
                     </div>
+                    <div className={`text-xs mt-1 ${item.quantity > item.product.stock_quantity || (item.product.status && item.product.status !== 'ACTIVE') ? 'text-red-500 font-medium' : 'text-slate-400'}`}>
+                      {item.product.status === 'DRAFT' || item.product.status === 'ARCHIVED'
+                        ? 'Sản phẩm đã ngừng bán'
+                        : item.product.stock_quantity > 0 && item.product.status !== 'SOLD_OUT'
+                          ? `Còn lại ${item.product.stock_quantity} ${item.product.unit}`
+                          : 'Hết hàng'}
+                    </div>
                   </div>
 
                   {/* Controls */}
@@ -128,14 +174,15 @@ export const CartPage: React.FC<CartPageProps> = ({
                       <button
                         onClick={() => onUpdateQuantity(item.product.id, -1)}
                         className="w-8 h-8 flex items-center justify-center rounded-full bg-white text-slate-600 shadow-sm hover:text-emerald-600 disabled:opacity-50"
-                        disabled={item.quantity <= 1}
+                        disabled={item.quantity <= (item.product.min_order_quantity || 1)}
                       >
                         <Minus size={14} />
                       </button>
                       <span className="w-10 text-center font-medium text-slate-900 text-sm">{item.quantity}</span>
                       <button
                         onClick={() => onUpdateQuantity(item.product.id, 1)}
-                        className="w-8 h-8 flex items-center justify-center rounded-full bg-white text-slate-600 shadow-sm hover:text-emerald-600"
+                        className="w-8 h-8 flex items-center justify-center rounded-full bg-white text-slate-600 shadow-sm hover:text-emerald-600 disabled:opacity-50"
+                        disabled={item.quantity >= item.product.stock_quantity}
                       >
                         <Plus size={14} />
                       </button>
@@ -189,13 +236,78 @@ export const CartPage: React.FC<CartPageProps> = ({
                 </div>
               </div>
 
-              <button className="w-full bg-slate-900 text-white py-3.5 rounded-xl font-medium hover:bg-emerald-600 transition-all shadow-lg hover:shadow-emerald-500/20 flex items-center justify-center gap-2">
-                <CreditCard size={18} />
-                Tiến hành thanh toán
-              </button>
+              {isCheckingOut ? (
+                <form onSubmit={handleCheckout} className="space-y-3">
+                  <h4 className="font-semibold text-slate-900 text-sm">Thông tin giao hàng</h4>
+                  <input
+                    required
+                    type="text"
+                    autoComplete="name"
+                    placeholder="Họ và tên người nhận"
+                    className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
+                    value={shipping.name}
+                    onChange={(e) => setShipping({ ...shipping, name: e.target.value })}
+                  />
+                  <input
+                    required
+                    type="tel"
+                    autoComplete="tel"
+                    placeholder="Số điện thoại"
+                    className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
+                    value={shipping.phone}
+                    onChange={(e) => setShipping({ ...shipping, phone: e.target.value })}
+                  />
+                  <textarea
+                    required
+                    rows={2}
+                    autoComplete="street-address"
+                    placeholder="Địa chỉ nhận hàng"
+                    className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
+                    value={shipping.address}
+                    onChange={(e) => setShipping({ ...shipping, address: e.target.value })}
+                  />
+                  <textarea
+                    rows={2}
+                    placeholder="Ghi chú cho người bán (không bắt buộc)"
+                    className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
+                    value={shipping.note}
+                    onChange={(e) => setShipping({ ...shipping, note: e.target.value })}
+                  />
+
+                  {checkoutError && (
+                    <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+                      {checkoutError}
+                    </div>
+                  )}
+
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="w-full bg-slate-900 text-white py-3.5 rounded-xl font-medium hover:bg-emerald-600 transition-all shadow-lg hover:shadow-emerald-500/20 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {submitting ? <Loader2 className="animate-spin" size={18} /> : <><CreditCard size={18} /> Đặt hàng</>}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => { setIsCheckingOut(false); setCheckoutError(null); }}
+                    disabled={submitting}
+                    className="w-full text-sm text-slate-500 hover:text-slate-700 py-1"
+                  >
+                    Quay lại giỏ hàng
+                  </button>
+                </form>
+              ) : (
+                <button
+                  onClick={() => setIsCheckingOut(true)}
+                  className="w-full bg-slate-900 text-white py-3.5 rounded-xl font-medium hover:bg-emerald-600 transition-all shadow-lg hover:shadow-emerald-500/20 flex items-center justify-center gap-2"
+                >
+                  <CreditCard size={18} />
+                  Tiến hành thanh toán
+                </button>
+              )}
 
               <p className="text-center text-xs text-slate-400 mt-4">
-                Bảo mật thanh toán bởi Stripe. Hỗ trợ hoàn tiền 100%.
+                Thanh toán khi nhận hàng (COD). Giá được chốt tại thời điểm đặt hàng.
               </p>
             </div>
           </div>
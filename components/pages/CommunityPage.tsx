@@ -8,18 +8,22 @@ import {
   Users,
   Image as ImageIcon,
   Send,
-  MoreHorizontal,
+  Flag,
   Clock,
   ThumbsUp,
-  CheckCircle2
+  CheckCircle2,
+  Trash2
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { getApiUrl } from '@/utils/api';
+import { useRealtime } from '@/utils/realtime';
+import ReportDialog from '@/components/ui/ReportDialog';
 
 // --- Types ---
 
 interface Post {
   id: string;
+  author_id: string;
   user_name: string;
   user_avatar?: string;
   content: string;
@@ -48,7 +52,7 @@ interface Event {
 // --- Component ---
 
 interface CommunityPageProps {
-  user: { id: string; name: string } | null;
+  user: { id: string; name: string; permissions?: string[] } | null;
   onLoginRequest: () => void;
 }
 
@@ -57,6 +61,7 @@ export const CommunityPage: React.FC<CommunityPageProps> = ({ user, onLoginReque
   const [posts, setPosts] = useState<Post[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
   const [newPostContent, setNewPostContent] = useState('');
+  const [reportingPostId, setReportingPostId] = useState<string | null>(null);
 
   const jsonHeaders = useMemo(() => ({ 'Content-Type': 'application/json' }), []);
 
@@ -79,6 +84,17 @@ export const CommunityPage: React.FC<CommunityPageProps> = ({ user, onLoginReque
     return () => controller.abort();
   }, [user?.id]);
 
+  // Live like and RSVP counts from other users (server counts win over optimistic ones)
+  useRealtime(['posts', 'events'], (event) => {
+    if (event.type === 'post.likes') {
+      setPosts(prev => prev.map(p => p.id === event.data.post_id ? { ...p, likes: event.data.likes } : p));
+    } else if (event.type === 'post.deleted') {
+      setPosts(prev => prev.filter(p => p.id !== event.data.post_id));
+    } else if (event.type === 'event.rsvp') {
+      setEvents(prev => prev.map(e => e.id === event.data.event_id ? { ...e, attendees: event.data.attendees } : e));
+    }
+  });
+
   // Actions
   const handleLike = (id: string) => {
     if (!user) { onLoginRequest(); return; }
@@ -96,6 +112,24 @@ export const CommunityPage: React.FC<CommunityPageProps> = ({ user, onLoginReque
     });
   };
 
+  // Authors can delete their own posts, moderators anyone's
+  const canDeletePost = (post: Post) =>
+    !!user && (post.author_id === user.id || !!user.permissions?.includes('content:delete_any'));
+
+  const handleDeletePost = async (id: string) => {
+    if (!window.confirm('Xóa bài viết này?')) return;
+    try {
+      const res = await fetch(getApiUrl(`posts/${id}`), { method: 'DELETE' });
+      if (!res.ok) {
+        const data = (await res.json().catch(() => null)) as any;
+        throw new Error(data?.error ?? 'Xóa bài viết thất bại');
+      }
+      setPosts(prev => prev.filter(p => p.id !== id));
+    } catch (e: any) {
+      alert(e?.message ?? 'Có lỗi xảy ra');
+    }
+  };
+
   const handleRSVP = (id: string) => {
     if (!user) { onLoginRequest(); return; }
     const target = events.find(e => e.id === id);
@@ -214,7 +248,13 @@ export const CommunityPage: React.FC<CommunityPageProps> = ({ user, onLoginReque
                 className="space-y-6"
               >
                 {posts.map(post => (
-                  <PostCard key={post.id} post={post} onLike={() => handleLike(post.id)} />
+                  <PostCard
+                    key={post.id}
+                    post={post}
+                    onLike={() => handleLike(post.id)}
+                    onDelete={canDeletePost(post) ? () => handleDeletePost(post.id) : undefined}
+                    onReport={post.author_id !== user?.id ? () => (user ? setReportingPostId(post.id) : onLoginRequest()) : undefined}
+                  />
                 ))}
               </motion.div>
             ) : (
@@ -275,13 +315,19 @@ export const CommunityPage: React.FC<CommunityPageProps> = ({ user, onLoginReque
 
         </div>
       </div>
+
+      <AnimatePresence>
+        {reportingPostId && (
+          <ReportDialog targetType="posts" targetId={reportingPostId} onClose={() => setReportingPostId(null)} />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
 
 // --- Sub-components ---
 
-const PostCard: React.FC<{ post: Post, onLike: () => void }> = ({ post, onLike }) => {
+const PostCard: React.FC<{ post: Post, onLike: () => void, onDelete?: () => void, onReport?: () => void }> = ({ post, onLike, onDelete, onReport }) => {
   return (
     <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
       <div className="p-4">
@@ -300,9 +346,18 @@ const PostCard: React.FC<{ post: Post, onLike: () => void }> = ({ post, onLike }
               </div>
             </div>
           </div>
-          <button className="text-slate-400 hover:text-slate-600" aria-label="Tùy chọn" title="Tùy chọn">
-            <MoreHorizontal size={20} />
-          </button>
+          <div className="flex items-center gap-2">
+            {onDelete && (
+              <button onClick={onDelete} className="text-slate-400 hover:text-red-500" aria-label="Xóa bài viết" title="Xóa bài viết">
+                <Trash2 size={18} />
+              </button>
+            )}
+            {onReport && (
+              <button onClick={onReport} className="text-slate-400 hover:text-red-500" aria-label="Báo cáo vi phạm" title="Báo cáo vi phạm">
+                <Flag size={18} />
+              </button>
+            )}
+          </div>
         </div>
 
         {/* Content */}
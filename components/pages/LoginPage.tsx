@@ -1,17 +1,30 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ChevronRight, Loader2, ShieldCheck, Timer, ArrowLeft } from 'lucide-react';
+import { ChevronRight, Fingerprint, Loader2, ShieldCheck, Timer, ArrowLeft } from 'lucide-react';
+import { browserSupportsWebAuthn, startAuthentication } from '@simplewebauthn/browser';
 import { getApiUrl } from '@/utils/api';
+import SocialLoginButtons from '@/components/ui/SocialLoginButtons';
 
 type LoginStep1Response = {
     totpRequired: boolean;
     challengeId?: string;
     expiresAt?: string;
-    user?: { id: string; email: string; name: string };
+    user?: { id: string; email: string; name: string; emailVerified?: boolean };
 };
 
 type VerifyResponse = {
-    user: { id: string; email: string; name: string };
+    user: { id: string; email: string; name: string; emailVerified?: boolean };
+    recoveryCodesRemaining?: number;
+};
+
+// ?oidcError=... from a failed social login (see backend/src/lib/oidc.ts)
+const OIDC_ERRORS: Record<string, string> = {
+    UNKNOWN_PROVIDER: 'Phương thức đăng nhập này không còn được hỗ trợ.',
+    INVALID_STATE: 'Phiên đăng nhập đã hết hạn. Vui lòng thử lại.',
+    CANCELLED: 'Bạn đã hủy đăng nhập.',
+    EMAIL_NOT_VERIFIED: 'Email của tài khoản này chưa được nhà cung cấp xác minh nên không dùng để đăng nhập được.',
+    PROVIDER_ERROR: 'Không đăng nhập được qua nhà cung cấp. Vui lòng thử lại sau.',
+    ACCOUNT_SUSPENDED: 'Tài khoản của bạn đã bị tạm ngưng. Vui lòng liên hệ quản trị viên.',
 };
 
 function formatSeconds(totalSeconds: number) {
@@ -22,8 +35,10 @@ function formatSeconds(totalSeconds: number) {
 
 export const LoginPage = ({
     onLoginSuccess,
+    onForgotPassword,
 }: {
-    onLoginSuccess: (args: { user: { id: string; email: string; name: string } }) => void;
+    onLoginSuccess: (args: { user: { id: string; email: string; name: string; emailVerified?: boolean } }) => void;
+    onForgotPassword?: () => void;
 }) => {
     const [step, setStep] = useState<1 | 2>(1);
     const [loading, setLoading] = useState(false);
@@ -35,6 +50,33 @@ export const LoginPage = ({
     const [challengeId, setChallengeId] = useState<string | null>(null);
     const [expiresAt, setExpiresAt] = useState<number | null>(null);
     const [code, setCode] = useState('');
+    // Lost phone: sign in with one of the recovery codes instead of a TOTP code
+    const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+    const [passkeySupported] = useState(() => browserSupportsWebAuthn());
+    const [passkeyLoading, setPasskeyLoading] = useState(false);
+
+    // Social login lands back here with a TOTP challenge or an error.
+    // There is no password to start a new challenge with in that case.
+    const [socialChallenge, setSocialChallenge] = useState(false);
+
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        const oidcError = params.get('oidcError');
+        const challenge = params.get('challenge');
+        const challengeExpiresAt = params.get('expiresAt');
+        if (!oidcError && !challenge) return;
+
+        if (oidcError) {
+            setError(OIDC_ERRORS[oidcError] ?? OIDC_ERRORS.PROVIDER_ERROR);
+        } else if (challenge && challengeExpiresAt) {
+            setChallengeId(challenge);
+            setExpiresAt(new Date(challengeExpiresAt).getTime());
+            setSocialChallenge(true);
+            setStep(2);
+        }
+        window.history.replaceState(window.history.state, '', window.location.pathname);
+    }, []);
 
     const secondsLeft = useMemo(() => {
         if (!expiresAt) return 0;
@@ -101,6 +143,12 @@ export const LoginPage = ({
             if (!res.ok) throw new Error(data?.error ?? 'Mã xác thực không hợp lệ');
 
             const parsed = data as VerifyResponse;
+            if (typeof parsed.recoveryCodesRemaining === 'number') {
+                alert(
+                    `Bạn đã dùng một mã khôi phục, còn lại ${parsed.recoveryCodesRemaining} mã. ` +
+                        'Hãy tạo bộ mã mới trong Hồ sơ > Đổi mật khẩu nếu sắp hết.',
+                );
+            }
             onLoginSuccess({ user: parsed.user });
         } catch (e: any) {
             setError(e?.message ?? 'Có lỗi xảy ra');
@@ -109,6 +157,41 @@ export const LoginPage = ({
         }
     };
 
+    // Passkey sign-in skips both the password and the TOTP step.
+    const loginWithPasskey = async () => {
+        setPasskeyLoading(true);
+        setError(null);
+
+        try {
+            const optionsRes = await fetch(getApiUrl('auth/passkeys/login/options'), { method: 'POST' });
+            const optionsData = (await optionsRes.json()) as any;
+            if (!optionsRes.ok) throw new Error(optionsData?.error ?? 'Không bắt đầu được đăng nhập bằng passkey');
+
+            let response;
+            try {
+                response = await startAuthentication({ optionsJSON: optionsData.options });
+            } catch (e: any) {
+                // The user closed the browser dialog
+                if (e?.name === 'NotAllowedError') return;
+                throw e;
+            }
+
+            const res = await fetch(getApiUrl('auth/passkeys/login/verify'), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ challengeId: optionsData.challengeId, response }),
+            });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Đăng nhập bằng passkey thất bại');
+
+            onLoginSuccess({ user: (data as VerifyResponse).user });
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setPasskeyLoading(false);
+        }
+    };
+
     const expired = step === 2 && secondsLeft <= 0;
 
     return (
@@ -169,7 +252,18 @@ export const LoginPage = ({
                                     </div>
 
                                     <div>
-                                        <label className="block text-sm font-medium text-slate-700 mb-1">Mật khẩu</label>
+                                        <div className="flex items-center justify-between mb-1">
+                                            <label className="block text-sm font-medium text-slate-700">Mật khẩu</label>
+                                            {onForgotPassword && (
+                                                <button
+                                                    type="button"
+                                                    onClick={onForgotPassword}
+                                                    className="text-xs font-medium text-emerald-600 hover:text-emerald-700"
+                                                >
+                                                    Quên mật khẩu?
+                                                </button>
+                                            )}
+                                        </div>
                                         <input
                                             required
                                             type="password"
@@ -192,6 +286,26 @@ export const LoginPage = ({
                                     <div className="text-xs text-slate-500 leading-relaxed">
                                         Sau bước này, hệ thống tạo một phiên xác thực TOTP có thời hạn <b>2 phút</b>.
                                     </div>
+
+                                    {passkeySupported && (
+                                        <>
+                                            <div className="flex items-center gap-3 text-xs text-slate-400">
+                                                <div className="flex-1 h-px bg-slate-200" />
+                                                hoặc
+                                                <div className="flex-1 h-px bg-slate-200" />
+                                            </div>
+                                            <button
+                                                type="button"
+                                                onClick={loginWithPasskey}
+                                                disabled={loading || passkeyLoading}
+                                                className="w-full px-4 py-2.5 rounded-lg border border-slate-200 text-slate-700 font-medium hover:border-emerald-400 hover:text-emerald-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                                            >
+                                                {passkeyLoading ? <Loader2 className="animate-spin" size={20} /> : (<><Fingerprint size={18} /><span>Đăng nhập bằng passkey</span></>)}
+                                            </button>
+                                        </>
+                                    )}
+
+                                    <SocialLoginButtons showDivider={!passkeySupported} />
                                 </motion.div>
                             ) : (
                                 <motion.div
@@ -210,16 +324,40 @@ export const LoginPage = ({
                                     </div>
 
                                     <div>
-                                        <label className="block text-sm font-medium text-slate-700 mb-1">Mã TOTP</label>
-                                        <input
-                                            required
-                                            inputMode="numeric"
-                                            autoComplete="one-time-code"
-                                            className="w-full tracking-[0.25em] text-center text-lg px-4 py-3 rounded-lg border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
-                                            placeholder="••••••"
-                                            value={code}
-                                            onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 8))}
-                                        />
+                                        <label className="block text-sm font-medium text-slate-700 mb-1">
+                                            {useRecoveryCode ? 'Mã khôi phục' : 'Mã TOTP'}
+                                        </label>
+                                        {useRecoveryCode ? (
+                                            <input
+                                                required
+                                                autoComplete="off"
+                                                className="w-full tracking-[0.15em] text-center text-lg font-mono uppercase px-4 py-3 rounded-lg border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                                                placeholder="XXXXX-XXXXX"
+                                                value={code}
+                                                onChange={(e) => setCode(e.target.value.replace(/[^a-zA-Z0-9-]/g, '').slice(0, 11))}
+                                            />
+                                        ) : (
+                                            <input
+                                                required
+                                                inputMode="numeric"
+                                                autoComplete="one-time-code"
+                                                className="w-full tracking-[0.25em] text-center text-lg px-4 py-3 rounded-lg border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                                                placeholder="••••••"
+                                                value={code}
+                                                onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                                            />
+                                        )}
+                                        <button
+                                            type="button"
+                                            onClick={() => {
+                                                setUseRecoveryCode((v) => !v);
+                                                setCode('');
+                                                setError(null);
+                                            }}
+                                            className="mt-2 text-xs font-medium text-emerald-600 hover:text-emerald-700"
+                                        >
+                                            {useRecoveryCode ? 'Dùng mã từ ứng dụng Authenticator' : 'Mất điện thoại? Dùng mã khôi phục'}
+                                        </button>
                                         {expired && (
                                             <div className="mt-2 text-sm text-red-600">
                                                 Phiên xác thực đã hết hạn. Vui lòng tạo phiên mới.
@@ -232,6 +370,7 @@ export const LoginPage = ({
                                             type="button"
                                             onClick={() => {
                                                 setStep(1);
+                                                setSocialChallenge(false);
                                                 setChallengeId(null);
                                                 setExpiresAt(null);
                                                 setCode('');
@@ -244,14 +383,16 @@ export const LoginPage = ({
                                             Quay lại
                                         </button>
 
-                                        <button
-                                            type="button"
-                                            onClick={() => startLoginChallenge()}
-                                            className="flex-1 px-4 py-2.5 rounded-lg border border-slate-200 text-slate-700 font-medium hover:border-emerald-400 hover:text-emerald-700 transition-colors"
-                                            disabled={loading}
-                                        >
-                                            Tạo phiên mới
-                                        </button>
+                                        {!socialChallenge && (
+                                            <button
+                                                type="button"
+                                                onClick={() => startLoginChallenge()}
+                                                className="flex-1 px-4 py-2.5 rounded-lg border border-slate-200 text-slate-700 font-medium hover:border-emerald-400 hover:text-emerald-700 transition-colors"
+                                                disabled={loading}
+                                            >
+                                                Tạo phiên mới
+                                            </button>
+                                        )}
                                     </div>
 
                                     <button
@@ -15,15 +15,23 @@ import {
   ChevronLeft,
   ChevronRight,
   Search,
-  Building2
+  Building2,
+  Flag,
+  Eye,
+  History
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { getApiUrl } from '@/utils/api';
+import { useRealtime } from '@/utils/realtime';
+import ReportDialog from '@/components/ui/ReportDialog';
+import ImageUploader, { type ProductImage } from '@/components/ui/ImageUploader';
+import OptimizedImage from '@/components/ui/OptimizedImage';
 
 // --- Types & Constants ---
 
 type PollutionType = 'WASTE' | 'WATER' | 'AIR' | 'OTHER';
 type Severity = 1 | 2 | 3 | 4 | 5;
+type PollutionStatus = 'NEW' | 'VERIFIED' | 'IN_PROGRESS' | 'RESOLVED' | 'REJECTED';
 
 interface PollutionMarker {
   id: string;
@@ -36,6 +44,39 @@ interface PollutionMarker {
   description: string;
   createdAt: string; // Fixed: Matches Prisma default
   is_anonymous: boolean;
+  status: PollutionStatus;
+  next_statuses: PollutionStatus[];
+  confirmations: number;
+  confirmed_by_me: boolean;
+  photos: PollutionPhoto[];
+}
+
+// Photo evidence as shown on a marker; the exact photo location stays on the server
+interface PollutionPhoto extends ProductImage {
+  taken_at: string | null;
+  distance_m: number | null;
+  far_from_marker: boolean;
+}
+
+// A photo just uploaded for the add form; only its uploader sees the location
+interface UploadedPhoto extends ProductImage {
+  taken_at: string | null;
+  location: { lat: number; lng: number } | null;
+}
+
+const MAX_PHOTOS_PER_REPORT = 6;
+// Same threshold as PHOTO_LOCATION_WARNING_M in backend/src/lib/images.ts
+const PHOTO_LOCATION_WARNING_M = 1000;
+
+const formatDistance = (m: number) => (m >= 1000 ? `${(m / 1000).toFixed(1)} km` : `${Math.round(m)} m`);
+
+interface StatusChange {
+  id: string;
+  from_status: PollutionStatus;
+  to_status: PollutionStatus;
+  note: string | null;
+  changed_by_name: string | null;
+  created_at: string;
 }
 
 // --- POI Types & Categories ---
@@ -121,6 +162,63 @@ const POLLUTION_TYPES: Record<PollutionType, { label: string, icon: string, colo
   },
 };
 
+// Closed reports get a grey pin; every status but NEW gets a small badge on the pin.
+const POLLUTION_STATUSES: Record<PollutionStatus, { label: string; color: string; badgeClass: string; icon: string; closed: boolean }> = {
+  NEW: {
+    label: 'Mới',
+    color: '#64748b',
+    badgeClass: 'bg-slate-100 text-slate-700',
+    icon: '',
+    closed: false
+  },
+  VERIFIED: {
+    label: 'Đã xác minh',
+    color: '#0ea5e9',
+    badgeClass: 'bg-sky-100 text-sky-700',
+    icon: `<svg width="8" height="8" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="4"><polyline points="20 6 9 17 4 12"></polyline></svg>`,
+    closed: false
+  },
+  IN_PROGRESS: {
+    label: 'Đang xử lý',
+    color: '#f59e0b',
+    badgeClass: 'bg-amber-100 text-amber-700',
+    icon: `<svg width="8" height="8" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="4"><circle cx="12" cy="12" r="9"></circle><polyline points="12 7 12 12 15 14"></polyline></svg>`,
+    closed: false
+  },
+  RESOLVED: {
+    label: 'Đã giải quyết',
+    color: '#10b981',
+    badgeClass: 'bg-emerald-100 text-emerald-700',
+    icon: `<svg width="8" height="8" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="4"><polyline points="20 6 9 17 4 12"></polyline></svg>`,
+    closed: true
+  },
+  REJECTED: {
+    label: 'Bị từ chối',
+    color: '#94a3b8',
+    badgeClass: 'bg-slate-200 text-slate-500',
+    icon: `<svg width="8" height="8" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="4"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>`,
+    closed: true
+  },
+};
+
+// Map filter: everything, the statuses still being worked on, or one status.
+type StatusFilter = 'ALL' | 'OPEN' | PollutionStatus;
+const STATUS_FILTER_QUERY: Record<StatusFilter, string> = {
+  ALL: '',
+  OPEN: 'NEW,VERIFIED,IN_PROGRESS',
+  NEW: 'NEW',
+  VERIFIED: 'VERIFIED',
+  IN_PROGRESS: 'IN_PROGRESS',
+  RESOLVED: 'RESOLVED',
+  REJECTED: 'REJECTED',
+};
+
+const markersUrl = (filter: StatusFilter) =>
+  getApiUrl(STATUS_FILTER_QUERY[filter] ? `pollution?status=${STATUS_FILTER_QUERY[filter]}` : 'pollution');
+
+const matchesFilter = (marker: PollutionMarker, filter: StatusFilter) =>
+  filter === 'ALL' || STATUS_FILTER_QUERY[filter].split(',').includes(marker.status);
+
 const SEVERITY_COLORS: Record<Severity, string> = {
   1: '#10b981', // Green
   2: '#84cc16', // Lime
@@ -138,7 +236,7 @@ const SEVERITY_THEME: Record<Severity, { textClass: string; bgClass: string; wid
 };
 
 interface MapPageProps {
-  user: { id: string; name: string } | null;
+  user: { id: string; name: string; permissions?: string[] } | null;
   onLoginRequest: () => void;
 }
 
@@ -161,6 +259,13 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
   const [addingMode, setAddingMode] = useState(false);
   const [tempMarkerPos, setTempMarkerPos] = useState<{ lat: number, lng: number } | null>(null);
   const [selectedMarker, setSelectedMarker] = useState<PollutionMarker | null>(null);
+  const [reportingMarkerId, setReportingMarkerId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('ALL');
+  const [statusHistory, setStatusHistory] = useState<StatusChange[] | null>(null);
+  const [statusForm, setStatusForm] = useState<{ status: PollutionStatus | ''; note: string }>({ status: '', note: '' });
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [photos, setPhotos] = useState<UploadedPhoto[]>([]);
+  const [activePhoto, setActivePhoto] = useState(0);
   const [mapStyle, setMapStyle] = useState<'streets' | 'satellite'>('streets');
   const [isFlying, setIsFlying] = useState(false);
   const [flyDuration, setFlyDuration] = useState(1);
@@ -190,25 +295,48 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
   const [isSearching, setIsSearching] = useState(false);
   const [showResults, setShowResults] = useState(false);
 
-  // Real-time Polling
-  useEffect(() => {
-    const interval = setInterval(() => {
-      fetch(getApiUrl('pollution'))
-        .then(r => r.json())
-        .then(data => {
-          if (Array.isArray(data?.markers)) {
-            setMarkers(prev => {
-              // Simple JSON stringify comparison to avoid flicker
-              if (JSON.stringify(prev) === JSON.stringify(data.markers)) return prev;
-              return data.markers;
-            });
-          }
-        })
-        .catch(console.error);
-    }, 15000); // 15 seconds
+  // Real-time updates: new and removed reports arrive over the realtime stream
+  const refetchMarkers = () => {
+    fetch(markersUrl(statusFilter))
+      .then(r => r.json())
+      .then(data => {
+        if (Array.isArray(data?.markers)) {
+          setMarkers(prev => {
+            // Simple JSON stringify comparison to avoid flicker
+            if (JSON.stringify(prev) === JSON.stringify(data.markers)) return prev;
+            return data.markers;
+          });
+        }
+      })
+      .catch(console.error);
+  };
 
-    return () => clearInterval(interval);
-  }, []);
+  // Apply a change to a marker in the list and in the side panel.
+  const patchMarker = (id: string, patch: (m: PollutionMarker) => PollutionMarker) => {
+    setMarkers(prev => prev.map(m => (m.id === id ? patch(m) : m)));
+    setSelectedMarker(prev => (prev?.id === id ? patch(prev) : prev));
+  };
+
+  useRealtime(['pollution'], (event) => {
+    if (event.type === 'pollution.created') {
+      const marker = event.data.marker as PollutionMarker;
+      if (!matchesFilter(marker, statusFilter)) return;
+      setMarkers(prev => (prev.some(m => m.id === marker.id) ? prev : [marker, ...prev]));
+    } else if (event.type === 'pollution.deleted') {
+      setMarkers(prev => prev.filter(m => m.id !== event.data.id));
+    } else if (event.type === 'pollution.updated') {
+      // confirmed_by_me in the event is not about us; keep our own value
+      const marker = event.data.marker as PollutionMarker;
+      if (!matchesFilter(marker, statusFilter)) {
+        setMarkers(prev => prev.filter(m => m.id !== marker.id));
+        return;
+      }
+      patchMarker(marker.id, m => ({ ...marker, confirmed_by_me: m.confirmed_by_me }));
+      if (marker.id === selectedMarker?.id) setStatusHistory(null);
+    } else if (event.type === 'pollution.confirmations') {
+      patchMarker(event.data.id, m => ({ ...m, confirmations: event.data.confirmations }));
+    }
+  }, { onReconnect: refetchMarkers });
 
   // --- Highlight target marker with ring pulse ---
   const highlightMarker = useCallback((lat: number, lng: number) => {
@@ -352,7 +480,7 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
   useEffect(() => {
     const controller = new AbortController();
 
-    fetch(getApiUrl('pollution'), { signal: controller.signal })
+    fetch(markersUrl(statusFilter), { signal: controller.signal })
       .then(async (r) => {
         if (!r.ok) throw new Error(`HTTP ${r.status}`);
         return (await r.json()) as any;
@@ -361,11 +489,31 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
         if (Array.isArray(data?.markers)) setMarkers(data.markers);
       })
       .catch(() => {
-        setMarkers([]);
+        if (!controller.signal.aborted) setMarkers([]);
       });
 
     return () => controller.abort();
-  }, []);
+  }, [statusFilter]);
+
+  // Status history of the open report, reloaded after each change
+  const selectedMarkerId = selectedMarker?.id;
+  useEffect(() => {
+    setStatusHistory(null);
+    setStatusForm({ status: '', note: '' });
+    setActivePhoto(0);
+  }, [selectedMarkerId]);
+
+  useEffect(() => {
+    if (!selectedMarkerId || statusHistory) return;
+    const controller = new AbortController();
+
+    fetch(getApiUrl(`pollution/${selectedMarkerId}/history`), { signal: controller.signal })
+      .then(r => r.json())
+      .then((data: any) => setStatusHistory(Array.isArray(data?.history) ? data.history : []))
+      .catch(() => { });
+
+    return () => controller.abort();
+  }, [selectedMarkerId, statusHistory]);
 
   // --- Map Initialization ---
   useEffect(() => {
@@ -718,16 +866,22 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
     markers.forEach((marker, index) => {
       // Stagger delay for appear animation
       const staggerDelay = Math.min(index * 15, 300); // max 300ms total stagger
+      const status = POLLUTION_STATUSES[marker.status] ?? POLLUTION_STATUSES.NEW;
+      const pinColor = status.closed ? '#94a3b8' : SEVERITY_COLORS[marker.severity];
+      const statusBadge = status.icon
+        ? `<div style="position: absolute; top: -4px; right: -4px; width: 14px; height: 14px; border-radius: 50%; background-color: ${status.color}; border: 2px solid white; color: white; display: flex; align-items: center; justify-content: center;">${status.icon}</div>`
+        : '';
 
       // Create Custom DivIcon with appear animation
       const iconHtml = `
-        <div class="marker-interactive" style="position: relative; width: 32px; height: 32px; display: flex; align-items: center; justify-content: center; animation: marker-appear 0.5s cubic-bezier(0.34, 1.56, 0.64, 1) ${staggerDelay}ms both;">
-           ${marker.severity >= 4 ? `<div style="position: absolute; inset: 0; background-color: ${SEVERITY_COLORS[marker.severity]}; border-radius: 50%; opacity: 0.4; animation: ping 1.5s cubic-bezier(0, 0, 0.2, 1) infinite;"></div>` : ''}
-           <div class="marker-pin" style="background-color: ${SEVERITY_COLORS[marker.severity]}; width: 28px; height: 28px; border-radius: 50% 50% 50% 0; transform: rotate(-45deg); border: 2px solid white; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06); display: flex; align-items: center; justify-content: center;">
+        <div class="marker-interactive" style="position: relative; width: 32px; height: 32px; display: flex; align-items: center; justify-content: center; opacity: ${marker.status === 'REJECTED' ? 0.55 : 1}; animation: marker-appear 0.5s cubic-bezier(0.34, 1.56, 0.64, 1) ${staggerDelay}ms both;">
+           ${marker.severity >= 4 && !status.closed ? `<div style="position: absolute; inset: 0; background-color: ${SEVERITY_COLORS[marker.severity]}; border-radius: 50%; opacity: 0.4; animation: ping 1.5s cubic-bezier(0, 0, 0.2, 1) infinite;"></div>` : ''}
+           <div class="marker-pin" style="background-color: ${pinColor}; width: 28px; height: 28px; border-radius: 50% 50% 50% 0; transform: rotate(-45deg); border: 2px solid white; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06); display: flex; align-items: center; justify-content: center;">
                <div style="transform: rotate(45deg); color: white; display: flex;">
                   ${POLLUTION_TYPES[marker.type].icon}
                </div>
             </div>
+           ${statusBadge}
         </div>
       `;
 
@@ -792,15 +946,18 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
           severity: formData.severity,
           description: formData.description,
           is_anonymous: formData.is_anonymous,
+          photo_ids: photos.map(p => p.id),
         }),
       });
       const data = (await res.json()) as any;
       if (!res.ok) throw new Error(data?.error ?? 'Không tạo được báo cáo');
 
-      setMarkers((prev) => [...prev, data.marker as PollutionMarker]);
+      // The realtime event for our own report may have arrived first
+      setMarkers((prev) => (prev.some(m => m.id === data.marker.id) ? prev : [...prev, data.marker as PollutionMarker]));
       setAddingMode(false);
       setTempMarkerPos(null);
       setFormData({ type: 'WASTE', severity: 3, description: '', is_anonymous: false });
+      setPhotos([]);
     } catch (e: any) {
       alert(e?.message ?? 'Có lỗi xảy ra');
     }
@@ -825,6 +982,49 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
     }
   };
 
+  const handleToggleConfirm = async (marker: PollutionMarker) => {
+    if (!user) { onLoginRequest(); return; }
+    const confirmed = !marker.confirmed_by_me;
+    // Optimistic; the realtime count event settles the number
+    patchMarker(marker.id, m => ({ ...m, confirmed_by_me: confirmed, confirmations: m.confirmations + (confirmed ? 1 : -1) }));
+
+    try {
+      const res = await fetch(getApiUrl(`pollution/${marker.id}/confirm`), { method: confirmed ? 'POST' : 'DELETE' });
+      if (!res.ok && res.status !== 204) {
+        const data = (await res.json()) as any;
+        throw new Error(data?.error ?? 'Không thực hiện được');
+      }
+    } catch (e: any) {
+      patchMarker(marker.id, m => ({ ...m, confirmed_by_me: !confirmed, confirmations: m.confirmations + (confirmed ? -1 : 1) }));
+      alert(e?.message ?? 'Có lỗi xảy ra');
+    }
+  };
+
+  const handleUpdateStatus = async (id: string) => {
+    if (!statusForm.status) return;
+    setIsUpdatingStatus(true);
+    try {
+      const res = await fetch(getApiUrl(`pollution/${id}/status`), {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: statusForm.status, note: statusForm.note.trim() || undefined }),
+      });
+      const data = (await res.json()) as any;
+      if (!res.ok) throw new Error(data?.error ?? 'Không cập nhật được trạng thái');
+
+      const marker = data.marker as PollutionMarker;
+      if (matchesFilter(marker, statusFilter)) patchMarker(id, () => marker);
+      else setMarkers(prev => prev.filter(m => m.id !== id));
+      setSelectedMarker(prev => (prev?.id === id ? marker : prev));
+      setStatusForm({ status: '', note: '' });
+      setStatusHistory(null);
+    } catch (e: any) {
+      alert(e?.message ?? 'Có lỗi xảy ra');
+    } finally {
+      setIsUpdatingStatus(false);
+    }
+  };
+
   const manualLocate = () => {
     // Re-trigger location check
     if (mapRef.current) {
@@ -1097,6 +1297,21 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
                 <div className="flex-1 bg-orange-500" />
                 <div className="flex-1 bg-red-500" />
               </div>
+              <label htmlFor="pollution-status-filter" className="block text-xs font-semibold text-slate-400 uppercase tracking-wider pt-2">
+                Trạng thái
+              </label>
+              <select
+                id="pollution-status-filter"
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                className="w-full bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-sm text-slate-700 outline-none focus:border-emerald-500"
+              >
+                <option value="ALL">Tất cả</option>
+                <option value="OPEN">Chưa giải quyết</option>
+                {(Object.keys(POLLUTION_STATUSES) as PollutionStatus[]).map((s) => (
+                  <option key={s} value={s}>{POLLUTION_STATUSES[s].label}</option>
+                ))}
+              </select>
             </div>
           </div>
         </div>
@@ -1151,7 +1366,7 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
             <div className="p-4 bg-slate-50 border-b border-slate-100 flex justify-between items-center sticky top-0 z-10">
               <h3 className="font-bold text-slate-900">Chi tiết báo cáo</h3>
               <button
-                onClick={() => { setAddingMode(false); setTempMarkerPos(null); }}
+                onClick={() => { setAddingMode(false); setTempMarkerPos(null); setPhotos([]); }}
                 className="text-slate-400 hover:text-slate-900"
                 aria-label="Đóng"
                 title="Đóng"
@@ -1210,6 +1425,29 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
                 />
               </div>
 
+              {/* Photos */}
+              <div>
+                <span className="block text-xs font-semibold text-slate-500 mb-2 uppercase">Ảnh hiện trường</span>
+                <ImageUploader
+                  images={photos}
+                  onChange={setPhotos}
+                  max={MAX_PHOTOS_PER_REPORT}
+                  endpoint="uploads/pollution-photos"
+                  showCover={false}
+                />
+                {photos.map((photo, index) => {
+                  if (!photo.location || !tempMarkerPos) return null;
+                  const distance = L.latLng(photo.location).distanceTo(tempMarkerPos);
+                  if (distance <= PHOTO_LOCATION_WARNING_M) return null;
+                  return (
+                    <p key={photo.id} className="mt-2 text-xs text-amber-700 flex items-start gap-1">
+                      <AlertTriangle size={14} className="shrink-0 mt-px" />
+                      Ảnh {index + 1} được chụp cách vị trí đã chọn khoảng {formatDistance(distance)}. Hãy kiểm tra lại vị trí.
+                    </p>
+                  );
+                })}
+              </div>
+
               {/* Anonymous */}
               <div className="flex items-center gap-2">
                 <input
@@ -1249,9 +1487,14 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
                 </div>
                 <div>
                   <h3 className="font-bold text-slate-900">{POLLUTION_TYPES[selectedMarker.type].label}</h3>
-                  <span className="text-xs text-slate-500">
-                    {selectedMarker.createdAt ? new Date(selectedMarker.createdAt).toLocaleDateString('vi-VN') : 'N/A'}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-slate-500">
+                      {selectedMarker.createdAt ? new Date(selectedMarker.createdAt).toLocaleDateString('vi-VN') : 'N/A'}
+                    </span>
+                    <span className={`text-[11px] px-2 py-0.5 rounded-full font-medium ${(POLLUTION_STATUSES[selectedMarker.status] ?? POLLUTION_STATUSES.NEW).badgeClass}`}>
+                      {(POLLUTION_STATUSES[selectedMarker.status] ?? POLLUTION_STATUSES.NEW).label}
+                    </span>
+                  </div>
                 </div>
               </div>
               <button
@@ -1275,12 +1518,122 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
                   <span className={`text-sm font-bold ${SEVERITY_THEME[selectedMarker.severity].textClass}`}>Lvl {selectedMarker.severity}</span>
                 </div>
               </div>
+              {selectedMarker.photos?.length > 0 && (() => {
+                const photo = selectedMarker.photos[Math.min(activePhoto, selectedMarker.photos.length - 1)];
+                return (
+                  <div className="mb-6">
+                    <a href={photo.url} target="_blank" rel="noopener noreferrer" className="block rounded-xl overflow-hidden bg-slate-100">
+                      <OptimizedImage
+                        key={photo.id}
+                        src={photo.url}
+                        sources={photo.variants}
+                        sizes="384px"
+                        alt="Ảnh hiện trường"
+                        className="w-full max-h-64 object-cover"
+                      />
+                    </a>
+                    <div className="mt-2 text-xs text-slate-500 space-y-1">
+                      {photo.taken_at && <p>Chụp lúc {new Date(photo.taken_at).toLocaleString('vi-VN')}</p>}
+                      {photo.far_from_marker && photo.distance_m !== null && (
+                        <p className="text-amber-700 flex items-center gap-1">
+                          <AlertTriangle size={12} />
+                          Ảnh được chụp cách điểm đánh dấu khoảng {formatDistance(photo.distance_m)}
+                        </p>
+                      )}
+                    </div>
+                    {selectedMarker.photos.length > 1 && (
+                      <div className="flex gap-2 mt-2 overflow-x-auto">
+                        {selectedMarker.photos.map((p, index) => (
+                          <button
+                            key={p.id}
+                            onClick={() => setActivePhoto(index)}
+                            className={`w-14 h-14 shrink-0 rounded-lg overflow-hidden border-2 transition-colors ${p.id === photo.id ? 'border-emerald-500' : 'border-transparent hover:border-slate-300'}`}
+                            aria-label={`Ảnh ${index + 1}`}
+                            title={`Ảnh ${index + 1}`}
+                          >
+                            <OptimizedImage src={p.url} sources={p.variants} sizes="56px" alt="" className="w-full h-full object-cover" />
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })()}
               <div className="mb-6">
                 <h4 className="text-sm font-semibold text-slate-900 mb-2">Chi tiết</h4>
                 <p className="text-slate-600 text-sm leading-relaxed bg-slate-50 p-3 rounded-lg border border-slate-100">
                   {selectedMarker.description || "Không có mô tả."}
                 </p>
               </div>
+              <div className="mb-6 flex items-center justify-between gap-3">
+                <span className="text-sm text-slate-600">
+                  <span className="font-semibold text-slate-900">{selectedMarker.confirmations}</span> người cũng thấy
+                </span>
+                {user?.id !== selectedMarker.owner_id && !POLLUTION_STATUSES[selectedMarker.status]?.closed && (
+                  <button
+                    onClick={() => handleToggleConfirm(selectedMarker)}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${selectedMarker.confirmed_by_me
+                      ? 'bg-emerald-50 border-emerald-200 text-emerald-700'
+                      : 'bg-white border-slate-200 text-slate-600 hover:border-emerald-300 hover:text-emerald-700'
+                      }`}
+                  >
+                    <Eye size={16} />
+                    Tôi cũng thấy
+                  </button>
+                )}
+              </div>
+              {user?.permissions?.includes('pollution:update_status') && selectedMarker.next_statuses.length > 0 && (
+                <div className="mb-6">
+                  <h4 className="text-sm font-semibold text-slate-900 mb-2">Cập nhật trạng thái</h4>
+                  <div className="space-y-2">
+                    <select
+                      value={statusForm.status}
+                      onChange={(e) => setStatusForm(f => ({ ...f, status: e.target.value as PollutionStatus }))}
+                      className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-emerald-500"
+                    >
+                      <option value="">Chọn trạng thái mới…</option>
+                      {selectedMarker.next_statuses.map((s) => (
+                        <option key={s} value={s}>{POLLUTION_STATUSES[s].label}</option>
+                      ))}
+                    </select>
+                    <textarea
+                      value={statusForm.note}
+                      onChange={(e) => setStatusForm(f => ({ ...f, note: e.target.value }))}
+                      maxLength={1000}
+                      rows={2}
+                      placeholder="Ghi chú (không bắt buộc), ví dụ: đã liên hệ đơn vị thu gom"
+                      className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-emerald-500 resize-none"
+                    />
+                    <button
+                      onClick={() => handleUpdateStatus(selectedMarker.id)}
+                      disabled={!statusForm.status || isUpdatingStatus}
+                      className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-slate-900 text-white text-sm font-medium hover:bg-emerald-600 transition-colors disabled:opacity-50"
+                    >
+                      {isUpdatingStatus && <Loader2 size={16} className="animate-spin" />}
+                      Cập nhật
+                    </button>
+                  </div>
+                </div>
+              )}
+              {statusHistory && statusHistory.length > 0 && (
+                <div className="mb-6">
+                  <h4 className="text-sm font-semibold text-slate-900 mb-2 flex items-center gap-2">
+                    <History size={16} className="text-slate-400" />
+                    Tiến trình xử lý
+                  </h4>
+                  <ol className="space-y-3 border-l-2 border-slate-100 pl-4">
+                    {statusHistory.map((c) => (
+                      <li key={c.id} className="text-sm">
+                        <p className="font-medium text-slate-800">{POLLUTION_STATUSES[c.to_status]?.label ?? c.to_status}</p>
+                        <p className="text-xs text-slate-400">
+                          {new Date(c.created_at).toLocaleString('vi-VN')} · {c.changed_by_name ?? 'Cộng đồng xác nhận'}
+                        </p>
+                        {c.note && <p className="text-slate-600 mt-1">{c.note}</p>}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
               <div className="flex items-center gap-3 py-4 border-t border-slate-100">
                 <div className="w-8 h-8 rounded-full bg-slate-200 flex items-center justify-center text-slate-500">
                   <User size={14} />
@@ -1292,8 +1645,8 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
                 </div>
               </div>
             </div>
-            <div className="p-4 border-t border-slate-100 bg-slate-50">
-              {user && user.id === selectedMarker.owner_id ? (
+            <div className="p-4 border-t border-slate-100 bg-slate-50 space-y-2">
+              {user && (user.id === selectedMarker.owner_id || user.permissions?.includes('content:delete_any')) && (
                 <button
                   onClick={() => handleDeleteMarker(selectedMarker.id)}
                   className="w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-red-200 text-red-600 bg-red-50 hover:bg-red-100 font-medium"
@@ -1301,16 +1654,27 @@ export const MapPage: React.FC<MapPageProps> = ({ user, onLoginRequest }) => {
                   <Trash2 size={18} />
                   Xóa báo cáo
                 </button>
-              ) : (
-                <div className="w-full py-3 text-center text-slate-400 text-sm italic">
-                  Chỉ người tạo mới được xóa
-                </div>
+              )}
+              {user?.id !== selectedMarker.owner_id && (
+                <button
+                  onClick={() => (user ? setReportingMarkerId(selectedMarker.id) : onLoginRequest())}
+                  className="w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-slate-200 text-slate-600 bg-white hover:border-red-200 hover:text-red-600 font-medium"
+                >
+                  <Flag size={18} />
+                  Báo cáo nội dung sai lệch
+                </button>
               )}
             </div>
           </motion.div>
         )}
       </AnimatePresence>
 
+      <AnimatePresence>
+        {reportingMarkerId && (
+          <ReportDialog targetType="pollution" targetId={reportingMarkerId} onClose={() => setReportingMarkerId(null)} />
+        )}
+      </AnimatePresence>
+
     </div>
   );
 };
\ No newline at end of file
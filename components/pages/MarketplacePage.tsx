@@ -10,13 +10,16 @@ import {
   X,
   Image as ImageIcon,
   Loader2,
-  Check
+  Check,
+  Star,
+  Heart
 } from 'lucide-react';
 import { motion, AnimatePresence, useScroll, useMotionValueEvent } from 'framer-motion';
 import { getApiUrl } from '@/utils/api';
+import { setProductSaved } from '@/utils/wishlist';
 import OptimizedImage from '../ui/OptimizedImage';
-import Pagination from '../ui/Pagination';
-import { useScrollDirection } from '@/utils/hooks';
+import ImageUploader, { type ProductImage } from '../ui/ImageUploader';
+import { useScrollDirection, useDebouncedValue } from '@/utils/hooks';
 
 // --- Types ---
 
@@ -28,13 +31,48 @@ export interface Product {
   category: string;
   location: string;
   image: string;
+  images?: ProductImage[];
+  seller_id?: string;
   seller_name: string;
   seller_avatar?: string;
   co2_savings_kg: number;
+  stock_quantity: number;
+  min_order_quantity: number;
+  status?: 'DRAFT' | 'ACTIVE' | 'SOLD_OUT' | 'ARCHIVED';
+  lat?: number;
+  lng?: number;
+  distance_km?: number;
+  rating_avg?: number;
+  rating_count?: number;
+  saved?: boolean;
   description?: string;
   posted_at: string;
 }
 
+interface SearchSuggestion {
+  type: 'product' | 'category';
+  id?: string;
+  label: string;
+  category?: string;
+}
+
+interface ProductPage {
+  products: Product[];
+  nextCursor: string | null;
+  total: number;
+}
+
+type SortMode = 'relevance' | 'newest' | 'price_asc' | 'price_desc' | 'co2' | 'nearest';
+
+const SORT_OPTIONS: { value: SortMode; label: string }[] = [
+  { value: 'relevance', label: 'Phù hợp nhất' },
+  { value: 'newest', label: 'Mới nhất' },
+  { value: 'price_asc', label: 'Giá thấp đến cao' },
+  { value: 'price_desc', label: 'Giá cao đến thấp' },
+  { value: 'co2', label: 'Giảm CO₂ nhiều nhất' },
+  { value: 'nearest', label: 'Gần tôi nhất' },
+];
+
 const CATEGORIES = ['Tất cả', 'Rơm rạ', 'Vỏ trấu', 'Phân bón', 'Bã mía', 'Gỗ & Mùn cưa', 'Khác'];
 
 // --- Components ---
@@ -53,55 +91,168 @@ export const MarketplacePage: React.FC<MarketplacePageProps> = ({ user, onLoginR
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isLoadingRemote, setIsLoadingRemote] = useState(false);
 
-  // Pagination State
-  const [currentPage, setCurrentPage] = useState(1);
-  const ITEMS_PER_PAGE = 8;
+  const [sort, setSort] = useState<SortMode>('relevance');
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [locationFilter, setLocationFilter] = useState('');
+  const [origin, setOrigin] = useState<{ lat: number; lng: number } | null>(null);
+
+  // Cursor Pagination State
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const ITEMS_PER_PAGE = 12;
 
   // Scroll Direction for Header
   const scrollDirection = useScrollDirection();
   const showHeader = scrollDirection !== 'down';
 
-  // Load from backend
+  // Typing in the text filters should not fire a request per keystroke
+  const debouncedSearch = useDebouncedValue(searchQuery, 300);
+  const debouncedLocation = useDebouncedValue(locationFilter, 300);
+  const debouncedMinPrice = useDebouncedValue(minPrice, 300);
+  const debouncedMaxPrice = useDebouncedValue(maxPrice, 300);
+
+  // Search autocomplete
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const debouncedSuggestQuery = useDebouncedValue(searchQuery, 150);
+
   useEffect(() => {
+    const q = debouncedSuggestQuery.trim();
+    if (q.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    fetch(getApiUrl(`products/suggest?q=${encodeURIComponent(q)}`), { signal: controller.signal })
+      .then(async (r) => {
+        if (!r.ok) throw new Error(`HTTP ${r.status}`);
+        return (await r.json()) as { suggestions: SearchSuggestion[] };
+      })
+      .then((data) => setSuggestions(Array.isArray(data.suggestions) ? data.suggestions : []))
+      .catch(() => setSuggestions([]));
+
+    return () => controller.abort();
+  }, [debouncedSuggestQuery]);
+
+  const pickSuggestion = (s: SearchSuggestion) => {
+    setShowSuggestions(false);
+    if (s.type === 'category') {
+      setSelectedCategory(s.label);
+      setSearchQuery('');
+    } else if (s.id) {
+      onViewProduct(s.id);
+    }
+  };
+
+  const buildQuery = (cursor?: string) => {
+    const params = new URLSearchParams({ take: String(ITEMS_PER_PAGE), sort });
+    if (debouncedSearch.trim()) params.set('search', debouncedSearch.trim());
+    if (selectedCategory !== 'Tất cả') params.set('category', selectedCategory);
+    if (debouncedLocation.trim()) params.set('location', debouncedLocation.trim());
+    if (debouncedMinPrice) params.set('minPrice', debouncedMinPrice);
+    if (debouncedMaxPrice) params.set('maxPrice', debouncedMaxPrice);
+    if (sort === 'nearest' && origin) {
+      params.set('lat', String(origin.lat));
+      params.set('lng', String(origin.lng));
+    }
+    if (cursor) params.set('cursor', cursor);
+    return params.toString();
+  };
+
+  // Load the first page from backend whenever a filter changes
+  useEffect(() => {
+    if (sort === 'nearest' && !origin) return;
+
     const controller = new AbortController();
     setIsLoadingRemote(true);
-    fetch(getApiUrl('products'), { signal: controller.signal })
+    fetch(getApiUrl(`products?${buildQuery()}`), { signal: controller.signal })
       .then(async (r) => {
         if (!r.ok) throw new Error(`HTTP ${r.status}`);
-        return (await r.json()) as { products: Product[] };
+        return (await r.json()) as ProductPage;
       })
       .then((data) => {
-        if (Array.isArray(data.products)) setProducts(data.products);
+        setProducts(Array.isArray(data.products) ? data.products : []);
+        setNextCursor(data.nextCursor ?? null);
+        setTotal(data.total ?? 0);
       })
-      .catch(() => {
+      .catch((e: any) => {
+        if (e?.name === 'AbortError') return;
         setProducts([]);
+        setNextCursor(null);
+        setTotal(0);
       })
       .finally(() => setIsLoadingRemote(false));
 
     return () => controller.abort();
-  }, []);
-
-  // Filter Logic
-  const filteredProducts = products.filter(p => {
-    const matchesSearch = p.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      p.location.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesCategory = selectedCategory === 'Tất cả' || p.category === selectedCategory;
-    return matchesSearch && matchesCategory;
-  });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedSearch, selectedCategory, debouncedLocation, debouncedMinPrice, debouncedMaxPrice, sort, origin]);
 
-  // Pagination Logic
-  const totalPages = Math.ceil(filteredProducts.length / ITEMS_PER_PAGE);
-  const paginatedProducts = filteredProducts.slice(
-    (currentPage - 1) * ITEMS_PER_PAGE,
-    currentPage * ITEMS_PER_PAGE
-  );
+  const loadMore = async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const r = await fetch(getApiUrl(`products?${buildQuery(nextCursor)}`));
+      if (!r.ok) throw new Error(`HTTP ${r.status}`);
+      const data = (await r.json()) as ProductPage;
+      setProducts((prev) => [...prev, ...(Array.isArray(data.products) ? data.products : [])]);
+      setNextCursor(data.nextCursor ?? null);
+      setTotal(data.total ?? 0);
+    } catch {
+      alert('Không tải thêm được sản phẩm');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
 
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [searchQuery, selectedCategory]);
+  const handleSortChange = (value: SortMode) => {
+    if (value !== 'nearest' || origin) {
+      setSort(value);
+      return;
+    }
+    if (!navigator.geolocation) {
+      alert('Trình duyệt không hỗ trợ định vị.');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        setOrigin({ lat: pos.coords.latitude, lng: pos.coords.longitude });
+        setSort('nearest');
+      },
+      () => alert('Không lấy được vị trí của bạn.'),
+    );
+  };
+
+  const toggleSaved = async (product: Product) => {
+    if (!user) {
+      onLoginRequest();
+      return;
+    }
+    const next = !product.saved;
+    const apply = (saved: boolean) =>
+      setProducts((prev) => prev.map((p) => (p.id === product.id ? { ...p, saved } : p)));
+    apply(next);
+    try {
+      await setProductSaved(product.id, next);
+    } catch (e: any) {
+      apply(!next);
+      alert(e?.message ?? 'Có lỗi xảy ra');
+    }
+  };
+
+  const resetFilters = () => {
+    setSearchQuery('');
+    setSelectedCategory('Tất cả');
+    setLocationFilter('');
+    setMinPrice('');
+    setMaxPrice('');
+  };
 
   const handleCreateListing = (newProduct: Product) => {
     setProducts([newProduct, ...products]);
+    setTotal((t) => t + 1);
     setIsCreateModalOpen(false);
   };
 
@@ -127,11 +278,34 @@ export const MarketplacePage: React.FC<MarketplacePageProps> = ({ user, onLoginR
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={20} />
               <input
                 type="text"
-                placeholder="Tìm kiếm phụ phẩm, địa điểm..."
+                placeholder="Tìm kiếm phụ phẩm, địa điểm, người bán..."
                 className="w-full pl-10 pr-4 py-2.5 rounded-full border border-slate-200 bg-slate-50 focus:bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => { setSearchQuery(e.target.value); setShowSuggestions(true); }}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setShowSuggestions(false)}
+                onKeyDown={(e) => { if (e.key === 'Enter' || e.key === 'Escape') setShowSuggestions(false); }}
               />
+              {showSuggestions && suggestions.length > 0 && (
+                <ul className="absolute left-0 right-0 top-full mt-2 bg-white border border-slate-200 rounded-2xl shadow-lg overflow-hidden z-40">
+                  {suggestions.map((s) => (
+                    <li key={s.type === 'product' ? s.id : `category:${s.label}`}>
+                      <button
+                        type="button"
+                        // onMouseDown fires before the input's blur hides the list
+                        onMouseDown={(e) => { e.preventDefault(); pickSuggestion(s); }}
+                        className="w-full flex items-center justify-between gap-3 px-4 py-2.5 text-left text-sm hover:bg-slate-50"
+                      >
+                        <span className="flex items-center gap-2 min-w-0">
+                          {s.type === 'category' ? <Tag size={14} className="text-emerald-600 shrink-0" /> : <Search size={14} className="text-slate-400 shrink-0" />}
+                          <span className="truncate text-slate-800">{s.label}</span>
+                        </span>
+                        <span className="text-xs text-slate-400 shrink-0">{s.type === 'category' ? 'Danh mục' : s.category}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
 
             {/* Actions */}
@@ -162,6 +336,49 @@ export const MarketplacePage: React.FC<MarketplacePageProps> = ({ user, onLoginR
               </button>
             ))}
           </div>
+
+          {/* Sort & Filters */}
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select
+              aria-label="Sắp xếp"
+              className="border border-slate-200 rounded-full px-3 py-1.5 bg-white text-slate-700"
+              value={sort}
+              onChange={(e) => handleSortChange(e.target.value as SortMode)}
+            >
+              {SORT_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              placeholder="Giá từ"
+              aria-label="Giá từ"
+              className="w-28 border border-slate-200 rounded-full px-3 py-1.5 bg-white"
+              value={minPrice}
+              onChange={(e) => setMinPrice(e.target.value)}
+            />
+            <input
+              type="number"
+              min={0}
+              placeholder="Giá đến"
+              aria-label="Giá đến"
+              className="w-28 border border-slate-200 rounded-full px-3 py-1.5 bg-white"
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
+            />
+            <div className="relative">
+              <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={14} />
+              <input
+                type="text"
+                placeholder="Khu vực"
+                aria-label="Khu vực"
+                className="w-40 border border-slate-200 rounded-full pl-8 pr-3 py-1.5 bg-white"
+                value={locationFilter}
+                onChange={(e) => setLocationFilter(e.target.value)}
+              />
+            </div>
+          </div>
         </div>
       </motion.div>
 
@@ -174,32 +391,38 @@ export const MarketplacePage: React.FC<MarketplacePageProps> = ({ user, onLoginR
             {selectedCategory === 'Tất cả' ? 'Tin đăng mới nhất' : selectedCategory}
           </h2>
           <span className="text-sm text-slate-500">
-            {isLoadingRemote ? 'Đang tải...' : `Tìm thấy ${filteredProducts.length} kết quả`}
+            {isLoadingRemote ? 'Đang tải...' : `Tìm thấy ${total} kết quả`}
           </span>
         </div>
 
         {/* Grid */}
-        {filteredProducts.length > 0 ? (
+        {products.length > 0 ? (
           <>
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-              {paginatedProducts.map((product) => (
+              {products.map((product) => (
                 <ProductCard
                   key={product.id}
                   product={product}
                   formatCurrency={formatCurrency}
                   onAddToCart={() => addToCart(product)}
+                  onToggleSaved={() => toggleSaved(product)}
                   onViewProduct={() => onViewProduct(product.id)}
                 />
               ))}
             </div>
 
-            <div className="mt-8">
-              <Pagination
-                currentPage={currentPage}
-                totalPages={totalPages}
-                onPageChange={setCurrentPage}
-              />
-            </div>
+            {nextCursor && (
+              <div className="mt-8 flex justify-center">
+                <button
+                  onClick={loadMore}
+                  disabled={isLoadingMore}
+                  className="flex items-center gap-2 px-6 py-2.5 rounded-full border border-slate-200 bg-white text-slate-700 font-medium hover:border-emerald-300 hover:text-emerald-700 transition-colors disabled:opacity-50"
+                >
+                  {isLoadingMore && <Loader2 className="animate-spin" size={16} />}
+                  Xem thêm ({total - products.length})
+                </button>
+              </div>
+            )}
           </>
         ) : (
           <div className="flex flex-col items-center justify-center py-20 text-center">
@@ -209,7 +432,7 @@ export const MarketplacePage: React.FC<MarketplacePageProps> = ({ user, onLoginR
             <h3 className="text-lg font-medium text-slate-900">Không tìm thấy kết quả</h3>
             <p className="text-slate-500 max-w-xs mx-auto mt-2">Thử thay đổi từ khóa tìm kiếm hoặc chọn danh mục khác.</p>
             <button
-              onClick={() => { setSearchQuery(''); setSelectedCategory('Tất cả'); }}
+              onClick={resetFilters}
               className="mt-6 text-emerald-600 font-medium hover:underline"
             >
               Xóa bộ lọc
@@ -231,7 +454,8 @@ export const MarketplacePage: React.FC<MarketplacePageProps> = ({ user, onLoginR
 
 // --- Sub-components ---
 
-const ProductCard: React.FC<{ product: Product, formatCurrency: (v: number) => string, onAddToCart: () => void, onViewProduct: () => void }> = ({ product, formatCurrency, onAddToCart, onViewProduct }) => {
+const ProductCard: React.FC<{ product: Product, formatCurrency: (v: number) => string, onAddToCart: () => void, onToggleSaved: () => void, onViewProduct: () => void }> = ({ product, formatCurrency, onAddToCart, onToggleSaved, onViewProduct }) => {
+  const outOfStock = product.stock_quantity <= 0 || product.status === 'SOLD_OUT';
   return (
     <motion.div
       layout
@@ -244,6 +468,8 @@ const ProductCard: React.FC<{ product: Product, formatCurrency: (v: number) => s
       <div className="relative aspect-[4/3] bg-slate-100 overflow-hidden">
         <OptimizedImage
           src={product.image}
+          sources={product.images?.[0]?.variants}
+          sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
           alt={product.title}
           className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
           lazy={true}
@@ -255,6 +481,22 @@ const ProductCard: React.FC<{ product: Product, formatCurrency: (v: number) => s
           <Leaf size={10} fill="currentColor" />
           -{product.co2_savings_kg}kg CO₂e
         </div>
+        {outOfStock && (
+          <div className="absolute inset-0 bg-white/60 flex items-center justify-center">
+            <span className="bg-slate-900/80 text-white text-sm font-semibold px-3 py-1 rounded-full">Hết hàng</span>
+          </div>
+        )}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleSaved();
+          }}
+          className={`absolute bottom-3 right-3 p-2 rounded-full shadow-sm transition-colors ${product.saved ? 'bg-red-500 text-white' : 'bg-white/90 backdrop-blur text-slate-500 hover:text-red-500'}`}
+          aria-label={product.saved ? 'Bỏ lưu' : 'Lưu sản phẩm'}
+          title={product.saved ? 'Bỏ lưu' : 'Lưu sản phẩm'}
+        >
+          <Heart size={16} fill={product.saved ? 'currentColor' : 'none'} />
+        </button>
       </div>
 
       {/* Content */}
@@ -268,9 +510,24 @@ const ProductCard: React.FC<{ product: Product, formatCurrency: (v: number) => s
           <span className="text-xs font-medium text-slate-500">/{product.unit}</span>
         </div>
 
-        <div className="flex items-center gap-1 text-slate-500 text-xs mb-4">
+        {(product.rating_count ?? 0) > 0 && (
+          <div className="flex items-center gap-1 text-xs text-amber-500 mb-1">
+            <Star size={12} fill="currentColor" />
+            <span className="font-medium">{product.rating_avg?.toFixed(1)}</span>
+            <span className="text-slate-400">({product.rating_count} đánh giá)</span>
+          </div>
+        )}
+
+        <div className="flex items-center gap-1 text-slate-500 text-xs mb-1">
           <MapPin size={12} />
           <span className="truncate">{product.location}</span>
+          {product.distance_km !== undefined && (
+            <span className="shrink-0 text-slate-400">· {product.distance_km} km</span>
+          )}
+        </div>
+
+        <div className={`text-xs mb-4 ${outOfStock ? 'text-red-500 font-medium' : 'text-slate-500'}`}>
+          {outOfStock ? 'Hết hàng' : `Còn lại ${product.stock_quantity} ${product.unit}`}
         </div>
 
         <div className="mt-auto pt-4 border-t border-slate-100 flex items-center justify-between gap-3">
@@ -289,8 +546,9 @@ const ProductCard: React.FC<{ product: Product, formatCurrency: (v: number) => s
               e.stopPropagation();
               onAddToCart();
             }}
-            className="p-2 rounded-full bg-slate-50 text-slate-600 hover:bg-emerald-500 hover:text-white transition-colors"
-            title="Thêm vào giỏ"
+            disabled={outOfStock}
+            className="p-2 rounded-full bg-slate-50 text-slate-600 hover:bg-emerald-500 hover:text-white transition-colors disabled:opacity-40 disabled:hover:bg-slate-50 disabled:hover:text-slate-600 disabled:cursor-not-allowed"
+            title={outOfStock ? 'Hết hàng' : 'Thêm vào giỏ'}
           >
             <ShoppingCart size={18} />
           </button>
@@ -302,6 +560,7 @@ const ProductCard: React.FC<{ product: Product, formatCurrency: (v: number) => s
 
 const CreateListingModal: React.FC<{ isOpen: boolean, onClose: () => void, onSubmit: (p: Product) => void, user: any }> = ({ isOpen, onClose, onSubmit, user }) => {
   const [loading, setLoading] = useState(false);
+  const [images, setImages] = useState<ProductImage[]>([]);
   const [formData, setFormData] = useState({
     title: '',
     price: '',
@@ -310,6 +569,8 @@ const CreateListingModal: React.FC<{ isOpen: boolean, onClose: () => void, onSub
     location: 'Hồ Chí Minh',
     image: 'https://images.unsplash.com/photo-1595835018335-508b5252834b?q=80&w=600&auto=format&fit=crop',
     co2_savings_kg: '10',
+    stock_quantity: '100',
+    min_order_quantity: '1',
     description: ''
   });
 
@@ -331,8 +592,12 @@ const CreateListingModal: React.FC<{ isOpen: boolean, onClose: () => void, onSub
           unit: formData.unit,
           category: formData.category,
           location: formData.location,
-          image: formData.image,
+          // Uploaded photos take precedence over a pasted URL
+          image: images.length > 0 ? undefined : formData.image,
+          image_ids: images.length > 0 ? images.map((i) => i.id) : undefined,
           co2_savings_kg: Number(formData.co2_savings_kg),
+          stock_quantity: Number(formData.stock_quantity),
+          min_order_quantity: Number(formData.min_order_quantity) || 1,
           description: formData.description || undefined,
         }),
       });
@@ -340,6 +605,7 @@ const CreateListingModal: React.FC<{ isOpen: boolean, onClose: () => void, onSub
       if (!res.ok) throw new Error(data?.error ?? 'Đăng tin thất bại');
 
       onSubmit(data.product as Product);
+      setImages([]);
       setFormData({
         title: '',
         price: '',
@@ -348,6 +614,8 @@ const CreateListingModal: React.FC<{ isOpen: boolean, onClose: () => void, onSub
         location: 'Hồ Chí Minh',
         image: 'https://images.unsplash.com/photo-1595835018335-508b5252834b?q=80&w=600&auto=format&fit=crop',
         co2_savings_kg: '10',
+        stock_quantity: '100',
+        min_order_quantity: '1',
         description: '',
       });
     } catch (err: any) {
@@ -390,22 +658,29 @@ const CreateListingModal: React.FC<{ isOpen: boolean, onClose: () => void, onSub
             <form onSubmit={handleSubmit} className="p-6 space-y-4 max-h-[80vh] overflow-y-auto">
 
               <div>
-                <label htmlFor="product-image" className="block text-sm font-medium text-slate-700 mb-1">Ảnh sản phẩm (URL)</label>
-                <div className="flex gap-2">
-                  <div className="w-10 h-10 rounded-lg bg-slate-100 flex items-center justify-center shrink-0 text-slate-400">
-                    <ImageIcon size={18} />
+                <span className="block text-sm font-medium text-slate-700 mb-1">Ảnh sản phẩm</span>
+                <ImageUploader images={images} onChange={setImages} />
+              </div>
+
+              {images.length === 0 && (
+                <div>
+                  <label htmlFor="product-image" className="block text-sm font-medium text-slate-700 mb-1">Hoặc dán link ảnh (URL)</label>
+                  <div className="flex gap-2">
+                    <div className="w-10 h-10 rounded-lg bg-slate-100 flex items-center justify-center shrink-0 text-slate-400">
+                      <ImageIcon size={18} />
+                    </div>
+                    <input
+                      id="product-image"
+                      required
+                      type="url"
+                      placeholder="https://..."
+                      className="w-full border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
+                      value={formData.image}
+                      onChange={e => setFormData({ ...formData, image: e.target.value })}
+                    />
                   </div>
-                  <input
-                    id="product-image"
-                    required
-                    type="url"
-                    placeholder="https://..."
-                    className="w-full border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
-                    value={formData.image}
-                    onChange={e => setFormData({ ...formData, image: e.target.value })}
-                  />
                 </div>
-              </div>
+              )}
 
               <div>
                 <label htmlFor="product-title" className="block text-sm font-medium text-slate-700 mb-1">Tiêu đề tin đăng</label>
@@ -449,6 +724,33 @@ const CreateListingModal: React.FC<{ isOpen: boolean, onClose: () => void, onSub
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="product-stock" className="block text-sm font-medium text-slate-700 mb-1">Số lượng có sẵn</label>
+                  <input
+                    id="product-stock"
+                    required
+                    type="number"
+                    min={0}
+                    className="w-full border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
+                    value={formData.stock_quantity}
+                    onChange={e => setFormData({ ...formData, stock_quantity: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="product-min-order" className="block text-sm font-medium text-slate-700 mb-1">Đặt tối thiểu</label>
+                  <input
+                    id="product-min-order"
+                    required
+                    type="number"
+                    min={1}
+                    className="w-full border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
+                    value={formData.min_order_quantity}
+                    onChange={e => setFormData({ ...formData, min_order_quantity: e.target.value })}
+                  />
+                </div>
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label htmlFor="product-category" className="block text-sm font-medium text-slate-700 mb-1">Danh mục</label>
@@ -0,0 +1,377 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Loader2, MessageCircle, Send } from 'lucide-react';
+import { getApiUrl } from '@/utils/api';
+import { useRealtime } from '@/utils/realtime';
+
+// --- Types ---
+
+export interface ChatMessage {
+    id: string;
+    conversation_id: string;
+    sender_id: string;
+    body: string;
+    created_at: string;
+}
+
+export interface Conversation {
+    id: string;
+    role: 'buyer' | 'seller';
+    other_party: { id: string; name: string };
+    product: { id: string; title: string; image: string };
+    last_message: ChatMessage | null;
+    last_message_at: string;
+    unread_count: number;
+}
+
+const formatTime = (iso: string) => {
+    const date = new Date(iso);
+    const sameDay = date.toDateString() === new Date().toDateString();
+    return sameDay
+        ? date.toLocaleTimeString('vi-VN', { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit' });
+};
+
+// Merge two id-unique message lists, oldest first
+const mergeMessages = (a: ChatMessage[], b: ChatMessage[]) => {
+    const byId = new Map<string, ChatMessage>();
+    [...a, ...b].forEach((m) => byId.set(m.id, m));
+    return [...byId.values()].sort((x, y) => x.created_at.localeCompare(y.created_at));
+};
+
+export const MessagesPage = ({
+    user,
+    conversationId,
+    onSelectConversation,
+    onViewProduct,
+    onUnreadChange,
+}: {
+    user: { id: string; name: string };
+    conversationId: string | null;
+    onSelectConversation: (conversationId: string | null) => void;
+    onViewProduct: (productId: string) => void;
+    onUnreadChange: () => void;
+}) => {
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadConversations = async (signal?: AbortSignal) => {
+        const res = await fetch(getApiUrl('conversations'), { signal, cache: 'no-store' });
+        const data = (await res.json()) as any;
+        if (!res.ok) throw new Error(data?.error ?? 'Không tải được tin nhắn');
+        setConversations(Array.isArray(data.conversations) ? data.conversations : []);
+    };
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setLoading(true);
+        loadConversations(controller.signal)
+            .catch((e: any) => {
+                if (e?.name !== 'AbortError') setError(e?.message ?? 'Có lỗi xảy ra');
+            })
+            .finally(() => setLoading(false));
+
+        return () => controller.abort();
+    }, []);
+
+    const active = conversations.find((c) => c.id === conversationId) ?? null;
+
+    // Opening a thread marks it read: clear its badge locally and refresh the header count
+    const handleRead = (id: string) => {
+        setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, unread_count: 0 } : c)));
+        onUnreadChange();
+    };
+
+    // Move a thread to the top with its newest message
+    const applyMessage = (message: ChatMessage) => {
+        setConversations((prev) =>
+            prev
+                .map((c) =>
+                    c.id === message.conversation_id
+                        ? { ...c, last_message: message, last_message_at: message.created_at }
+                        : c
+                )
+                .sort((a, b) => b.last_message_at.localeCompare(a.last_message_at))
+        );
+    };
+
+    // The open thread fetches its own new messages (which marks them read);
+    // any other thread needs its unread count from the server.
+    useRealtime(
+        ['messages'],
+        (event) => {
+            const message = event.data.message as ChatMessage;
+            if (message.conversation_id === conversationId) applyMessage(message);
+            else loadConversations().catch(() => undefined);
+        },
+        { onReconnect: () => loadConversations().catch(() => undefined) }
+    );
+
+    return (
+        <div className="min-h-screen bg-slate-50 pt-6 pb-20">
+            <div className="container mx-auto px-4 max-w-5xl">
+                <h1 className="text-2xl font-bold text-slate-900 mb-6">Tin nhắn</h1>
+
+                {error && (
+                    <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+                )}
+
+                <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden grid grid-cols-1 md:grid-cols-[320px_1fr] h-[70vh]">
+                    {/* Conversation list */}
+                    <div className={`border-r border-slate-100 overflow-y-auto ${active ? 'hidden md:block' : ''}`}>
+                        {loading ? (
+                            <div className="flex items-center justify-center py-20 text-slate-500 gap-2">
+                                <Loader2 className="animate-spin" size={20} /> Đang tải…
+                            </div>
+                        ) : conversations.length === 0 ? (
+                            <div className="flex flex-col items-center justify-center py-20 px-6 text-center text-slate-500">
+                                <MessageCircle size={32} className="text-slate-300 mb-3" />
+                                Chưa có cuộc trò chuyện nào. Nhấn "Liên hệ người bán" trên trang sản phẩm để bắt đầu.
+                            </div>
+                        ) : (
+                            conversations.map((c) => (
+                                <button
+                                    key={c.id}
+                                    onClick={() => onSelectConversation(c.id)}
+                                    className={`w-full text-left flex gap-3 p-4 border-b border-slate-50 hover:bg-slate-50 transition-colors ${c.id === conversationId ? 'bg-emerald-50/60' : ''}`}
+                                >
+                                    <img src={c.product.image} alt="" className="w-12 h-12 rounded-lg object-cover shrink-0 bg-slate-100" />
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className={`truncate ${c.unread_count > 0 ? 'font-bold text-slate-900' : 'font-medium text-slate-800'}`}>
+                                                {c.other_party.name}
+                                            </span>
+                                            <span className="text-xs text-slate-400 shrink-0">{formatTime(c.last_message_at)}</span>
+                                        </div>
+                                        <div className="text-xs text-emerald-700 truncate">{c.product.title}</div>
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="text-sm text-slate-500 truncate">
+                                                {c.last_message
+                                                    ? `${c.last_message.sender_id === user.id ? 'Bạn: ' : ''}${c.last_message.body}`
+                                                    : 'Chưa có tin nhắn'}
+                                            </span>
+                                            {c.unread_count > 0 && (
+                                                <span className="bg-red-500 text-white text-xs font-bold rounded-full px-2 py-0.5 shrink-0">
+                                                    {c.unread_count}
+                                                </span>
+                                            )}
+                                        </div>
+                                    </div>
+                                </button>
+                            ))
+                        )}
+                    </div>
+
+                    {/* Thread */}
+                    <div className={`flex flex-col min-h-0 ${active ? '' : 'hidden md:flex'}`}>
+                        {active ? (
+                            <ConversationThread
+                                key={active.id}
+                                conversation={active}
+                                userId={user.id}
+                                onBack={() => onSelectConversation(null)}
+                                onViewProduct={onViewProduct}
+                                onRead={() => handleRead(active.id)}
+                                onSent={applyMessage}
+                            />
+                        ) : (
+                            <div className="flex-1 flex items-center justify-center text-slate-400 text-sm">
+                                Chọn một cuộc trò chuyện
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ConversationThread: React.FC<{
+    conversation: Conversation;
+    userId: string;
+    onBack: () => void;
+    onViewProduct: (productId: string) => void;
+    onRead: () => void;
+    onSent: (message: ChatMessage) => void;
+}> = ({ conversation, userId, onBack, onViewProduct, onRead, onSent }) => {
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [loadingOlder, setLoadingOlder] = useState(false);
+    const [draft, setDraft] = useState('');
+    const [sending, setSending] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const bottomRef = useRef<HTMLDivElement>(null);
+
+    const fetchPage = async (cursor?: string) => {
+        const qs = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+        const res = await fetch(getApiUrl(`conversations/${conversation.id}/messages${qs}`), { cache: 'no-store' });
+        const data = (await res.json()) as any;
+        if (!res.ok) throw new Error(data?.error ?? 'Không tải được tin nhắn');
+        return data as { messages: ChatMessage[]; nextCursor: string | null };
+    };
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        fetchPage()
+            .then((data) => {
+                if (cancelled) return;
+                setMessages(mergeMessages([], data.messages));
+                setNextCursor(data.nextCursor);
+                onRead();
+            })
+            .catch((e: any) => !cancelled && setError(e?.message ?? 'Có lỗi xảy ra'))
+            .finally(() => !cancelled && setLoading(false));
+
+        return () => {
+            cancelled = true;
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [conversation.id]);
+
+    // Re-reading the newest page merges new replies and marks them read
+    const refreshLatest = () => {
+        fetchPage()
+            .then((data) => {
+                setMessages((prev) => mergeMessages(prev, data.messages));
+                onRead();
+            })
+            .catch(() => undefined);
+    };
+
+    useRealtime(
+        ['messages'],
+        (event) => {
+            if (event.data.message?.conversation_id === conversation.id) refreshLatest();
+        },
+        { onReconnect: refreshLatest }
+    );
+
+    useEffect(() => {
+        if (!loadingOlder) bottomRef.current?.scrollIntoView({ block: 'end' });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [messages.length]);
+
+    const loadOlder = async () => {
+        if (!nextCursor) return;
+        setLoadingOlder(true);
+        try {
+            const data = await fetchPage(nextCursor);
+            setMessages((prev) => mergeMessages(data.messages, prev));
+            setNextCursor(data.nextCursor);
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setLoadingOlder(false);
+        }
+    };
+
+    const send = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const body = draft.trim();
+        if (!body) return;
+        setSending(true);
+        setError(null);
+        try {
+            const res = await fetch(getApiUrl(`conversations/${conversation.id}/messages`), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ body }),
+            });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Gửi tin nhắn thất bại');
+            setMessages((prev) => mergeMessages(prev, [data.message]));
+            setDraft('');
+            onSent(data.message as ChatMessage);
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setSending(false);
+        }
+    };
+
+    return (
+        <>
+            <div className="flex items-center gap-3 p-4 border-b border-slate-100">
+                <button
+                    onClick={onBack}
+                    className="md:hidden p-1 rounded-full hover:bg-slate-100 text-slate-500"
+                    aria-label="Quay lại"
+                    title="Quay lại"
+                >
+                    <ArrowLeft size={20} />
+                </button>
+                <div className="flex-1 min-w-0">
+                    <div className="font-semibold text-slate-900 truncate">{conversation.other_party.name}</div>
+                    <button
+                        onClick={() => onViewProduct(conversation.product.id)}
+                        className="text-xs text-emerald-700 hover:underline truncate block max-w-full"
+                    >
+                        {conversation.product.title}
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-2 bg-slate-50/50">
+                {nextCursor && (
+                    <div className="text-center">
+                        <button
+                            onClick={loadOlder}
+                            disabled={loadingOlder}
+                            className="text-xs text-slate-500 hover:text-emerald-600 disabled:opacity-50"
+                        >
+                            {loadingOlder ? 'Đang tải…' : 'Xem tin nhắn cũ hơn'}
+                        </button>
+                    </div>
+                )}
+                {loading ? (
+                    <div className="flex items-center justify-center py-10 text-slate-500 gap-2">
+                        <Loader2 className="animate-spin" size={18} />
+                    </div>
+                ) : messages.length === 0 ? (
+                    <div className="text-center text-sm text-slate-400 py-10">
+                        Hãy hỏi người bán về độ ẩm, số lượng hay cách giao hàng.
+                    </div>
+                ) : (
+                    messages.map((m) => {
+                        const mine = m.sender_id === userId;
+                        return (
+                            <div key={m.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                                <div
+                                    className={`max-w-[75%] rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap break-words ${mine ? 'bg-emerald-600 text-white rounded-br-sm' : 'bg-white border border-slate-200 text-slate-800 rounded-bl-sm'}`}
+                                >
+                                    {m.body}
+                                    <div className={`text-[10px] mt-1 ${mine ? 'text-emerald-100' : 'text-slate-400'}`}>{formatTime(m.created_at)}</div>
+                                </div>
+                            </div>
+                        );
+                    })
+                )}
+                <div ref={bottomRef} />
+            </div>
+
+            {error && <div className="px-4 py-2 text-sm text-red-600 border-t border-red-100 bg-red-50">{error}</div>}
+
+            <form onSubmit={send} className="p-3 border-t border-slate-100 flex gap-2">
+                <input
+                    type="text"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    maxLength={2000}
+                    placeholder="Nhập tin nhắn…"
+                    className="flex-1 border border-slate-200 rounded-full px-4 py-2 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
+                />
+                <button
+                    type="submit"
+                    disabled={sending || !draft.trim()}
+                    className="p-3 rounded-full bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+                    aria-label="Gửi"
+                    title="Gửi"
+                >
+                    {sending ? <Loader2 className="animate-spin" size={18} /> : <Send size={18} />}
+                </button>
+            </form>
+        </>
+    );
+};
@@ -0,0 +1,412 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowLeft, Loader2, PackageOpen, Pencil, Archive, X, Eye } from 'lucide-react';
+import { getApiUrl } from '@/utils/api';
+import type { Product } from './MarketplacePage';
+import ImageUploader, { type ProductImage } from '../ui/ImageUploader';
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+    DRAFT: { label: 'Bản nháp', className: 'bg-slate-100 text-slate-600 border-slate-200' },
+    ACTIVE: { label: 'Đang bán', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+    SOLD_OUT: { label: 'Hết hàng', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+    ARCHIVED: { label: 'Đã gỡ', className: 'bg-slate-100 text-slate-400 border-slate-200' },
+};
+
+// Statuses a seller can pick in the edit form (archiving goes through DELETE).
+const EDITABLE_STATUSES = ['ACTIVE', 'DRAFT', 'SOLD_OUT'] as const;
+
+const formatCurrency = (val: number) => {
+    return new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(val);
+};
+
+type EditForm = {
+    title: string;
+    price: string;
+    unit: string;
+    location: string;
+    image: string;
+    images: ProductImage[];
+    stock_quantity: string;
+    min_order_quantity: string;
+    description: string;
+    status: string;
+};
+
+const toForm = (p: Product): EditForm => ({
+    title: p.title,
+    price: String(p.price),
+    unit: p.unit,
+    location: p.location,
+    // The cover of an uploaded gallery is not an editable URL
+    image: p.images?.length ? '' : p.image,
+    images: p.images ?? [],
+    stock_quantity: String(p.stock_quantity),
+    min_order_quantity: String(p.min_order_quantity),
+    description: p.description ?? '',
+    status: p.status ?? 'ACTIVE',
+});
+
+export const MyProductsPage = ({
+    onBack,
+    onViewProduct,
+}: {
+    onBack: () => void;
+    onViewProduct: (productId: string) => void;
+}) => {
+    const [products, setProducts] = useState<Product[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [editing, setEditing] = useState<Product | null>(null);
+    const [form, setForm] = useState<EditForm | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [archivingId, setArchivingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setLoading(true);
+        setError(null);
+
+        fetch(getApiUrl('products/mine'), { signal: controller.signal, cache: 'no-store' })
+            .then(async (r) => {
+                const data = (await r.json()) as any;
+                if (!r.ok) throw new Error(data?.error ?? 'Không tải được sản phẩm');
+                return data as { products: Product[] };
+            })
+            .then((data) => setProducts(Array.isArray(data.products) ? data.products : []))
+            .catch((e: any) => {
+                if (e?.name !== 'AbortError') setError(e?.message ?? 'Có lỗi xảy ra');
+            })
+            .finally(() => setLoading(false));
+
+        return () => controller.abort();
+    }, []);
+
+    const openEdit = (product: Product) => {
+        setEditing(product);
+        setForm(toForm(product));
+    };
+
+    const closeEdit = () => {
+        setEditing(null);
+        setForm(null);
+    };
+
+    const saveEdit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing || !form) return;
+        setSaving(true);
+        setError(null);
+
+        try {
+            const res = await fetch(getApiUrl(`products/${editing.id}`), {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    title: form.title,
+                    price: Number(form.price),
+                    unit: form.unit,
+                    location: form.location,
+                    // Uploaded photos replace the gallery; a URL is only used without any
+                    image: form.images.length > 0 ? undefined : form.image,
+                    image_ids: form.images.length > 0 || editing.images?.length ? form.images.map((i) => i.id) : undefined,
+                    stock_quantity: Number(form.stock_quantity),
+                    min_order_quantity: Number(form.min_order_quantity) || 1,
+                    description: form.description,
+                    status: form.status,
+                }),
+            });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Không lưu được thay đổi');
+
+            const updated = data.product as Product;
+            setProducts((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+            closeEdit();
+        } catch (e: any) {
+            alert(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const archiveProduct = async (product: Product) => {
+        if (!window.confirm(`Gỡ tin "${product.title}" khỏi sàn?`)) return;
+        setArchivingId(product.id);
+        setError(null);
+
+        try {
+            const res = await fetch(getApiUrl(`products/${product.id}`), { method: 'DELETE' });
+            if (!res.ok) {
+                const data = (await res.json().catch(() => null)) as any;
+                throw new Error(data?.error ?? 'Không gỡ được tin');
+            }
+            setProducts((prev) => prev.map((p) => (p.id === product.id ? { ...p, status: 'ARCHIVED' } : p)));
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setArchivingId(null);
+        }
+    };
+
+    const inputClass =
+        'w-full border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none';
+
+    return (
+        <div className="min-h-[calc(100vh-64px)] py-10 px-4 select-none">
+            <div className="container mx-auto max-w-4xl">
+                <div className="flex items-center justify-between gap-4 mb-6">
+                    <div>
+                        <h1 className="text-2xl font-bold text-slate-900">Sản phẩm của tôi</h1>
+                        <p className="text-slate-500 text-sm">Chỉnh sửa, tạm ẩn hoặc gỡ các tin bạn đã đăng.</p>
+                    </div>
+                    <button
+                        onClick={onBack}
+                        className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-100 transition-colors flex items-center gap-2"
+                    >
+                        <ArrowLeft size={18} />
+                        Quay lại
+                    </button>
+                </div>
+
+                {error && (
+                    <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+                )}
+
+                {loading ? (
+                    <div className="flex items-center justify-center py-20 text-slate-500 gap-2">
+                        <Loader2 className="animate-spin" size={20} /> Đang tải…
+                    </div>
+                ) : products.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center py-20 text-center">
+                        <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mb-4">
+                            <PackageOpen className="text-slate-400" size={32} />
+                        </div>
+                        <h3 className="text-lg font-medium text-slate-900">Bạn chưa đăng sản phẩm nào</h3>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        {products.map((product) => {
+                            const status = STATUS_LABELS[product.status ?? 'ACTIVE'] ?? STATUS_LABELS.ACTIVE;
+                            const archived = product.status === 'ARCHIVED';
+                            return (
+                                <motion.div
+                                    key={product.id}
+                                    layout
+                                    initial={{ opacity: 0, y: 10 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    className={`bg-white rounded-2xl border border-slate-200 shadow-sm p-4 flex flex-col sm:flex-row sm:items-center gap-4 ${archived ? 'opacity-60' : ''}`}
+                                >
+                                    <div className="w-20 h-20 shrink-0 bg-slate-100 rounded-xl overflow-hidden">
+                                        <img src={product.image} alt={product.title} className="w-full h-full object-cover" />
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex items-center gap-2 mb-1">
+                                            <h3 className="font-semibold text-slate-900 truncate">{product.title}</h3>
+                                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full border whitespace-nowrap ${status.className}`}>{status.label}</span>
+                                        </div>
+                                        <div className="text-sm text-emerald-600 font-bold">
+                                            {formatCurrency(product.price)} <span className="text-xs font-normal text-slate-400">/ {product.unit}</span>
+                                        </div>
+                                        <div className="text-xs text-slate-500 mt-1">
+                                            Còn lại {product.stock_quantity} {product.unit} · Đặt tối thiểu {product.min_order_quantity} {product.unit} · {product.posted_at}
+                                        </div>
+                                    </div>
+                                    {!archived && (
+                                        <div className="flex items-center gap-2 justify-end">
+                                            <button
+                                                type="button"
+                                                onClick={() => onViewProduct(product.id)}
+                                                className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 transition-colors"
+                                                aria-label="Xem"
+                                                title="Xem"
+                                            >
+                                                <Eye size={18} />
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => openEdit(product)}
+                                                className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-900 text-white hover:bg-emerald-600 transition-colors flex items-center gap-2"
+                                            >
+                                                <Pencil size={16} />
+                                                Sửa
+                                            </button>
+                                            <button
+                                                type="button"
+                                                disabled={archivingId === product.id}
+                                                onClick={() => archiveProduct(product)}
+                                                className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 text-red-600 hover:bg-red-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+                                            >
+                                                {archivingId === product.id ? <Loader2 className="animate-spin" size={16} /> : <Archive size={16} />}
+                                                Gỡ tin
+                                            </button>
+                                        </div>
+                                    )}
+                                </motion.div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            <AnimatePresence>
+                {editing && form && (
+                    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+                        <motion.div
+                            initial={{ opacity: 0 }}
+                            animate={{ opacity: 1 }}
+                            exit={{ opacity: 0 }}
+                            className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+                            onClick={closeEdit}
+                        />
+
+                        <motion.div
+                            initial={{ scale: 0.95, opacity: 0 }}
+                            animate={{ scale: 1, opacity: 1 }}
+                            exit={{ scale: 0.95, opacity: 0 }}
+                            className="bg-white rounded-2xl shadow-2xl w-full max-w-lg relative z-10 overflow-hidden"
+                        >
+                            <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                                <h3 className="font-bold text-slate-900">Sửa tin đăng</h3>
+                                <button
+                                    onClick={closeEdit}
+                                    className="p-1 rounded-full hover:bg-slate-200 text-slate-500"
+                                    aria-label="Đóng"
+                                    title="Đóng"
+                                >
+                                    <X size={20} />
+                                </button>
+                            </div>
+
+                            <form onSubmit={saveEdit} className="p-6 space-y-4 max-h-[80vh] overflow-y-auto">
+                                <div>
+                                    <label htmlFor="edit-title" className="block text-sm font-medium text-slate-700 mb-1">Tiêu đề tin đăng</label>
+                                    <input
+                                        id="edit-title"
+                                        required
+                                        minLength={3}
+                                        className={inputClass}
+                                        value={form.title}
+                                        onChange={(e) => setForm({ ...form, title: e.target.value })}
+                                    />
+                                </div>
+
+                                <div>
+                                    <span className="block text-sm font-medium text-slate-700 mb-1">Ảnh sản phẩm</span>
+                                    <ImageUploader images={form.images} onChange={(images) => setForm({ ...form, images })} />
+                                </div>
+
+                                {form.images.length === 0 && (
+                                    <div>
+                                        <label htmlFor="edit-image" className="block text-sm font-medium text-slate-700 mb-1">Hoặc dán link ảnh (URL)</label>
+                                        <input
+                                            id="edit-image"
+                                            required
+                                            type="url"
+                                            className={inputClass}
+                                            value={form.image}
+                                            onChange={(e) => setForm({ ...form, image: e.target.value })}
+                                        />
+                                    </div>
+                                )}
+
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label htmlFor="edit-price" className="block text-sm font-medium text-slate-700 mb-1">Giá bán (VNĐ)</label>
+                                        <input
+                                            id="edit-price"
+                                            required
+                                            type="number"
+                                            min={0}
+                                            className={inputClass}
+                                            value={form.price}
+                                            onChange={(e) => setForm({ ...form, price: e.target.value })}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="edit-status" className="block text-sm font-medium text-slate-700 mb-1">Trạng thái</label>
+                                        <select
+                                            id="edit-status"
+                                            className="w-full border border-slate-200 rounded-lg px-3 py-2 bg-white"
+                                            value={form.status}
+                                            onChange={(e) => setForm({ ...form, status: e.target.value })}
+                                        >
+                                            {EDITABLE_STATUSES.map((s) => (
+                                                <option key={s} value={s}>{STATUS_LABELS[s].label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label htmlFor="edit-stock" className="block text-sm font-medium text-slate-700 mb-1">Số lượng có sẵn</label>
+                                        <input
+                                            id="edit-stock"
+                                            required
+                                            type="number"
+                                            min={0}
+                                            className={inputClass}
+                                            value={form.stock_quantity}
+                                            onChange={(e) => setForm({ ...form, stock_quantity: e.target.value })}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="edit-min-order" className="block text-sm font-medium text-slate-700 mb-1">Đặt tối thiểu</label>
+                                        <input
+                                            id="edit-min-order"
+                                            required
+                                            type="number"
+                                            min={1}
+                                            className={inputClass}
+                                            value={form.min_order_quantity}
+                                            onChange={(e) => setForm({ ...form, min_order_quantity: e.target.value })}
+                                        />
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <label htmlFor="edit-location" className="block text-sm font-medium text-slate-700 mb-1">Khu vực</label>
+                                    <input
+                                        id="edit-location"
+                                        required
+                                        className={inputClass}
+                                        value={form.location}
+                                        onChange={(e) => setForm({ ...form, location: e.target.value })}
+                                    />
+                                </div>
+
+                                <div>
+                                    <label htmlFor="edit-description" className="block text-sm font-medium text-slate-700 mb-1">Mô tả chi tiết</label>
+                                    <textarea
+                                        id="edit-description"
+                                        rows={3}
+                                        className={inputClass}
+                                        value={form.description}
+                                        onChange={(e) => setForm({ ...form, description: e.target.value })}
+                                    />
+                                </div>
+
+                                <div className="pt-2 flex justify-end gap-3">
+                                    <button
+                                        type="button"
+                                        onClick={closeEdit}
+                                        className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-100 transition-colors"
+                                    >
+                                        Hủy
+                                    </button>
+                                    <button
+                                        type="submit"
+                                        disabled={saving}
+                                        className="px-6 py-2 rounded-lg bg-emerald-600 text-white font-medium hover:bg-emerald-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+                                    >
+                                        {saving && <Loader2 className="animate-spin" size={16} />}
+                                        Lưu thay đổi
+                                    </button>
+                                </div>
+                            </form>
+                        </motion.div>
+                    </div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Loader2, Package, MapPin, Leaf, ChevronDown } from 'lucide-react';
+import { getApiUrl } from '@/utils/api';
+import { useRealtime } from '@/utils/realtime';
+
+// --- Types ---
+
+export interface OrderItem {
+  product_id: string;
+  title: string;
+  unit: string;
+  image: string;
+  price: number;
+  quantity: number;
+  co2_savings_kg: number;
+  line_total: number;
+}
+
+export interface SubOrder {
+  id: string;
+  seller_name: string;
+  status: string;
+  subtotal: number;
+  items: OrderItem[];
+}
+
+export interface Order {
+  id: string;
+  status: string;
+  subtotal: number;
+  shipping_fee: number;
+  total: number;
+  total_co2_savings_kg: number;
+  shipping: { name: string; phone: string; address: string };
+  note?: string;
+  created_at: string;
+  items: OrderItem[];
+  sub_orders: SubOrder[];
+}
+
+export const ORDER_STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  PENDING: { label: 'Chờ xác nhận', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  CONFIRMED: { label: 'Đã xác nhận', className: 'bg-sky-50 text-sky-700 border-sky-200' },
+  SHIPPED: { label: 'Đang giao', className: 'bg-indigo-50 text-indigo-700 border-indigo-200' },
+  DELIVERED: { label: 'Đã giao', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  CANCELLED: { label: 'Đã hủy', className: 'bg-slate-100 text-slate-500 border-slate-200' },
+};
+
+const formatCurrency = (val: number) => {
+  return new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(val);
+};
+
+interface OrdersPageProps {
+  onNavigate: (route: any) => void;
+  highlightOrderId?: string | null;
+}
+
+export const OrdersPage: React.FC<OrdersPageProps> = ({ onNavigate, highlightOrderId }) => {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(highlightOrderId ?? null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const cancelOrder = async (orderId: string) => {
+    if (!window.confirm('Hủy các phần đơn hàng chưa được người bán xác nhận?')) return;
+    setCancellingId(orderId);
+    setError(null);
+    try {
+      const res = await fetch(getApiUrl(`orders/${orderId}/cancel`), { method: 'POST' });
+      const data = (await res.json()) as any;
+      if (!res.ok) throw new Error(data?.error ?? 'Không hủy được đơn hàng');
+      const updated = data.order as Order;
+      setOrders((prev) => prev.map((o) => (o.id === updated.id ? updated : o)));
+    } catch (e: any) {
+      alert(e?.message ?? 'Có lỗi xảy ra');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    fetch(getApiUrl('orders'), { signal: controller.signal, cache: 'no-store' })
+      .then(async (r) => {
+        const data = (await r.json()) as any;
+        if (!r.ok) throw new Error(data?.error ?? 'Không tải được đơn hàng');
+        return data as { orders: Order[] };
+      })
+      .then((data) => setOrders(Array.isArray(data.orders) ? data.orders : []))
+      .catch((e: any) => {
+        if (e?.name !== 'AbortError') setError(e?.message ?? 'Có lỗi xảy ra');
+      })
+      .finally(() => setLoading(false));
+
+    return () => controller.abort();
+  }, []);
+
+  // A seller moved one of our orders along: reload just that order
+  const reloadOrder = async (orderId: string) => {
+    try {
+      const res = await fetch(getApiUrl(`orders/${orderId}`), { cache: 'no-store' });
+      if (!res.ok) return;
+      const data = (await res.json()) as any;
+      const updated = data.order as Order;
+      setOrders((prev) => prev.map((o) => (o.id === updated.id ? updated : o)));
+    } catch {
+      // next event or reload will catch up
+    }
+  };
+
+  useRealtime(['orders'], (event) => {
+    if (event.type === 'order.updated') reloadOrder(event.data.order_id);
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8 select-none">
+      <div className="container mx-auto px-4 max-w-4xl">
+        <button
+          onClick={() => onNavigate('marketplace')}
+          className="flex items-center gap-2 text-slate-500 hover:text-emerald-600 mb-6 transition-colors"
+        >
+          <ArrowLeft size={18} />
+          <span>Tiếp tục mua sắm</span>
+        </button>
+
+        <h1 className="text-2xl font-bold text-slate-900 mb-8">Đơn mua của tôi</h1>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-20 text-slate-500 gap-2">
+            <Loader2 className="animate-spin" size={20} /> Đang tải đơn hàng…
+          </div>
+        ) : error ? (
+          <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        ) : orders.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 text-center">
+            <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mb-4">
+              <Package className="text-slate-400" size={32} />
+            </div>
+            <h3 className="text-lg font-medium text-slate-900">Bạn chưa có đơn hàng nào</h3>
+            <button
+              onClick={() => onNavigate('marketplace')}
+              className="mt-6 text-emerald-600 font-medium hover:underline"
+            >
+              Khám phá Sàn Nông Nghiệp
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {orders.map((order) => {
+              const status = ORDER_STATUS_LABELS[order.status] ?? ORDER_STATUS_LABELS.PENDING;
+              const open = expandedId === order.id;
+              return (
+                <motion.div
+                  key={order.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className={`bg-white rounded-2xl border shadow-sm overflow-hidden ${highlightOrderId === order.id ? 'border-emerald-300' : 'border-slate-200'}`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(open ? null : order.id)}
+                    className="w-full p-5 flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-left"
+                  >
+                    <div>
+                      <div className="text-xs text-slate-400 font-mono">#{order.id.slice(0, 8).toUpperCase()}</div>
+                      <div className="text-sm text-slate-500">{new Date(order.created_at).toLocaleString('vi-VN')}</div>
+                      <div className="text-sm text-slate-700 mt-1">{order.items.length} sản phẩm</div>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <span className={`text-xs font-semibold px-2.5 py-1 rounded-full border ${status.className}`}>{status.label}</span>
+                      <span className="font-bold text-emerald-600">{formatCurrency(order.total)}</span>
+                      <ChevronDown size={18} className={`text-slate-400 transition-transform ${open ? 'rotate-180' : ''}`} />
+                    </div>
+                  </button>
+
+                  {open && (
+                    <div className="border-t border-slate-100 p-5 space-y-4">
+                      {order.sub_orders.map((sub) => {
+                        const subStatus = ORDER_STATUS_LABELS[sub.status] ?? ORDER_STATUS_LABELS.PENDING;
+                        return (
+                          <div key={sub.id} className="rounded-xl border border-slate-100 p-4 space-y-3">
+                            <div className="flex items-center justify-between gap-3">
+                              <div className="text-sm font-semibold text-slate-800">Người bán: {sub.seller_name}</div>
+                              <span className={`text-xs font-semibold px-2 py-0.5 rounded-full border ${subStatus.className}`}>{subStatus.label}</span>
+                            </div>
+                            {sub.items.map((item) => (
+                              <div key={item.product_id} className="flex items-center gap-4">
+                                <div className="w-14 h-14 shrink-0 bg-slate-100 rounded-lg overflow-hidden">
+                                  <img src={item.image} alt={item.title} className="w-full h-full object-cover" />
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                  <div className="font-medium text-slate-900 truncate">{item.title}</div>
+                                  <div className="text-xs text-slate-500">
+                                    {item.quantity} × {formatCurrency(item.price)} / {item.unit}
+                                  </div>
+                                </div>
+                                <div className="font-medium text-slate-900">{formatCurrency(item.line_total)}</div>
+                              </div>
+                            ))}
+                          </div>
+                        );
+                      })}
+
+                      <div className="h-px bg-slate-100" />
+
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                        <div className="text-slate-600">
+                          <div className="font-semibold text-slate-900 mb-1 flex items-center gap-1"><MapPin size={14} /> Giao đến</div>
+                          <div>{order.shipping.name} · {order.shipping.phone}</div>
+                          <div>{order.shipping.address}</div>
+                          {order.note && <div className="mt-1 italic text-slate-500">“{order.note}”</div>}
+                        </div>
+                        <div className="space-y-1">
+                          <div className="flex justify-between text-slate-600"><span>Tạm tính</span><span>{formatCurrency(order.subtotal)}</span></div>
+                          <div className="flex justify-between text-slate-600"><span>Vận chuyển</span><span>{formatCurrency(order.shipping_fee)}</span></div>
+                          <div className="flex justify-between font-bold text-slate-900"><span>Tổng cộng</span><span className="text-emerald-600">{formatCurrency(order.total)}</span></div>
+                          <div className="flex items-center gap-1 text-emerald-700 text-xs pt-1">
+                            <Leaf size={12} /> Giảm khoảng {order.total_co2_savings_kg} kg CO₂e
+                          </div>
+                        </div>
+                      </div>
+
+                      {order.sub_orders.some((sub) => sub.status === 'PENDING') && (
+                        <div className="flex justify-end">
+                          <button
+                            type="button"
+                            onClick={() => cancelOrder(order.id)}
+                            disabled={cancellingId === order.id}
+                            className="px-4 py-2 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+                          >
+                            {cancellingId === order.id ? <Loader2 className="animate-spin" size={16} /> : 'Hủy đơn'}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -12,11 +12,17 @@ import {
     Truck,
     Shield,
     Clock,
+    ChevronLeft,
     ChevronRight,
-    User
+    User,
+    Flag
 } from 'lucide-react';
-import { motion } from 'framer-motion';
+import { motion, AnimatePresence } from 'framer-motion';
 import { getApiUrl } from '@/utils/api';
+import { setProductSaved } from '@/utils/wishlist';
+import OptimizedImage from '../ui/OptimizedImage';
+import type { ProductImage } from '../ui/ImageUploader';
+import ReportDialog from '../ui/ReportDialog';
 
 // Re-use Product type from MarketplacePage
 export interface Product {
@@ -27,9 +33,18 @@ export interface Product {
     category: string;
     location: string;
     image: string;
+    images?: ProductImage[];
+    seller_id?: string;
     seller_name: string;
     seller_avatar?: string;
     co2_savings_kg: number;
+    stock_quantity: number;
+    min_order_quantity: number;
+    status?: 'DRAFT' | 'ACTIVE' | 'SOLD_OUT' | 'ARCHIVED';
+    rating_avg?: number;
+    rating_count?: number;
+    seller_rating?: { average: number; count: number };
+    saved?: boolean;
     description?: string;
     posted_at: string;
 }
@@ -38,7 +53,8 @@ interface ProductDetailPageProps {
     productId: string;
     user: { id: string; name: string } | null;
     onBack: () => void;
-    onAddToCart: (product: Product) => void;
+    onAddToCart: (product: Product, quantity?: number) => void;
+    onContactSeller: (product: Product) => void;
     onLoginRequest: () => void;
 }
 
@@ -47,6 +63,7 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
     user,
     onBack,
     onAddToCart,
+    onContactSeller,
     onLoginRequest
 }) => {
     const [product, setProduct] = useState<Product | null>(null);
@@ -54,7 +71,9 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
     const [error, setError] = useState<string | null>(null);
     const [quantity, setQuantity] = useState(1);
     const [isWishlisted, setIsWishlisted] = useState(false);
+    const [activeImage, setActiveImage] = useState(0);
     const [relatedProducts, setRelatedProducts] = useState<Product[]>([]);
+    const [reporting, setReporting] = useState(false);
 
     // Fetch product details
     useEffect(() => {
@@ -69,8 +88,11 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
             })
             .then((data) => {
                 setProduct(data.product);
+                setActiveImage(0);
+                setIsWishlisted(!!data.product.saved);
+                setQuantity(Math.max(1, data.product.min_order_quantity || 1));
                 // Fetch related products after getting the main product
-                return fetch(getApiUrl(`products?category=${encodeURIComponent(data.product.category)}&limit=4`), { signal: controller.signal });
+                return fetch(getApiUrl(`products?category=${encodeURIComponent(data.product.category)}&take=4`), { signal: controller.signal });
             })
             .then(async (r) => {
                 if (r.ok) {
@@ -104,12 +126,30 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
             return;
         }
         if (product) {
-            for (let i = 0; i < quantity; i++) {
-                onAddToCart(product);
-            }
+            onAddToCart(product, quantity);
         }
     };
 
+    const toggleWishlist = async () => {
+        if (!user) {
+            onLoginRequest();
+            return;
+        }
+        const next = !isWishlisted;
+        setIsWishlisted(next);
+        try {
+            await setProductSaved(productId, next);
+        } catch (err: any) {
+            setIsWishlisted(!next);
+            alert(err?.message ?? 'Có lỗi xảy ra');
+        }
+    };
+
+    const minQuantity = Math.max(1, product?.min_order_quantity || 1);
+    const maxQuantity = product?.stock_quantity ?? 0;
+    // Drafts are only reachable by their seller; treat them like unavailable stock.
+    const outOfStock = maxQuantity <= 0 || (product?.status !== undefined && product.status !== 'ACTIVE');
+
     if (loading) {
         return (
             <div className="min-h-screen bg-slate-50 flex items-center justify-center">
@@ -142,6 +182,9 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
         );
     }
 
+    // Listings created with a pasted URL have no uploaded gallery
+    const gallery = product.images ?? [];
+
     return (
         <div className="min-h-screen bg-slate-50 select-none">
             {/* Breadcrumb / Back Navigation */}
@@ -169,11 +212,35 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
                         <div className="sticky top-24">
                             {/* Main Image */}
                             <div className="relative aspect-square rounded-3xl overflow-hidden bg-slate-100 shadow-lg">
-                                <img
-                                    src={product.image}
+                                <OptimizedImage
+                                    key={gallery[activeImage]?.id ?? product.image}
+                                    src={gallery[activeImage]?.url ?? product.image}
+                                    sources={gallery[activeImage]?.variants}
+                                    sizes="(min-width: 1024px) 50vw, 100vw"
                                     alt={product.title}
-                                    className="w-full h-full object-cover"
+                                    lazy={false}
+                                    className="w-full h-full"
                                 />
+                                {gallery.length > 1 && (
+                                    <>
+                                        <button
+                                            onClick={() => setActiveImage((i) => (i - 1 + gallery.length) % gallery.length)}
+                                            aria-label="Ảnh trước"
+                                            title="Ảnh trước"
+                                            className="absolute left-3 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/80 backdrop-blur text-slate-700 hover:bg-white shadow"
+                                        >
+                                            <ChevronLeft size={20} />
+                                        </button>
+                                        <button
+                                            onClick={() => setActiveImage((i) => (i + 1) % gallery.length)}
+                                            aria-label="Ảnh tiếp theo"
+                                            title="Ảnh tiếp theo"
+                                            className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/80 backdrop-blur text-slate-700 hover:bg-white shadow"
+                                        >
+                                            <ChevronRight size={20} />
+                                        </button>
+                                    </>
+                                )}
                                 {/* Category Badge */}
                                 <div className="absolute top-4 left-4 bg-white/90 backdrop-blur px-3 py-1.5 rounded-full text-sm font-semibold text-slate-700 shadow-sm">
                                     {product.category}
@@ -185,7 +252,9 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
                                 </div>
                                 {/* Wishlist Button */}
                                 <button
-                                    onClick={() => setIsWishlisted(!isWishlisted)}
+                                    onClick={toggleWishlist}
+                                    aria-label={isWishlisted ? 'Bỏ lưu' : 'Lưu sản phẩm'}
+                                    title={isWishlisted ? 'Bỏ lưu' : 'Lưu sản phẩm'}
                                     className={`absolute bottom-4 right-4 p-3 rounded-full shadow-lg transition-all ${isWishlisted
                                         ? 'bg-red-500 text-white'
                                         : 'bg-white/90 backdrop-blur text-slate-600 hover:text-red-500'
@@ -195,15 +264,27 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
                                 </button>
                             </div>
 
-                            {/* Thumbnail placeholder - for future multi-image support */}
-                            <div className="mt-4 flex gap-3">
-                                <div className="w-20 h-20 rounded-xl overflow-hidden border-2 border-emerald-500">
-                                    <img src={product.image} alt="" className="w-full h-full object-cover" />
-                                </div>
-                                <div className="w-20 h-20 rounded-xl bg-slate-100 flex items-center justify-center text-slate-400 border-2 border-dashed border-slate-200">
-                                    <span className="text-xs">+Thêm</span>
+                            {/* Thumbnails */}
+                            {gallery.length > 1 && (
+                                <div className="mt-4 flex gap-3 overflow-x-auto pb-1">
+                                    {gallery.map((image, index) => (
+                                        <button
+                                            key={image.id}
+                                            onClick={() => setActiveImage(index)}
+                                            aria-label={`Xem ảnh ${index + 1}`}
+                                            className={`w-20 h-20 shrink-0 rounded-xl overflow-hidden border-2 transition-colors ${index === activeImage ? 'border-emerald-500' : 'border-transparent hover:border-slate-300'}`}
+                                        >
+                                            <OptimizedImage
+                                                src={image.url}
+                                                sources={image.variants}
+                                                sizes="80px"
+                                                alt=""
+                                                className="w-full h-full"
+                                            />
+                                        </button>
+                                    ))}
                                 </div>
-                            </div>
+                            )}
                         </div>
                     </motion.div>
 
@@ -228,6 +309,13 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
                                     <Clock size={14} />
                                     {formatDate(product.posted_at)}
                                 </span>
+                                {(product.rating_count ?? 0) > 0 && (
+                                    <span className="flex items-center gap-1 text-amber-500">
+                                        <Star size={14} fill="currentColor" />
+                                        {product.rating_avg?.toFixed(1)}
+                                        <span className="text-slate-400">({product.rating_count})</span>
+                                    </span>
+                                )}
                             </div>
                         </div>
 
@@ -242,6 +330,20 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
                             <p className="text-sm text-slate-600 mt-2">
                                 💡 Giá có thể thương lượng cho đơn hàng lớn
                             </p>
+                            <div className="mt-3 flex flex-wrap gap-2 text-sm">
+                                {outOfStock ? (
+                                    <span className="px-3 py-1 rounded-full bg-red-100 text-red-700 font-semibold">Hết hàng</span>
+                                ) : (
+                                    <span className="px-3 py-1 rounded-full bg-white text-emerald-700 font-medium border border-emerald-100">
+                                        Còn lại {product.stock_quantity} {product.unit}
+                                    </span>
+                                )}
+                                {minQuantity > 1 && (
+                                    <span className="px-3 py-1 rounded-full bg-white text-slate-600 border border-slate-200">
+                                        Đặt tối thiểu {minQuantity} {product.unit}
+                                    </span>
+                                )}
+                            </div>
                         </div>
 
                         {/* Seller Info */}
@@ -258,8 +360,14 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
                                         </div>
                                         <div className="flex items-center gap-1 text-sm text-amber-500">
                                             <Star size={14} fill="currentColor" />
-                                            <span className="font-medium">4.8</span>
-                                            <span className="text-slate-400">(24 đánh giá)</span>
+                                            {product.seller_rating && product.seller_rating.count > 0 ? (
+                                                <>
+                                                    <span className="font-medium">{product.seller_rating.average.toFixed(1)}</span>
+                                                    <span className="text-slate-400">({product.seller_rating.count} đánh giá)</span>
+                                                </>
+                                            ) : (
+                                                <span className="text-slate-400">Chưa có đánh giá</span>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
@@ -276,15 +384,17 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
                                 <span className="text-sm font-medium text-slate-700">Số lượng:</span>
                                 <div className="flex items-center border border-slate-200 rounded-full">
                                     <button
-                                        onClick={() => setQuantity(Math.max(1, quantity - 1))}
-                                        className="w-10 h-10 flex items-center justify-center text-slate-600 hover:bg-slate-100 rounded-l-full"
+                                        onClick={() => setQuantity(Math.max(minQuantity, quantity - 1))}
+                                        disabled={outOfStock || quantity <= minQuantity}
+                                        className="w-10 h-10 flex items-center justify-center text-slate-600 hover:bg-slate-100 rounded-l-full disabled:opacity-40"
                                     >
                                         -
                                     </button>
                                     <span className="w-12 text-center font-medium">{quantity}</span>
                                     <button
-                                        onClick={() => setQuantity(quantity + 1)}
-                                        className="w-10 h-10 flex items-center justify-center text-slate-600 hover:bg-slate-100 rounded-r-full"
+                                        onClick={() => setQuantity(Math.min(maxQuantity, quantity + 1))}
+                                        disabled={outOfStock || quantity >= maxQuantity}
+                                        className="w-10 h-10 flex items-center justify-center text-slate-600 hover:bg-slate-100 rounded-r-full disabled:opacity-40"
                                     >
                                         +
                                     </button>
@@ -295,17 +405,35 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
                             <div className="flex gap-3">
                                 <button
                                     onClick={handleAddToCart}
-                                    className="flex-1 flex items-center justify-center gap-2 px-6 py-4 bg-gradient-to-r from-emerald-600 to-teal-600 text-white rounded-2xl font-semibold hover:from-emerald-700 hover:to-teal-700 transition-all shadow-lg hover:shadow-emerald-500/30"
+                                    disabled={outOfStock}
+                                    className="flex-1 flex items-center justify-center gap-2 px-6 py-4 bg-gradient-to-r from-emerald-600 to-teal-600 text-white rounded-2xl font-semibold hover:from-emerald-700 hover:to-teal-700 transition-all shadow-lg hover:shadow-emerald-500/30 disabled:from-slate-300 disabled:to-slate-300 disabled:shadow-none disabled:cursor-not-allowed"
                                 >
                                     <ShoppingCart size={20} />
-                                    Thêm vào giỏ hàng
-                                </button>
-                                <button className="flex items-center justify-center gap-2 px-4 py-4 bg-white border-2 border-slate-200 text-slate-700 rounded-2xl font-medium hover:border-emerald-300 hover:bg-emerald-50 transition-all">
-                                    <MessageCircle size={20} />
+                                    {outOfStock ? 'Hết hàng' : 'Thêm vào giỏ hàng'}
                                 </button>
+                                {product.seller_id !== user?.id && (
+                                    <button
+                                        onClick={() => (user ? onContactSeller(product) : onLoginRequest())}
+                                        title="Liên hệ người bán"
+                                        className="flex items-center justify-center gap-2 px-4 py-4 bg-white border-2 border-slate-200 text-slate-700 rounded-2xl font-medium hover:border-emerald-300 hover:bg-emerald-50 transition-all"
+                                    >
+                                        <MessageCircle size={20} />
+                                        <span className="hidden sm:inline">Liên hệ người bán</span>
+                                    </button>
+                                )}
                                 <button className="flex items-center justify-center gap-2 px-4 py-4 bg-white border-2 border-slate-200 text-slate-700 rounded-2xl font-medium hover:border-emerald-300 hover:bg-emerald-50 transition-all">
                                     <Share2 size={20} />
                                 </button>
+                                {product.seller_id !== user?.id && (
+                                    <button
+                                        onClick={() => (user ? setReporting(true) : onLoginRequest())}
+                                        title="Báo cáo tin đăng"
+                                        aria-label="Báo cáo tin đăng"
+                                        className="flex items-center justify-center gap-2 px-4 py-4 bg-white border-2 border-slate-200 text-slate-500 rounded-2xl font-medium hover:border-red-300 hover:bg-red-50 hover:text-red-600 transition-all"
+                                    >
+                                        <Flag size={20} />
+                                    </button>
+                                )}
                             </div>
                         </div>
 
@@ -356,6 +484,9 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
                     </motion.div>
                 </div>
 
+                {/* Reviews */}
+                <ReviewsSection productId={product.id} user={user} onLoginRequest={onLoginRequest} />
+
                 {/* Related Products */}
                 {relatedProducts.length > 0 && (
                     <motion.div
@@ -396,6 +527,215 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
                     </motion.div>
                 )}
             </div>
+
+            <AnimatePresence>
+                {reporting && (
+                    <ReportDialog targetType="products" targetId={product.id} onClose={() => setReporting(false)} />
+                )}
+            </AnimatePresence>
         </div>
     );
 };
+
+// --- Sub-components ---
+
+interface Review {
+    id: string;
+    rating: number;
+    comment?: string;
+    author_name: string;
+    created_at: string;
+    posted_at: string;
+}
+
+interface ReviewSummary {
+    average: number;
+    count: number;
+    distribution: Record<number, number>;
+}
+
+const StarRating: React.FC<{ value: number; size?: number }> = ({ value, size = 16 }) => (
+    <div className="flex items-center gap-0.5 text-amber-400">
+        {[1, 2, 3, 4, 5].map((i) => (
+            <Star key={i} size={size} fill={i <= Math.round(value) ? 'currentColor' : 'none'} className={i <= Math.round(value) ? '' : 'text-slate-300'} />
+        ))}
+    </div>
+);
+
+const ReviewsSection: React.FC<{
+    productId: string;
+    user: { id: string; name: string } | null;
+    onLoginRequest: () => void;
+}> = ({ productId, user, onLoginRequest }) => {
+    const [reviews, setReviews] = useState<Review[]>([]);
+    const [summary, setSummary] = useState<ReviewSummary | null>(null);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [canReview, setCanReview] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [rating, setRating] = useState(5);
+    const [comment, setComment] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    const loadReviews = async (cursor?: string, signal?: AbortSignal) => {
+        const qs = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+        const r = await fetch(getApiUrl(`products/${productId}/reviews${qs}`), { signal, cache: 'no-store' });
+        if (!r.ok) throw new Error(`HTTP ${r.status}`);
+        const data = (await r.json()) as {
+            reviews: Review[];
+            nextCursor: string | null;
+            summary: ReviewSummary;
+            can_review: boolean;
+        };
+        setReviews((prev) => (cursor ? [...prev, ...data.reviews] : data.reviews));
+        setNextCursor(data.nextCursor);
+        setSummary(data.summary);
+        setCanReview(data.can_review);
+    };
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setLoading(true);
+        loadReviews(undefined, controller.signal)
+            .catch(() => undefined)
+            .finally(() => setLoading(false));
+        return () => controller.abort();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [productId, user?.id]);
+
+    const submitReview = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        setFormError(null);
+        try {
+            const res = await fetch(getApiUrl(`products/${productId}/reviews`), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ rating, comment: comment.trim() || undefined }),
+            });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Không gửi được đánh giá');
+            setComment('');
+            await loadReviews();
+        } catch (err: any) {
+            setFormError(err?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const count = summary?.count ?? 0;
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.2 }}
+            className="mt-16 bg-white rounded-2xl p-6 border border-slate-100 shadow-sm"
+        >
+            <h2 className="text-xl font-bold text-slate-900 mb-6">Đánh giá sản phẩm</h2>
+
+            {loading ? (
+                <p className="text-slate-500 text-sm">Đang tải đánh giá...</p>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+                    {/* Summary & star distribution */}
+                    <div>
+                        <div className="flex items-end gap-2 mb-2">
+                            <span className="text-4xl font-bold text-slate-900">{count > 0 ? summary!.average.toFixed(1) : '–'}</span>
+                            <span className="text-slate-500 mb-1">/ 5</span>
+                        </div>
+                        <StarRating value={summary?.average ?? 0} size={18} />
+                        <p className="text-sm text-slate-500 mt-1">{count} đánh giá</p>
+
+                        <div className="mt-4 space-y-1.5">
+                            {[5, 4, 3, 2, 1].map((star) => {
+                                const n = summary?.distribution[star] ?? 0;
+                                const pct = count > 0 ? Math.round((n / count) * 100) : 0;
+                                return (
+                                    <div key={star} className="flex items-center gap-2 text-sm">
+                                        <span className="w-3 text-slate-600">{star}</span>
+                                        <Star size={12} className="text-amber-400" fill="currentColor" />
+                                        <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                                            <div className="h-full bg-amber-400 rounded-full" style={{ width: `${pct}%` }} />
+                                        </div>
+                                        <span className="w-8 text-right text-slate-400">{n}</span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    {/* Form & list */}
+                    <div className="md:col-span-2 space-y-6">
+                        {!user ? (
+                            <button onClick={onLoginRequest} className="text-sm text-emerald-600 font-medium hover:underline">
+                                Đăng nhập để đánh giá sản phẩm bạn đã mua
+                            </button>
+                        ) : canReview ? (
+                            <form onSubmit={submitReview} className="rounded-xl border border-slate-200 p-4 space-y-3">
+                                <div className="flex items-center gap-1">
+                                    {[1, 2, 3, 4, 5].map((i) => (
+                                        <button
+                                            key={i}
+                                            type="button"
+                                            onClick={() => setRating(i)}
+                                            className="text-amber-400"
+                                            aria-label={`${i} sao`}
+                                        >
+                                            <Star size={24} fill={i <= rating ? 'currentColor' : 'none'} />
+                                        </button>
+                                    ))}
+                                </div>
+                                <textarea
+                                    rows={3}
+                                    maxLength={1000}
+                                    placeholder="Chia sẻ trải nghiệm của bạn về sản phẩm và người bán..."
+                                    className="w-full border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
+                                    value={comment}
+                                    onChange={(e) => setComment(e.target.value)}
+                                />
+                                {formError && <p className="text-sm text-red-600">{formError}</p>}
+                                <div className="flex justify-end">
+                                    <button
+                                        type="submit"
+                                        disabled={submitting}
+                                        className="px-5 py-2 rounded-lg bg-emerald-600 text-white font-medium hover:bg-emerald-700 transition-colors disabled:opacity-50"
+                                    >
+                                        {submitting ? 'Đang gửi...' : 'Gửi đánh giá'}
+                                    </button>
+                                </div>
+                            </form>
+                        ) : null}
+
+                        {reviews.length === 0 ? (
+                            <p className="text-slate-500 text-sm">Chưa có đánh giá nào cho sản phẩm này.</p>
+                        ) : (
+                            <div className="divide-y divide-slate-100">
+                                {reviews.map((r) => (
+                                    <div key={r.id} className="py-4 first:pt-0">
+                                        <div className="flex items-center justify-between gap-3 mb-1">
+                                            <span className="font-medium text-slate-900">{r.author_name}</span>
+                                            <span className="text-xs text-slate-400">{r.posted_at}</span>
+                                        </div>
+                                        <StarRating value={r.rating} size={14} />
+                                        {r.comment && <p className="text-slate-600 text-sm mt-2 whitespace-pre-wrap">{r.comment}</p>}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {nextCursor && (
+                            <button
+                                onClick={() => loadReviews(nextCursor).catch(() => undefined)}
+                                className="text-sm text-emerald-600 font-medium hover:underline"
+                            >
+                                Xem thêm đánh giá
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </motion.div>
+    );
+};
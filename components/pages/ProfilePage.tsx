@@ -1,12 +1,16 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import QRCode from 'qrcode';
-import { Loader2, ShieldCheck, ShieldOff, Copy, Check, ArrowLeft, ChevronDown, User as UserIcon, KeyRound } from 'lucide-react';
+import { Loader2, ShieldCheck, ShieldOff, Copy, Check, ArrowLeft, ChevronDown, User as UserIcon, KeyRound, Store, PackageOpen, Heart, ShoppingCart, Trash2, MonitorSmartphone, LogOut, Fingerprint, Pencil, Plus } from 'lucide-react';
+import { browserSupportsWebAuthn, startRegistration } from '@simplewebauthn/browser';
 import { getApiUrl } from '@/utils/api';
+import { setProductSaved } from '@/utils/wishlist';
+import type { Product } from './MarketplacePage';
 
 type TotpStatusResponse = {
     totpEnabled: boolean;
     hasSecret: boolean;
+    recoveryCodesRemaining: number;
 };
 
 type TotpSetupResponse = {
@@ -16,6 +20,49 @@ type TotpSetupResponse = {
     account: string;
 };
 
+type DeviceSession = {
+    id: string;
+    ip: string | null;
+    userAgent: string | null;
+    createdAt: string;
+    lastSeenAt: string;
+    current: boolean;
+};
+
+type Passkey = {
+    id: string;
+    name: string;
+    backedUp: boolean;
+    createdAt: string;
+    lastUsedAt: string | null;
+};
+
+type ProfileSection = 'profile' | 'saved' | 'security' | 'passkeys' | 'devices';
+
+const formatCurrency = (val: number) => {
+    return new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(val);
+};
+
+// "Chrome trên Windows" from a user-agent string; good enough to recognise a device.
+function describeUserAgent(ua: string | null) {
+    if (!ua) return 'Thiết bị không xác định';
+    const browser =
+        /Edg\//.test(ua) ? 'Edge'
+            : /OPR\/|Opera/.test(ua) ? 'Opera'
+                : /Firefox\//.test(ua) ? 'Firefox'
+                    : /Chrome\//.test(ua) ? 'Chrome'
+                        : /Safari\//.test(ua) ? 'Safari'
+                            : 'Trình duyệt khác';
+    const os =
+        /Windows/.test(ua) ? 'Windows'
+            : /Android/.test(ua) ? 'Android'
+                : /iPhone|iPad|iPod/.test(ua) ? 'iOS'
+                    : /Mac OS X|Macintosh/.test(ua) ? 'macOS'
+                        : /Linux/.test(ua) ? 'Linux'
+                            : 'hệ điều hành khác';
+    return `${browser} trên ${os}`;
+}
+
 function maskSecret(secret: string) {
     if (secret.length <= 8) return secret;
     return `${secret.slice(0, 4)}…${secret.slice(-4)}`;
@@ -25,15 +72,21 @@ export const ProfilePage = ({
     user,
     onBack,
     onUserUpdated,
+    onOpenSales,
+    onOpenProducts,
+    onMoveToCart,
 }: {
     user: { id: string; name: string; email: string };
     onBack: () => void;
-    onUserUpdated?: (user: { id: string; name: string; email: string }) => void;
+    onUserUpdated?: (user: { id: string; name: string; email: string; emailVerified?: boolean }) => void;
+    onOpenSales?: () => void;
+    onOpenProducts?: () => void;
+    onMoveToCart?: (product: Product) => Promise<boolean>;
 }) => {
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState<string | null>(null);
 
-    const [openSection, setOpenSection] = useState<'profile' | 'security'>('profile');
+    const [openSection, setOpenSection] = useState<ProfileSection>('profile');
 
     const [profileLoading, setProfileLoading] = useState(false);
     const [savingProfile, setSavingProfile] = useState(false);
@@ -43,6 +96,8 @@ export const ProfilePage = ({
 
     const [passwordLoading, setPasswordLoading] = useState(false);
     const [currentPassword, setCurrentPassword] = useState('');
+    // False for social-login accounts that never set a password
+    const [hasPassword, setHasPassword] = useState(true);
     const [newPassword, setNewPassword] = useState('');
     const [confirmPassword, setConfirmPassword] = useState('');
     const [passwordTotpCode, setPasswordTotpCode] = useState('');
@@ -55,6 +110,30 @@ export const ProfilePage = ({
     const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
     const [code, setCode] = useState('');
 
+    // Freshly generated recovery codes, shown once
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [recoveryRemaining, setRecoveryRemaining] = useState(0);
+    // Disabling TOTP or regenerating codes asks for a TOTP or recovery code first
+    const [factorAction, setFactorAction] = useState<'disable' | 'regenerate' | null>(null);
+    const [factorCode, setFactorCode] = useState('');
+
+    const [savedProducts, setSavedProducts] = useState<Product[]>([]);
+    const [savedLoading, setSavedLoading] = useState(false);
+    const [savedBusyId, setSavedBusyId] = useState<string | null>(null);
+
+    const [sessions, setSessions] = useState<DeviceSession[]>([]);
+    const [sessionsLoading, setSessionsLoading] = useState(false);
+    const [sessionBusyId, setSessionBusyId] = useState<string | null>(null);
+
+    const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+    const [passkeysLoading, setPasskeysLoading] = useState(false);
+    const [passkeyBusyId, setPasskeyBusyId] = useState<string | null>(null);
+    const [passkeySupported] = useState(() => browserSupportsWebAuthn());
+    // Adding a passkey asks for the password and TOTP code again
+    const [passkeyReauth, setPasskeyReauth] = useState(false);
+    const [passkeyPassword, setPasskeyPassword] = useState('');
+    const [passkeyCode, setPasskeyCode] = useState('');
+
     const jsonHeaders = useMemo(() => ({ 'Content-Type': 'application/json' }), []);
 
     const AccordionItem = ({
@@ -63,7 +142,7 @@ export const ProfilePage = ({
         icon,
         children,
     }: {
-        id: 'profile' | 'security';
+        id: ProfileSection;
         title: string;
         icon: React.ReactNode;
         children: React.ReactNode;
@@ -119,6 +198,7 @@ export const ProfilePage = ({
             const parsed = data as TotpStatusResponse;
             setTotpEnabled(parsed.totpEnabled);
             setHasSecret(parsed.hasSecret);
+            setRecoveryRemaining(parsed.recoveryCodesRemaining ?? 0);
         } catch (e: any) {
             setError(e?.message ?? 'Có lỗi xảy ra');
         } finally {
@@ -138,12 +218,20 @@ export const ProfilePage = ({
             });
             const data = (await res.json()) as any;
             if (!res.ok) throw new Error(data?.error ?? 'Không tải được hồ sơ');
-            const u = data?.user as { id: string; name: string; email: string; createdAt?: string };
+            const u = data?.user as {
+                id: string;
+                name: string;
+                email: string;
+                createdAt?: string;
+                emailVerified?: boolean;
+                hasPassword?: boolean;
+            };
             if (u?.name) setProfileName(u.name);
+            if (typeof u?.hasPassword === 'boolean') setHasPassword(u.hasPassword);
             if (u?.email) setProfileEmail(u.email);
             if (u?.createdAt) setProfileCreatedAt(u.createdAt);
             if (u?.id && u?.name && u?.email) {
-                onUserUpdated?.({ id: u.id, name: u.name, email: u.email });
+                onUserUpdated?.({ id: u.id, name: u.name, email: u.email, emailVerified: !!u.emailVerified });
             }
         } catch (e: any) {
             if (e?.name !== 'AbortError') {
@@ -156,6 +244,223 @@ export const ProfilePage = ({
         return () => controller.abort();
     };
 
+    useEffect(() => {
+        if (openSection !== 'saved') return;
+        const controller = new AbortController();
+        setSavedLoading(true);
+
+        fetch(getApiUrl('wishlist'), { signal: controller.signal, cache: 'no-store' })
+            .then(async (r) => {
+                const data = (await r.json()) as any;
+                if (!r.ok) throw new Error(data?.error ?? 'Không tải được sản phẩm đã lưu');
+                return data as { items: { product: Product }[] };
+            })
+            .then((data) => setSavedProducts(Array.isArray(data.items) ? data.items.map((i) => i.product) : []))
+            .catch((e: any) => {
+                if (e?.name !== 'AbortError') setError(e?.message ?? 'Có lỗi xảy ra');
+            })
+            .finally(() => setSavedLoading(false));
+
+        return () => controller.abort();
+    }, [openSection]);
+
+    const loadSessions = async () => {
+        setSessionsLoading(true);
+        try {
+            const res = await fetch(getApiUrl('auth/sessions'), { cache: 'no-store' });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Không tải được danh sách thiết bị');
+            setSessions(Array.isArray(data?.sessions) ? data.sessions : []);
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setSessionsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (openSection === 'devices') loadSessions();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [openSection]);
+
+    const loadPasskeys = async () => {
+        setPasskeysLoading(true);
+        try {
+            const res = await fetch(getApiUrl('auth/passkeys'), { cache: 'no-store' });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Không tải được danh sách passkey');
+            setPasskeys(Array.isArray(data?.passkeys) ? data.passkeys : []);
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setPasskeysLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (openSection === 'passkeys') loadPasskeys();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [openSection]);
+
+    const addPasskey = async () => {
+        if ((hasPassword || totpEnabled) && !passkeyReauth) {
+            setPasskeyReauth(true);
+            return;
+        }
+        setPasskeyBusyId('new');
+        setError(null);
+        setSuccess(null);
+        try {
+            const optionsRes = await fetch(getApiUrl('auth/passkeys/register/options'), {
+                method: 'POST',
+                headers: jsonHeaders,
+                body: JSON.stringify({
+                    ...(hasPassword ? { password: passkeyPassword } : {}),
+                    ...(totpEnabled ? { code: passkeyCode } : {}),
+                }),
+            });
+            const optionsData = (await optionsRes.json()) as any;
+            if (!optionsRes.ok) throw new Error(optionsData?.error ?? 'Không tạo được passkey');
+            setPasskeyReauth(false);
+            setPasskeyPassword('');
+            setPasskeyCode('');
+
+            let response;
+            try {
+                response = await startRegistration({ optionsJSON: optionsData.options });
+            } catch (e: any) {
+                // Closing the browser dialog is not an error worth showing
+                if (e?.name === 'NotAllowedError') return;
+                if (e?.name === 'InvalidStateError') throw new Error('Thiết bị này đã có passkey cho tài khoản.');
+                throw e;
+            }
+
+            const res = await fetch(getApiUrl('auth/passkeys/register/verify'), {
+                method: 'POST',
+                headers: jsonHeaders,
+                body: JSON.stringify({
+                    challengeId: optionsData.challengeId,
+                    response,
+                    name: describeUserAgent(navigator.userAgent),
+                }),
+            });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Không đăng ký được passkey');
+            setPasskeys((prev) => [data.passkey as Passkey, ...prev]);
+            setSuccess('Đã thêm passkey. Lần sau bạn có thể đăng nhập bằng vân tay, khuôn mặt hoặc mã PIN của thiết bị.');
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setPasskeyBusyId(null);
+        }
+    };
+
+    const renamePasskey = async (passkey: Passkey) => {
+        const name = window.prompt('Tên passkey', passkey.name)?.trim();
+        if (!name || name === passkey.name) return;
+
+        setPasskeyBusyId(passkey.id);
+        setError(null);
+        setSuccess(null);
+        try {
+            const res = await fetch(getApiUrl(`auth/passkeys/${passkey.id}`), {
+                method: 'PATCH',
+                headers: jsonHeaders,
+                body: JSON.stringify({ name: name.slice(0, 60) }),
+            });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Không đổi được tên passkey');
+            setPasskeys((prev) => prev.map((p) => (p.id === passkey.id ? { ...p, name: name.slice(0, 60) } : p)));
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setPasskeyBusyId(null);
+        }
+    };
+
+    const deletePasskey = async (passkey: Passkey) => {
+        if (!window.confirm(`Xóa passkey "${passkey.name}"? Thiết bị này sẽ không đăng nhập bằng passkey được nữa.`)) return;
+
+        setPasskeyBusyId(passkey.id);
+        setError(null);
+        setSuccess(null);
+        try {
+            const res = await fetch(getApiUrl(`auth/passkeys/${passkey.id}`), { method: 'DELETE' });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Không xóa được passkey');
+            setPasskeys((prev) => prev.filter((p) => p.id !== passkey.id));
+            setSuccess('Đã xóa passkey.');
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setPasskeyBusyId(null);
+        }
+    };
+
+    const revokeDevice = async (sessionId: string) => {
+        setSessionBusyId(sessionId);
+        setError(null);
+        setSuccess(null);
+        try {
+            const res = await fetch(getApiUrl(`auth/sessions/${sessionId}`), { method: 'DELETE' });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Không đăng xuất được thiết bị');
+            setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+            setSuccess('Đã đăng xuất thiết bị.');
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setSessionBusyId(null);
+        }
+    };
+
+    const revokeOtherDevices = async () => {
+        setSessionBusyId('others');
+        setError(null);
+        setSuccess(null);
+        try {
+            const res = await fetch(getApiUrl('auth/sessions/revoke-others'), { method: 'POST' });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Không đăng xuất được các thiết bị khác');
+            setSessions((prev) => prev.filter((s) => s.current));
+            setSuccess(`Đã đăng xuất ${data?.revokedSessions ?? 0} thiết bị khác.`);
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setSessionBusyId(null);
+        }
+    };
+
+    const removeSaved = async (productId: string) => {
+        setSavedBusyId(productId);
+        setError(null);
+        try {
+            await setProductSaved(productId, false);
+            setSavedProducts((prev) => prev.filter((p) => p.id !== productId));
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setSavedBusyId(null);
+        }
+    };
+
+    const moveSavedToCart = async (product: Product) => {
+        if (!onMoveToCart) return;
+        setSavedBusyId(product.id);
+        setError(null);
+        try {
+            // Only unsave once the cart accepted it (stock / minimum order may refuse).
+            if (await onMoveToCart(product)) {
+                await setProductSaved(product.id, false);
+                setSavedProducts((prev) => prev.filter((p) => p.id !== product.id));
+            }
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setSavedBusyId(null);
+        }
+    };
+
     useEffect(() => {
         loadStatus();
         loadMe();
@@ -186,9 +491,9 @@ export const ProfilePage = ({
             const data = (await res.json()) as any;
             if (!res.ok) throw new Error(data?.error ?? 'Không lưu được hồ sơ');
 
-            const u = data?.user as { id: string; name: string; email: string; createdAt?: string };
+            const u = data?.user as { id: string; name: string; email: string; createdAt?: string; emailVerified?: boolean };
             if (u?.id && u?.name && u?.email) {
-                onUserUpdated?.({ id: u.id, name: u.name, email: u.email });
+                onUserUpdated?.({ id: u.id, name: u.name, email: u.email, emailVerified: !!u.emailVerified });
                 setProfileName(u.name);
                 setProfileEmail(u.email);
             }
@@ -249,6 +554,9 @@ export const ProfilePage = ({
             setSetup(null);
             setQrDataUrl(null);
             setCode('');
+            const codes = Array.isArray(data?.recoveryCodes) ? (data.recoveryCodes as string[]) : [];
+            setRecoveryCodes(codes);
+            setRecoveryRemaining(codes.length);
             setSuccess('Đã bật TOTP thành công. Lần sau đăng nhập sẽ yêu cầu mã TOTP.');
         } catch (e: any) {
             setError(e?.message ?? 'Có lỗi xảy ra');
@@ -266,11 +574,16 @@ export const ProfilePage = ({
             const res = await fetch(getApiUrl('auth/totp/disable'), {
                 method: 'POST',
                 headers: jsonHeaders,
+                body: JSON.stringify({ code: factorCode }),
             });
             const data = (await res.json()) as any;
             if (!res.ok) throw new Error(data?.error ?? 'Không tắt được TOTP');
 
             setTotpEnabled(false);
+            setRecoveryCodes(null);
+            setRecoveryRemaining(0);
+            setFactorAction(null);
+            setFactorCode('');
             setSuccess('Đã tắt TOTP.');
         } catch (e: any) {
             setError(e?.message ?? 'Có lỗi xảy ra');
@@ -279,9 +592,46 @@ export const ProfilePage = ({
         }
     };
 
+    const regenerateRecoveryCodes = async () => {
+        setTotpLoading(true);
+        setError(null);
+        setSuccess(null);
+
+        try {
+            const res = await fetch(getApiUrl('auth/totp/recovery-codes'), {
+                method: 'POST',
+                headers: jsonHeaders,
+                body: JSON.stringify({ code: factorCode }),
+            });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Không tạo được mã khôi phục');
+
+            const codes = Array.isArray(data?.recoveryCodes) ? (data.recoveryCodes as string[]) : [];
+            setRecoveryCodes(codes);
+            setRecoveryRemaining(codes.length);
+            setFactorAction(null);
+            setFactorCode('');
+            setSuccess('Đã tạo bộ mã khôi phục mới. Các mã cũ không còn dùng được.');
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setTotpLoading(false);
+        }
+    };
+
+    const downloadRecoveryCodes = (codes: string[]) => {
+        const text = `Mã khôi phục Eco-Byproduct VN (${user.email})\nMỗi mã chỉ dùng được một lần.\n\n${codes.join('\n')}\n`;
+        const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = 'eco-recovery-codes.txt';
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
     const changePassword = async () => {
-        if (!currentPassword || !newPassword) {
-            setError('Vui lòng nhập đầy đủ mật khẩu hiện tại và mật khẩu mới');
+        if ((hasPassword && !currentPassword) || !newPassword) {
+            setError(hasPassword ? 'Vui lòng nhập đầy đủ mật khẩu hiện tại và mật khẩu mới' : 'Vui lòng nhập mật khẩu mới');
             return;
         }
         if (newPassword.length < 8) {
@@ -306,7 +656,7 @@ export const ProfilePage = ({
                 method: 'POST',
                 headers: jsonHeaders,
                 body: JSON.stringify({
-                    currentPassword,
+                    ...(hasPassword ? { currentPassword } : {}),
                     newPassword,
                     ...(totpEnabled ? { totpCode: passwordTotpCode } : {}),
                 }),
@@ -318,7 +668,17 @@ export const ProfilePage = ({
             setNewPassword('');
             setConfirmPassword('');
             setPasswordTotpCode('');
-            setSuccess('Đã đổi mật khẩu thành công.');
+            const revoked = Number(data?.revokedSessions) || 0;
+            if (!hasPassword) {
+                setHasPassword(true);
+                setSuccess('Đã đặt mật khẩu. Bạn có thể đăng nhập bằng email và mật khẩu này.');
+                return;
+            }
+            setSuccess(
+                revoked > 0
+                    ? `Đã đổi mật khẩu thành công. ${revoked} thiết bị khác đã bị đăng xuất.`
+                    : 'Đã đổi mật khẩu thành công.',
+            );
         } catch (e: any) {
             setError(e?.message ?? 'Có lỗi xảy ra');
         } finally {
@@ -336,13 +696,33 @@ export const ProfilePage = ({
                         <h1 className="text-2xl font-bold text-slate-900">Hồ sơ</h1>
                         <p className="text-slate-500 text-sm">Quản lý tài khoản và bảo mật.</p>
                     </div>
-                    <button
-                        onClick={onBack}
-                        className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-100 transition-colors flex items-center gap-2"
-                    >
-                        <ArrowLeft size={18} />
-                        Quay lại
-                    </button>
+                    <div className="flex items-center gap-2">
+                        {onOpenProducts && (
+                            <button
+                                onClick={onOpenProducts}
+                                className="px-4 py-2 rounded-lg text-slate-700 font-medium bg-slate-100 hover:bg-slate-200 transition-colors flex items-center gap-2"
+                            >
+                                <PackageOpen size={18} />
+                                Sản phẩm của tôi
+                            </button>
+                        )}
+                        {onOpenSales && (
+                            <button
+                                onClick={onOpenSales}
+                                className="px-4 py-2 rounded-lg text-slate-700 font-medium bg-slate-100 hover:bg-slate-200 transition-colors flex items-center gap-2"
+                            >
+                                <Store size={18} />
+                                Đơn bán
+                            </button>
+                        )}
+                        <button
+                            onClick={onBack}
+                            className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-100 transition-colors flex items-center gap-2"
+                        >
+                            <ArrowLeft size={18} />
+                            Quay lại
+                        </button>
+                    </div>
                 </div>
 
                 <div className="space-y-5">
@@ -400,21 +780,79 @@ export const ProfilePage = ({
                         </div>
                     </AccordionItem>
 
+                    <AccordionItem id="saved" title="Sản phẩm đã lưu" icon={<Heart size={18} />}>
+                        {savedLoading ? (
+                            <div className="flex items-center gap-2 text-sm text-slate-500">
+                                <Loader2 className="animate-spin" size={16} /> Đang tải…
+                            </div>
+                        ) : savedProducts.length === 0 ? (
+                            <p className="text-sm text-slate-500">Bạn chưa lưu sản phẩm nào. Nhấn biểu tượng trái tim trên sản phẩm để lưu lại.</p>
+                        ) : (
+                            <div className="divide-y divide-slate-100">
+                                {savedProducts.map((p) => {
+                                    const unavailable = p.stock_quantity <= 0 || (p.status !== undefined && p.status !== 'ACTIVE');
+                                    return (
+                                        <div key={p.id} className="py-3 first:pt-0 last:pb-0 flex items-center gap-4">
+                                            <div className="w-14 h-14 shrink-0 bg-slate-100 rounded-lg overflow-hidden">
+                                                <img src={p.image} alt={p.title} className="w-full h-full object-cover" />
+                                            </div>
+                                            <div className="flex-1 min-w-0">
+                                                <div className="font-medium text-slate-900 truncate">{p.title}</div>
+                                                <div className="text-sm text-emerald-600 font-semibold">
+                                                    {formatCurrency(p.price)} <span className="text-xs font-normal text-slate-400">/ {p.unit}</span>
+                                                </div>
+                                                {unavailable && <div className="text-xs text-red-500">Hết hàng</div>}
+                                            </div>
+                                            {onMoveToCart && (
+                                                <button
+                                                    type="button"
+                                                    disabled={unavailable || savedBusyId === p.id}
+                                                    onClick={() => moveSavedToCart(p)}
+                                                    className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-900 text-white hover:bg-emerald-600 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                                                >
+                                                    <ShoppingCart size={16} />
+                                                    <span className="hidden sm:inline">Chuyển vào giỏ</span>
+                                                </button>
+                                            )}
+                                            <button
+                                                type="button"
+                                                disabled={savedBusyId === p.id}
+                                                onClick={() => removeSaved(p.id)}
+                                                className="p-2 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 transition-colors disabled:opacity-50"
+                                                aria-label="Bỏ lưu"
+                                                title="Bỏ lưu"
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </AccordionItem>
+
                     <AccordionItem id="security" title="Đổi mật khẩu" icon={<KeyRound size={18} />}>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                            <div>
-                                <label htmlFor="current-password" className="block text-sm font-medium text-slate-700 mb-1">Mật khẩu hiện tại</label>
-                                <input
-                                    id="current-password"
-                                    type="password"
-                                    autoComplete="current-password"
-                                    value={currentPassword}
-                                    onChange={(e) => setCurrentPassword(e.target.value)}
-                                    className="w-full px-4 py-2.5 rounded-lg border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
-                                    placeholder="••••••••"
-                                />
+                        {!hasPassword && (
+                            <div className="mb-4 rounded-lg border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-600">
+                                Bạn đang đăng nhập qua tài khoản liên kết (Google, Zalo…). Đặt mật khẩu để có thể đăng nhập bằng email.
                             </div>
-                            <div>
+                        )}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {hasPassword && (
+                                <div>
+                                    <label htmlFor="current-password" className="block text-sm font-medium text-slate-700 mb-1">Mật khẩu hiện tại</label>
+                                    <input
+                                        id="current-password"
+                                        type="password"
+                                        autoComplete="current-password"
+                                        value={currentPassword}
+                                        onChange={(e) => setCurrentPassword(e.target.value)}
+                                        className="w-full px-4 py-2.5 rounded-lg border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                                        placeholder="••••••••"
+                                    />
+                                </div>
+                            )}
+                            <div className={hasPassword ? '' : 'md:col-span-2'}>
                                 <label htmlFor="new-password" className="block text-sm font-medium text-slate-700 mb-1">Mật khẩu mới</label>
                                 <input
                                     id="new-password"
@@ -464,7 +902,7 @@ export const ProfilePage = ({
                             disabled={passwordLoading}
                             className="mt-5 w-full bg-slate-900 text-white py-2.5 rounded-lg font-medium hover:bg-emerald-600 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
-                            {passwordLoading ? <Loader2 className="animate-spin" size={20} /> : 'Đổi mật khẩu'}
+                            {passwordLoading ? <Loader2 className="animate-spin" size={20} /> : hasPassword ? 'Đổi mật khẩu' : 'Đặt mật khẩu'}
                         </button>
 
                         <div className="mt-8 border-t border-slate-100 pt-6">
@@ -490,7 +928,8 @@ export const ProfilePage = ({
                                     onClick={() => {
                                         if (totpLoading) return;
                                         if (totpEnabled) {
-                                            disableTotp();
+                                            setFactorAction((prev) => (prev === 'disable' ? null : 'disable'));
+                                            setFactorCode('');
                                         } else {
                                             beginSetup();
                                         }
@@ -584,6 +1023,101 @@ export const ProfilePage = ({
                                 )}
                             </AnimatePresence>
 
+                            {totpEnabled && factorAction && (
+                                <div className="mt-5 rounded-xl border border-slate-200 bg-slate-50 p-4">
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        {factorAction === 'disable'
+                                            ? 'Nhập mã TOTP hoặc mã khôi phục để tắt TOTP'
+                                            : 'Nhập mã TOTP hoặc mã khôi phục để tạo bộ mã mới'}
+                                    </label>
+                                    <div className="flex gap-3">
+                                        <input
+                                            autoComplete="one-time-code"
+                                            className="flex-1 tracking-[0.15em] text-center font-mono uppercase px-4 py-2.5 rounded-lg border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                                            placeholder="123456 / XXXXX-XXXXX"
+                                            value={factorCode}
+                                            onChange={(e) => setFactorCode(e.target.value.replace(/[^a-zA-Z0-9-]/g, '').slice(0, 11))}
+                                        />
+                                        <button
+                                            type="button"
+                                            disabled={totpLoading || factorCode.length < 6}
+                                            onClick={factorAction === 'disable' ? disableTotp : regenerateRecoveryCodes}
+                                            className="px-4 py-2.5 rounded-lg bg-slate-900 text-white font-medium hover:bg-emerald-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            {totpLoading ? <Loader2 className="animate-spin" size={20} /> : 'Xác nhận'}
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {totpEnabled && (
+                                <div className="mt-6 border-t border-slate-100 pt-6">
+                                    <div className="flex items-center justify-between gap-4">
+                                        <div>
+                                            <div className="font-semibold text-slate-900">Mã khôi phục</div>
+                                            <div className={`text-sm ${recoveryRemaining <= 3 ? 'text-amber-600' : 'text-slate-500'}`}>
+                                                Còn {recoveryRemaining} mã chưa dùng. Dùng khi mất điện thoại.
+                                            </div>
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={() => {
+                                                setFactorAction((prev) => (prev === 'regenerate' ? null : 'regenerate'));
+                                                setFactorCode('');
+                                            }}
+                                            disabled={totpLoading}
+                                            className="px-4 py-2 rounded-lg font-semibold bg-slate-100 text-slate-700 hover:bg-slate-200 transition-colors disabled:opacity-50"
+                                        >
+                                            Tạo mã mới
+                                        </button>
+                                    </div>
+
+                                    {recoveryCodes && recoveryCodes.length > 0 && (
+                                        <div className="mt-4 rounded-xl border border-amber-200 bg-amber-50 p-4">
+                                            <div className="text-sm text-amber-800 mb-3">
+                                                Lưu các mã này ở nơi an toàn. Chúng chỉ hiển thị <b>một lần</b> và mỗi mã chỉ dùng được một lần.
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-2 font-mono text-sm text-slate-900 select-text">
+                                                {recoveryCodes.map((c) => (
+                                                    <div key={c} className="bg-white rounded-lg border border-amber-100 px-3 py-1.5 text-center">{c}</div>
+                                                ))}
+                                            </div>
+                                            <div className="mt-3 flex flex-wrap gap-2">
+                                                <button
+                                                    type="button"
+                                                    className="px-3 py-2 rounded-lg text-sm font-medium bg-white border border-slate-200 text-slate-700 hover:border-emerald-400 flex items-center gap-2"
+                                                    onClick={async () => {
+                                                        try {
+                                                            await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+                                                            setSuccess('Đã copy mã khôi phục.');
+                                                        } catch {
+                                                            setError('Không copy được mã khôi phục.');
+                                                        }
+                                                    }}
+                                                >
+                                                    <Copy size={16} />
+                                                    Copy
+                                                </button>
+                                                <button
+                                                    type="button"
+                                                    className="px-3 py-2 rounded-lg text-sm font-medium bg-white border border-slate-200 text-slate-700 hover:border-emerald-400"
+                                                    onClick={() => downloadRecoveryCodes(recoveryCodes)}
+                                                >
+                                                    Tải về (.txt)
+                                                </button>
+                                                <button
+                                                    type="button"
+                                                    className="px-3 py-2 rounded-lg text-sm font-medium text-slate-500 hover:text-slate-800"
+                                                    onClick={() => setRecoveryCodes(null)}
+                                                >
+                                                    Tôi đã lưu
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
                             {!totpEnabled && !showSetup && hasSecret && (
                                 <div className="mt-5 text-sm text-slate-500">
                                     Tài khoản đã có secret TOTP nhưng đang tắt. Nhấn “Bật TOTP” để tạo lại QR/secret và test lại.
@@ -592,6 +1126,163 @@ export const ProfilePage = ({
                         </div>
                     </AccordionItem>
 
+                    <AccordionItem id="passkeys" title="Passkey" icon={<Fingerprint size={18} />}>
+                        <p className="text-sm text-slate-500 mb-4">
+                            Đăng nhập bằng vân tay, khuôn mặt hoặc mã PIN của điện thoại thay cho mật khẩu và mã TOTP.
+                        </p>
+                        {passkeysLoading && passkeys.length === 0 ? (
+                            <div className="flex items-center gap-2 text-slate-500">
+                                <Loader2 className="animate-spin" size={18} />
+                                Đang tải…
+                            </div>
+                        ) : (
+                            <>
+                                {passkeys.length === 0 ? (
+                                    <div className="text-sm text-slate-500">Chưa có passkey nào.</div>
+                                ) : (
+                                    <div className="divide-y divide-slate-100">
+                                        {passkeys.map((p) => (
+                                            <div key={p.id} className="py-3 flex items-center justify-between gap-4">
+                                                <div className="min-w-0">
+                                                    <div className="font-medium text-slate-900 flex items-center gap-2">
+                                                        <span className="truncate">{p.name}</span>
+                                                        {p.backedUp && (
+                                                            <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-sky-50 text-sky-700">
+                                                                Đồng bộ
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                    <div className="text-sm text-slate-500">
+                                                        Thêm lúc {new Date(p.createdAt).toLocaleString('vi-VN')}
+                                                        {' · '}
+                                                        {p.lastUsedAt ? `Dùng lần cuối ${new Date(p.lastUsedAt).toLocaleString('vi-VN')}` : 'Chưa dùng'}
+                                                    </div>
+                                                </div>
+                                                <div className="shrink-0 flex items-center gap-2">
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => renamePasskey(p)}
+                                                        disabled={passkeyBusyId !== null}
+                                                        title="Đổi tên"
+                                                        className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 transition-colors disabled:opacity-50"
+                                                    >
+                                                        <Pencil size={16} />
+                                                    </button>
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => deletePasskey(p)}
+                                                        disabled={passkeyBusyId !== null}
+                                                        className="px-3 py-2 rounded-lg text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 transition-colors flex items-center gap-2 disabled:opacity-50"
+                                                    >
+                                                        {passkeyBusyId === p.id ? <Loader2 className="animate-spin" size={16} /> : <Trash2 size={16} />}
+                                                        Xóa
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {passkeySupported && passkeyReauth && (
+                                    <div className="mt-4 rounded-xl border border-slate-200 bg-slate-50 p-4 space-y-3">
+                                        <div className="text-sm text-slate-600">Xác nhận lại danh tính trước khi thêm passkey.</div>
+                                        {hasPassword && (
+                                            <input
+                                                type="password"
+                                                autoComplete="current-password"
+                                                className="w-full px-4 py-2.5 rounded-lg border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                                                placeholder="Mật khẩu hiện tại"
+                                                value={passkeyPassword}
+                                                onChange={(e) => setPasskeyPassword(e.target.value)}
+                                            />
+                                        )}
+                                        {totpEnabled && (
+                                            <input
+                                                autoComplete="one-time-code"
+                                                className="w-full tracking-[0.15em] text-center font-mono uppercase px-4 py-2.5 rounded-lg border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                                                placeholder="123456 / XXXXX-XXXXX"
+                                                value={passkeyCode}
+                                                onChange={(e) => setPasskeyCode(e.target.value.replace(/[^a-zA-Z0-9-]/g, '').slice(0, 11))}
+                                            />
+                                        )}
+                                    </div>
+                                )}
+
+                                {passkeySupported ? (
+                                    <button
+                                        type="button"
+                                        onClick={addPasskey}
+                                        disabled={
+                                            passkeyBusyId !== null ||
+                                            (passkeyReauth && ((hasPassword && !passkeyPassword) || (totpEnabled && passkeyCode.length < 6)))
+                                        }
+                                        className="mt-4 w-full bg-slate-900 text-white py-2.5 rounded-lg font-medium hover:bg-emerald-600 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {passkeyBusyId === 'new' ? <Loader2 className="animate-spin" size={20} /> : (<><Plus size={18} /><span>Thêm passkey cho thiết bị này</span></>)}
+                                    </button>
+                                ) : (
+                                    <div className="mt-4 text-sm text-amber-700">Trình duyệt này không hỗ trợ passkey.</div>
+                                )}
+                            </>
+                        )}
+                    </AccordionItem>
+
+                    <AccordionItem id="devices" title="Thiết bị đăng nhập" icon={<MonitorSmartphone size={18} />}>
+                        {sessionsLoading && sessions.length === 0 ? (
+                            <div className="flex items-center gap-2 text-slate-500">
+                                <Loader2 className="animate-spin" size={18} />
+                                Đang tải…
+                            </div>
+                        ) : (
+                            <>
+                                <div className="divide-y divide-slate-100">
+                                    {sessions.map((s) => (
+                                        <div key={s.id} className="py-3 flex items-center justify-between gap-4">
+                                            <div className="min-w-0">
+                                                <div className="font-medium text-slate-900 flex items-center gap-2">
+                                                    {describeUserAgent(s.userAgent)}
+                                                    {s.current && (
+                                                        <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-700">
+                                                            Thiết bị này
+                                                        </span>
+                                                    )}
+                                                </div>
+                                                <div className="text-sm text-slate-500">
+                                                    {s.ip ?? 'IP không xác định'} · Hoạt động {new Date(s.lastSeenAt).toLocaleString('vi-VN')}
+                                                </div>
+                                                <div className="text-xs text-slate-400">
+                                                    Đăng nhập lúc {new Date(s.createdAt).toLocaleString('vi-VN')}
+                                                </div>
+                                            </div>
+                                            {!s.current && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => revokeDevice(s.id)}
+                                                    disabled={sessionBusyId !== null}
+                                                    className="shrink-0 px-3 py-2 rounded-lg text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 transition-colors flex items-center gap-2 disabled:opacity-50"
+                                                >
+                                                    {sessionBusyId === s.id ? <Loader2 className="animate-spin" size={16} /> : <LogOut size={16} />}
+                                                    Đăng xuất
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+
+                                {sessions.some((s) => !s.current) && (
+                                    <button
+                                        type="button"
+                                        onClick={revokeOtherDevices}
+                                        disabled={sessionBusyId !== null}
+                                        className="mt-4 w-full bg-slate-900 text-white py-2.5 rounded-lg font-medium hover:bg-red-600 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {sessionBusyId === 'others' ? <Loader2 className="animate-spin" size={20} /> : 'Đăng xuất tất cả thiết bị khác'}
+                                    </button>
+                                )}
+                            </>
+                        )}
+                    </AccordionItem>
+
                     {error && (
                         <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
                             {error}
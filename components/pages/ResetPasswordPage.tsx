@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { ArrowLeft, CheckCircle2, KeyRound, Loader2, MailCheck, ShieldCheck } from 'lucide-react';
+import { getApiUrl } from '@/utils/api';
+
+const inputClass =
+    'w-full px-4 py-2.5 rounded-lg border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all';
+
+/**
+ * Forgot-password flow. Without a token in the URL it asks for the email to
+ * send a reset link to; /reset-password?token=... sets the new password.
+ */
+export const ResetPasswordPage = ({ onBackToLogin }: { onBackToLogin: () => void }) => {
+    const [token] = useState(() => new URLSearchParams(window.location.search).get('token'));
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [done, setDone] = useState(false);
+
+    const [email, setEmail] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [totpCode, setTotpCode] = useState('');
+    // Shown once the server says the account has 2FA enabled
+    const [totpRequired, setTotpRequired] = useState(false);
+    // Lost phone: a recovery code works instead of a TOTP code
+    const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+    const requestLink = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const res = await fetch(getApiUrl('auth/password/forgot'), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ email }),
+            });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Không gửi được yêu cầu');
+            setDone(true);
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const resetPassword = async () => {
+        if (newPassword !== confirmPassword) {
+            setError('Mật khẩu xác nhận không khớp');
+            return;
+        }
+        setLoading(true);
+        setError(null);
+        try {
+            const res = await fetch(getApiUrl('auth/password/reset'), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ token, newPassword, totpCode: totpCode || undefined }),
+            });
+            const data = (await res.json()) as any;
+            if (data?.code === 'TOTP_REQUIRED') {
+                setTotpRequired(true);
+                return;
+            }
+            if (!res.ok) throw new Error(data?.error ?? 'Không đặt lại được mật khẩu');
+            setDone(true);
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-[calc(100vh-64px)] flex items-center justify-center py-12 px-4">
+            <div className="w-full max-w-md bg-white p-8 rounded-2xl shadow-xl shadow-slate-200/50 border border-slate-100">
+                {done ? (
+                    <div className="text-center">
+                        {token ? (
+                            <>
+                                <CheckCircle2 size={48} className="mx-auto text-emerald-600" />
+                                <h2 className="mt-4 text-2xl font-bold text-slate-900">Đã đặt lại mật khẩu</h2>
+                                <p className="mt-2 text-slate-500">Bạn có thể đăng nhập bằng mật khẩu mới.</p>
+                            </>
+                        ) : (
+                            <>
+                                <MailCheck size={48} className="mx-auto text-emerald-600" />
+                                <h2 className="mt-4 text-2xl font-bold text-slate-900">Kiểm tra hộp thư</h2>
+                                <p className="mt-2 text-slate-500">
+                                    Nếu <b>{email}</b> có tài khoản, chúng tôi đã gửi liên kết đặt lại mật khẩu. Liên kết có hiệu lực trong 30 phút.
+                                </p>
+                            </>
+                        )}
+                        <button
+                            onClick={onBackToLogin}
+                            className="mt-6 w-full bg-slate-900 text-white py-2.5 rounded-lg font-medium hover:bg-emerald-600 transition-colors"
+                        >
+                            Đăng nhập
+                        </button>
+                    </div>
+                ) : (
+                    <>
+                        <button
+                            onClick={onBackToLogin}
+                            className="flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700 mb-4"
+                        >
+                            <ArrowLeft size={16} /> Quay lại đăng nhập
+                        </button>
+                        <h2 className="text-2xl font-bold text-slate-900">{token ? 'Đặt mật khẩu mới' : 'Quên mật khẩu'}</h2>
+                        <p className="text-slate-500 text-sm mt-1 mb-6">
+                            {token
+                                ? 'Nhập mật khẩu mới cho tài khoản của bạn.'
+                                : 'Nhập email đã đăng ký, chúng tôi sẽ gửi liên kết đặt lại mật khẩu.'}
+                        </p>
+
+                        {error && (
+                            <div className="mb-5 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                                {error}
+                            </div>
+                        )}
+
+                        <form
+                            className="space-y-4"
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                if (loading) return;
+                                if (token) resetPassword();
+                                else requestLink();
+                            }}
+                        >
+                            {token ? (
+                                <>
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-700 mb-1">Mật khẩu mới</label>
+                                        <input
+                                            required
+                                            type="password"
+                                            minLength={8}
+                                            autoComplete="new-password"
+                                            className={inputClass}
+                                            placeholder="Tối thiểu 8 ký tự"
+                                            value={newPassword}
+                                            onChange={(e) => setNewPassword(e.target.value)}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-700 mb-1">Xác nhận mật khẩu</label>
+                                        <input
+                                            required
+                                            type="password"
+                                            minLength={8}
+                                            autoComplete="new-password"
+                                            className={inputClass}
+                                            value={confirmPassword}
+                                            onChange={(e) => setConfirmPassword(e.target.value)}
+                                        />
+                                    </div>
+                                    {totpRequired && (
+                                        <div>
+                                            <div className="rounded-lg border border-slate-200 bg-slate-50 px-4 py-3 flex items-start gap-3 mb-3">
+                                                <ShieldCheck size={20} className="text-emerald-600 mt-0.5" />
+                                                <div className="text-sm text-slate-600">
+                                                    {useRecoveryCode
+                                                        ? 'Tài khoản bật xác thực 2 lớp. Nhập một mã khôi phục bạn đã lưu.'
+                                                        : 'Tài khoản bật xác thực 2 lớp. Nhập mã 6 số từ ứng dụng Authenticator.'}
+                                                </div>
+                                            </div>
+                                            {useRecoveryCode ? (
+                                                <input
+                                                    required
+                                                    autoComplete="off"
+                                                    className={`${inputClass} tracking-widest font-mono uppercase`}
+                                                    placeholder="XXXXX-XXXXX"
+                                                    value={totpCode}
+                                                    onChange={(e) => setTotpCode(e.target.value.replace(/[^a-zA-Z0-9-]/g, '').slice(0, 11))}
+                                                />
+                                            ) : (
+                                                <input
+                                                    required
+                                                    inputMode="numeric"
+                                                    autoComplete="one-time-code"
+                                                    className={`${inputClass} tracking-widest`}
+                                                    placeholder="123456"
+                                                    value={totpCode}
+                                                    onChange={(e) => setTotpCode(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                                                />
+                                            )}
+                                            <button
+                                                type="button"
+                                                onClick={() => {
+                                                    setUseRecoveryCode((v) => !v);
+                                                    setTotpCode('');
+                                                    setError(null);
+                                                }}
+                                                className="mt-2 text-xs font-medium text-emerald-600 hover:text-emerald-700"
+                                            >
+                                                {useRecoveryCode ? 'Dùng mã từ ứng dụng Authenticator' : 'Mất điện thoại? Dùng mã khôi phục'}
+                                            </button>
+                                        </div>
+                                    )}
+                                </>
+                            ) : (
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">Email</label>
+                                    <input
+                                        required
+                                        type="email"
+                                        autoComplete="email"
+                                        className={inputClass}
+                                        placeholder="email@example.com"
+                                        value={email}
+                                        onChange={(e) => setEmail(e.target.value)}
+                                    />
+                                </div>
+                            )}
+
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className="w-full bg-slate-900 text-white py-2.5 rounded-lg font-medium hover:bg-emerald-600 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {loading ? (
+                                    <Loader2 className="animate-spin" size={20} />
+                                ) : (
+                                    <>
+                                        <KeyRound size={18} />
+                                        <span>{token ? 'Đặt lại mật khẩu' : 'Gửi liên kết'}</span>
+                                    </>
+                                )}
+                            </button>
+                        </form>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Loader2, Store, MapPin, Phone, Check, Truck, PackageCheck, XCircle } from 'lucide-react';
+import { getApiUrl } from '@/utils/api';
+import { useRealtime } from '@/utils/realtime';
+import { ORDER_STATUS_LABELS, type OrderItem } from './OrdersPage';
+
+// --- Types ---
+
+export interface SellerOrder {
+    id: string;
+    order_id: string;
+    status: string;
+    next_statuses: string[];
+    subtotal: number;
+    buyer_name: string;
+    shipping: { name: string; phone: string; address: string };
+    note?: string;
+    created_at: string;
+    items: OrderItem[];
+}
+
+const STATUS_FILTERS: { value: string; label: string }[] = [
+    { value: '', label: 'Tất cả' },
+    { value: 'PENDING', label: 'Chờ xác nhận' },
+    { value: 'CONFIRMED', label: 'Đã xác nhận' },
+    { value: 'SHIPPED', label: 'Đang giao' },
+    { value: 'DELIVERED', label: 'Đã giao' },
+    { value: 'CANCELLED', label: 'Đã hủy' },
+];
+
+// Button shown for each status a seller can move a sub-order into.
+const ACTIONS: Record<string, { label: string; icon: React.ReactNode; className: string }> = {
+    CONFIRMED: { label: 'Xác nhận', icon: <Check size={16} />, className: 'bg-slate-900 text-white hover:bg-emerald-600' },
+    SHIPPED: { label: 'Đã gửi hàng', icon: <Truck size={16} />, className: 'bg-slate-900 text-white hover:bg-emerald-600' },
+    DELIVERED: { label: 'Đã giao', icon: <PackageCheck size={16} />, className: 'bg-emerald-600 text-white hover:bg-emerald-700' },
+    CANCELLED: { label: 'Hủy', icon: <XCircle size={16} />, className: 'bg-slate-100 text-red-600 hover:bg-red-50' },
+};
+
+const formatCurrency = (val: number) => {
+    return new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(val);
+};
+
+export const SellerOrdersPage = ({ onBack }: { onBack: () => void }) => {
+    const [orders, setOrders] = useState<SellerOrder[]>([]);
+    const [statusFilter, setStatusFilter] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [updatingId, setUpdatingId] = useState<string | null>(null);
+    // Bumped to refetch when new orders or buyer cancellations arrive
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useRealtime(['orders'], () => setReloadKey((k) => k + 1), { onReconnect: () => setReloadKey((k) => k + 1) });
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setLoading(true);
+        setError(null);
+
+        const qs = statusFilter ? `?status=${encodeURIComponent(statusFilter)}` : '';
+        fetch(getApiUrl(`seller/orders${qs}`), { signal: controller.signal, cache: 'no-store' })
+            .then(async (r) => {
+                const data = (await r.json()) as any;
+                if (!r.ok) throw new Error(data?.error ?? 'Không tải được đơn bán');
+                return data as { orders: SellerOrder[] };
+            })
+            .then((data) => setOrders(Array.isArray(data.orders) ? data.orders : []))
+            .catch((e: any) => {
+                if (e?.name !== 'AbortError') setError(e?.message ?? 'Có lỗi xảy ra');
+            })
+            .finally(() => setLoading(false));
+
+        return () => controller.abort();
+    }, [statusFilter, reloadKey]);
+
+    const updateStatus = async (id: string, status: string) => {
+        if (status === 'CANCELLED' && !window.confirm('Hủy đơn hàng này?')) return;
+        setUpdatingId(id);
+        setError(null);
+
+        try {
+            const res = await fetch(getApiUrl(`seller/orders/${id}`), {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ status }),
+            });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Không cập nhật được trạng thái');
+
+            const updated = data.order as SellerOrder;
+            setOrders((prev) =>
+                statusFilter && updated.status !== statusFilter
+                    ? prev.filter((o) => o.id !== id)
+                    : prev.map((o) => (o.id === id ? updated : o)),
+            );
+        } catch (e: any) {
+            setError(e?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    return (
+        <div className="min-h-[calc(100vh-64px)] py-10 px-4 select-none">
+            <div className="container mx-auto max-w-4xl">
+                <div className="flex items-center justify-between gap-4 mb-6">
+                    <div>
+                        <h1 className="text-2xl font-bold text-slate-900">Đơn bán</h1>
+                        <p className="text-slate-500 text-sm">Các đơn hàng người mua đặt sản phẩm của bạn.</p>
+                    </div>
+                    <button
+                        onClick={onBack}
+                        className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-100 transition-colors flex items-center gap-2"
+                    >
+                        <ArrowLeft size={18} />
+                        Quay lại
+                    </button>
+                </div>
+
+                <div className="flex items-center gap-2 overflow-x-auto pb-4 scrollbar-hide">
+                    {STATUS_FILTERS.map((f) => (
+                        <button
+                            key={f.value || 'all'}
+                            onClick={() => setStatusFilter(f.value)}
+                            className={`whitespace-nowrap px-4 py-1.5 rounded-full text-sm font-medium transition-all ${statusFilter === f.value
+                                ? 'bg-emerald-100 text-emerald-800 border border-emerald-200'
+                                : 'bg-white text-slate-600 border border-slate-200 hover:border-slate-300'
+                                }`}
+                        >
+                            {f.label}
+                        </button>
+                    ))}
+                </div>
+
+                {error && (
+                    <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+                )}
+
+                {loading ? (
+                    <div className="flex items-center justify-center py-20 text-slate-500 gap-2">
+                        <Loader2 className="animate-spin" size={20} /> Đang tải…
+                    </div>
+                ) : orders.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center py-20 text-center">
+                        <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mb-4">
+                            <Store className="text-slate-400" size={32} />
+                        </div>
+                        <h3 className="text-lg font-medium text-slate-900">Chưa có đơn bán nào</h3>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        {orders.map((order) => {
+                            const status = ORDER_STATUS_LABELS[order.status] ?? ORDER_STATUS_LABELS.PENDING;
+                            return (
+                                <motion.div
+                                    key={order.id}
+                                    layout
+                                    initial={{ opacity: 0, y: 10 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    className="bg-white rounded-2xl border border-slate-200 shadow-sm p-5 space-y-4"
+                                >
+                                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                                        <div>
+                                            <div className="text-xs text-slate-400 font-mono">#{order.order_id.slice(0, 8).toUpperCase()}</div>
+                                            <div className="text-sm text-slate-500">
+                                                {new Date(order.created_at).toLocaleString('vi-VN')} · {order.buyer_name}
+                                            </div>
+                                        </div>
+                                        <div className="flex items-center gap-3">
+                                            <span className={`text-xs font-semibold px-2.5 py-1 rounded-full border ${status.className}`}>{status.label}</span>
+                                            <span className="font-bold text-emerald-600">{formatCurrency(order.subtotal)}</span>
+                                        </div>
+                                    </div>
+
+                                    <div className="space-y-2">
+                                        {order.items.map((item) => (
+                                            <div key={item.product_id} className="flex items-center justify-between gap-4 text-sm">
+                                                <span className="text-slate-800 truncate">{item.title}</span>
+                                                <span className="text-slate-500 whitespace-nowrap">
+                                                    {item.quantity} {item.unit} · {formatCurrency(item.line_total)}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    <div className="rounded-xl bg-slate-50 p-3 text-sm text-slate-600 space-y-1">
+                                        <div className="flex items-center gap-2"><Phone size={14} /> {order.shipping.name} · {order.shipping.phone}</div>
+                                        <div className="flex items-center gap-2"><MapPin size={14} /> {order.shipping.address}</div>
+                                        {order.note && <div className="italic text-slate-500">“{order.note}”</div>}
+                                    </div>
+
+                                    {order.next_statuses.length > 0 && (
+                                        <div className="flex flex-wrap justify-end gap-2">
+                                            {order.next_statuses.map((next) => {
+                                                const action = ACTIONS[next];
+                                                if (!action) return null;
+                                                return (
+                                                    <button
+                                                        key={next}
+                                                        type="button"
+                                                        disabled={updatingId === order.id}
+                                                        onClick={() => updateStatus(order.id, next)}
+                                                        className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${action.className}`}
+                                                    >
+                                                        {action.icon}
+                                                        {action.label}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </motion.div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
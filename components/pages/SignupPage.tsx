@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Check, ChevronRight, Loader2, ChevronDown, MapPin } from 'lucide-react';
 import { getApiUrl } from '@/utils/api';
+import SocialLoginButtons from '@/components/ui/SocialLoginButtons';
 
 const PROVINCES = [
   'An Giang',
@@ -73,7 +74,7 @@ export const SignupPage = ({
   onSignupSuccess,
 }: {
   onSignupSuccess: (args: {
-    user: { id: string; email: string; name: string };
+    user: { id: string; email: string; name: string; emailVerified?: boolean };
   }) => void;
 }) => {
   const [step, setStep] = useState(1);
@@ -332,6 +333,12 @@ export const SignupPage = ({
               </button>
             </div>
           </form>
+
+          {step === 1 && (
+            <div className="mt-6">
+              <SocialLoginButtons />
+            </div>
+          )}
         </div>
       </div>
     </div>
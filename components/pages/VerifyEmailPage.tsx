@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle2, Loader2, MailWarning } from 'lucide-react';
+import { getApiUrl } from '@/utils/api';
+
+type VerifiedUser = { id: string; email: string; name: string; emailVerified?: boolean };
+
+/**
+ * Landing page for the link in the verification email (/verify-email?token=...).
+ */
+export const VerifyEmailPage = ({
+    onVerified,
+    onContinue,
+}: {
+    onVerified: (user: VerifiedUser) => void;
+    onContinue: () => void;
+}) => {
+    const [status, setStatus] = useState<'verifying' | 'success' | 'error'>('verifying');
+    const [error, setError] = useState<string | null>(null);
+    // The token is single-use: don't send it twice when effects re-run.
+    const started = useRef(false);
+
+    useEffect(() => {
+        if (started.current) return;
+        started.current = true;
+
+        const token = new URLSearchParams(window.location.search).get('token');
+        if (!token) {
+            setError('Liên kết xác thực không hợp lệ.');
+            setStatus('error');
+            return;
+        }
+
+        (async () => {
+            try {
+                const res = await fetch(getApiUrl('auth/verify-email'), {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ token }),
+                });
+                const data = (await res.json()) as any;
+                if (!res.ok) throw new Error(data?.error ?? 'Không thể xác thực email');
+                setStatus('success');
+                if (data?.user) onVerified(data.user as VerifiedUser);
+            } catch (e: any) {
+                setError(e?.message ?? 'Có lỗi xảy ra');
+                setStatus('error');
+            }
+        })();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    return (
+        <div className="min-h-[calc(100vh-64px)] flex items-center justify-center py-12 px-4">
+            <div className="w-full max-w-md bg-white p-8 rounded-2xl shadow-xl shadow-slate-200/50 border border-slate-100 text-center">
+                {status === 'verifying' && (
+                    <>
+                        <Loader2 size={40} className="mx-auto text-emerald-600 animate-spin" />
+                        <p className="mt-4 text-slate-600">Đang xác thực email…</p>
+                    </>
+                )}
+                {status === 'success' && (
+                    <>
+                        <CheckCircle2 size={48} className="mx-auto text-emerald-600" />
+                        <h2 className="mt-4 text-2xl font-bold text-slate-900">Email đã được xác thực</h2>
+                        <p className="mt-2 text-slate-500">Giờ bạn có thể đăng sản phẩm, bài viết và báo cáo ô nhiễm.</p>
+                    </>
+                )}
+                {status === 'error' && (
+                    <>
+                        <MailWarning size={48} className="mx-auto text-amber-500" />
+                        <h2 className="mt-4 text-2xl font-bold text-slate-900">Không thể xác thực</h2>
+                        <p className="mt-2 text-slate-500">{error}</p>
+                        <p className="mt-1 text-sm text-slate-400">Đăng nhập để yêu cầu gửi lại email xác thực.</p>
+                    </>
+                )}
+                {status !== 'verifying' && (
+                    <button
+                        onClick={onContinue}
+                        className="mt-6 w-full bg-slate-900 hover:bg-emerald-600 text-white font-medium py-3 rounded-xl transition-colors"
+                    >
+                        Về trang chủ
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
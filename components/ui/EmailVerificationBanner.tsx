@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { Loader2, MailWarning } from 'lucide-react';
+import { getApiUrl } from '@/utils/api';
+
+interface EmailVerificationBannerProps {
+    email: string;
+}
+
+/**
+ * Reminds an unverified user to open the verification email, with a resend button.
+ */
+const EmailVerificationBanner: React.FC<EmailVerificationBannerProps> = ({ email }) => {
+    const [sending, setSending] = useState(false);
+    const [message, setMessage] = useState<{ text: string; ok: boolean } | null>(null);
+
+    const resend = async () => {
+        setSending(true);
+        setMessage(null);
+        try {
+            const res = await fetch(getApiUrl('auth/verify-email/resend'), { method: 'POST' });
+            const data = (await res.json()) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Không gửi được email');
+            setMessage({ text: `Đã gửi lại email xác thực tới ${email}.`, ok: true });
+        } catch (e: any) {
+            setMessage({ text: e?.message ?? 'Có lỗi xảy ra', ok: false });
+        } finally {
+            setSending(false);
+        }
+    };
+
+    return (
+        <div className="bg-amber-50 border-b border-amber-200">
+            <div className="container mx-auto px-4 py-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                <span className="flex items-center gap-2 text-amber-800">
+                    <MailWarning size={16} className="shrink-0" />
+                    <span>
+                        Vui lòng xác thực email <strong>{email}</strong> để đăng sản phẩm, bài viết và báo cáo ô nhiễm.
+                    </span>
+                </span>
+                <button
+                    onClick={resend}
+                    disabled={sending}
+                    className="flex items-center gap-1 font-medium text-amber-900 underline hover:no-underline disabled:opacity-60"
+                >
+                    {sending && <Loader2 size={14} className="animate-spin" />}
+                    Gửi lại email
+                </button>
+                {message && <span className={message.ok ? 'text-emerald-700' : 'text-red-600'}>{message.text}</span>}
+            </div>
+        </div>
+    );
+};
+
+export default EmailVerificationBanner;
@@ -0,0 +1,152 @@
+import React, { useRef, useState } from 'react';
+import { ImagePlus, Loader2, X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { getApiUrl } from '@/utils/api';
+import type { ImageSource } from './OptimizedImage';
+
+// An uploaded product photo as returned by the API
+export interface ProductImage {
+    id: string;
+    url: string;
+    width: number;
+    height: number;
+    variants: ImageSource[];
+}
+
+interface ImageUploaderProps<T extends ProductImage> {
+    images: T[];
+    onChange: (images: T[]) => void;
+    max?: number;
+    /** Upload route; pollution photos have their own (see backend/src/routes/uploads.ts). */
+    endpoint?: string;
+    /** Label the first image as the cover. */
+    showCover?: boolean;
+}
+
+// Smallest rendition, good enough for a thumbnail
+function thumbnailUrl(image: ProductImage): string {
+    const smallest = [...image.variants]
+        .filter((v) => v.type === 'image/jpeg')
+        .sort((a, b) => a.width - b.width)[0];
+    return smallest?.url ?? image.url;
+}
+
+/**
+ * Upload and order photos. For products the first image is the cover.
+ */
+const ImageUploader = <T extends ProductImage>({
+    images,
+    onChange,
+    max = 8,
+    endpoint = 'uploads/images',
+    showCover = true,
+}: ImageUploaderProps<T>) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [uploading, setUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFiles = async (files: FileList | null) => {
+        if (!files || files.length === 0) return;
+        const selected = Array.from(files).slice(0, max - images.length);
+        if (selected.length === 0) {
+            setError(`Tối đa ${max} ảnh`);
+            return;
+        }
+
+        setUploading(true);
+        setError(null);
+        try {
+            const form = new FormData();
+            selected.forEach((file) => form.append('images', file));
+            const res = await fetch(getApiUrl(endpoint), { method: 'POST', body: form });
+            const data = (await res.json().catch(() => null)) as any;
+            if (!res.ok) throw new Error(data?.error ?? 'Tải ảnh lên thất bại');
+            onChange([...images, ...(data.images as T[])]);
+        } catch (err: any) {
+            setError(err?.message ?? 'Tải ảnh lên thất bại');
+        } finally {
+            setUploading(false);
+            if (inputRef.current) inputRef.current.value = '';
+        }
+    };
+
+    const move = (index: number, delta: number) => {
+        const target = index + delta;
+        if (target < 0 || target >= images.length) return;
+        const next = [...images];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next);
+    };
+
+    return (
+        <div>
+            <div className="grid grid-cols-4 gap-2">
+                {images.map((image, index) => (
+                    <div key={image.id} className="relative aspect-square rounded-lg overflow-hidden border border-slate-200 group">
+                        <img src={thumbnailUrl(image)} alt="" className="w-full h-full object-cover" />
+                        {showCover && index === 0 && (
+                            <span className="absolute bottom-1 left-1 bg-emerald-600 text-white text-[10px] font-semibold px-1.5 py-0.5 rounded">
+                                Ảnh bìa
+                            </span>
+                        )}
+                        <button
+                            type="button"
+                            onClick={() => onChange(images.filter((i) => i.id !== image.id))}
+                            className="absolute top-1 right-1 p-0.5 rounded-full bg-black/60 text-white"
+                            aria-label="Xóa ảnh"
+                            title="Xóa ảnh"
+                        >
+                            <X size={12} />
+                        </button>
+                        <div className="absolute inset-x-0 bottom-1 flex justify-end gap-1 pr-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button
+                                type="button"
+                                onClick={() => move(index, -1)}
+                                disabled={index === 0}
+                                className="p-0.5 rounded bg-white/90 text-slate-700 disabled:opacity-40"
+                                aria-label="Chuyển lên trước"
+                                title="Chuyển lên trước"
+                            >
+                                <ChevronLeft size={12} />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => move(index, 1)}
+                                disabled={index === images.length - 1}
+                                className="p-0.5 rounded bg-white/90 text-slate-700 disabled:opacity-40"
+                                aria-label="Chuyển ra sau"
+                                title="Chuyển ra sau"
+                            >
+                                <ChevronRight size={12} />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+
+                {images.length < max && (
+                    <button
+                        type="button"
+                        onClick={() => inputRef.current?.click()}
+                        disabled={uploading}
+                        className="aspect-square rounded-lg border-2 border-dashed border-slate-300 flex flex-col items-center justify-center gap-1 text-slate-500 hover:border-emerald-500 hover:text-emerald-600 disabled:opacity-60"
+                    >
+                        {uploading ? <Loader2 size={18} className="animate-spin" /> : <ImagePlus size={18} />}
+                        <span className="text-[11px]">{uploading ? 'Đang tải...' : 'Thêm ảnh'}</span>
+                    </button>
+                )}
+            </div>
+
+            <input
+                ref={inputRef}
+                type="file"
+                accept="image/jpeg,image/png,image/webp,image/avif"
+                multiple
+                className="hidden"
+                onChange={(e) => handleFiles(e.target.files)}
+            />
+
+            {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+        </div>
+    );
+};
+
+export default ImageUploader;
@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bell, CheckCheck, Loader2 } from 'lucide-react';
+import { getApiUrl } from '@/utils/api';
+import { useRealtime } from '@/utils/realtime';
+
+// Mirrors toNotificationResponse in backend/src/lib/notifications.ts
+export interface AppNotification {
+    id: string;
+    type: string;
+    title: string;
+    body?: string;
+    data: Record<string, string | number>;
+    read: boolean;
+    created_at: string;
+}
+
+export type NotificationTarget = 'community' | 'map' | 'orders' | 'sales';
+
+// Where clicking a notification takes the user
+const NOTIFICATION_TARGETS: Record<string, NotificationTarget> = {
+    POST_LIKED: 'community',
+    EVENT_RSVP: 'community',
+    POLLUTION_NEARBY: 'map',
+    POLLUTION_STATUS: 'map',
+    ORDER_PLACED: 'sales',
+    ORDER_CANCELLED: 'sales',
+    ORDER_STATUS: 'orders',
+};
+
+const PAGE_SIZE = 10;
+
+function timeAgo(iso: string): string {
+    const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+    if (minutes < 1) return 'Vừa xong';
+    if (minutes < 60) return `${minutes} phút trước`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} giờ trước`;
+    return new Date(iso).toLocaleDateString('vi-VN');
+}
+
+interface NotificationBellProps {
+    onNavigate: (target: NotificationTarget) => void;
+}
+
+/**
+ * Bell icon with an unread badge and a dropdown of the latest notifications.
+ * New notifications arrive over the realtime stream.
+ */
+const NotificationBell: React.FC<NotificationBellProps> = ({ onNavigate }) => {
+    const [open, setOpen] = useState(false);
+    const [notifications, setNotifications] = useState<AppNotification[]>([]);
+    const [unreadCount, setUnreadCount] = useState(0);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [unreadOnly, setUnreadOnly] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const load = async (cursor?: string) => {
+        setLoading(true);
+        try {
+            const params = new URLSearchParams({ take: String(PAGE_SIZE) });
+            if (cursor) params.set('cursor', cursor);
+            if (unreadOnly) params.set('unread', 'true');
+            const res = await fetch(getApiUrl(`notifications?${params}`), { cache: 'no-store' });
+            const data = (await res.json()) as any;
+            if (!res.ok) return;
+            const page = (data?.notifications ?? []) as AppNotification[];
+            setNotifications((prev) => (cursor ? [...prev, ...page] : page));
+            setNextCursor(data?.nextCursor ?? null);
+            setUnreadCount(Number(data?.unread_count) || 0);
+        } catch {
+            // The bell is best-effort
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        load();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [unreadOnly]);
+
+    useRealtime(
+        ['notifications'],
+        (event) => {
+            if (event.type !== 'notification.created') return;
+            const notification = event.data?.notification as AppNotification | undefined;
+            if (!notification) return;
+            setNotifications((prev) =>
+                prev.some((n) => n.id === notification.id) ? prev : [notification, ...prev],
+            );
+            setUnreadCount((count) => count + 1);
+        },
+        { onReconnect: () => load() },
+    );
+
+    // Close when clicking anywhere else
+    useEffect(() => {
+        if (!open) return;
+        const handleClick = (e: MouseEvent) => {
+            if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [open]);
+
+    const markRead = async (ids?: string[]) => {
+        const selected = new Set(ids);
+        setNotifications((prev) => prev.map((n) => (!ids || selected.has(n.id) ? { ...n, read: true } : n)));
+        try {
+            const res = await fetch(getApiUrl('notifications/read'), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(ids ? { ids } : {}),
+            });
+            const data = (await res.json()) as any;
+            if (res.ok) setUnreadCount(Number(data?.unread_count) || 0);
+        } catch {
+            // Will be corrected on the next load
+        }
+    };
+
+    const handleSelect = (notification: AppNotification) => {
+        if (!notification.read) markRead([notification.id]);
+        setOpen(false);
+        const target = NOTIFICATION_TARGETS[notification.type];
+        if (target) onNavigate(target);
+    };
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setOpen((v) => !v)}
+                className={`relative p-2 transition-colors ${open ? 'text-emerald-600' : 'text-slate-600 hover:text-emerald-600'}`}
+                title="Thông báo"
+            >
+                <Bell size={20} />
+                {unreadCount > 0 && (
+                    <span className="absolute top-0 right-0 min-w-5 h-5 px-1 bg-red-500 text-white text-xs font-bold rounded-full flex items-center justify-center border-2 border-white">
+                        {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                )}
+            </button>
+
+            {open && (
+                <div className="absolute right-0 mt-2 w-80 bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden z-50">
+                    <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+                        <span className="font-semibold text-slate-900">Thông báo</span>
+                        {unreadCount > 0 && (
+                            <button
+                                onClick={() => markRead()}
+                                className="flex items-center gap-1 text-xs font-medium text-emerald-600 hover:text-emerald-700"
+                            >
+                                <CheckCheck size={14} /> Đánh dấu tất cả đã đọc
+                            </button>
+                        )}
+                    </div>
+
+                    <div className="flex gap-2 px-4 pt-3">
+                        {[false, true].map((value) => (
+                            <button
+                                key={String(value)}
+                                onClick={() => setUnreadOnly(value)}
+                                className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${unreadOnly === value ? 'bg-emerald-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                            >
+                                {value ? 'Chưa đọc' : 'Tất cả'}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="max-h-96 overflow-y-auto">
+                        {notifications.length === 0 && !loading && (
+                            <div className="px-4 py-8 text-center text-sm text-slate-500">
+                                {unreadOnly ? 'Không có thông báo chưa đọc' : 'Chưa có thông báo nào'}
+                            </div>
+                        )}
+                        {notifications.map((n) => (
+                            <button
+                                key={n.id}
+                                onClick={() => handleSelect(n)}
+                                className={`w-full text-left px-4 py-3 border-b border-slate-50 hover:bg-slate-50 transition-colors flex gap-3 ${n.read ? '' : 'bg-emerald-50/50'}`}
+                            >
+                                <span className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${n.read ? 'bg-transparent' : 'bg-emerald-500'}`} />
+                                <span className="min-w-0">
+                                    <span className="block text-sm font-medium text-slate-900">{n.title}</span>
+                                    {n.body && <span className="block text-sm text-slate-600 truncate">{n.body}</span>}
+                                    <span className="block text-xs text-slate-400 mt-0.5">{timeAgo(n.created_at)}</span>
+                                </span>
+                            </button>
+                        ))}
+                        {loading && (
+                            <div className="flex justify-center py-3 text-slate-400">
+                                <Loader2 size={18} className="animate-spin" />
+                            </div>
+                        )}
+                        {nextCursor && !loading && (
+                            <button
+                                onClick={() => load(nextCursor)}
+                                className="w-full py-2 text-sm font-medium text-slate-600 hover:text-emerald-600"
+                            >
+                                Xem thêm
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default NotificationBell;
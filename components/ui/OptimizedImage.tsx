@@ -5,9 +5,18 @@ function cn(...classes: (string | undefined | null | false)[]) {
     return classes.filter(Boolean).join(' ');
 }
 
+// One resized rendition of an uploaded image (see backend/src/lib/images.ts)
+export interface ImageSource {
+    url: string;
+    width: number;
+    type: string;
+}
+
 interface OptimizedImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
     src: string;
     alt: string;
+    /** Resized renditions; rendered as <source srcset> per type so the browser picks size and format. */
+    sources?: ImageSource[];
     fallback?: string;
     placeholderColor?: string;
     aspectRatio?: 'video' | 'square' | 'portrait' | 'auto';
@@ -27,6 +36,8 @@ const OptimizedImage: React.FC<OptimizedImageProps> = memo(({
     lazy = true,
     className,
     onLoadComplete,
+    sources,
+    sizes = '100vw',
     ...props
 }) => {
     const [isLoaded, setIsLoaded] = useState(false);
@@ -78,6 +89,15 @@ const OptimizedImage: React.FC<OptimizedImageProps> = memo(({
     const actualSrc = isError && fallback ? fallback : src;
     const displaySrc = isInView ? actualSrc : DEFAULT_PLACEHOLDER;
 
+    // Group renditions by format, e.g. { 'image/webp': '/a/320.webp 320w, /a/640.webp 640w' }
+    const srcSets = new Map<string, string>();
+    if (isInView && !isError) {
+        for (const source of sources ?? []) {
+            const entry = `${source.url} ${source.width}w`;
+            srcSets.set(source.type, srcSets.has(source.type) ? `${srcSets.get(source.type)}, ${entry}` : entry);
+        }
+    }
+
     // Aspect ratio classes
     const aspectClasses = {
         video: 'aspect-video',
@@ -102,20 +122,25 @@ const OptimizedImage: React.FC<OptimizedImageProps> = memo(({
             )}
 
             {/* Actual image */}
-            <img
-                ref={imgRef}
-                src={displaySrc}
-                alt={alt}
-                loading={lazy ? 'lazy' : 'eager'}
-                decoding="async"
-                onLoad={handleLoad}
-                onError={handleError}
-                className={cn(
-                    'w-full h-full object-cover transition-opacity duration-300',
-                    isLoaded ? 'opacity-100' : 'opacity-0'
-                )}
-                {...props}
-            />
+            <picture className="contents">
+                {[...srcSets].map(([type, srcSet]) => (
+                    <source key={type} type={type} srcSet={srcSet} sizes={sizes} />
+                ))}
+                <img
+                    ref={imgRef}
+                    src={displaySrc}
+                    alt={alt}
+                    loading={lazy ? 'lazy' : 'eager'}
+                    decoding="async"
+                    onLoad={handleLoad}
+                    onError={handleError}
+                    className={cn(
+                        'w-full h-full object-cover transition-opacity duration-300',
+                        isLoaded ? 'opacity-100' : 'opacity-0'
+                    )}
+                    {...props}
+                />
+            </picture>
         </div>
     );
 });
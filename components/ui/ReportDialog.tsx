@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Flag, Loader2, X } from 'lucide-react';
+import { getApiUrl } from '@/utils/api';
+
+export type ReportTargetType = 'products' | 'posts' | 'pollution';
+
+const REASONS: { value: string; label: string }[] = [
+    { value: 'SPAM', label: 'Spam hoặc quảng cáo' },
+    { value: 'SCAM', label: 'Lừa đảo' },
+    { value: 'OFFENSIVE', label: 'Ngôn từ xúc phạm, nội dung không phù hợp' },
+    { value: 'MISLEADING', label: 'Thông tin sai sự thật' },
+    { value: 'OTHER', label: 'Lý do khác' },
+];
+
+interface ReportDialogProps {
+    targetType: ReportTargetType;
+    targetId: string;
+    onClose: () => void;
+}
+
+/**
+ * "Báo cáo vi phạm" form for a product, post or pollution marker. Render it
+ * inside <AnimatePresence> and unmount it to close.
+ */
+const ReportDialog: React.FC<ReportDialogProps> = ({ targetType, targetId, onClose }) => {
+    const [reason, setReason] = useState('');
+    const [details, setDetails] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [sent, setSent] = useState(false);
+
+    const submit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!reason) return;
+        setSubmitting(true);
+        setError(null);
+        try {
+            const res = await fetch(getApiUrl('reports'), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    target_type: targetType,
+                    target_id: targetId,
+                    reason,
+                    details: details.trim() || undefined,
+                }),
+            });
+            const data = (await res.json().catch(() => null)) as any;
+            // Reporting twice is fine from the user's point of view
+            if (!res.ok && data?.code !== 'ALREADY_REPORTED') throw new Error(data?.error ?? 'Không gửi được báo cáo');
+            setSent(true);
+        } catch (err: any) {
+            setError(err?.message ?? 'Có lỗi xảy ra');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+                onClick={onClose}
+            />
+
+            <motion.div
+                initial={{ scale: 0.95, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                exit={{ scale: 0.95, opacity: 0 }}
+                className="bg-white rounded-2xl shadow-2xl w-full max-w-md relative z-10 overflow-hidden"
+            >
+                <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                    <h3 className="font-bold text-slate-900 flex items-center gap-2">
+                        <Flag size={18} className="text-red-500" />
+                        Báo cáo vi phạm
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-full hover:bg-slate-200 text-slate-500"
+                        aria-label="Đóng"
+                        title="Đóng"
+                    >
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {sent ? (
+                    <div className="p-6 text-center space-y-4">
+                        <p className="text-slate-700">
+                            Cảm ơn bạn đã báo cáo. Đội ngũ kiểm duyệt sẽ xem xét nội dung này sớm nhất có thể.
+                        </p>
+                        <button
+                            onClick={onClose}
+                            className="px-4 py-2 rounded-lg bg-slate-900 text-white font-medium hover:bg-emerald-600 transition-colors"
+                        >
+                            Đóng
+                        </button>
+                    </div>
+                ) : (
+                    <form onSubmit={submit} className="p-6 space-y-4">
+                        <div className="space-y-2">
+                            {REASONS.map((r) => (
+                                <label key={r.value} className="flex items-center gap-3 text-sm text-slate-700 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        name="report-reason"
+                                        value={r.value}
+                                        checked={reason === r.value}
+                                        onChange={() => setReason(r.value)}
+                                        className="accent-emerald-600"
+                                    />
+                                    {r.label}
+                                </label>
+                            ))}
+                        </div>
+
+                        <textarea
+                            value={details}
+                            onChange={(e) => setDetails(e.target.value)}
+                            maxLength={1000}
+                            rows={3}
+                            placeholder="Mô tả thêm (không bắt buộc)"
+                            className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-emerald-500 resize-none"
+                        />
+
+                        {error && <p className="text-sm text-red-600">{error}</p>}
+
+                        <div className="flex justify-end gap-2">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-100 transition-colors"
+                            >
+                                Hủy
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={!reason || submitting}
+                                className="px-4 py-2 rounded-lg bg-red-600 text-white font-medium hover:bg-red-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+                            >
+                                {submitting && <Loader2 size={16} className="animate-spin" />}
+                                Gửi báo cáo
+                            </button>
+                        </div>
+                    </form>
+                )}
+            </motion.div>
+        </div>
+    );
+};
+
+export default ReportDialog;
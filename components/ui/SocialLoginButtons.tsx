@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { LogIn } from 'lucide-react';
+import { getApiUrl } from '@/utils/api';
+
+type OidcProvider = { id: string; name: string };
+
+interface SocialLoginButtonsProps {
+    // Frontend path to land on after signing in
+    returnTo?: string;
+    // Off when the page already shows an "hoặc" divider above
+    showDivider?: boolean;
+}
+
+/**
+ * "Tiếp tục với Google" etc. for every configured OpenID Connect provider.
+ * Renders nothing when none are configured.
+ */
+const SocialLoginButtons: React.FC<SocialLoginButtonsProps> = ({ returnTo = '/', showDivider = true }) => {
+    const [providers, setProviders] = useState<OidcProvider[]>([]);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        (async () => {
+            try {
+                const res = await fetch(getApiUrl('auth/oidc/providers'), { signal: controller.signal });
+                const data = (await res.json()) as any;
+                if (res.ok && Array.isArray(data?.providers)) setProviders(data.providers);
+            } catch {
+                // No social login then; the password form still works
+            }
+        })();
+        return () => controller.abort();
+    }, []);
+
+    if (providers.length === 0) return null;
+
+    return (
+        <div className="space-y-3">
+            {showDivider && (
+                <div className="flex items-center gap-3 text-xs text-slate-400">
+                    <div className="flex-1 h-px bg-slate-200" />
+                    hoặc
+                    <div className="flex-1 h-px bg-slate-200" />
+                </div>
+            )}
+            {providers.map((p) => (
+                <a
+                    key={p.id}
+                    // A full page navigation: the provider's sign-in page can't run in a fetch
+                    href={getApiUrl(`auth/oidc/${encodeURIComponent(p.id)}/start?returnTo=${encodeURIComponent(returnTo)}`)}
+                    className="w-full px-4 py-2.5 rounded-lg border border-slate-200 text-slate-700 font-medium hover:border-emerald-400 hover:text-emerald-700 transition-colors flex items-center justify-center gap-2"
+                >
+                    <LogIn size={18} />
+                    <span>Tiếp tục với {p.name}</span>
+                </a>
+            ))}
+        </div>
+    );
+};
+
+export default SocialLoginButtons;
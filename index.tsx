@@ -1,9 +1,12 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { installAuthRefresh } from './utils/api';
 import './index.css';
 import 'leaflet/dist/leaflet.css';
 
+installAuthRefresh();
+
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
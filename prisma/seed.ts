@@ -17,9 +17,13 @@ const SAMPLE_PRODUCTS = [
         unit: 'kg',
         category: 'Rơm rạ',
         location: 'Cần Thơ',
+        lat: 10.0452,
+        lng: 105.7469,
         imageUrl: 'https://images.unsplash.com/photo-1500382017468-9049fed747ef?w=800',
         description: 'Rơm rạ khô chất lượng cao từ vụ mùa Đông-Xuân. Phù hợp làm thức ăn gia súc, phủ đất trồng nấm, hoặc làm nguyên liệu đốt sinh học. Đã phơi khô kỹ, không mốc.',
         co2SavingsKg: 12,
+        stockQuantity: 5000,
+        minOrderQuantity: 50,
     },
     {
         title: 'Vỏ trấu nguyên chất',
@@ -27,9 +31,13 @@ const SAMPLE_PRODUCTS = [
         unit: 'kg',
         category: 'Vỏ trấu',
         location: 'An Giang',
+        lat: 10.5216,
+        lng: 105.1259,
         imageUrl: 'https://images.unsplash.com/photo-1574323347407-f5e1ad6d020b?w=800',
         description: 'Vỏ trấu sạch từ nhà máy xay xát. Dùng làm nhiên liệu đốt, lót chuồng gia súc, hoặc trộn làm phân hữu cơ. Số lượng lớn, giao tận nơi.',
         co2SavingsKg: 8,
+        stockQuantity: 8000,
+        minOrderQuantity: 100,
     },
     {
         title: 'Bã mía tươi - Nhà máy đường Biên Hòa',
@@ -37,9 +45,13 @@ const SAMPLE_PRODUCTS = [
         unit: 'kg',
         category: 'Bã mía',
         location: 'Đồng Nai',
+        lat: 10.9453,
+        lng: 106.8243,
         imageUrl: 'https://images.unsplash.com/photo-1558642452-9d2a7deb7f62?w=800',
         description: 'Bã mía tươi từ dây chuyền ép mía. Thích hợp làm thức ăn gia súc, sản xuất giấy, hoặc làm phân compost. Giao hàng nhanh trong ngày.',
         co2SavingsKg: 15,
+        stockQuantity: 3000,
+        minOrderQuantity: 100,
     },
     {
         title: 'Xơ dừa đã xử lý',
@@ -47,9 +59,13 @@ const SAMPLE_PRODUCTS = [
         unit: 'kg',
         category: 'Phụ phẩm dừa',
         location: 'Bến Tre',
+        lat: 10.2434,
+        lng: 106.3756,
         imageUrl: 'https://images.unsplash.com/photo-1560493676-04071c5f467b?w=800',
         description: 'Xơ dừa đã được rửa sạch, phơi khô, cắt nhỏ. Dùng làm giá thể trồng cây, lọc nước, hoặc sản xuất thảm. Chất lượng xuất khẩu.',
         co2SavingsKg: 20,
+        stockQuantity: 1200,
+        minOrderQuantity: 20,
     },
     {
         title: 'Vỏ cà phê khô',
@@ -57,9 +73,13 @@ const SAMPLE_PRODUCTS = [
         unit: 'kg',
         category: 'Phụ phẩm cà phê',
         location: 'Đắk Lắk',
+        lat: 12.6667,
+        lng: 108.05,
         imageUrl: 'https://images.unsplash.com/photo-1447933601403-0c6688de566e?w=800',
         description: 'Vỏ cà phê khô từ vụ thu hoạch. Giàu chất hữu cơ, phù hợp làm phân bón, lót chuồng, hoặc đốt sinh khối. Số lượng lớn từ 500kg.',
         co2SavingsKg: 10,
+        stockQuantity: 2500,
+        minOrderQuantity: 500,
     },
     {
         title: 'Lá mía khô băm nhỏ',
@@ -67,9 +87,13 @@ const SAMPLE_PRODUCTS = [
         unit: 'kg',
         category: 'Bã mía',
         location: 'Tây Ninh',
+        lat: 11.3352,
+        lng: 106.1099,
         imageUrl: 'https://images.unsplash.com/photo-1416879595882-3373a0480b5b?w=800',
         description: 'Lá mía đã phơi khô và băm nhỏ. Dùng làm thức ăn trâu bò, phủ đất giữ ẩm, hoặc ủ phân hữu cơ. Đóng bao 50kg tiện vận chuyển.',
         co2SavingsKg: 7,
+        stockQuantity: 4000,
+        minOrderQuantity: 50,
     },
     {
         title: 'Mùn cưa gỗ keo',
@@ -77,9 +101,13 @@ const SAMPLE_PRODUCTS = [
         unit: 'kg',
         category: 'Mùn cưa',
         location: 'Bình Dương',
+        lat: 10.9804,
+        lng: 106.6519,
         imageUrl: 'https://images.unsplash.com/photo-1558618666-fcd25c85cd64?w=800',
         description: 'Mùn cưa gỗ keo sạch từ xưởng chế biến gỗ. Dùng làm viên nén sinh khối, lót chuồng, hoặc trồng nấm. Không lẫn tạp chất.',
         co2SavingsKg: 18,
+        stockQuantity: 6000,
+        minOrderQuantity: 100,
     },
     {
         title: 'Bã sắn công nghiệp',
@@ -87,9 +115,13 @@ const SAMPLE_PRODUCTS = [
         unit: 'kg',
         category: 'Bã sắn',
         location: 'Bình Phước',
+        lat: 11.7512,
+        lng: 106.7235,
         imageUrl: 'https://images.unsplash.com/photo-1518977676601-b53f82ber43e?w=800',
         description: 'Bã sắn từ nhà máy tinh bột. Hàm lượng tinh bột còn lại cao, phù hợp làm thức ăn chăn nuôi hoặc ủ men sinh học.',
         co2SavingsKg: 14,
+        stockQuantity: 10000,
+        minOrderQuantity: 200,
     },
     {
         title: 'Than trấu ép viên',
@@ -97,9 +129,13 @@ const SAMPLE_PRODUCTS = [
         unit: 'kg',
         category: 'Vỏ trấu',
         location: 'Long An',
+        lat: 10.5356,
+        lng: 106.4137,
         imageUrl: 'https://images.unsplash.com/photo-1473448912268-2022ce9509d8?w=800',
         description: 'Than trấu đã ép viên, nhiệt lượng cao, ít khói. Thay thế than củi trong nấu ăn, sưởi ấm. Đóng gói 25kg.',
         co2SavingsKg: 25,
+        stockQuantity: 1500,
+        minOrderQuantity: 25,
     },
     {
         title: 'Rơm cuộn tròn - Sẵn vận chuyển',
@@ -107,9 +143,13 @@ const SAMPLE_PRODUCTS = [
         unit: 'cuộn',
         category: 'Rơm rạ',
         location: 'Thái Bình',
+        lat: 20.4463,
+        lng: 106.3366,
         imageUrl: 'https://images.unsplash.com/photo-1499529112087-3cb3b73cec95?w=800',
         description: 'Rơm đã cuộn tròn bằng máy, mỗi cuộn khoảng 15kg. Tiện lợi cho vận chuyển và bảo quản. Số lượng lớn có giảm giá.',
         co2SavingsKg: 15,
+        stockQuantity: 0,
+        minOrderQuantity: 1,
     },
     {
         title: 'Vỏ lạc (đậu phộng) khô',
@@ -117,9 +157,13 @@ const SAMPLE_PRODUCTS = [
         unit: 'kg',
         category: 'Phụ phẩm khác',
         location: 'Nghệ An',
+        lat: 18.6796,
+        lng: 105.6813,
         imageUrl: 'https://images.unsplash.com/photo-1567892320421-1c657571ea4a?w=800',
         description: 'Vỏ lạc đã phơi khô, sạch. Dùng làm nhiên liệu đốt, lót chuồng, hoặc ủ phân bón. Giàu cellulose và lignin.',
         co2SavingsKg: 6,
+        stockQuantity: 2000,
+        minOrderQuantity: 50,
     },
     {
         title: 'Bã đậu nành tươi',
@@ -127,9 +171,13 @@ const SAMPLE_PRODUCTS = [
         unit: 'kg',
         category: 'Phụ phẩm khác',
         location: 'Hồ Chí Minh',
+        lat: 10.8231,
+        lng: 106.6297,
         imageUrl: 'https://images.unsplash.com/photo-1586201375761-83865001e31c?w=800',
         description: 'Bã đậu nành từ xưởng làm đậu hũ. Giàu protein, phù hợp làm thức ăn gia súc, gia cầm. Giao hàng sáng sớm hàng ngày.',
         co2SavingsKg: 5,
+        stockQuantity: 800,
+        minOrderQuantity: 20,
     },
 ];
 
@@ -146,11 +194,15 @@ async function main() {
             email: 'seller@eco-byproduct.vn',
             name: 'Nông Dân Xanh',
             passwordHash,
+            emailVerifiedAt: new Date(),
         },
     });
 
     console.log(`✅ Demo seller: ${demoSeller.email}`);
 
+    // Không seed tài khoản quản trị với mật khẩu mẫu
+    console.log('ℹ️  Bổ nhiệm quản trị viên: npm run user:role -- <email> ADMIN');
+
     // Xóa sản phẩm cũ của seller này (nếu có)
     await prisma.product.deleteMany({
         where: { sellerId: demoSeller.id },
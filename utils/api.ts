@@ -5,3 +5,49 @@ export function getApiUrl(endpoint: string): string {
     const path = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
     return `${API_BASE_URL}${path}`;
 }
+
+// Sent with 401 when the access token is missing or expired. Other 401s (a
+// wrong password or code) must not trigger a refresh and retry.
+const UNAUTHENTICATED = 'UNAUTHENTICATED';
+
+let refreshing: Promise<boolean> | null = null;
+
+/**
+ * Trade the refresh cookie for a new access token. Concurrent callers share
+ * one request. Resolves to false when the session is gone (signed out).
+ */
+export function refreshSession(): Promise<boolean> {
+    if (!refreshing) {
+        refreshing = window
+            .fetch(getApiUrl('auth/refresh'), { method: 'POST' })
+            .then((res) => res.ok)
+            .catch(() => false)
+            .finally(() => {
+                refreshing = null;
+            });
+    }
+    return refreshing;
+}
+
+/**
+ * Access tokens live 15 minutes. Wrap `fetch` so an API call that fails with
+ * 401 refreshes the session once and is retried, without every page handling it.
+ */
+export function installAuthRefresh() {
+    const originalFetch = window.fetch.bind(window);
+    window.fetch = async (input, init) => {
+        const res = await originalFetch(input, init);
+        if (res.status !== 401) return res;
+
+        const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        if (!url.startsWith(getApiUrl(''))) return res;
+        // A Request body can only be read once; plain URL calls are the norm here.
+        if (input instanceof Request) return res;
+
+        const body = (await res.clone().json().catch(() => null)) as { code?: string } | null;
+        if (body?.code !== UNAUTHENTICATED) return res;
+
+        if (!(await refreshSession())) return res;
+        return originalFetch(input, init);
+    };
+}
@@ -0,0 +1,111 @@
+import { useEffect, useRef } from 'react';
+import { getApiUrl, refreshSession } from './api';
+
+// Mirrors backend/src/lib/realtime.ts. 'orders', 'messages' and 'notifications' need a signed-in user.
+export type RealtimeTopic = 'pollution' | 'posts' | 'events' | 'orders' | 'messages' | 'notifications';
+
+export interface RealtimeEvent<T = any> {
+    topic: RealtimeTopic;
+    type: string;
+    data: T;
+}
+
+interface Listener {
+    topics: RealtimeTopic[];
+    onEvent: (event: RealtimeEvent) => void;
+    onReconnect?: () => void;
+}
+
+// Every component shares one EventSource subscribed to the union of their topics,
+// so several live widgets on a page don't each hold a connection open.
+const listeners = new Set<Listener>();
+let source: EventSource | null = null;
+let sourceTopics = '';
+let syncScheduled = false;
+
+// `resumed`: replacing a stream that was cut off, so listeners must refetch once open.
+function connect(topics: string, resumed = false) {
+    let opened = false;
+    const es = new EventSource(getApiUrl(`realtime?topics=${topics}`), { withCredentials: true });
+
+    es.onmessage = (msg) => {
+        let event: RealtimeEvent;
+        try {
+            event = JSON.parse(msg.data);
+        } catch {
+            return;
+        }
+        listeners.forEach((l) => l.topics.includes(event.topic) && l.onEvent(event));
+    };
+
+    // Events are not replayed after a dropped connection: let listeners refetch.
+    es.onopen = () => {
+        if (opened || resumed) listeners.forEach((l) => l.onReconnect?.());
+        opened = true;
+    };
+
+    // The browser retries dropped connections itself, but gives up for good on an
+    // error response, e.g. 401 once the access token has expired. Refresh and reopen.
+    es.onerror = () => {
+        if (es.readyState !== EventSource.CLOSED) return;
+        // This already was the retry and it never opened: give up until topics change.
+        if (resumed && !opened) return;
+        refreshSession().then((ok) => {
+            if (ok && source === es) source = connect(topics, true);
+        });
+    };
+
+    return es;
+}
+
+function sync() {
+    syncScheduled = false;
+    const topics = [...new Set([...listeners].flatMap((l) => l.topics))].sort().join(',');
+    if (topics === sourceTopics) return;
+
+    source?.close();
+    sourceTopics = topics;
+    source = topics ? connect(topics) : null;
+}
+
+// Batch subscribe/unsubscribe calls from one render into a single reconnect.
+function scheduleSync() {
+    if (syncScheduled) return;
+    syncScheduled = true;
+    queueMicrotask(sync);
+}
+
+/**
+ * Receive live events for `topics` while the component is mounted.
+ * Pass `enabled = false` (e.g. while signed out) to skip private topics.
+ */
+export function useRealtime(
+    topics: RealtimeTopic[],
+    onEvent: (event: RealtimeEvent) => void,
+    options: { enabled?: boolean; onReconnect?: () => void } = {},
+) {
+    const { enabled = true } = options;
+
+    // Keep the latest callbacks without resubscribing on every render.
+    const onEventRef = useRef(onEvent);
+    const onReconnectRef = useRef(options.onReconnect);
+    onEventRef.current = onEvent;
+    onReconnectRef.current = options.onReconnect;
+
+    const topicsKey = topics.join(',');
+
+    useEffect(() => {
+        if (!enabled || !topicsKey) return;
+        const listener: Listener = {
+            topics: topicsKey.split(',') as RealtimeTopic[],
+            onEvent: (event) => onEventRef.current(event),
+            onReconnect: () => onReconnectRef.current?.(),
+        };
+        listeners.add(listener);
+        scheduleSync();
+        return () => {
+            listeners.delete(listener);
+            scheduleSync();
+        };
+    }, [topicsKey, enabled]);
+}
@@ -0,0 +1,17 @@
+import { getApiUrl } from './api';
+
+// Save or unsave a product for the signed-in user. Throws with the server's message on failure.
+export async function setProductSaved(productId: string, saved: boolean): Promise<void> {
+    const res = saved
+        ? await fetch(getApiUrl('wishlist'), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ productId }),
+        })
+        : await fetch(getApiUrl(`wishlist/${productId}`), { method: 'DELETE' });
+
+    if (!res.ok) {
+        const data = (await res.json().catch(() => null)) as any;
+        throw new Error(data?.error ?? 'Không cập nhật được danh sách đã lưu');
+    }
+}